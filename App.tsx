@@ -1,9 +1,46 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { AppMode, AnalysisData, User, HistoryItem, TargetMarket } from './types';
-import { analyzeProduct, generateProductVideo, editProductImage, enhanceVideoPrompt, generateSkuUiLayout, translateSkuHtml, generateBatchAssets, generateHeroHtml } from './services/gemini';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { AppMode, AnalysisData, User, HistoryItem, HistoryItemMeta, HistoryPayload, TargetMarket, ProductImage, BatchImage, CalculatorScenario, ContentLanguage, PageVariants, ProductWorkspace, GeneratedPage, BackgroundJob, BackgroundJobKind } from './types';
+import { analyzeProduct, editProductImage, enhanceVideoPrompt, translateSkuHtml, regenerateSkuSection, getMainImage } from './services/gemini';
+import { AnalysisSchemaError } from './services/analysisSchema';
 import { LiveAgent } from './components/LiveAgent';
 import { LoginModal } from './components/LoginModal';
 import { LogisticsCalculator } from './components/LogisticsCalculator';
+import { MarketComparison, ComparisonColumn } from './components/MarketComparison';
+import { ProductImageUploader } from './components/ProductImageUploader';
+import { ReportDocument } from './components/ReportDocument';
+import { CitationMarker } from './components/CitationMarker';
+import { parseCitationMarker } from './services/citations';
+import { ReportFormat, ReportExportInput, exportReportMarkdown, exportReportDocx, exportReportPdf } from './services/reportExport';
+import { StorageUsage, loadHistory, loadHistoryPayload, saveHistoryItem, deleteHistoryItems, updateHistoryMeta, updateHistoryPayload, getStorageUsage, formatBytes } from './services/historyStore';
+import { HISTORY_SCHEMA_VERSION, HistoryMigrationError, assertNever, getPayloadMode, getPayloadOrigin, getPayloadSearchText } from './services/historyPayload';
+import { HistoryPanel } from './components/HistoryPanel';
+import { ProductList } from './components/ProductList';
+import { createProductWorkspace, loadProducts, saveProducts, deleteProduct } from './services/productStore';
+import { BundleError, BUNDLE_FILE_EXTENSION, buildWorkspaceBundle, downloadWorkspaceBundle, readWorkspaceBundle } from './services/workspaceBundle';
+import { AiSettings, getAiSettings, saveAiSettings } from './services/aiSettings';
+import { SettingsPanel } from './components/SettingsPanel';
+import { RequestOptions, describeRequestError, isCancelledError } from './services/requestControl';
+import { RetryCountdown, RetryNotice } from './components/RetryCountdown';
+import { cancelJob, markJobAttached, markMarketSaved, resumeJob, retryJob, startJob, subscribeJobs } from './services/jobCenter';
+import { deleteJobs, loadJobs } from './services/jobStore';
+import { JobCenter } from './components/JobCenter';
+import { CacheHit } from './services/responseCache';
+import { CachedBadge } from './components/CachedBadge';
+import { ResponseCachePanel } from './components/ResponseCachePanel';
+import { PromptTemplatePanel } from './components/PromptTemplatePanel';
+import { LanguageVariantBar } from './components/LanguageVariantBar';
+import { SandboxedHtml, SandboxedHtmlHandle, TextSelection } from './components/SandboxedHtml';
+import { PageEditToolbar } from './components/PageEditToolbar';
+import { UndoStack, createUndoStack, pushUndo, undoStep, redoStep } from './services/undoStack';
+import { SkuSectionOutline } from './components/SkuSectionOutline';
+import { renderSkuLayoutHtml } from './components/SkuLayoutRenderer';
+import { SkuAutoFillDialog } from './components/SkuAutoFillDialog';
+import { SkuFillCandidate, SkuFillProposal, SkuImageSlotInfo, collectFillCandidates, fillSkuImageSlots, listSkuImageSlots, proposeSkuImageFill } from './services/skuImageSlots';
+import { duplicateSkuSection, getSkuSection, listSkuSections, moveSkuSection, outlineSkuSections, removeSkuSection, replaceSkuSection } from './services/skuSections';
+import { BudgetExceededError, UsageAttribution } from './services/usageStore';
+import { HERO_STYLES, SKU_STYLES } from './services/promptTemplates';
+import { MARKET_PROFILES, getMarketProfile } from './services/marketProfiles';
+import { UsageDashboard, formatUsd } from './components/UsageDashboard';
 import { toPng } from 'html-to-image';
 import { 
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer 
@@ -12,7 +49,6 @@ import {
   LayoutDashboard, 
   Video, 
   Wand2, 
-  Upload, 
   Search, 
   Loader2, 
   CheckCircle2,
@@ -30,7 +66,6 @@ import {
   Bot,
   Film,
   LogIn,
-  History,
   Clock,
   LogOut,
   LayoutTemplate,
@@ -43,12 +78,18 @@ import {
   Calculator,
   Download,
   Image as ImageIcon,
-  PenLine,
-  Languages,
   Grid,
   Layers,
   Layout,
-  Map
+  Map,
+  Star,
+  Upload,
+  Columns,
+  AlertTriangle,
+  FileDown,
+  Settings,
+  FlaskConical,
+  Coins
 } from 'lucide-react';
 
 const LOADING_MESSAGES = [
@@ -59,33 +100,119 @@ const LOADING_MESSAGES = [
   "视频即将生成，请耐心等待..."
 ];
 
-const MARKETS: {code: TargetMarket, name: string, flag: string}[] = [
-    { code: 'TH', name: '泰国', flag: '🇹🇭' },
-    { code: 'VN', name: '越南', flag: '🇻🇳' },
-    { code: 'PH', name: '菲律宾', flag: '🇵🇭' },
-    { code: 'MY', name: '马来西亚', flag: '🇲🇾' },
-    { code: 'SG', name: '新加坡', flag: '🇸🇬' },
-    { code: 'ID', name: '印尼', flag: '🇮🇩' },
-];
+
+const SESSION_STORAGE_KEY = 'jzt_current_user';
+// Page edits are written back into their history entry once typing pauses this long
+const AUTOSAVE_DELAY_MS = 1500;
+
+// Requests with a cancel button; starting one aborts any earlier request of the same kind.
+// Longer generations run as background jobs instead (services/jobCenter.ts).
+type CancellableTask = 'analysis' | 'image' | 'translate' | 'section';
+
+const TASK_LABELS: Record<CancellableTask, string> = {
+  analysis: '市场分析',
+  image: '图片生成',
+  translate: '翻译',
+  section: '区块重写',
+};
+
+const lastOf = <T,>(list: T[]): T | undefined => list[list.length - 1];
+
+// Fold editor changes (manual edits, translation, image insertion, language switches) into the page that is open
+const withCurrentPage = (pages: GeneratedPage[], html: string | null, language: ContentLanguage, variants: PageVariants): GeneratedPage[] => {
+  const current = lastOf(pages);
+  if (!html || !current) return pages;
+  const merged: PageVariants = { ...variants, [language]: html };
+  const codes = Object.keys(merged) as ContentLanguage[];
+  const unchanged = current.html === html && current.language === language
+    && codes.length === Object.keys(current.variants).length
+    && codes.every(code => current.variants[code] === merged[code]);
+  return unchanged ? pages : [...pages.slice(0, -1), { ...current, html, language, variants: merged }];
+};
+
+// One step in an open page's undo history; translation toggles change the language as well
+interface PageSnapshot {
+  html: string;
+  language: ContentLanguage;
+}
+
+// Every change to an open page is an undo step; a null history starts over from the page as it is
+const recordPageEdit = (edits: UndoStack<PageSnapshot> | null, html: string | null, language: ContentLanguage) => {
+  if (html === null) return null;
+  if (!edits) return createUndoStack({ html, language });
+  const { present } = edits;
+  return present.html === html && present.language === language ? edits : pushUndo(edits, { html, language });
+};
+
+type EditablePage = 'hero' | 'sku';
+
+// History entries an open page was recorded as, per language, with the HTML last saved into each
+type PageEntries = Partial<Record<ContentLanguage, { id: string; html: string; style: string }>>;
+
+const pageEntry = (id: string | undefined, html: string, language: ContentLanguage, style: string): PageEntries =>
+  id ? { [language]: { id, html, style } } : {};
+
+const newPage = (html: string, language: ContentLanguage, style: string): GeneratedPage => ({
+  id: Math.random().toString(36).substr(2, 9),
+  html,
+  language,
+  variants: { [language]: html },
+  style,
+  createdAt: Date.now()
+});
+
+const loadSessionUser = (): User | null => {
+  try {
+    const raw = localStorage.getItem(SESSION_STORAGE_KEY);
+    return raw ? JSON.parse(raw) as User : null;
+  } catch {
+    return null;
+  }
+};
 
 const App: React.FC = () => {
   const [activeMode, setActiveMode] = useState<AppMode>(AppMode.ANALYSIS);
   const [currentMarket, setCurrentMarket] = useState<TargetMarket>('PH'); // Default Market
+  const [aiSettings, setAiSettings] = useState<AiSettings>(getAiSettings);
+  const requestControllers = useRef<Partial<Record<CancellableTask, AbortController>>>({});
+  const [retryNotice, setRetryNotice] = useState<(RetryNotice & { task: CancellableTask }) | null>(null);
+  const [jobs, setJobs] = useState<BackgroundJob[]>([]);
+  // Results served from the response cache, keyed by the value on screen; `refresh` re-runs the request uncached
+  const [cachedResults, setCachedResults] = useState<Map<AnalysisData | string, { cachedAt: number; refresh: () => void }>>(() => new Map());
   
   // User & Auth State
-  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [currentUser, setCurrentUser] = useState<User | null>(loadSessionUser);
   const [isLoginModalOpen, setIsLoginModalOpen] = useState(false);
   const [history, setHistory] = useState<HistoryItem[]>([]);
-
-  const [selectedImage, setSelectedImage] = useState<string | null>(null);
-  const [mimeType, setMimeType] = useState<string>('image/jpeg');
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [sidebarTab, setSidebarTab] = useState<'products' | 'history'>('products');
+  const [isBundleBusy, setIsBundleBusy] = useState(false);
+  const bundleInputRef = useRef<HTMLInputElement>(null);
+
+  // Product workspaces. The editor state below always mirrors the active product;
+  // with no active product the editor is a scratch space.
+  const [products, setProducts] = useState<ProductWorkspace[]>([]);
+  const [activeProductId, setActiveProductId] = useState<string | null>(null);
+  const activeProductIdRef = useRef<string | null>(null);
+  activeProductIdRef.current = activeProductId;
+  const dirtyProductIds = useRef<Set<string>>(new Set());
+
+  const [productImages, setProductImages] = useState<ProductImage[]>([]);
+  const mainImage = getMainImage(productImages);
+  const selectedImage = mainImage ? mainImage.dataUrl : null;
+  const mimeType = mainImage ? mainImage.mimeType : 'image/jpeg';
   const [prompt, setPrompt] = useState('');
   
   // State for different features
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analysisResult, setAnalysisResult] = useState<AnalysisData | null>(null);
+  const [analysisView, setAnalysisView] = useState<'single' | 'compare'>('single');
+  const [compareMarkets, setCompareMarkets] = useState<TargetMarket[]>(MARKET_PROFILES.map(m => m.code));
+  const [comparisonColumns, setComparisonColumns] = useState<ComparisonColumn[]>([]);
+  const [comparisonJobId, setComparisonJobId] = useState<string | null>(null); // job feeding the comparison columns
+  const [exportingFormat, setExportingFormat] = useState<ReportFormat | null>(null);
+  const [pdfReportInput, setPdfReportInput] = useState<ReportExportInput | null>(null);
   
-  const [isGeneratingVideo, setIsGeneratingVideo] = useState(false);
   const [generatedVideoUrl, setGeneratedVideoUrl] = useState<string | null>(null);
   const [videoAspectRatio, setVideoAspectRatio] = useState<'16:9' | '9:16'>('16:9');
   const [isEnhancingPrompt, setIsEnhancingPrompt] = useState(false);
@@ -95,22 +222,36 @@ const App: React.FC = () => {
   const [creativeTab, setCreativeTab] = useState<'hero' | 'image' | 'sku'>('hero');
   const [isEditingImage, setIsEditingImage] = useState(false);
   const [editedImageUrl, setEditedImageUrl] = useState<string | null>(null);
-  const [batchImages, setBatchImages] = useState<Array<{ id: string; label: string; url: string }>>([]); 
-  const [isBatchGenerating, setIsBatchGenerating] = useState(false);
-  const [isGeneratingSku, setIsGeneratingSku] = useState(false);
+  const [batchImages, setBatchImages] = useState<BatchImage[]>([]); 
   const [skuHtml, setSkuHtml] = useState<string | null>(null);
   const [skuRenderKey, setSkuRenderKey] = useState(0);
   const [skuStyle, setSkuStyle] = useState<string>('Classic Conversion');
-  const [skuLanguage, setSkuLanguage] = useState<'zh' | 'th' | 'ph'>('zh');
+  const [skuLanguage, setSkuLanguage] = useState<ContentLanguage>('zh');
+  const [skuVariants, setSkuVariants] = useState<PageVariants>({}); // other languages of the open page
   const [isGeneratingSkuImage, setIsGeneratingSkuImage] = useState(false);
-  const [isTranslating, setIsTranslating] = useState(false);
+  const [translatingTo, setTranslatingTo] = useState<ContentLanguage | null>(null);
+  const [regeneratingSection, setRegeneratingSection] = useState<number | null>(null);
+  const [autoFill, setAutoFill] = useState<{ slots: SkuImageSlotInfo[]; candidates: SkuFillCandidate[]; proposals: SkuFillProposal[] } | null>(null);
+  const skuSections = useMemo(() => skuHtml ? listSkuSections(skuHtml) : [], [skuHtml]);
+  const isTranslating = translatingTo !== null;
 
   // Hero Design State
-  const [isGeneratingHero, setIsGeneratingHero] = useState(false);
   const [heroHtml, setHeroHtml] = useState<string | null>(null);
   const [heroStyle, setHeroStyle] = useState<string>('Promotion');
-  const [heroLanguage, setHeroLanguage] = useState<'zh' | 'th' | 'ph'>('zh');
+  const [heroLanguage, setHeroLanguage] = useState<ContentLanguage>('zh');
+  const [heroVariants, setHeroVariants] = useState<PageVariants>({});
+
+  // Inline editing of the open hero and SKU pages
+  const [heroEdits, setHeroEdits] = useState<UndoStack<PageSnapshot> | null>(null);
+  const [skuEdits, setSkuEdits] = useState<UndoStack<PageSnapshot> | null>(null);
+  const [heroSelection, setHeroSelection] = useState<TextSelection | null>(null);
+  const [skuSelection, setSkuSelection] = useState<TextSelection | null>(null);
+  const pageEntries = useRef<Record<EditablePage, PageEntries>>({ hero: {}, sku: {} });
   
+  // Calculator scenario restored from history; the key remounts the calculator with it
+  const [calculatorScenario, setCalculatorScenario] = useState<CalculatorScenario | undefined>(undefined);
+  const [calculatorKey, setCalculatorKey] = useState(0);
+
   // Assets & SKU Image Replacement
   const [assets, setAssets] = useState<string[]>([]);
   const [selectedAsset, setSelectedAsset] = useState<string | null>(null);
@@ -119,10 +260,26 @@ const App: React.FC = () => {
   const [previewImage, setPreviewImage] = useState<string | null>(null);
   const [previewHtmlContent, setPreviewHtmlContent] = useState<string | null>(null);
 
-  const fileInputRef = useRef<HTMLInputElement>(null);
+  // A job of each kind running for the open product drives that tool's loading state
+  const runningJob = (kind: BackgroundJobKind) =>
+    jobs.find(job => job.kind === kind && job.status === 'running' && (job.productId ?? null) === activeProductId);
+  const videoJob = runningJob('video');
+  const batchJob = runningJob('batchImages');
+  const heroJob = runningJob('hero');
+  const skuJob = runningJob('sku');
+  const compareJob = runningJob('compare');
+  const isGeneratingVideo = !!videoJob;
+  const isBatchGenerating = !!batchJob;
+  const isGeneratingHero = !!heroJob;
+  const isGeneratingSku = !!skuJob;
+  const isComparing = !!compareJob;
+  const jobRetry = jobs.find(job => job.status === 'running' && job.retry);
+
   const assetInputRef = useRef<HTMLInputElement>(null);
-  const skuRef = useRef<HTMLDivElement>(null);
-  const heroRef = useRef<HTMLDivElement>(null);
+  const skuRef = useRef<SandboxedHtmlHandle>(null);
+  const heroRef = useRef<SandboxedHtmlHandle>(null);
+  const chartRef = useRef<HTMLDivElement>(null);
+  const reportRef = useRef<HTMLDivElement>(null);
 
   // Rotate loading messages
   useEffect(() => {
@@ -137,74 +294,720 @@ const App: React.FC = () => {
     return () => clearInterval(interval);
   }, [isGeneratingVideo]);
 
-  // Helper to add history
-  const addToHistory = (mode: AppMode, title: string, data: any, thumb?: string) => {
+  // PDF export: rasterise the off-screen report layout once it has rendered
+  useEffect(() => {
+    if (!pdfReportInput || !reportRef.current) return;
+    const node = reportRef.current;
+    (async () => {
+      try {
+        await new Promise(resolve => setTimeout(resolve, 200));
+        await exportReportPdf(node, pdfReportInput);
+      } catch (error) {
+        console.error("PDF export failed:", error);
+        alert("PDF 导出失败");
+      } finally {
+        setPdfReportInput(null);
+        setExportingFormat(null);
+      }
+    })();
+  }, [pdfReportInput]);
+
+  // Persist the session and load this user's stored history
+  useEffect(() => {
+    if (!currentUser) {
+      localStorage.removeItem(SESSION_STORAGE_KEY);
+      setHistory([]);
+      setStorageUsage(null);
+      setProducts([]);
+      // The account's jobs keep running; their results are attached at its next login
+      setJobs(prev => prev.filter(job => !job.userId));
+      handleNewProduct();
+      return;
+    }
+    localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(currentUser));
+    let cancelled = false;
+    Promise.all([loadHistory(currentUser.id), getStorageUsage(currentUser.id), loadProducts(currentUser.id), loadJobs(currentUser.id)])
+      .then(([items, usage, storedProducts, storedJobs]) => {
+        if (cancelled) return;
+        setHistory(items);
+        setStorageUsage(usage);
+        // Products created before logging in are adopted by the account
+        setProducts(prev => {
+          const unsaved = prev.filter(p => !storedProducts.some(stored => stored.id === p.id));
+          unsaved.forEach(p => dirtyProductIds.current.add(p.id));
+          return [...unsaved, ...storedProducts];
+        });
+        // Results that finished while signed out (or before a reload) are attached now
+        storedJobs.forEach(job => handleJobUpdate.current(job));
+        storedJobs.forEach(resumeJob);
+      })
+      .catch(error => console.error("Failed to load history:", error));
+    return () => { cancelled = true; };
+  }, [currentUser]);
+
+  // Persist changed products shortly after the last edit
+  useEffect(() => {
+    if (!currentUser || dirtyProductIds.current.size === 0) return;
+    const userId = currentUser.id;
+    const timer = setTimeout(() => {
+      const dirty = products.filter(p => dirtyProductIds.current.has(p.id));
+      dirtyProductIds.current.clear();
+      saveProducts(userId, dirty).catch(error => console.error("Failed to save products:", error));
+    }, 800);
+    return () => clearTimeout(timer);
+  }, [products, currentUser]);
+
+  const patchProduct = (id: string | null, patch: (product: ProductWorkspace) => Partial<ProductWorkspace>) => {
+    if (!id) return;
+    setProducts(prev => prev.map(product => {
+      if (product.id !== id) return product;
+      const changes = patch(product);
+      const changed = (Object.keys(changes) as (keyof ProductWorkspace)[]).some(key => changes[key] !== product[key]);
+      if (!changed) return product;
+      dirtyProductIds.current.add(id);
+      return { ...product, ...changes, updatedAt: Date.now() };
+    }));
+  };
+
+  // Async jobs only write back into the editor if their product is still the one open
+  const isProductActive = (id: string | null) => activeProductIdRef.current === id;
+
+  const alertBudgetExceeded = (error: BudgetExceededError) => {
+    alert(`今日预估花费 ${formatUsd(error.spent)} 已达到每日预算 ${formatUsd(error.budget)}，新任务已暂停。\n可在「用量与成本」中调整预算。`);
+  };
+
+  // Resolves to null when the daily budget blocked the job
+  const launchJob = async (spec: Parameters<typeof startJob>[0]) => {
+    try {
+      const job = await startJob(spec);
+      setJobs(prev => [job, ...prev.filter(j => j.id !== job.id)]);
+      return job;
+    } catch (error) {
+      if (!(error instanceof BudgetExceededError)) throw error;
+      alertBudgetExceeded(error);
+      return null;
+    }
+  };
+
+  const handleRetryJob = (job: BackgroundJob) => {
+    retryJob(job).catch(error => {
+      if (error instanceof BudgetExceededError) alertBudgetExceeded(error);
+      else console.error("Failed to retry job:", error);
+    });
+  };
+
+  // Same page generation again, bypassing the response cache
+  const relaunchUncached = (job: Extract<BackgroundJob, { kind: 'hero' | 'sku' }>) =>
+    launchJob({
+      kind: job.kind,
+      title: job.title,
+      userId: job.userId,
+      productId: job.productId,
+      market: job.market,
+      input: { ...job.input, forceRefresh: true }
+    });
+
+  const columnsFromJob = (job: Extract<BackgroundJob, { kind: 'compare' }>): ComparisonColumn[] =>
+    MARKET_PROFILES.filter(m => job.input.markets.includes(m.code)).map(m => {
+      const data = job.result?.analyses[m.code];
+      const error = job.result?.errors[m.code] || (job.status === 'cancelled' ? '已取消' : job.status === 'failed' ? '分析失败' : undefined);
+      return {
+        id: m.code,
+        code: m.code,
+        name: m.name,
+        flag: m.flag,
+        status: data ? 'done' : error ? 'error' : 'loading',
+        data,
+        error,
+        saved: !!job.savedMarkets?.includes(m.code)
+      };
+    });
+
+  const getJobThumbnail = (job: BackgroundJob) =>
+    'image' in job.input ? job.input.image.dataUrl : getMainImage(job.input.images)?.dataUrl;
+
+  /**
+   * Write a finished job's result into its product, the editor (if that product is open) and history.
+   */
+  const attachJobResult = (job: BackgroundJob) => {
+    const productId = job.productId ?? null;
+    const record = (title: string, payload: HistoryPayload, market: TargetMarket = job.market) =>
+      addToHistory(title, payload, getJobThumbnail(job), market, productId);
+
+    switch (job.kind) {
+      case 'video': {
+        if (!job.result) break;
+        const { videoUrl } = job.result;
+        const { aspectRatio } = job.input;
+        const video = { id: Math.random().toString(36).substr(2, 9), url: videoUrl, aspectRatio, createdAt: Date.now() };
+        patchProduct(productId, p => ({ videos: [...p.videos, video] }));
+        if (isProductActive(productId)) {
+          setGeneratedVideoUrl(videoUrl);
+          setVideoAspectRatio(aspectRatio);
+        }
+        record(`Veo 视频 (${aspectRatio})`, { kind: 'video', videoUrl, aspectRatio });
+        break;
+      }
+      case 'batchImages': {
+        if (!job.result) break;
+        const { images } = job.result;
+        const newUrls = images.map(image => image.url);
+        if (isProductActive(productId)) {
+          setBatchImages(images);
+          setEditedImageUrl(null);
+          setAssets(prev => [...prev, ...newUrls]);
+          setSelectedAsset(newUrls[0]);
+        } else {
+          patchProduct(productId, p => ({ batchImages: images, editedImageUrl: null, assets: [...p.assets, ...newUrls] }));
+        }
+        record(`全套 SKU 配图 (${images.length})`, { kind: 'batchSet', images });
+        break;
+      }
+      case 'hero': {
+        if (!job.result) break;
+        const { html } = job.result;
+        const { style } = job.input;
+        patchProduct(productId, p => ({ heroDesigns: [...p.heroDesigns, newPage(html, 'zh', style)] }));
+        const payload: HistoryPayload = { kind: 'hero', html, language: 'zh', style };
+        if (job.result.cachedAt) markCached(html, job.result.cachedAt, () => relaunchUncached(job));
+        const entryId = job.result.cachedAt ? findPageEntry(payload) : record(`产品首图 (${style})`, payload);
+        if (isProductActive(productId)) {
+          setHeroHtml(html);
+          setHeroLanguage('zh');
+          setHeroVariants({});
+          setHeroEdits(null);
+          pageEntries.current.hero = pageEntry(entryId, html, 'zh', style);
+        }
+        break;
+      }
+      case 'sku': {
+        if (!job.result) break;
+        const html = 'layout' in job.result ? renderSkuLayoutHtml(job.result.layout) : job.result.html;
+        const { style } = job.input;
+        patchProduct(productId, p => ({ skuPages: [...p.skuPages, newPage(html, 'zh', style)] }));
+        const payload: HistoryPayload = { kind: 'skuPage', html, language: 'zh', style };
+        if (job.result.cachedAt) markCached(html, job.result.cachedAt, () => relaunchUncached(job));
+        const entryId = job.result.cachedAt ? findPageEntry(payload) : record(`SKU 详情页 (${style})`, payload);
+        if (isProductActive(productId)) {
+          setSkuHtml(html);
+          setSkuRenderKey(prev => prev + 1);
+          setSkuLanguage('zh');
+          setSkuVariants({});
+          setSkuEdits(null);
+          pageEntries.current.sku = pageEntry(entryId, html, 'zh', style);
+        }
+        break;
+      }
+      case 'compare': {
+        if (!job.result) break;
+        const analyses = job.result.analyses;
+        patchProduct(productId, p => ({ analyses: { ...p.analyses, ...analyses } }));
+        // Guests have no history; their columns stay saveable once they log in
+        const savedMarkets = (Object.keys(analyses) as TargetMarket[]).filter(market => {
+          const data = analyses[market]!;
+          const title = data.keywords.length > 0 ? data.keywords[0].term : "未命名产品分析";
+          return !!record(`${title} (${market})`, { kind: 'analysis', analysis: data }, market);
+        });
+        markJobAttached({ ...job, savedMarkets });
+        return;
+      }
+      default:
+        assertNever(job);
+    }
+    markJobAttached(job);
+  };
+
+  // Subscribed once; the ref always points at this render's handler so it sees current state
+  const handleJobUpdate = useRef<(job: BackgroundJob) => void>(() => undefined);
+  handleJobUpdate.current = (job: BackgroundJob) => {
+    // Another account's job is picked up at its next login; guest jobs follow the editor into an account
+    if (job.userId && job.userId !== currentUser?.id) return;
+    setJobs(prev => prev.some(j => j.id === job.id) ? prev.map(j => j.id === job.id ? job : j) : [job, ...prev]);
+    if (job.kind === 'compare' && job.id === comparisonJobId && isProductActive(job.productId ?? null)) {
+      setComparisonColumns(columnsFromJob(job));
+    }
+    if (job.status === 'done' && !job.attached) attachJobResult(job);
+  };
+
+  useEffect(() => subscribeJobs(job => handleJobUpdate.current(job)), []);
+
+  // Usage of requests made from the editor is recorded against the open product and mode
+  const usageAttribution = (): UsageAttribution => ({
+    userId: currentUser?.id,
+    productId: activeProductId || undefined,
+    mode: activeMode,
+  });
+
+  const beginRequest = (task: CancellableTask): RequestOptions => {
+    requestControllers.current[task]?.abort();
+    const controller = new AbortController();
+    requestControllers.current[task] = controller;
+    return {
+      signal: controller.signal,
+      onRetry: info => setRetryNotice({ ...info, task, label: TASK_LABELS[task], retryAt: Date.now() + info.delayMs }),
+      attribution: usageAttribution(),
+    };
+  };
+
+  const endRequest = (task: CancellableTask, options: RequestOptions) => {
+    if (requestControllers.current[task]?.signal !== options.signal) return; // superseded by a newer request
+    delete requestControllers.current[task];
+    setRetryNotice(prev => prev?.task === task ? null : prev);
+  };
+
+  const cancelRequest = (task: CancellableTask) => requestControllers.current[task]?.abort();
+
+  const markCached = (value: AnalysisData | string, cachedAt: number, refresh: () => void) => {
+    setCachedResults(prev => new Map(prev).set(value, { cachedAt, refresh }));
+  };
+
+  // Mirror editor state into the active product
+  useEffect(() => {
+    patchProduct(activeProductId, product => ({
+      images: productImages,
+      assets,
+      editedImageUrl,
+      batchImages,
+      heroDesigns: withCurrentPage(product.heroDesigns, heroHtml, heroLanguage, heroVariants),
+      skuPages: withCurrentPage(product.skuPages, skuHtml, skuLanguage, skuVariants)
+    }));
+  }, [productImages, assets, editedImageUrl, batchImages, heroHtml, heroLanguage, heroVariants, skuHtml, skuLanguage, skuVariants]);
+
+  useEffect(() => {
+    setHeroEdits(prev => recordPageEdit(prev, heroHtml, heroLanguage));
+  }, [heroHtml, heroLanguage, heroEdits === null]);
+
+  useEffect(() => {
+    setSkuEdits(prev => recordPageEdit(prev, skuHtml, skuLanguage));
+  }, [skuHtml, skuLanguage, skuEdits === null]);
+
+  const openProduct = (product: ProductWorkspace) => {
+    setActiveProductId(product.id);
+    setProductImages(product.images);
+    setAssets(product.assets);
+    setSelectedAsset(product.assets[0] || null);
+    setAnalysisResult(product.analyses[currentMarket] || Object.values(product.analyses)[0] || null);
+    setComparisonColumns([]);
+    setComparisonJobId(null);
+    setAnalysisView('single');
+    setEditedImageUrl(product.editedImageUrl);
+    setBatchImages(product.batchImages);
+
+    // Pages opened from the product have no history entry to save edits into
+    setHeroEdits(null);
+    setSkuEdits(null);
+    pageEntries.current = { hero: {}, sku: {} };
+
+    const hero = lastOf(product.heroDesigns);
+    setHeroHtml(hero?.html ?? null);
+    setHeroLanguage(hero?.language ?? 'zh');
+    setHeroVariants(hero?.variants ?? {});
+    if (hero) setHeroStyle(hero.style);
+
+    const sku = lastOf(product.skuPages);
+    setSkuHtml(sku?.html ?? null);
+    setSkuLanguage(sku?.language ?? 'zh');
+    setSkuVariants(sku?.variants ?? {});
+    if (sku) setSkuStyle(sku.style);
+    setSkuRenderKey(prev => prev + 1);
+
+    const video = lastOf(product.videos);
+    setGeneratedVideoUrl(video?.url ?? null);
+    if (video) setVideoAspectRatio(video.aspectRatio);
+
+    setCalculatorScenario(product.calculatorScenarios[currentMarket]);
+    setCalculatorKey(prev => prev + 1);
+  };
+
+  // Leave the current product untouched and start from an empty editor
+  const handleNewProduct = () => {
+    setActiveProductId(null);
+    setProductImages([]);
+    setAssets([]);
+    setSelectedAsset(null);
+    setCalculatorScenario(undefined);
+    setCalculatorKey(prev => prev + 1);
+    resetGeneratedResults();
+  };
+
+  const handleRenameProduct = (id: string, name: string) => {
+    patchProduct(id, () => ({ name }));
+  };
+
+  const handleDeleteProduct = (id: string) => {
+    setProducts(prev => prev.filter(p => p.id !== id));
+    dirtyProductIds.current.delete(id);
+    if (id === activeProductId) handleNewProduct();
+    deleteProduct(id).catch(error => console.error("Failed to delete product:", error));
+  };
+
+  // Helper to add history; returns the new item's id
+  const addToHistory = (title: string, payload: HistoryPayload, thumb?: string, market: TargetMarket = currentMarket, productId = activeProductId) => {
     if (!currentUser) return;
+    const userId = currentUser.id;
     const newItem: HistoryItem = {
-      id: Date.now().toString(),
+      id: crypto.randomUUID(), // several items can be recorded in the same tick
       timestamp: Date.now(),
-      mode,
+      mode: getPayloadMode(payload),
       title,
-      data,
       thumbnail: thumb || selectedImage || undefined,
-      market: currentMarket
+      schemaVersion: HISTORY_SCHEMA_VERSION,
+      payload,
+      searchText: getPayloadSearchText(payload),
+      origin: getPayloadOrigin(payload),
+      market,
+      productId: productId || undefined
     };
     setHistory(prev => [newItem, ...prev]);
+
+    saveHistoryItem(userId, newItem)
+      .then(async evicted => {
+        if (evicted.length > 0) setHistory(prev => prev.filter(item => !evicted.includes(item.id)));
+        setStorageUsage(await getStorageUsage(userId));
+      })
+      .catch(error => console.error("Failed to persist history item:", error));
+    return newItem.id;
   };
 
-  const restoreHistoryItem = (item: HistoryItem) => {
-    setActiveMode(item.mode);
+  // A page served from the response cache was recorded when first generated; reuse that entry
+  const findPageEntry = (payload: HistoryPayload) => {
+    const origin = getPayloadOrigin(payload);
+    return origin ? history.find(item => item.origin === origin)?.id : undefined;
+  };
+
+  // Write the open page back into the history entry it was recorded as, if it changed since
+  const autosavePage = (page: EditablePage, html: string | null, language: ContentLanguage) => {
+    const entry = pageEntries.current[page][language];
+    if (!currentUser || !html || !entry || entry.html === html) return;
+    entry.html = html;
+    const payload: HistoryPayload = page === 'hero'
+      ? { kind: 'hero', html, language, style: entry.style }
+      : { kind: 'skuPage', html, language, style: entry.style };
+    setHistory(prev => prev.map(item => item.id === entry.id
+      ? { ...item, payload: item.payload && payload, searchText: getPayloadSearchText(payload) }
+      : item));
+    updateHistoryPayload(currentUser.id, entry.id, payload).catch(error => console.error("Failed to save page edits:", error));
+  };
+
+  useEffect(() => {
+    const timer = setTimeout(() => autosavePage('hero', heroHtml, heroLanguage), AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [heroHtml, heroLanguage]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => autosavePage('sku', skuHtml, skuLanguage), AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [skuHtml, skuLanguage]);
+
+  // Items loaded from storage carry metadata only; fetch the payload on demand
+  const getHistoryPayload = async (item: HistoryItem): Promise<HistoryPayload | undefined> => {
+    if (!currentUser) return item.payload;
+    try {
+      return (await loadHistoryPayload(currentUser.id, item.id)) || item.payload;
+    } catch (error) {
+      console.error("Failed to load history item:", error);
+      if (error instanceof HistoryMigrationError) throw error;
+      return item.payload;
+    }
+  };
+
+  const restoreHistoryItem = async (item: HistoryItem) => {
+    let payload: HistoryPayload | undefined;
+    try {
+      payload = await getHistoryPayload(item);
+    } catch (error) {
+      alert(`该历史记录版本不受支持，无法恢复。\n${(error as Error).message}`);
+      return;
+    }
+    if (!payload) {
+      alert("该历史记录已失效");
+      return;
+    }
+
     if (item.market) setCurrentMarket(item.market); // Restore market context
-    if (item.thumbnail) {
-      setSelectedImage(item.thumbnail);
+
+    // Reopen the product the item came from; items without one restore into the scratch editor
+    const product: ProductWorkspace | undefined = products.find(p => p.id === item.productId);
+    if (product) {
+      if (product.id !== activeProductId) openProduct(product);
+    } else {
+      setActiveProductId(null);
+      if (item.thumbnail) {
+        setProductImages([imageFromDataUrl(item.thumbnail)]);
+      }
     }
-    
-    if (item.mode === AppMode.ANALYSIS) {
-      setAnalysisResult(item.data);
-    } else if (item.mode === AppMode.VEO_VIDEO) {
-      setGeneratedVideoUrl(item.data);
-    } else if (item.mode === AppMode.IMAGE_EDIT) {
-      const dataStr = item.data as string;
-      if (dataStr.trim().startsWith('<div')) {
-         setCreativeTab('sku');
-         setSkuHtml(dataStr);
-         setSkuRenderKey(prev => prev + 1);
-         setSkuLanguage('zh'); 
-         setBatchImages([]);
-         setEditedImageUrl(null);
+
+    switch (payload.kind) {
+      case 'analysis':
+        setActiveMode(AppMode.ANALYSIS);
+        setAnalysisView('single');
+        setAnalysisResult(payload.analysis);
+        break;
+      case 'video':
+        setActiveMode(AppMode.VEO_VIDEO);
+        setVideoAspectRatio(payload.aspectRatio);
+        setGeneratedVideoUrl(payload.videoUrl);
+        break;
+      case 'editedImage':
+        setActiveMode(AppMode.IMAGE_EDIT);
+        setCreativeTab('image');
+        setEditedImageUrl(payload.imageUrl);
+        setBatchImages([]);
+        break;
+      case 'batchSet':
+        setActiveMode(AppMode.IMAGE_EDIT);
+        setCreativeTab('image');
+        setEditedImageUrl(null);
+        setBatchImages(payload.images);
+        break;
+      case 'skuPage':
+        setActiveMode(AppMode.IMAGE_EDIT);
+        setCreativeTab('sku');
+        setSkuHtml(payload.html);
+        setSkuStyle(payload.style);
+        setSkuLanguage(payload.language);
+        setSkuRenderKey(prev => prev + 1);
+        setSkuEdits(null);
+        pageEntries.current.sku = pageEntry(item.id, payload.html, payload.language, payload.style);
+        // Reopening an older page makes it the product's current page instead of overwriting the latest one
+        const latestSku = product && lastOf(product.skuPages);
+        setSkuVariants(latestSku?.html === payload.html ? latestSku.variants : {});
+        if (product && latestSku?.html !== payload.html) {
+          const restored = newPage(payload.html, payload.language, payload.style);
+          patchProduct(product.id, p => ({ skuPages: [...p.skuPages, restored] }));
+        }
+        break;
+      case 'hero':
+        // Hero design lives in the creative studio's hero tab
+        setActiveMode(AppMode.IMAGE_EDIT);
+        setCreativeTab('hero');
+        setHeroHtml(payload.html);
+        setHeroStyle(payload.style);
+        setHeroLanguage(payload.language);
+        setHeroEdits(null);
+        pageEntries.current.hero = pageEntry(item.id, payload.html, payload.language, payload.style);
+        const latestHero = product && lastOf(product.heroDesigns);
+        setHeroVariants(latestHero?.html === payload.html ? latestHero.variants : {});
+        if (product && latestHero?.html !== payload.html) {
+          const restored = newPage(payload.html, payload.language, payload.style);
+          patchProduct(product.id, p => ({ heroDesigns: [...p.heroDesigns, restored] }));
+        }
+        break;
+      case 'calculatorScenario':
+        setActiveMode(AppMode.CALCULATOR);
+        setCalculatorScenario(payload.scenario);
+        setCalculatorKey(prev => prev + 1);
+        break;
+      default:
+        assertNever(payload);
+    }
+  };
+
+  const handleUpdateHistoryMeta = (id: string, meta: HistoryItemMeta) => {
+    if (!currentUser) return;
+    setHistory(prev => prev.map(item => item.id === id ? { ...item, ...meta } : item));
+    updateHistoryMeta(currentUser.id, id, meta).catch(error => console.error("Failed to update history item:", error));
+  };
+
+  const handleDeleteHistory = async (ids: string[]) => {
+    if (!currentUser) return;
+    setHistory(prev => prev.filter(item => !ids.includes(item.id)));
+    try {
+      await deleteHistoryItems(ids);
+      setStorageUsage(await getStorageUsage(currentUser.id));
+    } catch (error) {
+      console.error("Failed to delete history items:", error);
+    }
+  };
+
+  // Bundles carry full payloads, so stored items are hydrated first
+  const withPayloads = async (items: HistoryItem[]) => {
+    const hydrated: HistoryItem[] = [];
+    for (const item of items) {
+      try {
+        const payload = await getHistoryPayload(item);
+        if (payload) hydrated.push({ ...item, payload });
+      } catch (error) {
+        console.error(`Skipping history item ${item.id} in export:`, error);
+      }
+    }
+    return hydrated;
+  };
+
+  const exportBundle = async (bundleProducts: ProductWorkspace[], items: HistoryItem[], name: string) => {
+    setIsBundleBusy(true);
+    try {
+      const blob = await buildWorkspaceBundle({ products: bundleProducts, history: await withPayloads(items) });
+      downloadWorkspaceBundle(blob, name);
+    } catch (error) {
+      console.error("Bundle export failed:", error);
+      alert("导出失败");
+    } finally {
+      setIsBundleBusy(false);
+    }
+  };
+
+  const handleExportHistory = (ids: string[]) =>
+    exportBundle([], history.filter(item => ids.includes(item.id)), `jingzhitong-history-${new Date().toISOString().slice(0, 10)}`);
+
+  const handleExportProduct = (product: ProductWorkspace) =>
+    exportBundle([product], history.filter(item => item.productId === product.id), product.name);
+
+  const handleExportAll = () =>
+    exportBundle(products, history, `jingzhitong-workspace-${new Date().toISOString().slice(0, 10)}`);
+
+  const handleImportBundle = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (bundleInputRef.current) bundleInputRef.current.value = '';
+    if (!file) return;
+
+    setIsBundleBusy(true);
+    try {
+      const bundle = await readWorkspaceBundle(file, {
+        productIds: products.map(p => p.id),
+        historyIds: history.map(item => item.id)
+      });
+      bundle.products.forEach(p => dirtyProductIds.current.add(p.id));
+      setProducts(prev => [...bundle.products, ...prev]);
+
+      let importedHistory = 0;
+      if (currentUser) {
+        for (const item of bundle.history) {
+          await saveHistoryItem(currentUser.id, item);
+          importedHistory++;
+        }
+        setHistory(prev => [...bundle.history, ...prev].sort((a, b) => b.timestamp - a.timestamp));
+        setStorageUsage(await getStorageUsage(currentUser.id));
+      }
+
+      const notes = [`已导入 ${bundle.products.length} 个产品、${importedHistory} 条历史记录`];
+      if (!currentUser && bundle.history.length > 0) notes.push(`${bundle.history.length} 条历史记录需登录后导入`);
+      if (bundle.renamedIds > 0) notes.push(`${bundle.renamedIds} 项与现有记录 ID 冲突，已分配新 ID`);
+      alert(notes.join('\n'));
+    } catch (error) {
+      console.error("Bundle import failed:", error);
+      if (error instanceof BundleError) {
+        alert(`导入失败：文件格式不受支持。\n${error.issues.slice(0, 5).join('\n') || error.message}`);
       } else {
-         setCreativeTab('image');
-         setEditedImageUrl(dataStr);
-         setBatchImages([]);
+        alert("导入失败");
       }
-    } else if (item.mode === AppMode.HERO_DESIGN) {
+    } finally {
+      setIsBundleBusy(false);
+    }
+  };
+
+  // Jump to the product and tool a job belongs to
+  const handleOpenJob = (job: BackgroundJob) => {
+    const product = products.find(p => p.id === job.productId);
+    if (product && product.id !== activeProductId) openProduct(product);
+    if (job.productId && !product) {
+      alert("该任务所属的产品已删除");
+      return;
+    }
+    switch (job.kind) {
+      case 'video':
+        setActiveMode(AppMode.VEO_VIDEO);
+        if (job.result) {
+          setGeneratedVideoUrl(job.result.videoUrl);
+          setVideoAspectRatio(job.input.aspectRatio);
+        }
+        break;
+      case 'batchImages':
+        setActiveMode(AppMode.IMAGE_EDIT);
+        setCreativeTab('image');
+        if (job.result) {
+          setBatchImages(job.result.images);
+          setEditedImageUrl(null);
+        }
+        break;
+      case 'hero':
         setActiveMode(AppMode.IMAGE_EDIT);
         setCreativeTab('hero');
-        setHeroHtml(item.data);
-        setHeroLanguage('zh');
+        break;
+      case 'sku':
+        setActiveMode(AppMode.IMAGE_EDIT);
+        setCreativeTab('sku');
+        break;
+      case 'compare':
+        setActiveMode(AppMode.ANALYSIS);
+        setAnalysisView('compare');
+        setComparisonJobId(job.id);
+        setComparisonColumns(columnsFromJob(job));
+        break;
+      default:
+        assertNever(job);
     }
   };
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      setMimeType(file.type);
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const base64 = reader.result as string;
-        setSelectedImage(base64);
-        setAssets([base64]); 
-        setSelectedAsset(base64);
-        
-        // Reset states
-        setAnalysisResult(null);
-        setGeneratedVideoUrl(null);
-        setEditedImageUrl(null);
-        setSkuHtml(null);
-        setHeroHtml(null);
-        setBatchImages([]);
-      };
-      reader.readAsDataURL(file);
+  const handleDismissJobs = (ids: string[]) => {
+    setJobs(prev => prev.filter(job => !ids.includes(job.id)));
+    deleteJobs(ids).catch(error => console.error("Failed to delete jobs:", error));
+  };
+
+  const handleCompareHistory = async (ids: string[]) => {
+    const selected = history.filter(item => ids.includes(item.id));
+    const columns: ComparisonColumn[] = [];
+    for (const item of selected) {
+      const payload = await getHistoryPayload(item).catch(() => undefined);
+      if (payload?.kind !== 'analysis') continue;
+      const code = item.market || currentMarket;
+      const market = getMarketProfile(code);
+      columns.push({ id: item.id, code, name: market.name, flag: market.flag, status: 'done', data: payload.analysis, saved: true, subtitle: item.title });
+    }
+    if (columns.length === 0) return;
+    setComparisonJobId(null);
+    setComparisonColumns(columns);
+    setActiveMode(AppMode.ANALYSIS);
+    setAnalysisView('compare');
+  };
+
+  const imageFromDataUrl = (dataUrl: string, role: ProductImage['role'] = 'main'): ProductImage => ({
+    id: Math.random().toString(36).substr(2, 9),
+    dataUrl,
+    mimeType: dataUrl.substring(5, dataUrl.indexOf(';')) || 'image/jpeg',
+    role
+  });
+
+  const readFileAsDataUrl = (file: File) => new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+  const resetGeneratedResults = () => {
+    setAnalysisResult(null);
+    setComparisonColumns([]);
+    setComparisonJobId(null);
+    setGeneratedVideoUrl(null);
+    setEditedImageUrl(null);
+    setSkuHtml(null);
+    setHeroHtml(null);
+    setBatchImages([]);
+    pageEntries.current = { hero: {}, sku: {} };
+  };
+
+  const handleAddProductImages = async (files: File[]) => {
+    const dataUrls = await Promise.all(files.map(readFileAsDataUrl));
+    const isFirstImage = productImages.length === 0;
+    // The first image of a new product becomes the main shot, the rest default to detail shots
+    const added = dataUrls.map((dataUrl, i) => imageFromDataUrl(dataUrl, isFirstImage && i === 0 ? 'main' : 'detail'));
+
+    setProductImages(prev => [...prev, ...added]);
+    if (isFirstImage && !activeProductId) {
+      setAssets(dataUrls);
+      setSelectedAsset(dataUrls[0]);
+      resetGeneratedResults();
+    } else {
+      setAssets(prev => [...prev, ...dataUrls]);
+    }
+
+    // Uploading into the scratch editor creates a product; the mirror effect fills it in
+    if (!activeProductId) {
+      const product = createProductWorkspace(files[0].name.replace(/\.[^.]+$/, '') || `产品 ${products.length + 1}`);
+      dirtyProductIds.current.add(product.id);
+      setProducts(prev => [product, ...prev]);
+      setActiveProductId(product.id);
     }
   };
 
@@ -226,91 +1029,139 @@ const App: React.FC = () => {
     return dataUri.split(',')[1];
   };
 
-  const handleAnalyze = async () => {
+  const handleAnalyze = async (forceRefresh = false) => {
     if (!selectedImage) return;
+    const productId = activeProductId;
+    const market = currentMarket;
+    const request = beginRequest('analysis');
+    const cache: { hit?: CacheHit } = {};
     setIsAnalyzing(true);
     try {
       const data = await analyzeProduct(
-        getBase64Data(selectedImage),
-        mimeType,
+        productImages,
         prompt,
-        currentMarket
+        market,
+        { ...request, forceRefresh, onCacheHit: hit => { cache.hit = hit; } }
       );
-      setAnalysisResult(data);
-      const title = data.keywords && data.keywords.length > 0 ? data.keywords[0] : "未命名产品分析";
-      addToHistory(AppMode.ANALYSIS, title, data);
+      patchProduct(productId, p => ({ analyses: { ...p.analyses, [market]: data } }));
+      if (isProductActive(productId)) setAnalysisResult(data);
+      if (cache.hit) {
+        // Already recorded when it was first fetched
+        markCached(data, cache.hit.cachedAt, () => handleAnalyze(true));
+        return;
+      }
+      const title = data.keywords.length > 0 ? data.keywords[0].term : "未命名产品分析";
+      addToHistory(title, { kind: 'analysis', analysis: data });
 
     } catch (error) {
-      alert("分析失败，请检查控制台。");
+      if (isCancelledError(error)) return;
+      if (error instanceof AnalysisSchemaError) {
+        alert(`分析结果格式不符合要求，请重试。\n${error.issues.slice(0, 5).join('\n')}`);
+      } else {
+        alert(describeRequestError(error, "分析失败，请检查控制台。"));
+      }
     } finally {
+      endRequest('analysis', request);
       setIsAnalyzing(false);
     }
   };
 
+  const handleCompareMarkets = async () => {
+    if (!selectedImage || compareMarkets.length === 0) return;
+    // Keep the switcher order so columns line up the same way every run
+    const markets = MARKET_PROFILES.filter(m => compareMarkets.includes(m.code)).map(m => m.code);
+    const job = await launchJob({
+      kind: 'compare',
+      title: `多市场对比 (${markets.join(' / ')})`,
+      userId: currentUser?.id,
+      productId: activeProductId || undefined,
+      market: currentMarket,
+      input: { images: productImages, prompt, markets }
+    });
+    if (job?.kind !== 'compare') return;
+    setComparisonJobId(job.id);
+    setComparisonColumns(columnsFromJob(job));
+  };
+
+  const handleSaveComparisonColumn = (market: TargetMarket, data: AnalysisData) => {
+    const title = data.keywords.length > 0 ? data.keywords[0].term : "未命名产品分析";
+    if (!addToHistory(`${title} (${market})`, { kind: 'analysis', analysis: data }, undefined, market)) return;
+    setComparisonColumns(prev => prev.map(col => col.code === market ? { ...col, saved: true } : col));
+    const job = jobs.find(j => j.id === comparisonJobId);
+    if (job?.kind === 'compare') markMarketSaved(job, market);
+  };
+
+  const handleOpenComparisonReport = (market: TargetMarket, data: AnalysisData) => {
+    setCurrentMarket(market);
+    setAnalysisResult(data);
+    setAnalysisView('single');
+  };
+
+  const toggleCompareMarket = (code: TargetMarket) => {
+    setCompareMarkets(prev => prev.includes(code) ? prev.filter(c => c !== code) : [...prev, code]);
+  };
+
+  const handleExportReport = async (format: ReportFormat) => {
+    if (!analysisResult) return;
+    setExportingFormat(format);
+    try {
+      const chartImage = chartRef.current
+        ? await toPng(chartRef.current, { backgroundColor: '#ffffff', pixelRatio: 2 })
+        : null;
+      const input: ReportExportInput = {
+        analysis: analysisResult,
+        market: getMarketProfile(currentMarket),
+        productImage: selectedImage,
+        chartImage,
+        generatedAt: new Date()
+      };
+      if (format === 'pdf') {
+        // Continues in the effect above once the report layout is mounted
+        setPdfReportInput(input);
+        return;
+      }
+      if (format === 'docx') {
+        await exportReportDocx(input);
+      } else {
+        exportReportMarkdown(input);
+      }
+      setExportingFormat(null);
+    } catch (error) {
+      console.error("Report export failed:", error);
+      alert("报告导出失败");
+      setExportingFormat(null);
+    }
+  };
+
   const handleEnhancePrompt = async () => {
     if (!prompt) return;
     setIsEnhancingPrompt(true);
     try {
-      const enhanced = await enhanceVideoPrompt(prompt);
+      const enhanced = await enhanceVideoPrompt(prompt, { attribution: usageAttribution() });
       setPrompt(enhanced);
     } catch (e) {
       console.error(e);
+      if (e instanceof BudgetExceededError) alert(describeRequestError(e, "提示词优化未运行"));
     } finally {
       setIsEnhancingPrompt(false);
     }
   }
 
-  const handleGenerateVideo = async () => {
-    if (!selectedImage) return;
-    if (window.aistudio && window.aistudio.hasSelectedApiKey) {
-      const hasKey = await window.aistudio.hasSelectedApiKey();
-      if (!hasKey) {
-        if (window.aistudio.openSelectKey) {
-          await window.aistudio.openSelectKey();
-        } else {
-            alert("无法选择 AI Studio API Key。");
-            return;
-        }
-      }
-    }
-
-    setIsGeneratingVideo(true);
+  const handleGenerateVideo = () => {
+    if (!mainImage) return;
     setGeneratedVideoUrl(null);
-
-    const performGeneration = async (retry = false): Promise<string> => {
-      return await generateProductVideo(
-        getBase64Data(selectedImage),
-        mimeType,
-        prompt || "Cinematic product showcase, high quality, 4k, photorealistic",
-        videoAspectRatio
-      );
-    };
-
-    try {
-      const videoUrl = await performGeneration();
-      setGeneratedVideoUrl(videoUrl);
-      addToHistory(AppMode.VEO_VIDEO, `Veo 视频 (${videoAspectRatio})`, videoUrl);
-    } catch (error: any) {
-      console.error("Video Generation Error:", error);
-      if (error.message && error.message.includes("Requested entity was not found")) {
-        if (window.aistudio && window.aistudio.openSelectKey) {
-          try {
-             await window.aistudio.openSelectKey();
-             const retryVideoUrl = await performGeneration(true);
-             setGeneratedVideoUrl(retryVideoUrl);
-             addToHistory(AppMode.VEO_VIDEO, `Veo 视频 (${videoAspectRatio})`, retryVideoUrl);
-             return; 
-          } catch (retryError) {
-             console.error("Retry failed:", retryError);
-             alert("API Key 验证失败。");
-          }
-        }
-      } else {
-        alert("视频生成失败。请稍后再试或检查网络连接。");
+    launchJob({
+      kind: 'video',
+      title: `Veo 视频 (${videoAspectRatio})`,
+      userId: currentUser?.id,
+      productId: activeProductId || undefined,
+      market: currentMarket,
+      input: {
+        image: mainImage,
+        prompt: prompt || "Cinematic product showcase, high quality, 4k, photorealistic",
+        aspectRatio: videoAspectRatio
       }
-    } finally {
-      setIsGeneratingVideo(false);
-    }
+    });
   };
 
   const handleEditImage = async () => {
@@ -318,33 +1169,41 @@ const App: React.FC = () => {
       alert("请输入图片编辑提示词");
       return;
     }
+    const productId = activeProductId;
+    const request = beginRequest('image');
     setIsEditingImage(true);
     setBatchImages([]);
     try {
       const newImageUrl = await editProductImage(
         getBase64Data(selectedImage),
         mimeType,
-        prompt
+        prompt,
+        request
       );
-      setEditedImageUrl(newImageUrl);
-      setAssets(prev => [...prev, newImageUrl]);
-      setSelectedAsset(newImageUrl);
-      addToHistory(AppMode.IMAGE_EDIT, "创意图片编辑", newImageUrl);
+      if (isProductActive(productId)) {
+        setEditedImageUrl(newImageUrl);
+        setAssets(prev => [...prev, newImageUrl]);
+        setSelectedAsset(newImageUrl);
+      } else {
+        patchProduct(productId, p => ({ editedImageUrl: newImageUrl, batchImages: [], assets: [...p.assets, newImageUrl] }));
+      }
+      addToHistory("创意图片编辑", { kind: 'editedImage', imageUrl: newImageUrl, prompt });
     } catch (error) {
-      alert("图片编辑失败。");
+      if (isCancelledError(error)) return;
+      alert(describeRequestError(error, "图片编辑失败。"));
     } finally {
+      endRequest('image', request);
       setIsEditingImage(false);
     }
   };
 
-  const handleBatchGenerate = async (prompts: Array<{label: string, prompt: string}>) => {
-      if (!selectedImage) {
+  const handleBatchGenerate = (prompts: Array<{label: string, prompt: string}>) => {
+      if (!mainImage) {
           alert("请先上传一张产品图片");
           return;
       }
       setActiveMode(AppMode.IMAGE_EDIT);
       setCreativeTab('image');
-      setIsBatchGenerating(true);
       setBatchImages([]); 
       setEditedImageUrl(null);
 
@@ -354,82 +1213,90 @@ const App: React.FC = () => {
           prompt: p.prompt
       }));
 
-      try {
-          const results = await generateBatchAssets(
-              getBase64Data(selectedImage),
-              mimeType,
-              promptsWithId
-          );
-          const successfulImages = results
-              .filter(r => r.success)
-              .map(r => ({ id: r.id, label: r.label, url: r.url }));
-          
-          setBatchImages(successfulImages);
-          const newUrls = successfulImages.map(s => s.url);
-          setAssets(prev => [...prev, ...newUrls]);
-          if (newUrls.length > 0) setSelectedAsset(newUrls[0]);
-
-      } catch (e) {
-          console.error(e);
-          alert("批量生成失败");
-      } finally {
-          setIsBatchGenerating(false);
-      }
+      launchJob({
+          kind: 'batchImages',
+          title: `全套 SKU 配图 (${prompts.length})`,
+          userId: currentUser?.id,
+          productId: activeProductId || undefined,
+          market: currentMarket,
+          input: { image: mainImage, prompts: promptsWithId }
+      });
   };
 
-  const handleGenerateHero = async () => {
+  const handleGenerateHero = () => {
     if (!selectedImage) return;
-    setIsGeneratingHero(true);
-    try {
-        const analysisContext = analysisResult ? analysisResult.text : "";
-        const html = await generateHeroHtml(
-            getBase64Data(selectedImage),
-            mimeType,
-            analysisContext,
-            heroStyle,
-            currentMarket,
+    launchJob({
+        kind: 'hero',
+        title: `产品首图 (${heroStyle})`,
+        userId: currentUser?.id,
+        productId: activeProductId || undefined,
+        market: currentMarket,
+        input: {
+            images: productImages,
+            analysisContext: analysisResult ? analysisResult.text : "",
+            style: heroStyle,
             prompt // Pass the user prompt for customization
-        );
-        setHeroHtml(html);
-        setHeroLanguage('zh');
-        addToHistory(AppMode.HERO_DESIGN, `产品首图 (${heroStyle})`, html);
-    } catch (error) {
-        console.error(error);
-        alert("首图生成失败");
-    } finally {
-        setIsGeneratingHero(false);
-    }
+        }
+    });
+  };
+
+  // Open the hero in `language`: an existing variant is opened as is, anything else is translated from the Chinese original
+  const switchHeroLanguage = (language: ContentLanguage, retranslate = false) => {
+      if (!heroHtml || isTranslating) return;
+      const variants: PageVariants = { ...heroVariants, [heroLanguage]: heroRef.current ? heroRef.current.getHtml() : heroHtml };
+      const existing = variants[language];
+      if (existing !== undefined && !retranslate) {
+          setHeroVariants(variants);
+          setHeroHtml(existing);
+          setHeroLanguage(language);
+          return;
+      }
+      const sourceLanguage: ContentLanguage = variants.zh !== undefined ? 'zh' : heroLanguage;
+      translateHero(variants[sourceLanguage]!, sourceLanguage, language, variants);
   };
 
-  const handleTranslateHero = async () => {
-      if (!heroHtml) return;
-      const targetCode = currentMarket === 'TH' ? 'th' : 'ph';
-      const targetLang = heroLanguage === 'zh' ? targetCode : 'zh';
-      setIsTranslating(true);
+  const translateHero = async (source: string, sourceLanguage: ContentLanguage, targetLang: ContentLanguage, variants: PageVariants, forceRefresh = false) => {
+      const productId = activeProductId;
+      const request = beginRequest('translate');
+      const cache: { hit?: CacheHit } = {};
+      setTranslatingTo(targetLang);
       try {
-          const currentContent = heroRef.current ? heroRef.current.innerHTML : heroHtml;
-          const translated = await translateSkuHtml(currentContent, targetLang, currentMarket);
-          setHeroHtml(translated);
-          setHeroLanguage(targetLang);
-          addToHistory(AppMode.HERO_DESIGN, `产品首图翻译`, translated);
+          const translated = await translateSkuHtml(source, sourceLanguage, targetLang, currentMarket, {
+              ...request,
+              forceRefresh,
+              onCacheHit: hit => { cache.hit = hit; }
+          });
+          if (isProductActive(productId)) {
+              setHeroVariants(variants);
+              setHeroHtml(translated);
+              setHeroLanguage(targetLang);
+          } else {
+              patchProduct(productId, p => ({ heroDesigns: withCurrentPage(p.heroDesigns, translated, targetLang, variants) }));
+          }
+          if (cache.hit) markCached(translated, cache.hit.cachedAt, () => translateHero(source, sourceLanguage, targetLang, variants, true));
+          const payload: HistoryPayload = { kind: 'hero', html: translated, language: targetLang, style: heroStyle };
+          const entryId = cache.hit ? findPageEntry(payload) : addToHistory(`产品首图翻译`, payload);
+          if (entryId && isProductActive(productId)) pageEntries.current.hero[targetLang] = { id: entryId, html: translated, style: heroStyle };
       } catch (error) {
+          if (isCancelledError(error)) return;
           console.error(error);
-          alert("翻译失败");
+          alert(describeRequestError(error, "翻译失败"));
       } finally {
-          setIsTranslating(false);
+          endRequest('translate', request);
+          setTranslatingTo(null);
       }
   };
 
   const handleHeroToImage = async () => {
       if (!heroRef.current) return;
       try {
-          await new Promise(resolve => setTimeout(resolve, 200));
-          const dataUrl = await toPng(heroRef.current, {
-              cacheBust: true,
-              backgroundColor: '#ffffff',
-              quality: 0.95,
-              pixelRatio: 2,
-              useCORS: true
+          const [dataUrl] = await heroRef.current.capture({
+              options: {
+                  cacheBust: true,
+                  backgroundColor: '#ffffff',
+                  quality: 0.95,
+                  pixelRatio: 2
+              }
           });
           const link = document.createElement('a');
           link.download = `hero-image-${Date.now()}.png`;
@@ -441,9 +1308,12 @@ const App: React.FC = () => {
       }
   };
 
+  // Put the edited image (or the first batch image) into the empty slot that best fits it
   const handleInsertToDetail = () => {
-    const targetUrl = editedImageUrl || (batchImages.length > 0 ? batchImages[0].url : null);
-    if (!targetUrl || !skuHtml) {
+    const target: SkuFillCandidate | null = editedImageUrl
+      ? { url: editedImageUrl, label: '' }
+      : batchImages.length > 0 ? { url: batchImages[0].url, label: batchImages[0].label } : null;
+    if (!target || !skuHtml) {
       if (!skuHtml) {
         alert("请先生成 SKU 详情页框架，再插入图片。");
         setCreativeTab('sku');
@@ -451,61 +1321,95 @@ const App: React.FC = () => {
       return;
     }
     setCreativeTab('sku');
-    const placeholderRegex = /https:\/\/via\.placeholder\.com\/[^\s"']+/;
-    const match = skuHtml.match(placeholderRegex);
-    if (match) {
-       const newHtml = skuHtml.replace(match[0], targetUrl);
-       setSkuHtml(newHtml);
-       setSkuRenderKey(prev => prev + 1);
-       alert("已成功插入到详情页！");
-    } else {
-       alert("未找到空闲的图片占位符，请手动替换或生成新的布局。");
+    const html = skuRef.current ? skuRef.current.getHtml() : skuHtml;
+    const slots = listSkuImageSlots(html);
+    const [match] = proposeSkuImageFill(slots, [target]);
+    const slot = match?.slot ?? slots.find(candidate => candidate.empty)?.index;
+    if (slot === undefined) {
+      alert("未找到空闲的图片占位符，请点击详情页中的图片手动替换，或生成新的布局。");
+      return;
     }
+    setSkuHtml(fillSkuImageSlots(html, [{ slot, url: target.url }]));
+    alert("已成功插入到详情页！");
+  };
+
+  // Match batch images and the asset library to the page's empty image slots, for confirmation
+  const openSkuAutoFill = () => {
+    const html = skuRef.current ? skuRef.current.getHtml() : skuHtml;
+    if (!html) return;
+    const slots = listSkuImageSlots(html);
+    const candidates = collectFillCandidates(batchImages, productImages, assets);
+    setAutoFill({ slots, candidates, proposals: proposeSkuImageFill(slots, candidates) });
+  };
+
+  const applySkuAutoFill = (fills: Array<{ slot: number; url: string }>) => {
+    editSkuSections(html => fillSkuImageSlots(html, fills));
+    setAutoFill(null);
   };
 
-  const handleGenerateSku = async () => {
+  const handleGenerateSku = () => {
     if (!selectedImage) return;
-    setIsGeneratingSku(true);
-    try {
-      const analysisContext = analysisResult ? analysisResult.text : "";
-      const html = await generateSkuUiLayout(
-        getBase64Data(selectedImage),
-        mimeType,
-        analysisContext,
-        skuStyle,
-        currentMarket,
+    launchJob({
+      kind: 'sku',
+      title: `SKU 详情页 (${skuStyle})`,
+      userId: currentUser?.id,
+      productId: activeProductId || undefined,
+      market: currentMarket,
+      input: {
+        images: productImages,
+        analysisContext: analysisResult ? analysisResult.text : "",
+        style: skuStyle,
         prompt // Pass the user prompt for customization
-      );
-      setSkuHtml(html);
+      }
+    });
+  };
+  
+  // Same as `switchHeroLanguage`, for the SKU page
+  const switchSkuLanguage = (language: ContentLanguage, retranslate = false) => {
+    if (!skuHtml || isTranslating) return;
+    const variants: PageVariants = { ...skuVariants, [skuLanguage]: skuRef.current ? skuRef.current.getHtml() : skuHtml };
+    const existing = variants[language];
+    if (existing !== undefined && !retranslate) {
+      setSkuVariants(variants);
+      setSkuHtml(existing);
+      setSkuLanguage(language);
       setSkuRenderKey(prev => prev + 1);
-      setSkuLanguage('zh'); 
-      addToHistory(AppMode.IMAGE_EDIT, `SKU 详情页 (${skuStyle})`, html);
-    } catch (error) {
-      alert("详情页生成失败。");
-    } finally {
-      setIsGeneratingSku(false);
+      return;
     }
+    const sourceLanguage: ContentLanguage = variants.zh !== undefined ? 'zh' : skuLanguage;
+    translateSku(variants[sourceLanguage]!, sourceLanguage, language, variants);
   };
-  
-  const handleToggleTranslation = async () => {
-    if (!skuHtml) return; 
-    
-    const targetCode = currentMarket === 'TH' ? 'th' : 'ph';
-    const targetLang = skuLanguage === 'zh' ? targetCode : 'zh';
 
-    setIsTranslating(true);
+  const translateSku = async (source: string, sourceLanguage: ContentLanguage, targetLang: ContentLanguage, variants: PageVariants, forceRefresh = false) => {
+    const productId = activeProductId;
+    const request = beginRequest('translate');
+    const cache: { hit?: CacheHit } = {};
+    setTranslatingTo(targetLang);
     try {
-      const currentContent = skuRef.current ? skuRef.current.innerHTML : skuHtml;
-      const translatedHtml = await translateSkuHtml(currentContent, targetLang, currentMarket);
-      setSkuHtml(translatedHtml);
-      setSkuLanguage(targetLang);
-      setSkuRenderKey(prev => prev + 1); 
-      addToHistory(AppMode.IMAGE_EDIT, `SKU 详情页翻译`, translatedHtml);
+      const translatedHtml = await translateSkuHtml(source, sourceLanguage, targetLang, currentMarket, {
+        ...request,
+        forceRefresh,
+        onCacheHit: hit => { cache.hit = hit; }
+      });
+      if (isProductActive(productId)) {
+        setSkuVariants(variants);
+        setSkuHtml(translatedHtml);
+        setSkuLanguage(targetLang);
+        setSkuRenderKey(prev => prev + 1);
+      } else {
+        patchProduct(productId, p => ({ skuPages: withCurrentPage(p.skuPages, translatedHtml, targetLang, variants) }));
+      }
+      if (cache.hit) markCached(translatedHtml, cache.hit.cachedAt, () => translateSku(source, sourceLanguage, targetLang, variants, true));
+      const payload: HistoryPayload = { kind: 'skuPage', html: translatedHtml, language: targetLang, style: skuStyle };
+      const entryId = cache.hit ? findPageEntry(payload) : addToHistory(`SKU 详情页翻译`, payload);
+      if (entryId && isProductActive(productId)) pageEntries.current.sku[targetLang] = { id: entryId, html: translatedHtml, style: skuStyle };
     } catch (error) {
+      if (isCancelledError(error)) return;
       console.error(error);
-      alert("翻译失败，请重试。");
+      alert(describeRequestError(error, "翻译失败，请重试。"));
     } finally {
-      setIsTranslating(false);
+      endRequest('translate', request);
+      setTranslatingTo(null);
     }
   };
 
@@ -516,55 +1420,34 @@ const App: React.FC = () => {
 
   const handleSkuToImage = async (action: 'preview' | 'download') => {
     if (action === 'preview') {
-        if (skuRef.current) {
-            setPreviewHtmlContent(skuRef.current.innerHTML); 
-        } else {
-            setPreviewHtmlContent(skuHtml);
-        }
+        setPreviewHtmlContent(skuRef.current ? skuRef.current.getHtml() : skuHtml);
         return;
     }
 
     if (!skuRef.current) return;
     setIsGeneratingSkuImage(true);
     try {
-        await new Promise(resolve => setTimeout(resolve, 200));
-        const sections = skuRef.current.querySelectorAll('.sku-section');
+        const options = { cacheBust: true, backgroundColor: '#ffffff', quality: 0.95, pixelRatio: 2 };
+        const sections = await skuRef.current.capture({ selector: '.sku-section', options });
         if (sections.length > 0) {
-            let count = 0;
             for (let i = 0; i < sections.length; i++) {
-                const section = sections[i] as HTMLElement;
-                try {
-                    const dataUrl = await toPng(section, { 
-                        cacheBust: true, 
-                        backgroundColor: '#ffffff',
-                        quality: 0.95,
-                        pixelRatio: 2, 
-                        useCORS: true
-                    });
-                    const link = document.createElement('a');
-                    link.download = `sku-section-${i + 1}-${Date.now()}.png`;
-                    link.href = dataUrl;
-                    document.body.appendChild(link);
-                    link.click();
-                    document.body.removeChild(link);
-                    await new Promise(r => setTimeout(r, 400));
-                    count++;
-                } catch (e) {}
+                const link = document.createElement('a');
+                link.download = `sku-section-${i + 1}-${Date.now()}.png`;
+                link.href = sections[i];
+                document.body.appendChild(link);
+                link.click();
+                document.body.removeChild(link);
+                await new Promise(r => setTimeout(r, 400));
             }
-            if (count === 0) throw new Error("No sections captured");
         } else {
-             const node = skuRef.current;
-             const dataUrl = await toPng(node, { 
-                cacheBust: true, 
-                backgroundColor: '#ffffff',
-                quality: 0.95,
-                pixelRatio: 2, 
-                width: node.scrollWidth, 
-                height: node.scrollHeight, 
-                style: { transform: 'none', overflow: 'visible', height: 'auto', maxHeight: 'none' },
-                skipFonts: true, 
-                fontEmbedCSS: '', 
-                useCORS: true 
+            const [dataUrl] = await skuRef.current.capture({
+                fullPage: true,
+                options: {
+                    ...options,
+                    style: { transform: 'none', overflow: 'visible', height: 'auto', maxHeight: 'none' },
+                    skipFonts: true,
+                    fontEmbedCSS: ''
+                }
             });
             const link = document.createElement('a');
             link.download = `sku-full-page-${Date.now()}.png`;
@@ -581,19 +1464,79 @@ const App: React.FC = () => {
     }
   };
 
-  const handleSkuPreviewClick = (e: React.MouseEvent<HTMLDivElement>) => {
-     const target = e.target as HTMLElement;
-     if (target.tagName === 'IMG') {
-        const img = target as HTMLImageElement;
-        if (selectedAsset) {
-           img.src = selectedAsset;
-           if (skuRef.current) {
-               setSkuHtml(skuRef.current.innerHTML);
-           }
-        } else {
-           alert("请先在左侧素材库选择一张图片！");
-        }
+  // Clicking an image in the SKU page swaps in the selected asset
+  const pickSkuImageReplacement = () => {
+     if (!selectedAsset) {
+        alert("请先在左侧素材库选择一张图片！");
+        return null;
      }
+     return selectedAsset;
+  };
+
+  // Page edits start from what the frame shows, so typed text and swapped images are kept
+  const editSkuSections = (edit: (html: string) => string) => {
+    const html = skuRef.current ? skuRef.current.getHtml() : skuHtml;
+    if (html) setSkuHtml(edit(html));
+  };
+
+  // Undo/redo on an open page. Text typed since the last step is recorded first, so undo reverts it.
+  const stepPageEdit = (page: EditablePage, direction: 'undo' | 'redo') => {
+    const editor = page === 'hero'
+      ? { edits: heroEdits, setEdits: setHeroEdits, frame: heroRef.current, setHtml: setHeroHtml, setLanguage: setHeroLanguage, setVariants: setHeroVariants }
+      : { edits: skuEdits, setEdits: setSkuEdits, frame: skuRef.current, setHtml: setSkuHtml, setLanguage: setSkuLanguage, setVariants: setSkuVariants };
+    if (!editor.edits || isTranslating) return;
+    const edits: UndoStack<PageSnapshot> = editor.frame?.hasPendingEdits()
+      ? pushUndo(editor.edits, { ...editor.edits.present, html: editor.frame.getHtml() })
+      : editor.edits;
+    const next: UndoStack<PageSnapshot> = direction === 'undo' ? undoStep(edits) : redoStep(edits);
+    const left = edits.present;
+    editor.setEdits(next);
+    // Stepping across a language switch keeps the page being left as that language's variant
+    editor.setVariants(prev => ({ ...prev, [left.language]: left.html }));
+    editor.setHtml(next.present.html);
+    editor.setLanguage(next.present.language);
+  };
+
+  const handleRegenerateSkuSection = async (index: number, instruction: string, forceRefresh = false) => {
+    const html = skuRef.current ? skuRef.current.getHtml() : skuHtml;
+    if (!html) return;
+    const productId = activeProductId;
+    const language = skuLanguage;
+    const request = beginRequest('section');
+    const cache: { hit?: CacheHit } = {};
+    setRegeneratingSection(index);
+    try {
+      const section = await regenerateSkuSection(
+        getSkuSection(html, index),
+        outlineSkuSections(html, index),
+        instruction,
+        analysisResult ? analysisResult.text : "",
+        language,
+        currentMarket,
+        { ...request, forceRefresh, onCacheHit: hit => { cache.hit = hit; } }
+      );
+      let updated: string;
+      if (isProductActive(productId)) {
+        // Spliced into the page as it is now, so edits made while waiting are kept
+        updated = replaceSkuSection(skuRef.current ? skuRef.current.getHtml() : html, index, section);
+        setSkuHtml(updated);
+      } else {
+        updated = replaceSkuSection(html, index, section);
+        patchProduct(productId, p => ({ skuPages: withCurrentPage(p.skuPages, updated, language, lastOf(p.skuPages)?.variants ?? {}) }));
+      }
+      if (cache.hit) markCached(updated, cache.hit.cachedAt, () => handleRegenerateSkuSection(index, instruction, true));
+      // A cached section spliced into another page finds no entry; edits then go to the page's current one
+      const payload: HistoryPayload = { kind: 'skuPage', html: updated, language, style: skuStyle };
+      const entryId = cache.hit ? findPageEntry(payload) : addToHistory(`SKU 详情页区块重写`, payload);
+      if (entryId && isProductActive(productId)) pageEntries.current.sku[language] = { id: entryId, html: updated, style: skuStyle };
+    } catch (error) {
+      if (isCancelledError(error)) return;
+      console.error(error);
+      alert(describeRequestError(error, "区块重写失败，请重试。"));
+    } finally {
+      endRequest('section', request);
+      setRegeneratingSection(null);
+    }
   };
 
   const handleUsePrompt = (promptText: string) => {
@@ -603,16 +1546,25 @@ const App: React.FC = () => {
     setBatchImages([]); 
   };
 
-  const formatAnalysisText = (text: string) => {
+  const formatAnalysisText = (text: string, sources?: AnalysisData['groundingChunks']) => {
     const lines = text.split('\n');
     return lines.map((line, lineIdx) => {
+      const renderCitations = (content: string) => {
+        const parts = content.split(/(\[\^\d+(?:,\d+)*\])/g);
+        return parts.map((part, i) => {
+          if (/^\[\^\d+(?:,\d+)*\]$/.test(part)) {
+            return <CitationMarker key={i} indices={parseCitationMarker(part)} sources={sources} />;
+          }
+          return part;
+        });
+      };
       const renderInline = (content: string) => {
         const parts = content.split(/(\*\*.*?\*\*)/g);
         return parts.map((part, i) => {
           if (part.startsWith('**') && part.endsWith('**')) {
-            return <strong key={i} className="font-bold text-slate-900">{part.slice(2, -2)}</strong>;
+            return <strong key={i} className="font-bold text-slate-900">{renderCitations(part.slice(2, -2))}</strong>;
           }
-          return part;
+          return <React.Fragment key={i}>{renderCitations(part)}</React.Fragment>;
         });
       };
       const trimmed = line.trim();
@@ -647,6 +1599,20 @@ const App: React.FC = () => {
     });
   };
 
+  const renderCachedBadge = (value: AnalysisData | string | null, disabled?: boolean) => {
+    const cached = value ? cachedResults.get(value) : undefined;
+    return cached && <CachedBadge cachedAt={cached.cachedAt} onRefresh={cached.refresh} disabled={disabled} />;
+  };
+
+  const renderCancelButton = (onCancel: () => void, compact = false) => (
+    <button
+      onClick={onCancel}
+      className={`flex items-center gap-2 border border-slate-200 text-slate-600 hover:bg-red-50 hover:text-red-600 hover:border-red-200 transition-colors font-medium ${compact ? 'px-4 py-2.5 rounded-lg' : 'px-6 py-3 rounded-xl text-lg'}`}
+    >
+      <X size={compact ? 18 : 22} /> 取消
+    </button>
+  );
+
   const renderSidebarItem = (mode: AppMode, icon: React.ReactNode, label: string) => (
     <button
       onClick={() => {
@@ -695,6 +1661,16 @@ const App: React.FC = () => {
           />
         </div>
       )}
+      {autoFill && (
+        <SkuAutoFillDialog
+          slots={autoFill.slots}
+          candidates={autoFill.candidates}
+          proposals={autoFill.proposals}
+          onApply={applySkuAutoFill}
+          onClose={() => setAutoFill(null)}
+        />
+      )}
+
       {previewHtmlContent && (
         <div 
           className="fixed inset-0 z-[100] bg-black/90 backdrop-blur-md flex items-center justify-center p-4 animate-fade-in"
@@ -718,7 +1694,7 @@ const App: React.FC = () => {
                 </div>
              </div>
              <div className="flex-1 overflow-y-auto scrollbar-hide bg-white">
-                <div dangerouslySetInnerHTML={{ __html: previewHtmlContent }} />
+                <SandboxedHtml html={previewHtmlContent} autoHeight />
              </div>
              <div className="h-6 bg-white shrink-0 flex items-center justify-center">
                 <div className="w-32 h-1 bg-slate-900/20 rounded-full"></div>
@@ -744,55 +1720,73 @@ const App: React.FC = () => {
           {renderSidebarItem(AppMode.IMAGE_EDIT, <Wand2 size={22} />, "创意工作室")}
           {renderSidebarItem(AppMode.VEO_VIDEO, <Video size={22} />, "Veo 视频工作室")}
           {renderSidebarItem(AppMode.CALCULATOR, <Calculator size={22} />, "物流定价计算")}
+          {renderSidebarItem(AppMode.USAGE, <Coins size={22} />, "用量与成本")}
+          {renderSidebarItem(AppMode.SETTINGS, <Settings size={22} />, "设置")}
         </nav>
 
-        {/* User History Section */}
+        {/* Products & History Section */}
         <div className="flex-1 overflow-y-auto min-h-0 border-t border-slate-100 pt-6">
            <div className="px-2 mb-3 flex items-center justify-between">
-              <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">最近使用</span>
-              {!currentUser && <span className="text-xs text-indigo-500 cursor-pointer" onClick={() => setIsLoginModalOpen(true)}>登录保存</span>}
-           </div>
-           
-           {currentUser ? (
-             <div className="space-y-2">
-                {history.length === 0 ? (
-                  <div className="text-center py-6 text-slate-400 text-sm">
-                    <History size={24} className="mx-auto mb-2 opacity-50"/>
-                    暂无历史记录
-                  </div>
+              <div className="flex gap-3">
+                {(['products', 'history'] as const).map(tab => (
+                  <button
+                    key={tab}
+                    onClick={() => setSidebarTab(tab)}
+                    className={`text-xs font-bold uppercase tracking-wider ${sidebarTab === tab ? 'text-indigo-600' : 'text-slate-400 hover:text-slate-600'}`}
+                  >
+                    {tab === 'products' ? '我的产品' : '历史记录'}
+                  </button>
+                ))}
+              </div>
+              <div className="flex items-center gap-2">
+                {!currentUser && <span className="text-xs text-indigo-500 cursor-pointer" onClick={() => setIsLoginModalOpen(true)}>登录保存</span>}
+                {isBundleBusy ? (
+                  <Loader2 size={14} className="animate-spin text-indigo-500" />
                 ) : (
-                  history.map((item) => (
-                    <div 
-                      key={item.id}
-                      onClick={() => restoreHistoryItem(item)}
-                      className="group flex gap-3 p-2 rounded-lg hover:bg-slate-50 cursor-pointer transition-colors"
-                    >
-                       <div className="w-10 h-10 rounded-md bg-slate-200 overflow-hidden flex-shrink-0 border border-slate-100">
-                          {item.thumbnail ? (
-                            <img src={item.thumbnail} className="w-full h-full object-cover" alt="thumb" />
-                          ) : (
-                            <div className="w-full h-full flex items-center justify-center text-slate-400">
-                              <Search size={14}/>
-                            </div>
-                          )}
-                       </div>
-                       <div className="flex-1 min-w-0">
-                          <p className="text-sm font-medium text-slate-700 truncate group-hover:text-indigo-700">{item.title}</p>
-                          <div className="flex items-center gap-1.5 mt-0.5">
-                              {item.market && (
-                                <span className={`text-[10px] px-1 rounded bg-slate-100 text-slate-600`}>
-                                    {item.market}
-                                </span>
-                              )}
-                              <p className="text-xs text-slate-400 flex items-center gap-1">
-                                {item.mode === AppMode.ANALYSIS ? "报告" : "设计"}
-                              </p>
-                          </div>
-                       </div>
-                    </div>
-                  ))
+                  <>
+                    <button onClick={() => bundleInputRef.current?.click()} title="导入工作区文件" className="text-slate-400 hover:text-indigo-600"><Upload size={14} /></button>
+                    <button onClick={handleExportAll} disabled={products.length === 0 && history.length === 0} title="导出全部产品与历史记录" className="text-slate-400 hover:text-indigo-600 disabled:opacity-30"><Download size={14} /></button>
+                  </>
                 )}
+                <input type="file" ref={bundleInputRef} className="hidden" accept={`${BUNDLE_FILE_EXTENSION},.zip`} onChange={handleImportBundle} />
+              </div>
+           </div>
+
+           {sidebarTab === 'products' && (
+             <ProductList
+               products={products}
+               activeProductId={activeProductId}
+               onSelect={openProduct}
+               onRename={handleRenameProduct}
+               onDelete={handleDeleteProduct}
+               onExport={handleExportProduct}
+               onNew={handleNewProduct}
+             />
+           )}
+
+           {sidebarTab === 'history' && currentUser && storageUsage && (
+             <div className="px-2 mb-3" title="超出容量时将自动清理最久未使用的记录">
+                <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                   <div
+                     className={`h-full rounded-full ${storageUsage.usedBytes / storageUsage.budgetBytes > 0.8 ? 'bg-amber-500' : 'bg-indigo-500'}`}
+                     style={{ width: `${Math.min(100, (storageUsage.usedBytes / storageUsage.budgetBytes) * 100)}%` }}
+                   />
+                </div>
+                <p className="text-[11px] text-slate-400 mt-1">
+                   {storageUsage.itemCount} 条记录 · 已用 {formatBytes(storageUsage.usedBytes)} / {formatBytes(storageUsage.budgetBytes)}
+                </p>
              </div>
+           )}
+           
+           {sidebarTab === 'history' && (currentUser ? (
+             <HistoryPanel
+               items={history}
+               onRestore={restoreHistoryItem}
+               onUpdateMeta={handleUpdateHistoryMeta}
+               onDelete={handleDeleteHistory}
+               onExport={handleExportHistory}
+               onCompare={handleCompareHistory}
+             />
            ) : (
              <div 
                onClick={() => setIsLoginModalOpen(true)}
@@ -803,7 +1797,7 @@ const App: React.FC = () => {
                 </div>
                 <p className="text-sm text-slate-500 group-hover:text-indigo-700">登录查看历史记录</p>
              </div>
-           )}
+           ))}
         </div>
 
         <div className="mt-auto pt-5 border-t border-slate-100">
@@ -815,7 +1809,7 @@ const App: React.FC = () => {
                   <p className="text-xs text-slate-500">专业版用户</p>
                </div>
                <button 
-                 onClick={() => {setCurrentUser(null); setHistory([]);}} 
+                 onClick={() => setCurrentUser(null)} 
                  className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors"
                >
                  <LogOut size={16} />
@@ -833,6 +1827,12 @@ const App: React.FC = () => {
         </div>
       </aside>
 
+      {retryNotice ? (
+        <RetryCountdown notice={retryNotice} onCancel={() => cancelRequest(retryNotice.task)} />
+      ) : jobRetry?.retry && (
+        <RetryCountdown notice={{ ...jobRetry.retry, label: jobRetry.title }} onCancel={() => cancelJob(jobRetry.id)} />
+      )}
+
       {/* Main Content */}
       <main className="flex-1 overflow-y-auto relative">
         <header className="sticky top-0 bg-white/80 backdrop-blur-md border-b border-slate-200 px-10 py-5 z-20 flex justify-between items-center">
@@ -843,11 +1843,26 @@ const App: React.FC = () => {
             {activeMode === AppMode.HERO_DESIGN && "产品首图设计"}
             {activeMode === AppMode.CALCULATOR && "物流与定价"}
             {activeMode === AppMode.LIVE_AGENT && "AI 专家问答"}
+            {activeMode === AppMode.USAGE && "用量与成本"}
+            {activeMode === AppMode.SETTINGS && "设置"}
           </h1>
           <div className="flex items-center gap-4">
-            {/* Market Switcher - Expanded for 6 countries */}
+            <JobCenter
+              jobs={jobs}
+              products={products}
+              onOpen={handleOpenJob}
+              onCancel={cancelJob}
+              onRetry={handleRetryJob}
+              onDismiss={handleDismissJobs}
+            />
+            {aiSettings.provider === 'mock' && (
+              <button onClick={() => setActiveMode(AppMode.SETTINGS)} className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-amber-100 text-amber-700 text-xs font-bold" title="当前使用离线模拟数据">
+                <FlaskConical size={14} /> 离线模拟
+              </button>
+            )}
+            {/* Market Switcher - one button per market profile */}
             <div className="bg-slate-100 p-1 rounded-lg flex items-center gap-1">
-               {MARKETS.map(market => (
+               {MARKET_PROFILES.map(market => (
                    <button 
                      key={market.code}
                      onClick={() => setCurrentMarket(market.code)}
@@ -875,37 +1890,42 @@ const App: React.FC = () => {
         <div className="p-10 max-w-[1400px] mx-auto space-y-8 pb-24">
           
           {/* Universal Image Upload */}
-          {activeMode !== AppMode.LIVE_AGENT && activeMode !== AppMode.CALCULATOR && (
+          {activeMode !== AppMode.LIVE_AGENT && activeMode !== AppMode.CALCULATOR && activeMode !== AppMode.USAGE && activeMode !== AppMode.SETTINGS && (
             <section className="bg-white p-8 rounded-2xl shadow-sm border border-slate-100">
               <div className="flex gap-10 items-start">
                 <div className="w-1/3">
-                  <div 
-                    onClick={() => fileInputRef.current?.click()}
-                    className="cursor-pointer group relative aspect-square bg-slate-50 border-2 border-dashed border-slate-300 rounded-xl flex flex-col items-center justify-center hover:border-indigo-500 transition-colors"
-                  >
-                    {selectedImage ? (
-                      <img src={selectedImage} alt="Product" className="w-full h-full object-contain rounded-xl" />
-                    ) : (
-                      <>
-                        <div className="w-16 h-16 bg-indigo-50 text-indigo-500 rounded-full flex items-center justify-center mb-4 group-hover:scale-110 transition-transform">
-                          <Upload size={32} />
-                        </div>
-                        <p className="text-base font-medium text-slate-600">上传产品图片</p>
-                        <p className="text-sm text-slate-400 mt-2">支持 PNG, JPG</p>
-                      </>
-                    )}
-                    <input 
-                      type="file" 
-                      ref={fileInputRef} 
-                      className="hidden" 
-                      accept="image/*"
-                      onChange={handleFileChange}
-                    />
-                  </div>
+                  <ProductImageUploader 
+                    images={productImages} 
+                    onAddFiles={handleAddProductImages} 
+                    onChange={setProductImages} 
+                    onClear={handleNewProduct} 
+                  />
                 </div>
 
                 <div className="w-2/3 space-y-6">
                   {/* Mode Specific Controls */}
+
+                  {activeMode === AppMode.ANALYSIS && (
+                    <div className="space-y-4">
+                       <div className="flex bg-slate-100 p-1 rounded-xl w-fit">
+                          <button onClick={() => setAnalysisView('single')} className={`flex items-center gap-2 px-6 py-2.5 rounded-lg text-sm font-medium transition-all ${analysisView === 'single' ? 'bg-white shadow-sm text-indigo-600' : 'text-slate-500 hover:text-slate-700'}`}>
+                            <Search size={16} /> 单市场分析
+                          </button>
+                          <button onClick={() => setAnalysisView('compare')} className={`flex items-center gap-2 px-6 py-2.5 rounded-lg text-sm font-medium transition-all ${analysisView === 'compare' ? 'bg-white shadow-sm text-indigo-600' : 'text-slate-500 hover:text-slate-700'}`}>
+                            <Columns size={16} /> 多市场对比
+                          </button>
+                       </div>
+                       {analysisView === 'compare' && (
+                          <div className="flex flex-wrap gap-2">
+                             {MARKET_PROFILES.map(market => (
+                               <button key={market.code} onClick={() => toggleCompareMarket(market.code)} className={`px-4 py-2 rounded-lg border text-sm font-medium transition-colors ${compareMarkets.includes(market.code) ? 'bg-indigo-50 border-indigo-200 text-indigo-700' : 'border-slate-200 text-slate-400 hover:bg-slate-50'}`}>
+                                 {market.flag} {market.name}
+                               </button>
+                             ))}
+                          </div>
+                       )}
+                    </div>
+                  )}
                   
                   {activeMode === AppMode.IMAGE_EDIT && (
                     <div className="space-y-4">
@@ -923,7 +1943,7 @@ const App: React.FC = () => {
 
                        {creativeTab === 'hero' && (
                            <div className="flex gap-3 mb-2">
-                                {["Promotion", "Minimalist", "Luxury", "Flash Sale"].map((style) => (
+                                {HERO_STYLES.map((style) => (
                                   <button key={style} onClick={() => setHeroStyle(style)} className={`px-4 py-2 rounded-lg border text-sm font-medium transition-colors ${heroStyle === style ? 'bg-indigo-50 border-indigo-200 text-indigo-700' : 'border-slate-200 text-slate-600 hover:bg-slate-50'}`}>{style} 风格</button>
                                 ))}
                            </div>
@@ -940,7 +1960,7 @@ const App: React.FC = () => {
 
                        {creativeTab === 'sku' && (
                           <div className="flex gap-3 overflow-x-auto pb-2 scrollbar-hide">
-                             {["Classic Conversion", "Muji Minimalist", "Cyberpunk Tech", "K-Pop / Y2K"].map((style) => (
+                             {SKU_STYLES.map((style) => (
                                <button key={style} onClick={() => setSkuStyle(style)} className={`px-4 py-2 rounded-lg border text-sm font-medium transition-colors whitespace-nowrap ${skuStyle === style ? 'bg-indigo-50 border-indigo-200 text-indigo-700' : 'border-slate-200 text-slate-600 hover:bg-slate-50'}`}>{style}</button>
                              ))}
                           </div>
@@ -968,7 +1988,7 @@ const App: React.FC = () => {
                       <textarea 
                         value={prompt}
                         onChange={(e) => setPrompt(e.target.value)}
-                        placeholder={activeMode === AppMode.IMAGE_EDIT ? (creativeTab === 'hero' ? "例如：背景要粉色樱花主题..." : creativeTab === 'sku' ? "例如：去除证书板块，增加更多细节图..." : "例如：去除背景并放在木桌上...") : activeMode === AppMode.VEO_VIDEO ? "例如：电影感慢动作旋转，专业灯光..." : `例如：这个在${MARKETS.find(m => m.code === currentMarket)?.name}流行吗？`}
+                        placeholder={activeMode === AppMode.IMAGE_EDIT ? (creativeTab === 'hero' ? "例如：背景要粉色樱花主题..." : creativeTab === 'sku' ? "例如：去除证书板块，增加更多细节图..." : "例如：去除背景并放在木桌上...") : activeMode === AppMode.VEO_VIDEO ? "例如：电影感慢动作旋转，专业灯光..." : `例如：这个在${getMarketProfile(currentMarket).name}流行吗？`}
                         className="w-full p-4 border border-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none text-base min-h-[120px]"
                       />
                     </div>
@@ -977,14 +1997,33 @@ const App: React.FC = () => {
                   {activeMode === AppMode.IMAGE_EDIT && creativeTab === 'sku' && (
                      <div className="bg-indigo-50 p-4 rounded-xl text-indigo-700 text-sm leading-relaxed">
                         <p className="font-bold flex items-center gap-2 mb-1"><Sparkles size={14}/> 智能 UI 引擎</p>
-                        Gemini 将根据{MARKETS.find(m => m.code === currentMarket)?.name}市场数据自动生成详情页。
+                        Gemini 将根据{getMarketProfile(currentMarket).name}市场数据自动生成详情页。
                      </div>
                   )}
 
-                  <div className="flex justify-end">
-                    {activeMode === AppMode.ANALYSIS && (
+                  <div className="flex justify-end gap-3">
+                    {activeMode === AppMode.ANALYSIS && analysisView === 'compare' && compareJob && renderCancelButton(() => cancelJob(compareJob.id))}
+                    {activeMode === AppMode.ANALYSIS && analysisView === 'single' && isAnalyzing && renderCancelButton(() => cancelRequest('analysis'))}
+                    {activeMode === AppMode.IMAGE_EDIT && creativeTab === 'hero' && heroJob && renderCancelButton(() => cancelJob(heroJob.id))}
+                    {activeMode === AppMode.VEO_VIDEO && videoJob && renderCancelButton(() => cancelJob(videoJob.id))}
+                    {activeMode === AppMode.IMAGE_EDIT && creativeTab === 'image' && isEditingImage && renderCancelButton(() => cancelRequest('image'))}
+                    {activeMode === AppMode.IMAGE_EDIT && creativeTab === 'image' && batchJob && renderCancelButton(() => cancelJob(batchJob.id))}
+                    {activeMode === AppMode.IMAGE_EDIT && creativeTab === 'sku' && skuJob && renderCancelButton(() => cancelJob(skuJob.id))}
+
+                    {activeMode === AppMode.ANALYSIS && analysisView === 'compare' && (
+                      <button 
+                        onClick={handleCompareMarkets} 
+                        disabled={!selectedImage || isComparing || compareMarkets.length === 0}
+                        className="flex items-center gap-2 bg-indigo-600 text-white px-8 py-3 rounded-xl hover:bg-indigo-700 disabled:opacity-50 transition-all font-medium text-lg"
+                      >
+                        {isComparing ? <Loader2 className="animate-spin" size={24}/> : <Columns size={24}/>}
+                        对比 {compareMarkets.length} 个市场
+                      </button>
+                    )}
+
+                    {activeMode === AppMode.ANALYSIS && analysisView === 'single' && (
                       <button 
-                        onClick={handleAnalyze} 
+                        onClick={() => handleAnalyze()} 
                         disabled={!selectedImage || isAnalyzing}
                         className="flex items-center gap-2 bg-indigo-600 text-white px-8 py-3 rounded-xl hover:bg-indigo-700 disabled:opacity-50 transition-all font-medium text-lg"
                       >
@@ -1044,17 +2083,28 @@ const App: React.FC = () => {
             </section>
           )}
 
+          {/* === MARKET COMPARISON MODULE === */}
+          {activeMode === AppMode.ANALYSIS && analysisView === 'compare' && comparisonColumns.length > 0 && (
+            <MarketComparison 
+              columns={comparisonColumns} 
+              canSave={!!currentUser} 
+              onSaveColumn={handleSaveComparisonColumn} 
+              onOpenReport={handleOpenComparisonReport} 
+            />
+          )}
+
           {/* === ANALYSIS MODULE === */}
-          {activeMode === AppMode.ANALYSIS && analysisResult && (
+          {activeMode === AppMode.ANALYSIS && analysisView === 'single' && analysisResult && (
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 animate-fade-in">
               <div className="lg:col-span-2 space-y-8">
                 <div className="bg-white p-10 rounded-2xl shadow-sm border border-slate-100 prose prose-slate max-w-none">
+                  {cachedResults.has(analysisResult) && <div className="mb-6">{renderCachedBadge(analysisResult, isAnalyzing)}</div>}
                   <div className="text-slate-600 leading-relaxed text-lg">
-                    {formatAnalysisText(analysisResult.text)}
+                    {formatAnalysisText(analysisResult.text, analysisResult.groundingChunks)}
                   </div>
                 </div>
                 
-                {analysisResult.keywords && (
+                {analysisResult.keywords.length > 0 && (
                   <div className="bg-white p-8 rounded-2xl shadow-sm border border-slate-100">
                     <h4 className="flex items-center gap-2 text-base font-bold text-slate-700 uppercase tracking-wider mb-5">
                       <Search size={20} /> 本土化 SEO 关键词
@@ -1062,8 +2112,9 @@ const App: React.FC = () => {
                     <div className="flex flex-wrap gap-3">
                       {analysisResult.keywords.map((kw, i) => (
                         <div key={i} className="group flex items-center gap-2 bg-indigo-50 text-indigo-700 px-4 py-2 rounded-lg text-base font-medium border border-indigo-100 hover:border-indigo-300 transition-all">
-                          {kw}
-                          <button onClick={() => copyToClipboard(kw)} className="text-indigo-400 group-hover:text-indigo-700"><Copy size={14} /></button>
+                          {kw.term}
+                          <span className="text-[10px] uppercase px-1.5 py-0.5 rounded bg-white text-indigo-400 border border-indigo-100">{kw.language}</span>
+                          <button onClick={() => copyToClipboard(kw.term)} className="text-indigo-400 group-hover:text-indigo-700"><Copy size={14} /></button>
                         </div>
                       ))}
                     </div>
@@ -1072,13 +2123,49 @@ const App: React.FC = () => {
               </div>
 
               <div className="space-y-8">
+                <div className="bg-white p-8 rounded-2xl shadow-sm border border-slate-100">
+                  <h3 className="text-lg font-bold text-slate-800 mb-3">推荐指数</h3>
+                  <div className="flex items-center gap-1 mb-3">
+                    {[1, 2, 3, 4, 5].map(n => (
+                      <Star key={n} size={24} className={n <= analysisResult.rating.stars ? 'text-amber-400 fill-amber-400' : 'text-slate-200'} />
+                    ))}
+                    <span className="ml-2 text-base font-bold text-slate-700">{analysisResult.rating.stars}/5</span>
+                  </div>
+                  <p className="text-base text-slate-600 leading-relaxed">{analysisResult.rating.reason}</p>
+                  {analysisResult.culturalRisks.length > 0 && (
+                    <div className="mt-4 pt-4 border-t border-slate-100 space-y-2">
+                      {analysisResult.culturalRisks.map((risk, i) => (
+                        <div key={i} className="flex gap-2 text-sm text-amber-700">
+                          <AlertTriangle size={14} className="mt-0.5 flex-shrink-0" /> <span>{risk}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                <div className="bg-white p-8 rounded-2xl shadow-sm border border-slate-100">
+                  <h3 className="flex items-center gap-2 text-lg font-bold text-slate-800 mb-4"><FileDown className="text-indigo-600" size={22} /> 导出报告</h3>
+                  <div className="grid grid-cols-3 gap-3">
+                    {([['pdf', 'PDF'], ['docx', 'Word'], ['md', 'Markdown']] as [ReportFormat, string][]).map(([format, label]) => (
+                      <button 
+                        key={format} 
+                        onClick={() => handleExportReport(format)} 
+                        disabled={!!exportingFormat} 
+                        className="flex items-center justify-center gap-1.5 px-3 py-2.5 rounded-lg border border-slate-200 text-sm font-medium text-slate-700 hover:bg-indigo-50 hover:border-indigo-200 hover:text-indigo-700 transition-colors disabled:opacity-50"
+                      >
+                        {exportingFormat === format ? <Loader2 size={14} className="animate-spin" /> : <Download size={14} />} {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
                 <div className="bg-gradient-to-br from-indigo-50 to-purple-50 p-8 rounded-2xl border border-indigo-100">
                   <h3 className="flex items-center gap-2 text-xl font-bold text-indigo-900 mb-3">
                     <Bot size={24} className="text-indigo-600" />
                     需要 SKU 建议?
                   </h3>
                   <p className="text-base text-indigo-700 mb-5 leading-relaxed">
-                    基于{MARKETS.find(m => m.code === currentMarket)?.name}市场数据，AI 顾问可以为您规划 SKU 组合。
+                    基于{getMarketProfile(currentMarket).name}市场数据，AI 顾问可以为您规划 SKU 组合。
                   </p>
                   <button onClick={() => setActiveMode(AppMode.LIVE_AGENT)} className="w-full flex items-center justify-center gap-2 bg-indigo-600 text-white px-5 py-3 rounded-lg hover:bg-indigo-700 transition-all font-medium text-base shadow-md shadow-indigo-200">
                     咨询 AI 顾问 <ChevronRight size={16} />
@@ -1087,6 +2174,18 @@ const App: React.FC = () => {
 
                 <div className="bg-white p-8 rounded-2xl shadow-sm border border-slate-100">
                    <h3 className="flex items-center gap-2 text-xl font-bold text-slate-800 mb-5"><Database className="text-indigo-600" size={22} /> 数据验证</h3>
+                   {analysisResult.groundingChunks && analysisResult.groundingChunks.length > 0 && (
+                     <ol className="space-y-2 mb-6">
+                       {analysisResult.groundingChunks.map((chunk, i) => chunk.web?.uri && (
+                         <li key={i}>
+                           <a href={chunk.web.uri} target="_blank" rel="noopener noreferrer" className="flex items-start gap-2 text-sm text-slate-600 hover:text-indigo-700">
+                             <span className="font-bold text-indigo-600 min-w-[1.5rem]">[{i + 1}]</span>
+                             <span className="truncate">{chunk.web.title || chunk.web.uri}</span>
+                           </a>
+                         </li>
+                       ))}
+                     </ol>
+                   )}
                    <div className="space-y-4">
                      <a href="https://www.fastmoss.com/zh/dashboard" target="_blank" rel="noopener noreferrer" className="flex items-center justify-between p-4 bg-slate-50 hover:bg-slate-100 rounded-xl border border-slate-200 transition-colors group">
                        <span className="text-base font-semibold text-slate-700">FastMoss (TikTok)</span>
@@ -1100,22 +2199,38 @@ const App: React.FC = () => {
                 </div>
 
                 <div className="bg-white p-8 rounded-2xl shadow-sm border border-slate-100 relative">
-                   <h3 className="text-lg font-bold text-slate-800 mb-5">市场价格分布 ({MARKETS.find(m => m.code === currentMarket)?.code})</h3>
-                   <div className="h-64">
-                     {analysisResult.priceData && analysisResult.priceData.length > 0 ? (
+                   <h3 className="text-lg font-bold text-slate-800 mb-5">市场价格区间 ({analysisResult.priceData[0]?.currency || currentMarket})</h3>
+                   <div className="h-64" ref={chartRef}>
+                     {analysisResult.priceData.length > 0 ? (
                        <ResponsiveContainer width="100%" height="100%">
-                         <BarChart data={analysisResult.priceData}>
+                         <BarChart data={analysisResult.priceData.map(p => ({ name: p.platform, range: [p.minPrice, p.maxPrice] }))}>
                            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
                            <XAxis dataKey="name" axisLine={false} tickLine={false} fontSize={14} />
                            <YAxis axisLine={false} tickLine={false} fontSize={14} />
-                           <Tooltip cursor={{fill: '#f1f5f9'}} contentStyle={{borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)'}} />
-                           <Bar dataKey="price" fill={currentMarket === 'TH' ? '#0d9488' : '#6366f1'} radius={[4, 4, 0, 0]} />
+                           <Tooltip cursor={{fill: '#f1f5f9'}} contentStyle={{borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)'}} formatter={(value: any) => Array.isArray(value) ? `${value[0].toLocaleString()} - ${value[1].toLocaleString()}` : value} />
+                           <Bar dataKey="range" name="价格区间" fill={getMarketProfile(currentMarket).accentColor} radius={[4, 4, 4, 4]} />
                          </BarChart>
                        </ResponsiveContainer>
                      ) : (
                        <div className="flex items-center justify-center h-full text-slate-400 text-base border border-dashed rounded-lg">暂无数据</div>
                      )}
                    </div>
+                   {analysisResult.priceData.length > 0 && (
+                     <div className="mt-5 space-y-2">
+                       {analysisResult.priceData.map((p, i) => (
+                         <div key={i} className="flex items-center justify-between text-sm">
+                           <span className="text-slate-600 truncate mr-2">{p.platform}</span>
+                           {p.sourceIndices.length > 0 ? (
+                             <span className="flex items-center gap-1 text-green-600 text-xs font-medium">
+                               <CheckCircle2 size={12} /> 已溯源 <CitationMarker indices={p.sourceIndices} sources={analysisResult.groundingChunks} />
+                             </span>
+                           ) : (
+                             <span className="flex items-center gap-1 text-amber-600 text-xs font-medium bg-amber-50 px-2 py-0.5 rounded"><AlertTriangle size={12} /> 未验证</span>
+                           )}
+                         </div>
+                       ))}
+                     </div>
+                   )}
                 </div>
 
                 <div className="bg-gradient-to-br from-indigo-600 to-purple-700 p-8 rounded-2xl text-white shadow-lg">
@@ -1136,17 +2251,45 @@ const App: React.FC = () => {
                        <h3 className="text-xl font-bold text-slate-800 mb-6 flex items-center gap-2">
                            <Layout className="text-indigo-600" size={24} /> 
                            产品首图预览 (800x800)
+                           {renderCachedBadge(heroHtml, isGeneratingHero || isTranslating)}
                        </h3>
+                       <div className="mb-4">
+                           <PageEditToolbar
+                             selection={heroSelection}
+                             canUndo={!!heroEdits && heroEdits.past.length > 0}
+                             canRedo={!!heroEdits && heroEdits.future.length > 0}
+                             disabled={isTranslating}
+                             onUndo={() => stepPageEdit('hero', 'undo')}
+                             onRedo={() => stepPageEdit('hero', 'redo')}
+                             onStyle={style => heroRef.current?.styleSelection(style)}
+                           />
+                       </div>
                        <div className="relative w-[500px] h-[500px] shadow-2xl rounded-xl overflow-hidden border border-slate-200">
                            <div className="w-[800px] h-[800px] origin-top-left transform scale-[0.625]">
-                               <div ref={heroRef} className="w-full h-full bg-white outline-none" contentEditable={true} suppressContentEditableWarning={true} dangerouslySetInnerHTML={{ __html: heroHtml }} />
+                               <SandboxedHtml
+                                 ref={heroRef}
+                                 html={heroHtml}
+                                 editable
+                                 className="h-full"
+                                 onChange={setHeroHtml}
+                                 onSelectionChange={setHeroSelection}
+                                 onUndo={() => stepPageEdit('hero', 'undo')}
+                                 onRedo={() => stepPageEdit('hero', 'redo')}
+                               />
                            </div>
                        </div>
-                       <div className="mt-8 flex gap-4">
-                           <button onClick={handleTranslateHero} disabled={isTranslating} className="flex items-center gap-2 px-5 py-2.5 bg-orange-500 hover:bg-orange-600 text-white rounded-lg transition-colors font-medium shadow-md disabled:opacity-50">
-                             {isTranslating ? <Loader2 size={18} className="animate-spin" /> : <Languages size={18} />}
-                             {heroLanguage === 'zh' ? `翻译成${currentMarket === 'TH' ? '泰文' : '英文'}` : '还原回中文'}
-                           </button>
+                       <div className="mt-8 flex items-center gap-3">
+                           <LanguageVariantBar
+                             market={currentMarket}
+                             language={heroLanguage}
+                             available={Object.keys({ ...heroVariants, [heroLanguage]: heroHtml }) as ContentLanguage[]}
+                             translatingTo={translatingTo}
+                             onSelect={language => switchHeroLanguage(language)}
+                             onRetranslate={() => switchHeroLanguage(heroLanguage, true)}
+                           />
+                           {isTranslating && renderCancelButton(() => cancelRequest('translate'), true)}
+                       </div>
+                       <div className="mt-4 flex gap-4">
                            <button onClick={handleHeroToImage} className="flex items-center gap-2 px-5 py-2.5 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg transition-colors font-medium shadow-md">
                              <Download size={18} /> 下载首图
                            </button>
@@ -1166,6 +2309,7 @@ const App: React.FC = () => {
                      </div>
                      <h3 className="text-2xl font-bold text-slate-800 mb-2">正在制作您的视频</h3>
                      <p className="text-lg text-slate-500 max-w-md mx-auto h-8 transition-opacity duration-300">{LOADING_MESSAGES[loadingMsgIndex]}</p>
+                     <div className="mt-6">{videoJob && renderCancelButton(() => cancelJob(videoJob.id), true)}</div>
                    </div>
                 )}
                 {!isGeneratingVideo && generatedVideoUrl && (
@@ -1255,18 +2399,56 @@ const App: React.FC = () => {
                         </div>
                      </div>
                      <div className="flex-1 flex flex-col items-center">
-                        <h3 className="text-xl font-bold text-slate-800 mb-6 flex items-center gap-2"><LayoutTemplate className="text-indigo-600" size={24} /> SKU 详情页预览 ({skuStyle})</h3>
+                        <h3 className="text-xl font-bold text-slate-800 mb-6 flex items-center gap-2"><LayoutTemplate className="text-indigo-600" size={24} /> SKU 详情页预览 ({skuStyle}) {renderCachedBadge(skuHtml, isGeneratingSku || isTranslating)}</h3>
+                        <div className="mb-4 flex items-center gap-3">
+                            <PageEditToolbar
+                              selection={skuSelection}
+                              canUndo={!!skuEdits && skuEdits.past.length > 0}
+                              canRedo={!!skuEdits && skuEdits.future.length > 0}
+                              disabled={isTranslating || isGeneratingSkuImage}
+                              onUndo={() => stepPageEdit('sku', 'undo')}
+                              onRedo={() => stepPageEdit('sku', 'redo')}
+                              onStyle={style => skuRef.current?.styleSelection(style)}
+                            />
+                            <button
+                              onClick={openSkuAutoFill}
+                              disabled={isTranslating || isGeneratingSkuImage}
+                              className="flex items-center gap-1.5 px-3 py-2 text-sm font-medium text-indigo-700 bg-indigo-50 hover:bg-indigo-100 border border-indigo-200 rounded-lg transition-colors disabled:opacity-50"
+                            >
+                              <Sparkles size={16} /> 智能填充配图
+                            </button>
+                        </div>
                         <div className="relative bg-white w-full max-w-xl shadow-2xl rounded-xl overflow-hidden border border-slate-200 min-h-[800px]">
-                            <div className="absolute top-4 right-4 z-20 flex gap-2"><div className="bg-indigo-600/90 text-white text-xs px-3 py-1.5 rounded-full flex items-center gap-1.5 shadow-lg backdrop-blur-sm pointer-events-none"><PenLine size={12} /> 文字可直接编辑</div></div>
-                            <div className="h-full w-full overflow-y-auto scrollbar-hide" onClick={handleSkuPreviewClick}>
-                               <div key={skuRenderKey} ref={skuRef} className="bg-white min-h-full outline-none" contentEditable={true} suppressContentEditableWarning={true} dangerouslySetInnerHTML={{ __html: skuHtml || '' }} />
+                            <div className="h-full w-full overflow-y-auto scrollbar-hide">
+                               <SandboxedHtml
+                                 key={skuRenderKey}
+                                 ref={skuRef}
+                                 html={skuHtml || ''}
+                                 editable
+                                 autoHeight
+                                 className="min-h-[800px]"
+                                 onImageClick={pickSkuImageReplacement}
+                                 onChange={setSkuHtml}
+                                 onSelectionChange={setSkuSelection}
+                                 onUndo={() => stepPageEdit('sku', 'undo')}
+                                 onRedo={() => stepPageEdit('sku', 'redo')}
+                               />
                             </div>
                         </div>
-                        <div className="mt-8 flex gap-4">
-                            <button onClick={handleToggleTranslation} disabled={isTranslating || isGeneratingSkuImage} className="flex items-center gap-2 px-5 py-2.5 bg-orange-500 hover:bg-orange-600 text-white rounded-lg transition-colors font-medium shadow-md disabled:opacity-50">
-                              {isTranslating ? <Loader2 size={18} className="animate-spin" /> : <Languages size={18} />}
-                              {skuLanguage === 'zh' ? `翻译成${MARKETS.find(m => m.code === currentMarket)?.name || '英文'}` : '还原回中文'}
-                            </button>
+                        {regeneratingSection !== null && <div className="mt-4">{renderCancelButton(() => cancelRequest('section'), true)}</div>}
+                        <div className="mt-8 flex items-center gap-3">
+                            <LanguageVariantBar
+                              market={currentMarket}
+                              language={skuLanguage}
+                              available={Object.keys({ ...skuVariants, [skuLanguage]: skuHtml }) as ContentLanguage[]}
+                              translatingTo={translatingTo}
+                              disabled={isGeneratingSkuImage}
+                              onSelect={language => switchSkuLanguage(language)}
+                              onRetranslate={() => switchSkuLanguage(skuLanguage, true)}
+                            />
+                            {isTranslating && renderCancelButton(() => cancelRequest('translate'), true)}
+                        </div>
+                        <div className="mt-4 flex gap-4">
                             <button onClick={() => handleSkuToImage('preview')} disabled={isGeneratingSkuImage} className="flex items-center gap-2 px-5 py-2.5 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg transition-colors font-medium shadow-md disabled:opacity-50">
                               {isGeneratingSkuImage ? <Loader2 size={18} className="animate-spin" /> : <ZoomIn size={18} />}
                               放大预览 (HTML)
@@ -1275,6 +2457,17 @@ const App: React.FC = () => {
                             <button onClick={() => copyToClipboard(skuHtml || '')} className="flex items-center gap-2 px-5 py-2.5 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg transition-colors font-medium"><Code size={18} /> 复制代码</button>
                         </div>
                      </div>
+                     <div className="w-60 flex-shrink-0 sticky top-24 z-10 max-h-[calc(100vh-120px)] overflow-y-auto scrollbar-hide">
+                        <SkuSectionOutline
+                          sections={skuSections}
+                          regeneratingIndex={regeneratingSection}
+                          disabled={isTranslating || isGeneratingSkuImage}
+                          onMove={(from, to) => editSkuSections(html => moveSkuSection(html, from, to))}
+                          onDuplicate={index => editSkuSections(html => duplicateSkuSection(html, index))}
+                          onDelete={index => editSkuSections(html => removeSkuSection(html, index))}
+                          onRegenerate={handleRegenerateSkuSection}
+                        />
+                     </div>
                   </div>
                 )}
              </div>
@@ -1282,12 +2475,54 @@ const App: React.FC = () => {
 
           {/* === LOGISTICS CALCULATOR MODULE === */}
           {activeMode === AppMode.CALCULATOR && (
-            <LogisticsCalculator contextData={analysisResult} market={currentMarket} />
+            <LogisticsCalculator
+              key={calculatorKey}
+              contextData={analysisResult}
+              market={currentMarket}
+              initialScenario={calculatorScenario}
+              onSaveScenario={currentUser || activeProductId ? (scenario) => {
+                patchProduct(activeProductId, p => ({ calculatorScenarios: { ...p.calculatorScenarios, [currentMarket]: scenario } }));
+                addToHistory(`定价方案 (${currentMarket})`, { kind: 'calculatorScenario', scenario });
+              } : undefined}
+            />
+          )}
+
+          {/* === USAGE === */}
+          {activeMode === AppMode.USAGE && (
+            <UsageDashboard currentUser={currentUser} products={products} />
+          )}
+
+          {/* === SETTINGS === */}
+          {activeMode === AppMode.SETTINGS && (
+            <div className="space-y-8">
+              <SettingsPanel
+                settings={aiSettings}
+                onChange={settings => {
+                  saveAiSettings(settings);
+                  setAiSettings(settings);
+                }}
+              />
+              <ResponseCachePanel />
+              <PromptTemplatePanel images={productImages} defaultMarket={currentMarket} userId={currentUser?.id} />
+            </div>
+          )}
+
+          {/* Off-screen layout used for PDF export */}
+          {pdfReportInput && (
+            <div className="fixed top-0 -left-[10000px] pointer-events-none" aria-hidden="true">
+              <ReportDocument ref={reportRef} input={pdfReportInput} renderMarkdown={formatAnalysisText} />
+            </div>
           )}
 
           {/* === LIVE AGENT MODULE === */}
           <div className={activeMode === AppMode.LIVE_AGENT ? "w-full mx-auto" : "hidden"}>
-            <LiveAgent contextData={analysisResult} market={currentMarket} onUsePrompt={handleUsePrompt} onBatchGenerate={handleBatchGenerate} />
+            <LiveAgent
+              contextData={analysisResult}
+              market={currentMarket}
+              attribution={{ userId: currentUser?.id, productId: activeProductId || undefined, mode: AppMode.LIVE_AGENT }}
+              onUsePrompt={handleUsePrompt}
+              onBatchGenerate={handleBatchGenerate}
+            />
           </div>
 
         </div>
@@ -0,0 +1,33 @@
+import React from 'react';
+import { DatabaseZap, RefreshCw } from 'lucide-react';
+
+interface CachedBadgeProps {
+  cachedAt: number;
+  onRefresh: () => void;
+  disabled?: boolean;
+}
+
+export const formatCacheAge = (cachedAt: number) => {
+  const minutes = Math.floor((Date.now() - cachedAt) / 60_000);
+  if (minutes < 1) return '刚刚';
+  if (minutes < 60) return `${minutes} 分钟前`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} 小时前`;
+  return `${Math.floor(hours / 24)} 天前`;
+};
+
+/**
+ * Marks a result served from the response cache, with a way to pay for a fresh one.
+ */
+export const CachedBadge: React.FC<CachedBadgeProps> = ({ cachedAt, onRefresh, disabled }) => (
+  <span className="not-prose inline-flex items-center gap-2 text-xs font-medium text-emerald-700 bg-emerald-50 border border-emerald-200 rounded-full pl-3 pr-1 py-1" title={`缓存于 ${new Date(cachedAt).toLocaleString()}`}>
+    <DatabaseZap size={12} /> 已缓存 · {formatCacheAge(cachedAt)}
+    <button
+      onClick={onRefresh}
+      disabled={disabled}
+      className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-white text-emerald-700 hover:bg-emerald-100 disabled:opacity-50"
+    >
+      <RefreshCw size={11} /> 强制刷新
+    </button>
+  </span>
+);
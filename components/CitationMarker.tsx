@@ -0,0 +1,42 @@
+import React from 'react';
+import { ExternalLink } from 'lucide-react';
+import { AnalysisData } from '../types';
+
+interface CitationMarkerProps {
+  indices: number[]; // 0-based indices into groundingChunks
+  sources?: AnalysisData['groundingChunks'];
+}
+
+const getHostname = (uri: string) => {
+  try {
+    return new URL(uri).hostname;
+  } catch {
+    return uri;
+  }
+};
+
+export const CitationMarker: React.FC<CitationMarkerProps> = ({ indices, sources }) => (
+  <span className="relative inline-block group/cite">
+    <sup className="text-indigo-600 font-semibold cursor-help px-0.5 hover:text-indigo-800">
+      [{indices.map(i => i + 1).join(',')}]
+    </sup>
+    {sources && sources.length > 0 && (
+      <span className="hidden group-hover/cite:block absolute z-30 bottom-full left-0 mb-1 w-80 bg-white border border-slate-200 rounded-xl shadow-xl p-3 space-y-2 text-left">
+        {indices.map(i => {
+          const web = sources[i]?.web;
+          if (!web?.uri) return null;
+          return (
+            <a key={i} href={web.uri} target="_blank" rel="noopener noreferrer" className="flex items-start gap-2 p-2 rounded-lg hover:bg-slate-50 group/source">
+              <span className="text-xs font-bold text-indigo-600 min-w-[1.25rem]">{i + 1}</span>
+              <span className="flex-1 min-w-0">
+                <span className="block text-sm font-semibold text-slate-800 truncate">{web.title || getHostname(web.uri)}</span>
+                <span className="block text-xs text-slate-400 truncate">{getHostname(web.uri)}</span>
+              </span>
+              <ExternalLink size={12} className="text-slate-300 group-hover/source:text-indigo-600 mt-1 flex-shrink-0" />
+            </a>
+          );
+        })}
+      </span>
+    )}
+  </span>
+);
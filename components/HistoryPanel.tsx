@@ -0,0 +1,270 @@
+import React, { useMemo, useState } from 'react';
+import { Search, Star, Tag, X, Filter, CheckSquare, Square, Trash2, Download, Columns, History, Plus } from 'lucide-react';
+import { AppMode, HistoryItem, HistoryItemMeta, TargetMarket } from '../types';
+
+const MODE_LABELS: Partial<Record<AppMode, string>> = {
+  [AppMode.ANALYSIS]: '报告',
+  [AppMode.IMAGE_EDIT]: '设计',
+  [AppMode.HERO_DESIGN]: '首图',
+  [AppMode.VEO_VIDEO]: '视频',
+  [AppMode.CALCULATOR]: '测算',
+};
+
+type DateRange = 'all' | '7d' | '30d' | 'custom';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface HistoryPanelProps {
+  items: HistoryItem[];
+  onRestore: (item: HistoryItem) => void;
+  onUpdateMeta: (id: string, meta: HistoryItemMeta) => void;
+  onDelete: (ids: string[]) => void;
+  onExport: (ids: string[]) => void;
+  onCompare: (ids: string[]) => void;
+}
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ items, onRestore, onUpdateMeta, onDelete, onExport, onCompare }) => {
+  const [query, setQuery] = useState('');
+  const [showFilters, setShowFilters] = useState(false);
+  const [marketFilter, setMarketFilter] = useState<TargetMarket | 'all'>('all');
+  const [modeFilter, setModeFilter] = useState<AppMode | 'all'>('all');
+  const [dateRange, setDateRange] = useState<DateRange>('all');
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  const [starredOnly, setStarredOnly] = useState(false);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+
+  const [selecting, setSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [taggingId, setTaggingId] = useState<string | null>(null);
+  const [tagDraft, setTagDraft] = useState('');
+
+  const markets = useMemo(() => Array.from(new Set(items.map(i => i.market).filter((m): m is TargetMarket => !!m))), [items]);
+  const modes = useMemo(() => Array.from(new Set(items.map(i => i.mode))), [items]);
+  const allTags = useMemo(() => Array.from(new Set(items.flatMap(i => i.tags || []))).sort(), [items]);
+
+  const filtered = useMemo(() => {
+    const terms = query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+    const now = Date.now();
+    const from = dateRange === '7d' ? now - 7 * DAY_MS
+      : dateRange === '30d' ? now - 30 * DAY_MS
+      : dateRange === 'custom' && dateFrom ? new Date(dateFrom).getTime() : 0;
+    const to = dateRange === 'custom' && dateTo ? new Date(dateTo).getTime() + DAY_MS : Infinity;
+
+    return items.filter(item => {
+      if (marketFilter !== 'all' && item.market !== marketFilter) return false;
+      if (modeFilter !== 'all' && item.mode !== modeFilter) return false;
+      if (starredOnly && !item.starred) return false;
+      if (tagFilter && !(item.tags || []).includes(tagFilter)) return false;
+      if (item.timestamp < from || item.timestamp >= to) return false;
+      if (terms.length === 0) return true;
+      const haystack = `${item.title} ${(item.tags || []).join(' ')} ${item.searchText || ''}`.toLowerCase();
+      return terms.every(term => haystack.includes(term));
+    });
+  }, [items, query, marketFilter, modeFilter, dateRange, dateFrom, dateTo, starredOnly, tagFilter]);
+
+  const activeFilterCount = [marketFilter !== 'all', modeFilter !== 'all', dateRange !== 'all', starredOnly, !!tagFilter].filter(Boolean).length;
+  const selectedItems = items.filter(i => selectedIds.includes(i.id));
+  const canCompare = selectedItems.length >= 2 && selectedItems.every(i => i.mode === AppMode.ANALYSIS);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+  };
+
+  const exitSelecting = () => {
+    setSelecting(false);
+    setSelectedIds([]);
+  };
+
+  const addTag = (item: HistoryItem) => {
+    const tag = tagDraft.trim();
+    if (tag && !(item.tags || []).includes(tag)) {
+      onUpdateMeta(item.id, { tags: [...(item.tags || []), tag] });
+    }
+    setTagDraft('');
+    setTaggingId(null);
+  };
+
+  const removeTag = (item: HistoryItem, tag: string) => {
+    onUpdateMeta(item.id, { tags: (item.tags || []).filter(t => t !== tag) });
+  };
+
+  const handleDelete = () => {
+    if (selectedIds.length === 0) return;
+    if (!confirm(`确定删除选中的 ${selectedIds.length} 条记录？`)) return;
+    onDelete(selectedIds);
+    exitSelecting();
+  };
+
+  const clearFilters = () => {
+    setMarketFilter('all');
+    setModeFilter('all');
+    setDateRange('all');
+    setStarredOnly(false);
+    setTagFilter(null);
+  };
+
+  if (items.length === 0) {
+    return (
+      <div className="text-center py-6 text-slate-400 text-sm">
+        <History size={24} className="mx-auto mb-2 opacity-50"/>
+        暂无历史记录
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {/* Search & toolbar */}
+      <div className="flex items-center gap-1.5 px-1">
+        <div className="flex-1 relative">
+          <Search size={14} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-slate-400" />
+          <input
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder="搜索标题、关键词、报告内容"
+            className="w-full pl-8 pr-2 py-1.5 text-xs bg-slate-50 border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+        </div>
+        <button onClick={() => setShowFilters(v => !v)} title="筛选" className={`relative p-1.5 rounded-lg border ${showFilters || activeFilterCount > 0 ? 'border-indigo-200 bg-indigo-50 text-indigo-600' : 'border-slate-200 text-slate-400 hover:text-slate-600'}`}>
+          <Filter size={14} />
+          {activeFilterCount > 0 && <span className="absolute -top-1 -right-1 w-3.5 h-3.5 rounded-full bg-indigo-600 text-white text-[9px] flex items-center justify-center">{activeFilterCount}</span>}
+        </button>
+        <button onClick={() => selecting ? exitSelecting() : setSelecting(true)} title="多选" className={`p-1.5 rounded-lg border ${selecting ? 'border-indigo-200 bg-indigo-50 text-indigo-600' : 'border-slate-200 text-slate-400 hover:text-slate-600'}`}>
+          <CheckSquare size={14} />
+        </button>
+      </div>
+
+      {showFilters && (
+        <div className="mx-1 p-2.5 bg-slate-50 rounded-lg border border-slate-100 space-y-2 text-xs">
+          <div className="grid grid-cols-2 gap-1.5">
+            <select value={marketFilter} onChange={e => setMarketFilter(e.target.value as TargetMarket | 'all')} className="px-2 py-1 border border-slate-200 rounded bg-white outline-none">
+              <option value="all">全部市场</option>
+              {markets.map(m => <option key={m} value={m}>{m}</option>)}
+            </select>
+            <select value={modeFilter} onChange={e => setModeFilter(e.target.value as AppMode | 'all')} className="px-2 py-1 border border-slate-200 rounded bg-white outline-none">
+              <option value="all">全部类型</option>
+              {modes.map(m => <option key={m} value={m}>{MODE_LABELS[m] || m}</option>)}
+            </select>
+          </div>
+          <select value={dateRange} onChange={e => setDateRange(e.target.value as DateRange)} className="w-full px-2 py-1 border border-slate-200 rounded bg-white outline-none">
+            <option value="all">全部时间</option>
+            <option value="7d">最近 7 天</option>
+            <option value="30d">最近 30 天</option>
+            <option value="custom">自定义范围</option>
+          </select>
+          {dateRange === 'custom' && (
+            <div className="flex items-center gap-1">
+              <input type="date" value={dateFrom} onChange={e => setDateFrom(e.target.value)} className="flex-1 min-w-0 px-1 py-1 border border-slate-200 rounded bg-white outline-none" />
+              <span className="text-slate-400">-</span>
+              <input type="date" value={dateTo} onChange={e => setDateTo(e.target.value)} className="flex-1 min-w-0 px-1 py-1 border border-slate-200 rounded bg-white outline-none" />
+            </div>
+          )}
+          <label className="flex items-center gap-1.5 text-slate-600 cursor-pointer">
+            <input type="checkbox" checked={starredOnly} onChange={e => setStarredOnly(e.target.checked)} className="accent-indigo-600" /> 仅看星标
+          </label>
+          {allTags.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {allTags.map(tag => (
+                <button key={tag} onClick={() => setTagFilter(tagFilter === tag ? null : tag)} className={`px-1.5 py-0.5 rounded border ${tagFilter === tag ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-600 border-slate-200'}`}>
+                  #{tag}
+                </button>
+              ))}
+            </div>
+          )}
+          {activeFilterCount > 0 && <button onClick={clearFilters} className="text-indigo-600 hover:underline">清除筛选</button>}
+        </div>
+      )}
+
+      {selecting && (
+        <div className="mx-1 flex items-center gap-1 p-1.5 bg-indigo-50 rounded-lg border border-indigo-100 text-xs">
+          <span className="flex-1 text-indigo-700 font-medium pl-1">已选 {selectedIds.length}</span>
+          <button onClick={() => onExport(selectedIds)} disabled={selectedIds.length === 0} title="导出" className="p-1 rounded text-indigo-600 hover:bg-white disabled:opacity-40"><Download size={14} /></button>
+          <button onClick={() => { onCompare(selectedIds); exitSelecting(); }} disabled={!canCompare} title="对比（选择 2 条以上分析报告）" className="p-1 rounded text-indigo-600 hover:bg-white disabled:opacity-40"><Columns size={14} /></button>
+          <button onClick={handleDelete} disabled={selectedIds.length === 0} title="删除" className="p-1 rounded text-red-500 hover:bg-white disabled:opacity-40"><Trash2 size={14} /></button>
+        </div>
+      )}
+
+      {filtered.length === 0 && (
+        <div className="text-center py-4 text-slate-400 text-xs">没有匹配的记录</div>
+      )}
+
+      {filtered.map((item) => {
+        const isSelected = selectedIds.includes(item.id);
+        return (
+          <div
+            key={item.id}
+            onClick={() => selecting ? toggleSelected(item.id) : onRestore(item)}
+            className={`group flex gap-3 p-2 rounded-lg cursor-pointer transition-colors ${isSelected ? 'bg-indigo-50' : 'hover:bg-slate-50'}`}
+          >
+            {selecting && (
+              <div className="flex items-center text-indigo-600">
+                {isSelected ? <CheckSquare size={16} /> : <Square size={16} className="text-slate-300" />}
+              </div>
+            )}
+            <div className="w-10 h-10 rounded-md bg-slate-200 overflow-hidden flex-shrink-0 border border-slate-100">
+              {item.thumbnail ? (
+                <img src={item.thumbnail} className="w-full h-full object-cover" alt="thumb" />
+              ) : (
+                <div className="w-full h-full flex items-center justify-center text-slate-400">
+                  <Search size={14}/>
+                </div>
+              )}
+            </div>
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-1">
+                <p className="flex-1 text-sm font-medium text-slate-700 truncate group-hover:text-indigo-700">{item.title}</p>
+                <button
+                  onClick={e => { e.stopPropagation(); onUpdateMeta(item.id, { starred: !item.starred }); }}
+                  className={`flex-shrink-0 ${item.starred ? 'text-amber-400' : 'text-slate-300 opacity-0 group-hover:opacity-100'}`}
+                  title={item.starred ? '取消星标' : '加星标'}
+                >
+                  <Star size={13} className={item.starred ? 'fill-amber-400' : ''} />
+                </button>
+              </div>
+              <div className="flex items-center gap-1.5 mt-0.5 flex-wrap">
+                {item.market && (
+                  <span className={`text-[10px] px-1 rounded bg-slate-100 text-slate-600`}>
+                    {item.market}
+                  </span>
+                )}
+                <p className="text-xs text-slate-400 flex items-center gap-1">
+                  {MODE_LABELS[item.mode] || '设计'}
+                </p>
+                {(item.tags || []).map(tag => (
+                  <span key={tag} className="text-[10px] px-1 rounded bg-indigo-50 text-indigo-600 flex items-center gap-0.5">
+                    #{tag}
+                    <X size={9} className="cursor-pointer hover:text-red-500" onClick={e => { e.stopPropagation(); removeTag(item, tag); }} />
+                  </span>
+                ))}
+                {taggingId === item.id ? (
+                  <input
+                    autoFocus
+                    value={tagDraft}
+                    onClick={e => e.stopPropagation()}
+                    onChange={e => setTagDraft(e.target.value)}
+                    onKeyDown={e => {
+                      if (e.key === 'Enter') addTag(item);
+                      if (e.key === 'Escape') { setTaggingId(null); setTagDraft(''); }
+                    }}
+                    onBlur={() => addTag(item)}
+                    placeholder="标签"
+                    className="w-14 text-[10px] px-1 border border-indigo-200 rounded outline-none"
+                  />
+                ) : (
+                  <button
+                    onClick={e => { e.stopPropagation(); setTaggingId(item.id); }}
+                    className="text-slate-300 hover:text-indigo-500 opacity-0 group-hover:opacity-100"
+                    title="添加标签"
+                  >
+                    <span className="flex items-center"><Plus size={9} /><Tag size={10} /></span>
+                  </button>
+                )}
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,137 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ListChecks, Loader2, CheckCircle2, AlertTriangle, XCircle, RotateCcw, X, Video, Images, Layout, LayoutTemplate, Columns } from 'lucide-react';
+import { BackgroundJob, BackgroundJobKind, ProductWorkspace } from '../types';
+import { JOB_LABELS } from '../services/jobCenter';
+
+const KIND_ICONS: Record<BackgroundJobKind, React.ReactNode> = {
+  video: <Video size={14} />,
+  batchImages: <Images size={14} />,
+  hero: <Layout size={14} />,
+  sku: <LayoutTemplate size={14} />,
+  compare: <Columns size={14} />,
+};
+
+interface JobCenterProps {
+  jobs: BackgroundJob[];
+  products: ProductWorkspace[];
+  onOpen: (job: BackgroundJob) => void;
+  onCancel: (id: string) => void;
+  onRetry: (job: BackgroundJob) => void;
+  onDismiss: (ids: string[]) => void;
+}
+
+const formatElapsed = (ms: number) => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+export const JobCenter: React.FC<JobCenterProps> = ({ jobs, products, onOpen, onCancel, onRetry, onDismiss }) => {
+  const [open, setOpen] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  const running = jobs.filter(job => job.status === 'running');
+  const finished = jobs.filter(job => job.status !== 'running');
+
+  // Tick the elapsed timers only while something is running and the panel is visible
+  useEffect(() => {
+    if (!open || running.length === 0) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [open, running.length]);
+
+  useEffect(() => {
+    if (!open) return;
+    const onPointerDown = (e: PointerEvent) => {
+      if (panelRef.current && !panelRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('pointerdown', onPointerDown);
+    return () => document.removeEventListener('pointerdown', onPointerDown);
+  }, [open]);
+
+  const productName = (job: BackgroundJob) => products.find(p => p.id === job.productId)?.name;
+
+  const renderStatus = (job: BackgroundJob) => {
+    switch (job.status) {
+      case 'running':
+        return (
+          <span className="flex items-center gap-1 text-indigo-600">
+            <Loader2 size={11} className="animate-spin" />
+            {job.retry ? `等待重试 (${job.retry.attempt}/${job.retry.maxRetries})` : '进行中'} · {formatElapsed(now - job.createdAt)}
+          </span>
+        );
+      case 'done':
+        return <span className="flex items-center gap-1 text-green-600"><CheckCircle2 size={11} /> 已完成 · {new Date(job.updatedAt).toLocaleTimeString()}</span>;
+      case 'failed':
+        return <span className="flex items-center gap-1 text-red-500" title={job.error}><AlertTriangle size={11} /> {job.error || '失败'}</span>;
+      case 'cancelled':
+        return <span className="flex items-center gap-1 text-slate-400"><XCircle size={11} /> 已取消</span>;
+    }
+  };
+
+  const renderJob = (job: BackgroundJob) => {
+    const name = productName(job);
+    return (
+      <div key={job.id} onClick={() => { onOpen(job); setOpen(false); }} className="group flex gap-3 p-2 rounded-lg cursor-pointer hover:bg-slate-50">
+        <div className="w-8 h-8 rounded-md bg-slate-100 text-slate-500 flex items-center justify-center flex-shrink-0">
+          {KIND_ICONS[job.kind]}
+        </div>
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium text-slate-700 truncate group-hover:text-indigo-700">{job.title}</p>
+          <p className="text-[11px] text-slate-400 truncate">{JOB_LABELS[job.kind]} · {job.market}{name ? ` · ${name}` : ''}</p>
+          <div className="text-[11px] mt-0.5 truncate">{renderStatus(job)}</div>
+        </div>
+        <div className="flex items-start gap-1 flex-shrink-0">
+          {job.status === 'running' && (
+            <button onClick={e => { e.stopPropagation(); onCancel(job.id); }} title="取消" className="p-1 rounded text-slate-400 hover:text-red-500 hover:bg-red-50"><X size={14} /></button>
+          )}
+          {(job.status === 'failed' || job.status === 'cancelled') && (
+            <button onClick={e => { e.stopPropagation(); onRetry(job); }} title="重试" className="p-1 rounded text-slate-400 hover:text-indigo-600 hover:bg-indigo-50"><RotateCcw size={14} /></button>
+          )}
+          {job.status !== 'running' && (
+            <button onClick={e => { e.stopPropagation(); onDismiss([job.id]); }} title="移除" className="p-1 rounded text-slate-300 hover:text-slate-500 opacity-0 group-hover:opacity-100"><X size={14} /></button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div ref={panelRef} className="relative">
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        className={`relative flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-bold transition-colors ${running.length > 0 ? 'bg-indigo-100 text-indigo-700' : 'bg-slate-100 text-slate-500 hover:text-slate-700'}`}
+        title="后台任务"
+      >
+        {running.length > 0 ? <Loader2 size={14} className="animate-spin" /> : <ListChecks size={14} />}
+        任务{running.length > 0 && ` ${running.length}`}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-10 w-96 max-h-[70vh] overflow-y-auto bg-white rounded-xl shadow-2xl border border-slate-200 p-2 z-30 animate-fade-in">
+          <div className="flex items-center justify-between px-2 py-1.5">
+            <p className="text-sm font-bold text-slate-800">后台任务</p>
+            {finished.length > 0 && (
+              <button onClick={() => onDismiss(finished.map(job => job.id))} className="text-xs text-slate-400 hover:text-slate-600">清除已结束</button>
+            )}
+          </div>
+          {jobs.length === 0 && (
+            <div className="text-center py-6 text-slate-400 text-xs">暂无任务。视频、批量配图、首图、详情页和多市场对比会在后台运行，切换页面或刷新后仍会继续。</div>
+          )}
+          {running.length > 0 && (
+            <>
+              <p className="px-2 pt-2 text-[11px] font-bold text-slate-400">进行中</p>
+              {running.map(renderJob)}
+            </>
+          )}
+          {finished.length > 0 && (
+            <>
+              <p className="px-2 pt-2 text-[11px] font-bold text-slate-400">已结束</p>
+              {finished.map(renderJob)}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
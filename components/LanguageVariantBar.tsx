@@ -0,0 +1,71 @@
+import React from 'react';
+import { Check, Languages, Loader2, RefreshCw } from 'lucide-react';
+import { ContentLanguage, TargetMarket } from '../types';
+import { CONTENT_LANGUAGES, CONTENT_LANGUAGE_CODES } from '../services/contentLanguages';
+import { getMarketProfile } from '../services/marketProfiles';
+
+interface LanguageVariantBarProps {
+  market: TargetMarket;
+  language: ContentLanguage; // the variant open in the editor
+  available: ContentLanguage[]; // languages the page already has a variant in
+  translatingTo: ContentLanguage | null;
+  disabled?: boolean;
+  onSelect: (language: ContentLanguage) => void;
+  onRetranslate: () => void;
+}
+
+/**
+ * Language switcher for a generated page: the Chinese original, the market's languages and
+ * any other language picked from the list. Switching to a language the page already has
+ * opens that variant; any other language is translated from the Chinese original.
+ */
+export const LanguageVariantBar: React.FC<LanguageVariantBarProps> = ({ market, language, available, translatingTo, disabled, onSelect, onRetranslate }) => {
+  const shown = Array.from(new Set<ContentLanguage>(['zh', ...getMarketProfile(market).translationLanguages, ...available]));
+  const others = CONTENT_LANGUAGE_CODES.filter(code => !shown.includes(code));
+  const busy = disabled || translatingTo !== null;
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2">
+      <Languages size={18} className="text-orange-500" />
+      {shown.map(code => {
+        const isOpen = code === language;
+        const hasVariant = available.includes(code);
+        return (
+          <button
+            key={code}
+            onClick={() => onSelect(code)}
+            disabled={busy || isOpen}
+            title={hasVariant ? '已有译文，直接切换' : '翻译生成此语言版本'}
+            className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg border text-sm font-medium transition-colors ${
+              isOpen
+                ? 'bg-orange-500 border-orange-500 text-white'
+                : hasVariant
+                  ? 'bg-orange-50 border-orange-200 text-orange-700 hover:bg-orange-100 disabled:opacity-50'
+                  : 'bg-white border-dashed border-slate-300 text-slate-500 hover:border-orange-300 hover:text-orange-600 disabled:opacity-50'
+            }`}
+          >
+            {translatingTo === code ? <Loader2 size={14} className="animate-spin" /> : hasVariant && !isOpen && <Check size={14} />}
+            {CONTENT_LANGUAGES[code].label}
+            {code === 'zh' && <span className="text-[10px] opacity-70">原稿</span>}
+          </button>
+        );
+      })}
+      {others.length > 0 && (
+        <select
+          value=""
+          disabled={busy}
+          onChange={e => e.target.value && onSelect(e.target.value as ContentLanguage)}
+          className="px-2 py-1.5 border border-slate-200 rounded-lg text-sm text-slate-500 outline-none disabled:opacity-50"
+        >
+          <option value="">其他语言…</option>
+          {others.map(code => <option key={code} value={code}>{CONTENT_LANGUAGES[code].label}</option>)}
+        </select>
+      )}
+      {language !== 'zh' && available.includes('zh') && (
+        <button onClick={onRetranslate} disabled={busy} title="按当前中文原稿重新翻译此语言" className="flex items-center gap-1 px-2 py-1.5 text-sm text-slate-500 hover:text-orange-600 disabled:opacity-50">
+          <RefreshCw size={14} /> 重新翻译
+        </button>
+      )}
+    </div>
+  );
+};
@@ -1,51 +1,20 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { GoogleGenAI, Chat, GenerateContentResponse } from '@google/genai';
+import type { Content, Part } from '@google/genai';
 import { Send, Bot, User, Loader2, Sparkles, MessageSquarePlus, Box, Clapperboard, Image as ImageIcon, X, Copy, Check, Wand2, Palette, Layers } from 'lucide-react';
 import { AnalysisData, TargetMarket } from '../types';
+import { getAgentSystemInstruction, streamAgentChat } from '../services/gemini';
+import { BudgetExceededError, UsageAttribution } from '../services/usageStore';
+import { describeRequestError } from '../services/requestControl';
+import { getMarketProfile } from '../services/marketProfiles';
 
 interface LiveAgentProps {
   contextData?: AnalysisData | null;
   market: TargetMarket;
+  attribution: UsageAttribution;
   onUsePrompt: (prompt: string) => void;
   onBatchGenerate: (prompts: Array<{label: string, prompt: string}>) => void;
 }
 
-const getSystemInstruction = (market: TargetMarket) => `
-你是一位针对东南亚市场（特指：${market}）的跨境电商高级顾问。
-你的任务是帮助用户解决选品、定价、营销和物流方面的具体问题。
-请使用中文与用户进行专业、热情且切中要害的对话。
-
-【市场专家角色设定】：
-${market === 'TH' ? '- 泰国: 佛教文化、颜色喜好（鲜艳）、TikTok/Shopee。关键词: 泰语。' : ''}
-${market === 'PH' ? '- 菲律宾: 天主教、英语/Tagalog、喜欢促销/赠品。关键词: 英语/Taglish。' : ''}
-${market === 'VN' ? '- 越南: 价格敏感、年轻人口、Zalo/Facebook 营销。关键词: 越南语。' : ''}
-${market === 'MY' ? '- 马来西亚: 多元种族、清真(Halal)意识、西马/东马物流差异。关键词: 英语/马来语。' : ''}
-${market === 'SG' ? '- 新加坡: 高消费力、追求品质效率、全英文环境。关键词: 英语。' : ''}
-${market === 'ID' ? '- 印尼: 穆斯林文化、千岛物流痛点、Tokopedia/Shopee。关键词: 印尼语。' : ''}
-
-【特殊能力 - 当已知产品信息时】：
-1. SKU 规划：建议适合当地市场的 SKU 组合（如：颜色、尺寸、打包策略）。
-2. 视频脚本：生成本土化 TikTok 短视频脚本。
-3. 详情页优化：撰写符合当地语言习惯的卖点。
-
-【智能配图生成 (SKU 详情页专用)】：
-当用户询问“场景图建议”、“生成图片提示词”、“配图建议”或“SKU 配图”时，请基于当前分析的产品，**严格按照以下 8 个核心板块顺序**，生成极具**${market}本土电商风格**的英文 AI 绘画提示词。
-
-**请依次生成 8 个板块的 Prompt:**
-1. **Hero Poster (首屏海报)**
-2. **Product Overview (产品全貌)**
-3. **Pain Points (核心功能/痛点)**
-4. **Lifestyle Scenario (场景化)**
-5. **Competitor Comparison (竞品对比)**
-6. **Quality Details (细节品质)**
-7. **Social Proof (用户口碑)**
-8. **Certificates (资质认证)**
-
-**务必严格按照以下格式输出每一个 Prompt，以便系统识别为可点击按钮**：
-**[板块名称]**
-🎨 Prompt: [英文提示词内容]
-`;
-
 // Helper function to render formatted text with action buttons
 const formatMessageText = (text: string, onUsePrompt: (prompt: string) => void) => {
   const lines = text.split('\n');
@@ -126,8 +95,19 @@ const formatMessageText = (text: string, onUsePrompt: (prompt: string) => void)
   });
 };
 
-export const LiveAgent: React.FC<LiveAgentProps> = ({ contextData, market, onUsePrompt, onBatchGenerate }) => {
-  const [messages, setMessages] = useState<{role: 'user'|'model', text: string, image?: string}[]>([]);
+type ChatMessage = { role: 'user' | 'model', text: string, image?: string };
+
+// The first message is the local greeting; the model only sees real turns
+const toChatHistory = (messages: ChatMessage[]): Content[] =>
+  messages.slice(1).filter(msg => msg.text || msg.image).map(msg => ({
+    role: msg.role,
+    parts: msg.image
+      ? [{ text: msg.text || "请分析这张图片" }, { inlineData: { mimeType: msg.image.slice(5, msg.image.indexOf(';')), data: msg.image.split(',')[1] } }]
+      : [{ text: msg.text }]
+  }));
+
+export const LiveAgent: React.FC<LiveAgentProps> = ({ contextData, market, attribution, onUsePrompt, onBatchGenerate }) => {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [input, setInput] = useState('');
   const [isTyping, setIsTyping] = useState(false);
   const [copiedId, setCopiedId] = useState<number | null>(null);
@@ -136,26 +116,20 @@ export const LiveAgent: React.FC<LiveAgentProps> = ({ contextData, market, onUse
   const [pendingImage, setPendingImage] = useState<string | null>(null);
   const [pendingMimeType, setPendingMimeType] = useState<string>('image/jpeg');
   
-  const chatSessionRef = useRef<Chat | null>(null);
+  const systemInstructionRef = useRef('');
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Initialize or Re-initialize chat when context or MARKET changes
   useEffect(() => {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    
-    let systemInstruction = getSystemInstruction(market);
+    let systemInstruction = getAgentSystemInstruction(market);
     if (contextData) {
       systemInstruction += `\n\n【当前分析的产品信息】：\n${contextData.text.substring(0, 1500)}...\n\n请基于以上产品信息回答用户问题。重点关注 SKU 建议和视频营销内容。`;
     }
 
-    chatSessionRef.current = ai.chats.create({
-      model: 'gemini-3-flash-preview',
-      config: { systemInstruction },
-    });
+    systemInstructionRef.current = systemInstruction;
 
-    const marketFlags: Record<string, string> = { TH: '🇹🇭', PH: '🇵🇭', VN: '🇻🇳', MY: '🇲🇾', SG: '🇸🇬', ID: '🇮🇩' };
-    const flag = marketFlags[market] || '';
+    const flag = getMarketProfile(market).flag;
     
     setMessages([
         { 
@@ -216,7 +190,7 @@ export const LiveAgent: React.FC<LiveAgentProps> = ({ contextData, market, onUse
 
   const handleSend = async (textOverride?: string) => {
     const textToSend = textOverride || input;
-    if ((!textToSend.trim() && !pendingImage) || !chatSessionRef.current) return;
+    if (!textToSend.trim() && !pendingImage) return;
 
     // Save current image state to local vars before clearing
     const imageToSend = pendingImage;
@@ -236,7 +210,7 @@ export const LiveAgent: React.FC<LiveAgentProps> = ({ contextData, market, onUse
     setIsTyping(true);
 
     try {
-      let messagePayload: any;
+      let messagePayload: Part[];
       
       if (imageToSend) {
         const base64Data = imageToSend.split(',')[1];
@@ -245,18 +219,15 @@ export const LiveAgent: React.FC<LiveAgentProps> = ({ contextData, market, onUse
           { inlineData: { mimeType: mimeTypeToSend, data: base64Data } }
         ];
       } else {
-        messagePayload = textToSend;
+        messagePayload = [{ text: textToSend }];
       }
 
-      const resultStream = await chatSessionRef.current.sendMessageStream({ 
-        message: messagePayload 
-      });
+      const resultStream = streamAgentChat(systemInstructionRef.current, toChatHistory(messages), messagePayload, { attribution });
       
       let fullResponse = "";
       setMessages(prev => [...prev, { role: 'model', text: '' }]);
 
-      for await (const chunk of resultStream) {
-        const text = (chunk as GenerateContentResponse).text;
+      for await (const text of resultStream) {
         if (text) {
             fullResponse += text;
             setMessages(prev => {
@@ -268,7 +239,8 @@ export const LiveAgent: React.FC<LiveAgentProps> = ({ contextData, market, onUse
       }
     } catch (e) {
       console.error("Chat error", e);
-      setMessages(prev => [...prev, { role: 'model', text: '抱歉，连接出现问题或图片无法处理，请稍后再试。' }]);
+      const text = e instanceof BudgetExceededError ? describeRequestError(e, '抱歉，消息未发送') : '抱歉，连接出现问题或图片无法处理，请稍后再试。';
+      setMessages(prev => [...prev, { role: 'model', text }]);
     } finally {
       setIsTyping(false);
     }
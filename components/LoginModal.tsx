@@ -30,7 +30,7 @@ export const LoginModal: React.FC<LoginModalProps> = ({ isOpen, onClose, onLogin
     setTimeout(() => {
       setIsSubmitting(false);
       onLoginSuccess({
-        id: 'u_' + Date.now(),
+        id: 'u_' + phone, // Stable per account so persisted history is found again
         name: `用户_${phone.slice(-4)}`,
         avatar: 'https://api.dicebear.com/7.x/avataaars/svg?seed=' + phone,
         type: 'phone'
@@ -43,7 +43,7 @@ export const LoginModal: React.FC<LoginModalProps> = ({ isOpen, onClose, onLogin
     setTimeout(() => {
       setIsSubmitting(false);
       onLoginSuccess({
-        id: 'wx_' + Date.now(),
+        id: 'wx_demo',
         name: '微信用户_Pro',
         avatar: 'https://api.dicebear.com/7.x/avataaars/svg?seed=wechat',
         type: 'wechat'
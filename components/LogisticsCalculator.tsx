@@ -1,19 +1,11 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { Calculator, Truck, Plane, Ship, Package, DollarSign, MapPin, TrendingUp } from 'lucide-react';
-import { AnalysisData, TargetMarket } from '../types';
-
-// Exchange Rates (Approximate)
-const RATES = {
-  TH: 5.0,   // 1 CNY = 5 THB
-  PH: 8.0,   // 1 CNY = 8 PHP
-  VN: 3500,  // 1 CNY = 3500 VND
-  MY: 0.65,  // 1 CNY = 0.65 MYR
-  SG: 0.19,  // 1 CNY = 0.19 SGD
-  ID: 2200   // 1 CNY = 2200 IDR
-};
+import { Calculator, Truck, Plane, Ship, Package, DollarSign, MapPin, TrendingUp, Save } from 'lucide-react';
+import { AnalysisData, CalculatorScenario, TargetMarket } from '../types';
+import { LogisticsChannel, ShippingZone, getCurrencySymbol, getStandardShippingLocal, estimateShipping } from '../services/logistics';
+import { getMarketProfile } from '../services/marketProfiles';
 
 interface LogisticsOption {
-  id: string;
+  id: LogisticsChannel;
   name: string;
   type: 'air' | 'land' | 'sea' | 'standard';
   icon: React.ReactNode;
@@ -29,20 +21,23 @@ const LOGISTICS_OPTIONS: LogisticsOption[] = [
 interface LogisticsCalculatorProps {
   contextData?: AnalysisData | null;
   market: TargetMarket;
+  initialScenario?: CalculatorScenario; // Read on mount only
+  onSaveScenario?: (scenario: CalculatorScenario) => void;
 }
 
-export const LogisticsCalculator: React.FC<LogisticsCalculatorProps> = ({ contextData, market }) => {
+export const LogisticsCalculator: React.FC<LogisticsCalculatorProps> = ({ contextData, market, initialScenario, onSaveScenario }) => {
   // Inputs
-  const [costCNY, setCostCNY] = useState<number>(20);
-  const [weightKg, setWeightKg] = useState<number>(0.1); 
-  const [length, setLength] = useState<number>(10);
-  const [width, setWidth] = useState<number>(10);
-  const [height, setHeight] = useState<number>(5);
-  const [targetMargin, setTargetMargin] = useState<number>(30); // %
-  const [platformFeePercent, setPlatformFeePercent] = useState<number>(8);
+  const [costCNY, setCostCNY] = useState<number>(initialScenario?.costCNY ?? 20);
+  const [weightKg, setWeightKg] = useState<number>(initialScenario?.weightKg ?? 0.1); 
+  const [length, setLength] = useState<number>(initialScenario?.length ?? 10);
+  const [width, setWidth] = useState<number>(initialScenario?.width ?? 10);
+  const [height, setHeight] = useState<number>(initialScenario?.height ?? 5);
+  const [targetMargin, setTargetMargin] = useState<number>(initialScenario?.targetMargin ?? 30); // %
+  const [platformFeePercent, setPlatformFeePercent] = useState<number>(initialScenario?.platformFeePercent ?? 8);
   
-  const [selectedLogisticId, setSelectedLogisticId] = useState<string>('standard');
-  const [zone, setZone] = useState<'A' | 'B' | 'C' | 'D'>('A');
+  const [selectedLogisticId, setSelectedLogisticId] = useState<LogisticsChannel>(initialScenario?.channel ?? 'standard');
+  const [zone, setZone] = useState<ShippingZone>(initialScenario?.zone ?? 'A');
+  const [justSaved, setJustSaved] = useState(false);
 
   // Results
   const [results, setResults] = useState({
@@ -55,72 +50,19 @@ export const LogisticsCalculator: React.FC<LogisticsCalculatorProps> = ({ contex
     netProfitCNY: 0
   });
 
-  const exchangeRate = RATES[market] || 5.0;
-  
-  const getCurrencySymbol = (m: TargetMarket) => {
-    switch (m) {
-        case 'TH': return '฿';
-        case 'PH': return '₱';
-        case 'VN': return '₫';
-        case 'MY': return 'RM';
-        case 'SG': return 'S$';
-        case 'ID': return 'Rp';
-        default: return '$';
-    }
-  };
+  const profile = getMarketProfile(market);
+  const exchangeRate = profile.currency.perCny;
+
   const currencySymbol = getCurrencySymbol(market);
 
   // --- Dynamic Pricing Table Generation ---
   const priceTable = useMemo(() => {
-    const rows = [];
-    const limit = market === 'ID' || market === 'VN' ? 500 : 1000; // Reduce rows for high-number currencies visually
+    const rows: { weight: number; fees: number[] }[] = [];
     const step = 10; // 10g step for all based on new logic
     
-    for (let g = 10; g <= limit; g += step) {
+    for (let g = 10; g <= profile.shipping.tableMaxGrams; g += step) {
         const units = Math.ceil(g / 10);
-        let rowData: any = { weight: g };
-
-        if (market === 'TH') {
-            // TH: 10g steps. Buyer Fee + (Units * 1)
-            rowData.col1 = 23 + units; // Zone A
-            rowData.col2 = 36 + units; // Zone B
-            rowData.col3 = 79 + units; // Zone C
-        } else if (market === 'PH') {
-            // PH: 10g steps. Buyer Fee + (Units * 4.5)
-            const cb = units * 4.5;
-            rowData.col1 = 40 + cb; // Manila
-            rowData.col2 = 60 + cb; // Other
-        } else if (market === 'VN') {
-            // VN: Economy. 10g steps.
-            // Zone A: Buyer 15k, Cost: Start 15.9k, Next 900
-            // Zone B/C: Buyer 17k, Cost: Start 17.9k, Next 900
-            // Zone D: Buyer 30k, Cost: Start 30.9k, Next 900
-            // Logic: Total = Base + ((Units-1) * 900)
-            const addOn = (units - 1) * 900;
-            rowData.col1 = 15900 + addOn; // Zone A
-            rowData.col2 = 17900 + addOn; // Zone B/C
-            rowData.col3 = 30900 + addOn; // Zone D
-        } else if (market === 'MY') {
-             // MY: Standard. 
-             // West (Zone A): Buyer 4.50. Cost: Start 4.65, Next 0.15
-             // East (Zone B): Buyer 8.00. Cost: Start 8.15, Next 0.15
-             const addOn = (units - 1) * 0.15;
-             rowData.col1 = 4.65 + addOn;
-             rowData.col2 = 8.15 + addOn;
-        } else if (market === 'SG') {
-             // SG: Standard.
-             // All: Buyer 0.80. Cost: Start 1.50, Next 0.15
-             const addOn = (units - 1) * 0.15;
-             rowData.col1 = 1.50 + addOn;
-        } else if (market === 'ID') {
-             // ID: Placeholder Logic (Standard Shopee ID style)
-             // Base 10000, Next 1000 per 10g
-             const addOn = (units - 1) * 1000;
-             rowData.col1 = 10000 + addOn; // Jawa
-             rowData.col2 = 20000 + addOn; // Luar Jawa
-        }
-
-        rows.push(rowData);
+        rows.push({ weight: g, fees: profile.shipping.zones.map(column => getStandardShippingLocal(market, units, column.zones[0])) });
     }
     return rows;
   }, [market]);
@@ -128,86 +70,27 @@ export const LogisticsCalculator: React.FC<LogisticsCalculatorProps> = ({ contex
   // Calculate market average if data exists
   const marketStats = useMemo(() => {
     if (!contextData?.priceData || contextData.priceData.length === 0) return null;
-    const prices = contextData.priceData.map(d => d.price);
-    const avg = prices.reduce((a, b) => a + b, 0) / prices.length;
-    return { avg, items: contextData.priceData };
+    // Use the midpoint of each platform's price range as its representative price
+    const items = contextData.priceData.map(d => ({ name: d.platform, price: (d.minPrice + d.maxPrice) / 2, minPrice: d.minPrice, maxPrice: d.maxPrice }));
+    const avg = items.reduce((a, b) => a + b.price, 0) / items.length;
+    return { avg, items };
   }, [contextData]);
 
+  // Bulk channels the market does not offer (e.g. overland to Taiwan) are hidden
+  const channelOptions = LOGISTICS_OPTIONS.filter(opt => opt.id === 'standard' || profile.shipping.bulkPerKg[opt.id] !== undefined);
+  const channel = channelOptions.some(opt => opt.id === selectedLogisticId) ? selectedLogisticId : 'standard';
+
+  useEffect(() => {
+    if (channel !== selectedLogisticId) setSelectedLogisticId(channel);
+  }, [market]);
+
   useEffect(() => {
     calculate();
   }, [costCNY, weightKg, length, width, height, targetMargin, platformFeePercent, selectedLogisticId, zone, market]);
 
   const calculate = () => {
-    // 1. Weight Calculation
-    const volWeight = (length * width * height) / 6000;
-    const chargeWeightKg = Math.max(weightKg, volWeight);
-    const chargeWeightG = Math.ceil(chargeWeightKg * 1000 / 10) * 10;
-    const units = chargeWeightG / 10;
-    
-    let shippingLocal = 0;
-    let shippingCNY = 0;
-
-    if (selectedLogisticId === 'standard') {
-       if (market === 'TH') {
-           // TH Logic
-           const buyerFee = zone === 'A' ? 23 : (zone === 'B' ? 36 : 79);
-           shippingLocal = buyerFee + (units * 1);
-       } else if (market === 'PH') {
-           // PH Logic
-           const buyerFee = zone === 'A' ? 40 : 60;
-           shippingLocal = buyerFee + (units * 4.5);
-       } else if (market === 'VN') {
-           // VN Logic (Economy)
-           const stepPrice = 900;
-           const addOn = (units - 1) * stepPrice;
-           let base = 15900; // Zone A
-           if (zone === 'B' || zone === 'C') base = 17900;
-           if (zone === 'D') base = 30900;
-           shippingLocal = base + (addOn > 0 ? addOn : 0);
-       } else if (market === 'MY') {
-           // MY Logic
-           const stepPrice = 0.15;
-           const addOn = (units - 1) * stepPrice;
-           let base = 4.65; // West
-           if (zone === 'B') base = 8.15; // East
-           shippingLocal = base + (addOn > 0 ? addOn : 0);
-       } else if (market === 'SG') {
-           // SG Logic
-           const stepPrice = 0.15;
-           const addOn = (units - 1) * stepPrice;
-           shippingLocal = 1.50 + (addOn > 0 ? addOn : 0);
-       } else {
-           // ID Logic (Generic)
-           const stepPrice = 1000;
-           const addOn = (units - 1) * stepPrice;
-           let base = 10000; // Jawa
-           if (zone !== 'A') base = 20000;
-           shippingLocal = base + (addOn > 0 ? addOn : 0);
-       }
-       
-       shippingCNY = shippingLocal / exchangeRate;
-    } else {
-       // Bulk Rates (Estimates)
-       const rates: Record<string, {land: number, air: number, sea: number}> = {
-           TH: { land: 6, air: 25, sea: 3 },
-           PH: { land: 8, air: 35, sea: 5 },
-           VN: { land: 4, air: 18, sea: 2 },
-           MY: { land: 7, air: 28, sea: 4 },
-           SG: { land: 8, air: 30, sea: 5 },
-           ID: { land: 10, air: 40, sea: 6 }
-       };
-       const mRates = rates[market] || rates.TH;
-       let pricePerKg = 0;
-       
-       if (selectedLogisticId === 'land') pricePerKg = mRates.land;
-       if (selectedLogisticId === 'air') pricePerKg = mRates.air;
-       if (selectedLogisticId === 'sea') pricePerKg = mRates.sea;
-
-       let minWeight = selectedLogisticId === 'sea' ? 10 : 0.1;
-       let finalWeight = chargeWeightKg < minWeight ? minWeight : chargeWeightKg;
-       shippingCNY = finalWeight * pricePerKg;
-       shippingLocal = shippingCNY * exchangeRate;
-    }
+    const { volumetricWeight: volWeight, chargeableWeightKg: chargeWeightKg, shippingCostLocal: shippingLocal, shippingCostCNY: shippingCNY } =
+      estimateShipping(market, { weightKg, length, width, height }, channel, zone);
 
     const totalBaseCostCNY = costCNY + shippingCNY;
     const marginDecimal = targetMargin / 100;
@@ -231,7 +114,7 @@ export const LogisticsCalculator: React.FC<LogisticsCalculatorProps> = ({ contex
       shippingCostLocal: parseFloat(shippingLocal.toFixed(2)),
       shippingCostCNY: parseFloat(shippingCNY.toFixed(2)),
       totalCostCNY: parseFloat(totalBaseCostCNY.toFixed(2)),
-      suggestedPriceLocal: market === 'VN' || market === 'ID' ? Math.ceil(sellingPriceLocal / 100) * 100 : parseFloat(sellingPriceLocal.toFixed(2)),
+      suggestedPriceLocal: profile.currency.priceStep ? Math.ceil(sellingPriceLocal / profile.currency.priceStep) * profile.currency.priceStep : parseFloat(sellingPriceLocal.toFixed(2)),
       netProfitCNY: parseFloat(profitCNY.toFixed(2))
     });
   };
@@ -244,18 +127,14 @@ export const LogisticsCalculator: React.FC<LogisticsCalculatorProps> = ({ contex
     return { profitCNY, marginPercent };
   };
 
-  // Helper for Table Headers
-  const getZoneHeaders = () => {
-     if (market === 'TH') return ['Zone A', 'Zone B', 'Zone C'];
-     if (market === 'PH') return ['Manila', 'Other'];
-     if (market === 'VN') return ['Zone A', 'Zone B/C', 'Zone D'];
-     if (market === 'MY') return ['West (西马)', 'East (东马)'];
-     if (market === 'SG') return ['All Regions'];
-     if (market === 'ID') return ['Jawa', 'Luar Jawa'];
-     return ['Zone A'];
-  };
+  const zoneColumns = profile.shipping.zones;
 
-  const zoneHeaders = getZoneHeaders();
+  const handleSaveScenario = () => {
+    if (!onSaveScenario) return;
+    onSaveScenario({ costCNY, weightKg, length, width, height, targetMargin, platformFeePercent, channel: selectedLogisticId, zone });
+    setJustSaved(true);
+    setTimeout(() => setJustSaved(false), 2000);
+  };
 
   return (
     <div className="grid grid-cols-1 lg:grid-cols-12 gap-8 animate-fade-in h-[calc(100vh-140px)] min-h-[600px]">
@@ -279,7 +158,8 @@ export const LogisticsCalculator: React.FC<LogisticsCalculatorProps> = ({ contex
                      return (
                        <div key={idx} className="bg-white/10 backdrop-blur-sm rounded-xl p-3 border border-white/10 hover:bg-white/20 transition-colors cursor-pointer group">
                           <div className="text-xs text-white/80 mb-1">{item.name}</div>
-                          <div className="text-xl font-bold mb-2">{currencySymbol} {item.price.toLocaleString()}</div>
+                          <div className="text-xl font-bold">{currencySymbol} {item.price.toLocaleString()}</div>
+                          <div className="text-[10px] text-white/60 mb-2">{item.minPrice.toLocaleString()} - {item.maxPrice.toLocaleString()}</div>
                           <div className={`text-xs px-2 py-1 rounded flex items-center justify-between ${isProfitable ? 'bg-green-500/20 text-green-100' : 'bg-red-500/20 text-red-100'}`}>
                              <span>利润: ¥{profitCNY.toFixed(1)}</span>
                              <span className="font-bold">{marginPercent.toFixed(0)}%</span>
@@ -299,7 +179,14 @@ export const LogisticsCalculator: React.FC<LogisticsCalculatorProps> = ({ contex
               <Calculator className="text-indigo-600" size={20}/>
               {market} 定价计算器
             </h3>
-            <span className="text-xs text-slate-400">汇率 1 CNY ≈ {exchangeRate} {market === 'VN' || market === 'ID' ? 'k ' : ''}{currencySymbol}</span>
+            <div className="flex items-center gap-3">
+              <span className="text-xs text-slate-400">汇率 1 CNY ≈ {exchangeRate} {currencySymbol}</span>
+              {onSaveScenario && (
+                <button onClick={handleSaveScenario} className="flex items-center gap-1 text-xs font-medium text-indigo-600 hover:text-indigo-800 bg-white border border-indigo-100 px-2 py-1 rounded-lg">
+                  <Save size={12} /> {justSaved ? '已保存' : '保存方案'}
+                </button>
+              )}
+            </div>
           </div>
 
           <div className="p-6 space-y-6">
@@ -307,7 +194,7 @@ export const LogisticsCalculator: React.FC<LogisticsCalculatorProps> = ({ contex
             <div>
                  <label className="block text-sm font-medium text-slate-700 mb-2">选择物流渠道</label>
                  <div className="grid grid-cols-4 gap-2">
-                   {LOGISTICS_OPTIONS.map(opt => (
+                   {channelOptions.map(opt => (
                      <button
                        key={opt.id}
                        onClick={() => setSelectedLogisticId(opt.id)}
@@ -351,33 +238,25 @@ export const LogisticsCalculator: React.FC<LogisticsCalculatorProps> = ({ contex
                    </div>
                    
                    {/* Zone Selector - Dynamic */}
-                   {selectedLogisticId === 'standard' && market !== 'SG' && (
+                   {selectedLogisticId === 'standard' && zoneColumns.length > 1 && (
                      <div className="bg-orange-50 p-3 rounded-lg border border-orange-100">
                         <label className="flex items-center gap-2 text-sm font-bold text-orange-800 mb-2">
                            <MapPin size={14} /> 配送区域 (Zone)
                         </label>
                         <div className="flex flex-wrap gap-1">
-                           {zoneHeaders.map((header, idx) => {
-                               const zoneCode = idx === 0 ? 'A' : idx === 1 ? 'B' : idx === 2 ? 'C' : 'D'; 
-                               // Map logic for VN/MY/PH
-                               let mappedCode = zoneCode;
-                               if (market === 'VN' && idx === 1) mappedCode = 'B'; // treat B/C as B
-                               if (market === 'VN' && idx === 2) mappedCode = 'D';
-
-                               return (
-                                 <button
-                                   key={idx}
-                                   onClick={() => setZone(mappedCode as any)}
-                                   className={`flex-1 min-w-[60px] py-1.5 text-[10px] font-medium border rounded-md ${
-                                     (zone === mappedCode || (market === 'VN' && (zone === 'C' || zone === 'B') && idx === 1)) 
-                                       ? 'bg-orange-500 text-white border-orange-500' 
-                                       : 'bg-white text-slate-600 border-orange-200 hover:bg-orange-100'
-                                   }`}
-                                 >
-                                   {header}
-                                 </button>
-                               )
-                           })}
+                           {zoneColumns.map(column => (
+                             <button
+                               key={column.label}
+                               onClick={() => setZone(column.zones[0])}
+                               className={`flex-1 min-w-[60px] py-1.5 text-[10px] font-medium border rounded-md ${
+                                 column.zones.includes(zone)
+                                   ? 'bg-orange-500 text-white border-orange-500' 
+                                   : 'bg-white text-slate-600 border-orange-200 hover:bg-orange-100'
+                               }`}
+                             >
+                               {column.label}
+                             </button>
+                           ))}
                         </div>
                      </div>
                    )}
@@ -451,8 +330,8 @@ export const LogisticsCalculator: React.FC<LogisticsCalculatorProps> = ({ contex
              <thead className="text-xs text-slate-500 uppercase bg-slate-50 sticky top-0 z-10 shadow-sm">
                <tr>
                  <th className="px-3 py-3 font-semibold border-b border-r">重量 (g)</th>
-                 {zoneHeaders.map((h, i) => (
-                    <th key={i} className="px-3 py-3 font-semibold text-indigo-600 border-b border-r bg-indigo-50/50">{h}</th>
+                 {zoneColumns.map(column => (
+                    <th key={column.label} className="px-3 py-3 font-semibold text-indigo-600 border-b border-r bg-indigo-50/50">{column.label}</th>
                  ))}
                </tr>
              </thead>
@@ -465,9 +344,9 @@ export const LogisticsCalculator: React.FC<LogisticsCalculatorProps> = ({ contex
                     }`}
                  >
                    <td className="px-3 py-2 text-slate-900 font-medium border-r bg-slate-50/30">{row.weight}</td>
-                   <td className={`px-3 py-2 border-r ${zone === 'A' ? 'font-bold text-indigo-700 bg-indigo-50/30' : ''}`}>{row.col1.toLocaleString()}</td>
-                   {row.col2 !== undefined && <td className={`px-3 py-2 border-r ${zone === 'B' || (market === 'VN' && zone === 'C') ? 'font-bold text-indigo-700 bg-indigo-50/30' : ''}`}>{row.col2.toLocaleString()}</td>}
-                   {row.col3 !== undefined && <td className={`px-3 py-2 border-r ${zone === 'C' || (market === 'VN' && zone === 'D') ? 'font-bold text-indigo-700 bg-indigo-50/30' : ''}`}>{row.col3.toLocaleString()}</td>}
+                   {row.fees.map((fee, i) => (
+                     <td key={zoneColumns[i].label} className={`px-3 py-2 border-r ${zoneColumns[i].zones.includes(zone) ? 'font-bold text-indigo-700 bg-indigo-50/30' : ''}`}>{fee.toLocaleString()}</td>
+                   ))}
                  </tr>
                ))}
              </tbody>
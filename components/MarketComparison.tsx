@@ -0,0 +1,165 @@
+import React, { useMemo, useState } from 'react';
+import { Loader2, Star, AlertTriangle, Save, FileText, Truck, CheckCircle2 } from 'lucide-react';
+import { AnalysisData, TargetMarket } from '../types';
+import { estimateShipping, getCurrencySymbol, toCNY } from '../services/logistics';
+
+export interface ComparisonColumn {
+  id: string; // market code for live runs, history item id when comparing saved reports
+  code: TargetMarket;
+  name: string;
+  flag: string;
+  status: 'loading' | 'done' | 'error';
+  data?: AnalysisData;
+  error?: string;
+  saved?: boolean;
+  subtitle?: string;
+}
+
+interface MarketComparisonProps {
+  columns: ComparisonColumn[];
+  canSave: boolean;
+  onSaveColumn: (market: TargetMarket, data: AnalysisData) => void;
+  onOpenReport: (market: TargetMarket, data: AnalysisData) => void;
+}
+
+const ROW_LABEL = "w-36 flex-shrink-0 text-sm font-bold text-slate-500 py-4 pr-4";
+
+export const MarketComparison: React.FC<MarketComparisonProps> = ({ columns, canSave, onSaveColumn, onOpenReport }) => {
+  // Parcel used for the logistics row - standard channel, cheapest zone
+  const [weightKg, setWeightKg] = useState<number>(0.1);
+
+  const logistics = useMemo(() => {
+    const result: Partial<Record<TargetMarket, { local: number; cny: number }>> = {};
+    columns.forEach(col => {
+      const estimate = estimateShipping(col.code, { weightKg, length: 10, width: 10, height: 5 }, 'standard', 'A');
+      result[col.code] = { local: estimate.shippingCostLocal, cny: estimate.shippingCostCNY };
+    });
+    return result;
+  }, [columns, weightKg]);
+
+  const renderCell = (col: ComparisonColumn, render: (data: AnalysisData) => React.ReactNode) => {
+    if (col.status === 'loading') return <Loader2 className="animate-spin text-indigo-400" size={18} />;
+    if (col.status === 'error' || !col.data) return <span className="text-xs text-red-500">{col.error || '分析失败'}</span>;
+    return render(col.data);
+  };
+
+  return (
+    <div className="bg-white p-8 rounded-2xl shadow-sm border border-slate-100 animate-fade-in overflow-x-auto">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-xl font-bold text-slate-800">多市场对比矩阵</h3>
+        <label className="flex items-center gap-2 text-sm text-slate-500">
+          <Truck size={16} /> 物流估算重量 (kg)
+          <input type="number" step="0.01" min="0.01" value={weightKg} onChange={e => setWeightKg(Number(e.target.value))} className="w-20 px-2 py-1 border border-slate-300 rounded-lg text-sm outline-none focus:ring-2 focus:ring-indigo-500" />
+        </label>
+      </div>
+
+      <div className="min-w-max divide-y divide-slate-100">
+        {/* Header */}
+        <div className="flex">
+          <div className={ROW_LABEL}>市场</div>
+          {columns.map(col => (
+            <div key={col.id} className="w-60 flex-shrink-0 px-3 py-4">
+              <div className="text-lg font-bold text-slate-800">{col.flag} {col.name}</div>
+              <div className="text-xs text-slate-400 truncate" title={col.subtitle}>{col.subtitle || col.code}</div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex">
+          <div className={ROW_LABEL}>推荐指数</div>
+          {columns.map(col => (
+            <div key={col.id} className="w-60 flex-shrink-0 px-3 py-4">
+              {renderCell(col, data => (
+                <div>
+                  <div className="flex items-center gap-0.5">
+                    {[1, 2, 3, 4, 5].map(n => (
+                      <Star key={n} size={16} className={n <= data.rating.stars ? 'text-amber-400 fill-amber-400' : 'text-slate-200'} />
+                    ))}
+                  </div>
+                  <p className="text-xs text-slate-500 mt-1 line-clamp-3">{data.rating.reason}</p>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex">
+          <div className={ROW_LABEL}>价格区间 (CNY)</div>
+          {columns.map(col => (
+            <div key={col.id} className="w-60 flex-shrink-0 px-3 py-4 space-y-1">
+              {renderCell(col, data => data.priceData.map((p, i) => (
+                <div key={i} className="flex justify-between text-xs">
+                  <span className="text-slate-500 truncate mr-2">{p.platform}</span>
+                  <span className="font-semibold text-slate-700 whitespace-nowrap">
+                    ¥{toCNY(col.code, p.minPrice).toFixed(1)} - {toCNY(col.code, p.maxPrice).toFixed(1)}
+                  </span>
+                </div>
+              )))}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex">
+          <div className={ROW_LABEL}>文化风险</div>
+          {columns.map(col => (
+            <div key={col.id} className="w-60 flex-shrink-0 px-3 py-4 space-y-1">
+              {renderCell(col, data => data.culturalRisks.length === 0 ? (
+                <span className="text-xs text-green-600 flex items-center gap-1"><CheckCircle2 size={12} /> 未发现明显风险</span>
+              ) : data.culturalRisks.map((risk, i) => (
+                <div key={i} className="flex gap-1.5 text-xs text-amber-700">
+                  <AlertTriangle size={12} className="mt-0.5 flex-shrink-0" /> <span>{risk}</span>
+                </div>
+              )))}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex">
+          <div className={ROW_LABEL}>热门关键词</div>
+          {columns.map(col => (
+            <div key={col.id} className="w-60 flex-shrink-0 px-3 py-4 flex flex-wrap gap-1.5 content-start">
+              {renderCell(col, data => data.keywords.slice(0, 5).map((kw, i) => (
+                <span key={i} className="text-xs bg-indigo-50 text-indigo-700 px-2 py-0.5 rounded border border-indigo-100">{kw.term}</span>
+              )))}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex">
+          <div className={ROW_LABEL}>物流成本 (Standard)</div>
+          {columns.map(col => {
+            const cost = logistics[col.code];
+            return (
+              <div key={col.id} className="w-60 flex-shrink-0 px-3 py-4 text-sm">
+                {cost && (
+                  <>
+                    <div className="font-semibold text-slate-700">{getCurrencySymbol(col.code)} {cost.local.toLocaleString(undefined, { maximumFractionDigits: 2 })}</div>
+                    <div className="text-xs text-slate-400">≈ ¥{cost.cny.toFixed(2)}</div>
+                  </>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex">
+          <div className={ROW_LABEL}></div>
+          {columns.map(col => (
+            <div key={col.id} className="w-60 flex-shrink-0 px-3 py-4 flex gap-2">
+              {col.status === 'done' && col.data && (
+                <>
+                  <button onClick={() => onOpenReport(col.code, col.data!)} className="flex items-center gap-1 text-xs px-3 py-1.5 rounded-lg bg-slate-100 text-slate-700 hover:bg-slate-200 font-medium">
+                    <FileText size={12} /> 完整报告
+                  </button>
+                  <button onClick={() => onSaveColumn(col.code, col.data!)} disabled={!canSave || col.saved} title={canSave ? undefined : '登录后可保存'} className="flex items-center gap-1 text-xs px-3 py-1.5 rounded-lg bg-indigo-600 text-white hover:bg-indigo-700 font-medium disabled:opacity-50">
+                    {col.saved ? <CheckCircle2 size={12} /> : <Save size={12} />} {col.saved ? '已保存' : '保存'}
+                  </button>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,60 @@
+import React from 'react';
+import { Undo2, Redo2, Minus, Plus, PenLine, Type } from 'lucide-react';
+import { TextSelection, TextStyle } from './SandboxedHtml';
+
+interface PageEditToolbarProps {
+  selection: TextSelection | null; // text element selected in the preview
+  canUndo: boolean;
+  canRedo: boolean;
+  disabled?: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onStyle: (style: TextStyle) => void;
+}
+
+const MIN_FONT_SIZE = 8;
+const MAX_FONT_SIZE = 160;
+
+/**
+ * Editing controls above a generated page preview: undo/redo, and font size and color of the
+ * text element selected in the preview.
+ */
+export const PageEditToolbar: React.FC<PageEditToolbarProps> = ({ selection, canUndo, canRedo, disabled, onUndo, onRedo, onStyle }) => {
+  const setFontSize = (size: number) => onStyle({ fontSize: Math.min(MAX_FONT_SIZE, Math.max(MIN_FONT_SIZE, size)) });
+
+  return (
+    <div className="flex items-center gap-2 px-2 py-1.5 bg-white border border-slate-200 rounded-lg shadow-sm text-sm">
+      <button onClick={onUndo} disabled={disabled || !canUndo} className="p-1.5 rounded-md text-slate-600 hover:bg-slate-100 disabled:opacity-30" title="撤销 (Ctrl+Z)">
+        <Undo2 size={16} />
+      </button>
+      <button onClick={onRedo} disabled={disabled || !canRedo} className="p-1.5 rounded-md text-slate-600 hover:bg-slate-100 disabled:opacity-30" title="重做 (Ctrl+Shift+Z)">
+        <Redo2 size={16} />
+      </button>
+      <div className="w-px h-5 bg-slate-200" />
+      {selection ? (
+        <>
+          <span className="flex items-center gap-1 text-xs text-slate-400"><Type size={12} />{selection.tag}</span>
+          <button onClick={() => setFontSize(selection.fontSize - 2)} disabled={disabled} className="p-1 rounded-md text-slate-600 hover:bg-slate-100 disabled:opacity-30" title="缩小字号">
+            <Minus size={14} />
+          </button>
+          <span className="w-12 text-center font-mono text-slate-700">{selection.fontSize}px</span>
+          <button onClick={() => setFontSize(selection.fontSize + 2)} disabled={disabled} className="p-1 rounded-md text-slate-600 hover:bg-slate-100 disabled:opacity-30" title="放大字号">
+            <Plus size={14} />
+          </button>
+          <label className="flex items-center gap-1.5 text-slate-500 cursor-pointer" title="文字颜色">
+            <input
+              type="color"
+              value={selection.color}
+              disabled={disabled}
+              onChange={e => onStyle({ color: e.target.value })}
+              className="w-6 h-6 p-0 border-0 rounded cursor-pointer bg-transparent"
+            />
+            颜色
+          </label>
+        </>
+      ) : (
+        <span className="flex items-center gap-1.5 text-xs text-slate-400"><PenLine size={12} /> 点击页面文字直接编辑，可调整字号和颜色</span>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,116 @@
+import React, { useRef } from 'react';
+import { Upload, Plus, X, ChevronLeft, ChevronRight } from 'lucide-react';
+import { ProductImage, ProductImageRole } from '../types';
+
+const ROLE_OPTIONS: { role: ProductImageRole; label: string }[] = [
+  { role: 'main', label: '主图' },
+  { role: 'detail', label: '细节' },
+  { role: 'packaging', label: '包装' },
+  { role: 'label', label: '标签' },
+];
+
+interface ProductImageUploaderProps {
+  images: ProductImage[];
+  onAddFiles: (files: File[]) => void;
+  onChange: (images: ProductImage[]) => void;
+  onClear: () => void; // Start a new product; the current one keeps its images
+}
+
+export const ProductImageUploader: React.FC<ProductImageUploaderProps> = ({ images, onAddFiles, onChange, onClear }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const mainImage = images.find(img => img.role === 'main') || images[0];
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []) as File[];
+    if (files.length > 0) onAddFiles(files);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  // Exactly one image carries the `main` role; promoting another demotes the old one to `detail`
+  const setRole = (id: string, role: ProductImageRole) => {
+    onChange(images.map(img => {
+      if (img.id === id) return { ...img, role };
+      if (role === 'main' && img.role === 'main') return { ...img, role: 'detail' };
+      return img;
+    }));
+  };
+
+  const move = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= images.length) return;
+    const next = [...images];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const remove = (id: string) => {
+    const next = images.filter(img => img.id !== id);
+    if (next.length > 0 && !next.some(img => img.role === 'main')) {
+      next[0] = { ...next[0], role: 'main' };
+    }
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div
+        onClick={() => fileInputRef.current?.click()}
+        className="cursor-pointer group relative aspect-square bg-slate-50 border-2 border-dashed border-slate-300 rounded-xl flex flex-col items-center justify-center hover:border-indigo-500 transition-colors"
+      >
+        {mainImage ? (
+          <img src={mainImage.dataUrl} alt="Product" className="w-full h-full object-contain rounded-xl" />
+        ) : (
+          <>
+            <div className="w-16 h-16 bg-indigo-50 text-indigo-500 rounded-full flex items-center justify-center mb-4 group-hover:scale-110 transition-transform">
+              <Upload size={32} />
+            </div>
+            <p className="text-base font-medium text-slate-600">上传产品图片</p>
+            <p className="text-sm text-slate-400 mt-2">支持多张：主图、细节、包装、标签</p>
+          </>
+        )}
+        <input
+          type="file"
+          ref={fileInputRef}
+          className="hidden"
+          accept="image/*"
+          multiple
+          onChange={handleFileChange}
+        />
+      </div>
+
+      {images.length > 0 && (
+        <>
+          <div className="grid grid-cols-3 gap-2">
+            {images.map((img, idx) => (
+              <div key={img.id} className={`relative rounded-lg border-2 overflow-hidden bg-white ${img.role === 'main' ? 'border-indigo-500' : 'border-slate-200'}`}>
+                <div className="aspect-square bg-slate-50">
+                  <img src={img.dataUrl} alt={img.role} className="w-full h-full object-cover" />
+                </div>
+                <button onClick={() => remove(img.id)} className="absolute top-1 right-1 bg-black/50 hover:bg-black/70 text-white rounded-full p-0.5" title="移除">
+                  <X size={12} />
+                </button>
+                <div className="flex items-center justify-between px-1 py-1 gap-1">
+                  <button onClick={() => move(idx, -1)} disabled={idx === 0} className="text-slate-400 hover:text-indigo-600 disabled:opacity-30"><ChevronLeft size={14} /></button>
+                  <select
+                    value={img.role}
+                    onChange={e => setRole(img.id, e.target.value as ProductImageRole)}
+                    className="flex-1 min-w-0 text-[11px] bg-transparent outline-none text-slate-600 font-medium"
+                  >
+                    {ROLE_OPTIONS.map(opt => <option key={opt.role} value={opt.role}>{opt.label}</option>)}
+                  </select>
+                  <button onClick={() => move(idx, 1)} disabled={idx === images.length - 1} className="text-slate-400 hover:text-indigo-600 disabled:opacity-30"><ChevronRight size={14} /></button>
+                </div>
+              </div>
+            ))}
+            <div onClick={() => fileInputRef.current?.click()} className="aspect-square rounded-lg border-2 border-dashed border-slate-200 flex flex-col items-center justify-center text-slate-400 hover:border-indigo-400 hover:text-indigo-500 cursor-pointer transition-colors">
+              <Plus size={20} /><span className="text-[11px] mt-1">添加</span>
+            </div>
+          </div>
+          <button onClick={onClear} className="flex items-center gap-1.5 text-xs text-slate-400 hover:text-red-500 transition-colors">
+            <Plus size={12} /> 新建产品
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { Package, Plus, Trash2, PenLine, FileText, Video, LayoutTemplate, Download } from 'lucide-react';
+import { ProductWorkspace } from '../types';
+
+interface ProductListProps {
+  products: ProductWorkspace[];
+  activeProductId: string | null;
+  onSelect: (product: ProductWorkspace) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onExport: (product: ProductWorkspace) => void;
+  onNew: () => void;
+}
+
+export const ProductList: React.FC<ProductListProps> = ({ products, activeProductId, onSelect, onRename, onDelete, onExport, onNew }) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [nameDraft, setNameDraft] = useState('');
+
+  const commitRename = () => {
+    if (renamingId && nameDraft.trim()) onRename(renamingId, nameDraft.trim());
+    setRenamingId(null);
+  };
+
+  const sorted = [...products].sort((a, b) => b.updatedAt - a.updatedAt);
+
+  return (
+    <div className="space-y-2">
+      <button onClick={onNew} className="w-full flex items-center justify-center gap-1.5 py-2 text-sm font-medium text-indigo-600 border border-dashed border-indigo-200 rounded-lg hover:bg-indigo-50 transition-colors">
+        <Plus size={14} /> 新建产品
+      </button>
+
+      {sorted.length === 0 && (
+        <div className="text-center py-6 text-slate-400 text-sm">
+          <Package size={24} className="mx-auto mb-2 opacity-50"/>
+          上传产品图片即可创建产品
+        </div>
+      )}
+
+      {sorted.map(product => {
+        const isActive = product.id === activeProductId;
+        const thumb = (product.images.find(img => img.role === 'main') || product.images[0])?.dataUrl;
+        const analysisCount = Object.keys(product.analyses).length;
+        return (
+          <div
+            key={product.id}
+            onClick={() => !isActive && onSelect(product)}
+            className={`group flex gap-3 p-2 rounded-lg cursor-pointer transition-colors ${isActive ? 'bg-indigo-50 ring-1 ring-indigo-200' : 'hover:bg-slate-50'}`}
+          >
+            <div className="w-10 h-10 rounded-md bg-slate-200 overflow-hidden flex-shrink-0 border border-slate-100">
+              {thumb ? (
+                <img src={thumb} className="w-full h-full object-cover" alt={product.name} />
+              ) : (
+                <div className="w-full h-full flex items-center justify-center text-slate-400"><Package size={14}/></div>
+              )}
+            </div>
+            <div className="flex-1 min-w-0">
+              {renamingId === product.id ? (
+                <input
+                  autoFocus
+                  value={nameDraft}
+                  onClick={e => e.stopPropagation()}
+                  onChange={e => setNameDraft(e.target.value)}
+                  onKeyDown={e => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setRenamingId(null);
+                  }}
+                  onBlur={commitRename}
+                  className="w-full text-sm px-1 border border-indigo-200 rounded outline-none"
+                />
+              ) : (
+                <div className="flex items-center gap-1">
+                  <p className={`flex-1 text-sm font-medium truncate ${isActive ? 'text-indigo-700' : 'text-slate-700 group-hover:text-indigo-700'}`}>{product.name}</p>
+                  <button onClick={e => { e.stopPropagation(); setNameDraft(product.name); setRenamingId(product.id); }} className="text-slate-300 hover:text-indigo-500 opacity-0 group-hover:opacity-100" title="重命名">
+                    <PenLine size={12} />
+                  </button>
+                  <button onClick={e => { e.stopPropagation(); onExport(product); }} className="text-slate-300 hover:text-indigo-500 opacity-0 group-hover:opacity-100" title="导出产品">
+                    <Download size={12} />
+                  </button>
+                  <button
+                    onClick={e => { e.stopPropagation(); if (confirm(`确定删除产品「${product.name}」及其全部内容？`)) onDelete(product.id); }}
+                    className="text-slate-300 hover:text-red-500 opacity-0 group-hover:opacity-100"
+                    title="删除产品"
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              )}
+              <div className="flex items-center gap-2 mt-0.5 text-[10px] text-slate-400">
+                {analysisCount > 0 && <span className="flex items-center gap-0.5"><FileText size={10} />{Object.keys(product.analyses).join('/')}</span>}
+                {product.heroDesigns.length + product.skuPages.length > 0 && <span className="flex items-center gap-0.5"><LayoutTemplate size={10} />{product.heroDesigns.length + product.skuPages.length}</span>}
+                {product.videos.length > 0 && <span className="flex items-center gap-0.5"><Video size={10} />{product.videos.length}</span>}
+                {analysisCount === 0 && product.heroDesigns.length + product.skuPages.length + product.videos.length === 0 && <span>{product.images.length} 张图片</span>}
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
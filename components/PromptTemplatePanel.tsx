@@ -0,0 +1,298 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FileCode2, Save, RotateCcw, Play, Square, Loader2, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { AppMode, ProductImage, TargetMarket } from '../types';
+import { PROMPT_TEMPLATES, PromptTemplateId, findUnknownVariables, getTemplateDefinition } from '../services/promptTemplates';
+import { activatePromptVersion, getActivePromptVersion, getPromptVersions, savePromptVersion } from '../services/promptRegistry';
+import { PromptTestOutput, createFixtureImage, runPromptTest } from '../services/promptTestRun';
+import { BudgetExceededError } from '../services/usageStore';
+import { MARKET_PROFILES } from '../services/marketProfiles';
+import { describeRequestError, isCancelledError } from '../services/requestControl';
+import { SandboxedHtml } from './SandboxedHtml';
+import { renderSkuLayoutHtml } from './SkuLayoutRenderer';
+
+interface PromptTemplatePanelProps {
+  images: ProductImage[]; // the open product's images; a generated fixture is used when empty
+  defaultMarket: TargetMarket;
+  userId?: string;
+}
+
+type TestSide = 'left' | 'right';
+type TestSource = number | 'draft'; // a version number, or the unsaved editor text
+
+type TestResult =
+  | { status: 'running' }
+  | { status: 'done'; output: PromptTestOutput; durationMs: number }
+  | { status: 'error'; message: string };
+
+const GROUPS = Array.from(new Set(PROMPT_TEMPLATES.map(template => template.group)));
+
+const formatVersionTime = (timestamp: number) => timestamp ? new Date(timestamp).toLocaleString() : '内置';
+
+/**
+ * Prompt template editor: edit a template as a new version, switch or roll back the active
+ * version, and test-run two versions side by side against a fixture image.
+ */
+export const PromptTemplatePanel: React.FC<PromptTemplatePanelProps> = ({ images, defaultMarket, userId }) => {
+  const [selectedId, setSelectedId] = useState<PromptTemplateId>('analysis');
+  const [draft, setDraft] = useState(() => getActivePromptVersion('analysis').body);
+  const [note, setNote] = useState('');
+  const [, setRevision] = useState(0); // bumped to re-read the registry after a change
+  const [market, setMarket] = useState<TargetMarket>(defaultMarket);
+  const [sources, setSources] = useState<Record<TestSide, TestSource>>(() => ({ left: getActivePromptVersion('analysis').version, right: 'draft' }));
+  const [results, setResults] = useState<Partial<Record<TestSide, TestResult>>>({});
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const runController = useRef<AbortController | null>(null);
+
+  useEffect(() => () => runController.current?.abort(), []);
+
+  const definition = getTemplateDefinition(selectedId);
+  const versions = getPromptVersions(selectedId);
+  const active = getActivePromptVersion(selectedId);
+  const unknownVariables = findUnknownVariables(selectedId, draft);
+  const isDirty = draft !== active.body;
+  const isRunning = results.left?.status === 'running' || results.right?.status === 'running';
+
+  const selectTemplate = (id: PromptTemplateId) => {
+    if (id === selectedId) return;
+    if (isDirty && !confirm("当前模板有未保存的修改，确定切换吗？")) return;
+    runController.current?.abort();
+    setSelectedId(id);
+    setDraft(getActivePromptVersion(id).body);
+    setNote('');
+    setSources({ left: getActivePromptVersion(id).version, right: 'draft' });
+    setResults({});
+  };
+
+  const insertVariable = (name: string) => {
+    const textarea = textareaRef.current;
+    const placeholder = `{{${name}}}`;
+    if (!textarea) {
+      setDraft(draft + placeholder);
+      return;
+    }
+    const { selectionStart, selectionEnd } = textarea;
+    setDraft(draft.slice(0, selectionStart) + placeholder + draft.slice(selectionEnd));
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(selectionStart + placeholder.length, selectionStart + placeholder.length);
+    });
+  };
+
+  const save = () => {
+    if (unknownVariables.length > 0 && !confirm(`模板中有未定义的变量：${unknownVariables.join(', ')}。这些占位符会原样发送给模型，仍要保存吗？`)) return;
+    const version = savePromptVersion(selectedId, draft, note);
+    setNote('');
+    setSources(current => ({ ...current, left: version.version }));
+    setRevision(r => r + 1);
+  };
+
+  const activate = (version: number) => {
+    if (isDirty && !confirm("启用其他版本会丢弃未保存的修改，确定继续吗？")) return;
+    activatePromptVersion(selectedId, version);
+    setDraft(getActivePromptVersion(selectedId).body);
+    setRevision(r => r + 1);
+  };
+
+  const sourceBody = (source: TestSource) =>
+    source === 'draft' ? draft : versions.find(version => version.version === source)?.body ?? active.body;
+
+  const sourceLabel = (source: TestSource) => source === 'draft' ? '编辑中的草稿' : `v${source}`;
+
+  const runTests = async () => {
+    runController.current?.abort();
+    const controller = new AbortController();
+    runController.current = controller;
+    const input = { images: images.length > 0 ? images : [createFixtureImage()], market };
+    const options = { signal: controller.signal, attribution: { userId, mode: AppMode.SETTINGS } };
+
+    const run = async (side: TestSide) => {
+      const startedAt = Date.now();
+      setResults(current => ({ ...current, [side]: { status: 'running' } }));
+      try {
+        const output = await runPromptTest(selectedId, sourceBody(sources[side]), input, options);
+        if (controller.signal.aborted) return;
+        setResults(current => ({ ...current, [side]: { status: 'done', output, durationMs: Date.now() - startedAt } }));
+      } catch (error) {
+        if (controller.signal.aborted && isCancelledError(error)) return;
+        const message = error instanceof BudgetExceededError ? describeRequestError(error, '测试未运行')
+          : error instanceof Error ? error.message : String(error);
+        setResults(current => ({ ...current, [side]: { status: 'error', message } }));
+      }
+    };
+
+    await Promise.all([run('left'), run('right')]);
+  };
+
+  const stopTests = () => {
+    runController.current?.abort();
+    setResults({});
+  };
+
+  const renderResult = (side: TestSide) => {
+    const result = results[side];
+    if (!result) return <p className="text-sm text-slate-400 py-10 text-center">尚未运行</p>;
+    if (result.status === 'running') return <div className="flex justify-center py-10 text-slate-400"><Loader2 className="animate-spin" size={20} /></div>;
+    if (result.status === 'error') return <p className="text-sm text-red-500 py-4">{result.message}</p>;
+    return (
+      <>
+        <p className="text-xs text-slate-400 mb-2">耗时 {(result.durationMs / 1000).toFixed(1)} 秒 · {result.output.content.length} 字符</p>
+        {result.output.kind !== 'text' ? (
+          <div className="border border-slate-100 rounded-lg overflow-auto max-h-[480px] bg-white">
+            <SandboxedHtml html={result.output.kind === 'layout' ? renderSkuLayoutHtml(result.output.layout) : result.output.content} autoHeight />
+          </div>
+        ) : (
+          <pre className="text-sm text-slate-700 whitespace-pre-wrap font-sans max-h-[480px] overflow-y-auto">{result.output.content}</pre>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <section className="bg-white p-8 rounded-2xl shadow-sm border border-slate-100">
+      <div className="mb-6">
+        <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2"><FileCode2 size={20} className="text-indigo-600" /> 提示词模板</h2>
+        <p className="text-sm text-slate-500 mt-1">修改后保存为新版本并立即生效；可随时启用任一历史版本，或回滚到内置默认。模板保存在本浏览器中，对所有账号生效。</p>
+      </div>
+
+      <div className="flex gap-6">
+        <nav className="w-56 flex-shrink-0 space-y-4">
+          {GROUPS.map(group => (
+            <div key={group}>
+              <p className="text-xs font-bold text-slate-400 mb-1">{group}</p>
+              {PROMPT_TEMPLATES.filter(template => template.group === group).map(template => {
+                const activeVersion = getActivePromptVersion(template.id).version;
+                return (
+                  <button
+                    key={template.id}
+                    onClick={() => selectTemplate(template.id)}
+                    className={`w-full text-left px-3 py-1.5 rounded-lg text-sm flex items-center justify-between ${selectedId === template.id ? 'bg-indigo-50 text-indigo-700 font-medium' : 'text-slate-600 hover:bg-slate-50'}`}
+                  >
+                    <span className="truncate">{template.name}</span>
+                    {activeVersion > 0 && <span className="text-[10px] px-1.5 py-0.5 rounded bg-amber-100 text-amber-700 flex-shrink-0">v{activeVersion}</span>}
+                  </button>
+                );
+              })}
+            </div>
+          ))}
+        </nav>
+
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center justify-between mb-2">
+            <p className="font-medium text-slate-700">{definition.name} <span className="text-xs text-slate-400 font-normal">当前启用 v{active.version}{active.version === 0 && '（内置默认）'}</span></p>
+            {isDirty && <span className="text-xs text-amber-600">有未保存的修改</span>}
+          </div>
+
+          {definition.variables.length > 0 ? (
+            <div className="flex flex-wrap gap-2 mb-2">
+              {definition.variables.map(variable => (
+                <button
+                  key={variable.name}
+                  onClick={() => insertVariable(variable.name)}
+                  title={variable.description}
+                  className="text-xs font-mono px-2 py-1 rounded bg-slate-100 text-slate-600 hover:bg-indigo-50 hover:text-indigo-700"
+                >
+                  {`{{${variable.name}}}`}
+                </button>
+              ))}
+            </div>
+          ) : (
+            <p className="text-xs text-slate-400 mb-2">此模板没有变量，内容会原样插入所属的提示词。</p>
+          )}
+
+          <textarea
+            ref={textareaRef}
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            spellCheck={false}
+            className="w-full h-80 p-3 border border-slate-200 rounded-lg text-xs font-mono leading-relaxed focus:ring-2 focus:ring-indigo-500 outline-none resize-y"
+          />
+
+          {unknownVariables.length > 0 && (
+            <p className="mt-2 text-xs text-amber-600 flex items-center gap-1.5">
+              <AlertTriangle size={14} /> 未定义的变量不会被替换：{unknownVariables.map(name => `{{${name}}}`).join(', ')}
+            </p>
+          )}
+
+          <div className="mt-3 flex items-center gap-3">
+            <input
+              value={note}
+              onChange={e => setNote(e.target.value)}
+              placeholder="版本说明（可选）"
+              className="flex-1 px-3 py-2 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+            />
+            <button onClick={() => setDraft(active.body)} disabled={!isDirty} className="flex items-center gap-1.5 text-sm text-slate-500 hover:text-indigo-600 disabled:opacity-40">
+              <RotateCcw size={14} /> 放弃修改
+            </button>
+            <button onClick={save} disabled={!isDirty || !draft.trim()} className="flex items-center gap-1.5 px-4 py-2 rounded-lg bg-indigo-600 text-white text-sm font-medium hover:bg-indigo-700 disabled:opacity-40">
+              <Save size={14} /> 保存为新版本
+            </button>
+          </div>
+
+          <div className="mt-6">
+            <p className="text-sm font-bold text-slate-700 mb-2">版本历史</p>
+            <div className="border border-slate-100 rounded-lg divide-y divide-slate-100 max-h-56 overflow-y-auto">
+              {[...versions].reverse().map(version => (
+                <div key={version.version} className="flex items-center gap-4 px-4 py-2 text-sm">
+                  <span className="font-mono text-slate-700 w-10">v{version.version}</span>
+                  <span className="flex-1 min-w-0 truncate text-slate-500">{version.note || '—'}</span>
+                  <span className="text-xs text-slate-400">{formatVersionTime(version.createdAt)}</span>
+                  {version.version === active.version ? (
+                    <span className="flex items-center gap-1 text-xs text-emerald-600 w-16"><CheckCircle2 size={14} /> 使用中</span>
+                  ) : (
+                    <button onClick={() => activate(version.version)} className="text-xs text-indigo-600 hover:text-indigo-700 w-16 text-left">
+                      {version.version < active.version ? '回滚至此' : '启用'}
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="mt-8 border-t border-slate-100 pt-6">
+            <div className="flex items-center justify-between mb-3">
+              <div>
+                <p className="text-sm font-bold text-slate-700">对比试运行</p>
+                <p className="text-xs text-slate-400">{images.length > 0 ? `使用当前产品的 ${images.length} 张图片` : '未上传产品图片，使用内置示例图片'}，不读取缓存，按实际调用计入用量。</p>
+              </div>
+              <div className="flex items-center gap-3">
+                <select value={market} onChange={e => setMarket(e.target.value as TargetMarket)} className="px-3 py-2 border border-slate-200 rounded-lg text-sm outline-none">
+                  {MARKET_PROFILES.map(m => <option key={m.code} value={m.code}>{m.flag} {m.name}</option>)}
+                </select>
+                {isRunning ? (
+                  <button onClick={stopTests} className="flex items-center gap-1.5 px-4 py-2 rounded-lg border border-slate-200 text-slate-600 text-sm hover:bg-slate-50">
+                    <Square size={14} /> 停止
+                  </button>
+                ) : (
+                  <button onClick={runTests} className="flex items-center gap-1.5 px-4 py-2 rounded-lg bg-slate-800 text-white text-sm font-medium hover:bg-slate-700">
+                    <Play size={14} /> 运行对比
+                  </button>
+                )}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              {(['left', 'right'] as TestSide[]).map(side => (
+                <div key={side} className="border border-slate-100 rounded-lg p-4 min-w-0">
+                  <select
+                    value={String(sources[side])}
+                    disabled={isRunning}
+                    onChange={e => setSources({ ...sources, [side]: e.target.value === 'draft' ? 'draft' : Number(e.target.value) })}
+                    className="mb-3 px-2 py-1 border border-slate-200 rounded text-sm outline-none"
+                  >
+                    <option value="draft">{sourceLabel('draft')}</option>
+                    {versions.map(version => (
+                      <option key={version.version} value={version.version}>
+                        {sourceLabel(version.version)}{version.note ? ` · ${version.note}` : ''}
+                      </option>
+                    ))}
+                  </select>
+                  {renderResult(side)}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+};
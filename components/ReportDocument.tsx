@@ -0,0 +1,102 @@
+import React from 'react';
+import { Globe } from 'lucide-react';
+import { AnalysisData } from '../types';
+import { ReportExportInput } from '../services/reportExport';
+
+interface ReportDocumentProps {
+  input: ReportExportInput;
+  renderMarkdown: (text: string, sources?: AnalysisData['groundingChunks']) => React.ReactNode;
+}
+
+/**
+ * Fixed-width, print-oriented layout of the analysis report. Rendered off-screen and rasterised for PDF export.
+ */
+export const ReportDocument = React.forwardRef<HTMLDivElement, ReportDocumentProps>(({ input, renderMarkdown }, ref) => {
+  const { analysis, market } = input;
+  const chunks = analysis.groundingChunks || [];
+
+  return (
+    <div ref={ref} className="w-[794px] bg-white text-slate-800 p-12 space-y-8">
+      <header className="flex items-center justify-between border-b-4 border-indigo-600 pb-6">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-indigo-600 rounded-lg flex items-center justify-center">
+            <Globe className="text-white" size={24} />
+          </div>
+          <span className="text-2xl font-bold text-indigo-700">境智通</span>
+        </div>
+        <div className="text-right">
+          <div className="text-3xl">{market.flag}</div>
+          <div className="text-sm font-bold text-slate-600">{market.name} ({market.code})</div>
+          <div className="text-xs text-slate-400">{input.generatedAt.toLocaleString()}</div>
+        </div>
+      </header>
+
+      <div className="flex gap-8 items-start">
+        {input.productImage && (
+          <img src={input.productImage} alt="Product" className="w-48 h-48 object-contain rounded-xl border border-slate-200 bg-slate-50" />
+        )}
+        <div className="flex-1">
+          <h1 className="text-3xl font-bold text-slate-900 mb-4">跨境电商选品与营销报告</h1>
+          <div className="text-xl text-amber-500 mb-2">{'★'.repeat(analysis.rating.stars)}{'☆'.repeat(5 - analysis.rating.stars)} <span className="text-base text-slate-600">{analysis.rating.stars}/5</span></div>
+          <p className="text-base text-slate-600">{analysis.rating.reason}</p>
+        </div>
+      </div>
+
+      <div>{renderMarkdown(analysis.text, analysis.groundingChunks)}</div>
+
+      {analysis.culturalRisks.length > 0 && (
+        <section>
+          <h3 className="text-2xl font-bold text-indigo-700 mb-4 pb-2 border-b border-indigo-100">文化与合规风险</h3>
+          <ul className="list-disc pl-6 space-y-1 text-slate-700">
+            {analysis.culturalRisks.map((risk, i) => <li key={i}>{risk}</li>)}
+          </ul>
+        </section>
+      )}
+
+      {analysis.priceData.length > 0 && (
+        <section>
+          <h3 className="text-2xl font-bold text-indigo-700 mb-4 pb-2 border-b border-indigo-100">市场价格区间</h3>
+          {input.chartImage && <img src={input.chartImage} alt="Price chart" className="w-full mb-4" />}
+          <table className="w-full text-sm border border-slate-200">
+            <thead className="bg-slate-50 text-slate-500">
+              <tr><th className="p-2 text-left">平台</th><th className="p-2 text-right">最低价</th><th className="p-2 text-right">最高价</th><th className="p-2">货币</th><th className="p-2">来源</th></tr>
+            </thead>
+            <tbody>
+              {analysis.priceData.map((p, i) => (
+                <tr key={i} className="border-t border-slate-100">
+                  <td className="p-2">{p.platform}</td>
+                  <td className="p-2 text-right">{p.minPrice.toLocaleString()}</td>
+                  <td className="p-2 text-right">{p.maxPrice.toLocaleString()}</td>
+                  <td className="p-2 text-center">{p.currency}</td>
+                  <td className="p-2 text-center">{p.sourceIndices.length > 0 ? p.sourceIndices.map(idx => `[${idx + 1}]`).join('') : <span className="text-amber-600">未验证</span>}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+
+      {analysis.keywords.length > 0 && (
+        <section>
+          <h3 className="text-2xl font-bold text-indigo-700 mb-4 pb-2 border-b border-indigo-100">本土化 SEO 关键词</h3>
+          <div className="flex flex-wrap gap-2">
+            {analysis.keywords.map((kw, i) => (
+              <span key={i} className="bg-indigo-50 text-indigo-700 px-3 py-1 rounded-lg border border-indigo-100 text-sm">{kw.term} <span className="text-indigo-300 text-xs uppercase">{kw.language}</span></span>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {chunks.some(chunk => chunk.web?.uri) && (
+        <section>
+          <h3 className="text-2xl font-bold text-indigo-700 mb-4 pb-2 border-b border-indigo-100">数据来源</h3>
+          <div className="space-y-1 text-sm text-slate-600 break-all">
+            {chunks.map((chunk, i) => chunk.web?.uri && (
+              <div key={i}><span className="font-bold text-indigo-600">[{i + 1}]</span> {chunk.web.title || chunk.web.uri} — {chunk.web.uri}</div>
+            ))}
+          </div>
+        </section>
+      )}
+    </div>
+  );
+});
@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import { DatabaseZap, Trash2, RotateCcw, Loader2 } from 'lucide-react';
+import { CACHE_KINDS, CacheEntrySummary, CacheKind, clearResponseCache, deleteCacheEntries, listCacheEntries } from '../services/responseCache';
+import { CacheSettings, DEFAULT_CACHE_SETTINGS, getCacheSettings, saveCacheSettings } from '../services/cacheSettings';
+import { formatBytes } from '../services/historyStore';
+import { formatCacheAge } from './CachedBadge';
+
+const KIND_LABELS: Record<CacheKind, { name: string; usage: string }> = {
+  analysis: { name: '市场分析', usage: '单市场分析与多市场对比' },
+  hero: { name: '首图', usage: '产品首图 HTML' },
+  sku: { name: '详情页', usage: 'SKU 详情页 HTML' },
+  translate: { name: '翻译', usage: '首图与详情页翻译' },
+};
+
+/**
+ * Response cache settings: opt-in switch, TTL per kind, and the stored entries.
+ */
+export const ResponseCachePanel: React.FC = () => {
+  const [settings, setSettings] = useState<CacheSettings>(getCacheSettings);
+  const [entries, setEntries] = useState<CacheEntrySummary[] | null>(null);
+
+  const refresh = () => {
+    listCacheEntries()
+      .then(setEntries)
+      .catch(error => {
+        console.error("Failed to read response cache:", error);
+        setEntries([]);
+      });
+  };
+
+  useEffect(refresh, []);
+
+  const update = (next: CacheSettings) => {
+    saveCacheSettings(next);
+    setSettings(next);
+  };
+
+  const remove = async (keys: string[]) => {
+    try {
+      await deleteCacheEntries(keys);
+    } catch (error) {
+      console.error("Failed to delete cache entries:", error);
+    }
+    refresh();
+  };
+
+  const clearAll = async () => {
+    if (!confirm("确定清空全部缓存吗？")) return;
+    try {
+      await clearResponseCache();
+    } catch (error) {
+      console.error("Failed to clear response cache:", error);
+    }
+    refresh();
+  };
+
+  const now = Date.now();
+  const expired = (entries || []).filter(entry => entry.expiresAt <= now);
+  const totalBytes = (entries || []).reduce((sum, entry) => sum + entry.size, 0);
+  const totalHits = (entries || []).reduce((sum, entry) => sum + entry.hits, 0);
+
+  return (
+    <section className="bg-white p-8 rounded-2xl shadow-sm border border-slate-100">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2"><DatabaseZap size={20} className="text-indigo-600" /> 响应缓存</h2>
+          <p className="text-sm text-slate-500 mt-1">相同图片、提示词、市场、风格和模型的请求直接复用本地结果，不再重复调用模型。缓存只保存在本浏览器中。</p>
+        </div>
+        <label className="flex items-center gap-2 text-sm font-medium text-slate-700 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={e => update({ ...settings, enabled: e.target.checked })}
+            className="w-4 h-4 accent-indigo-600"
+          />
+          启用缓存
+        </label>
+      </div>
+
+      <div className={`divide-y divide-slate-100 ${settings.enabled ? '' : 'opacity-50'}`}>
+        {CACHE_KINDS.map(kind => (
+          <div key={kind} className="py-3 flex items-center gap-6">
+            <div className="w-1/3">
+              <p className="font-medium text-slate-700">{KIND_LABELS[kind].name}</p>
+              <p className="text-xs text-slate-400">{KIND_LABELS[kind].usage}</p>
+            </div>
+            <div className="flex items-center gap-2 text-sm text-slate-500">
+              有效期
+              <input
+                type="number"
+                min={1}
+                value={settings.ttlHours[kind]}
+                disabled={!settings.enabled}
+                onChange={e => {
+                  const hours = Math.max(1, Math.round(Number(e.target.value) || 1));
+                  update({ ...settings, ttlHours: { ...settings.ttlHours, [kind]: hours } });
+                }}
+                className="w-24 px-3 py-1.5 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+              />
+              小时
+            </div>
+            <span className="ml-auto text-xs text-slate-400">{(entries || []).filter(entry => entry.kind === kind).length} 条</span>
+          </div>
+        ))}
+      </div>
+      <button
+        onClick={() => update({ ...settings, ttlHours: DEFAULT_CACHE_SETTINGS.ttlHours })}
+        className="mt-2 flex items-center gap-1.5 text-sm text-slate-500 hover:text-indigo-600"
+      >
+        <RotateCcw size={14} /> 恢复默认有效期
+      </button>
+
+      <div className="mt-8 border-t border-slate-100 pt-6">
+        <div className="flex items-center justify-between mb-3">
+          <p className="text-sm text-slate-600">
+            {entries ? `${entries.length} 条缓存 · ${formatBytes(totalBytes)} · 累计命中 ${totalHits} 次` : '正在读取...'}
+          </p>
+          <div className="flex items-center gap-3 text-sm">
+            <button onClick={() => remove(expired.map(entry => entry.key))} disabled={expired.length === 0} className="text-slate-500 hover:text-indigo-600 disabled:opacity-40">
+              清除过期 ({expired.length})
+            </button>
+            <button onClick={clearAll} disabled={!entries?.length} className="flex items-center gap-1 text-red-500 hover:text-red-600 disabled:opacity-40">
+              <Trash2 size={14} /> 清空缓存
+            </button>
+          </div>
+        </div>
+
+        {!entries && <div className="flex justify-center py-6 text-slate-400"><Loader2 className="animate-spin" size={20} /></div>}
+        {entries && entries.length > 0 && (
+          <div className="max-h-80 overflow-y-auto border border-slate-100 rounded-lg divide-y divide-slate-100">
+            {entries.map(entry => (
+              <div key={entry.key} className="group flex items-center gap-4 px-4 py-2.5 text-sm">
+                <span className="text-[10px] px-1.5 py-0.5 rounded bg-slate-100 text-slate-600 flex-shrink-0">{KIND_LABELS[entry.kind].name}</span>
+                <div className="flex-1 min-w-0">
+                  <p className="text-slate-700 truncate">{entry.label}</p>
+                  <p className="text-xs text-slate-400 font-mono truncate">{entry.providerId} / {entry.model} · {entry.key.slice(0, 12)}</p>
+                </div>
+                <div className="text-right text-xs text-slate-400 flex-shrink-0">
+                  <p>{formatCacheAge(entry.cachedAt)} · {formatBytes(entry.size)} · 命中 {entry.hits}</p>
+                  <p className={entry.expiresAt <= now ? 'text-red-400' : ''}>
+                    {entry.expiresAt <= now ? '已过期' : `${new Date(entry.expiresAt).toLocaleString()} 过期`}
+                  </p>
+                </div>
+                <button onClick={() => remove([entry.key])} title="删除" className="p-1 rounded text-slate-300 hover:text-red-500 opacity-0 group-hover:opacity-100">
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,43 @@
+import React, { useEffect, useState } from 'react';
+import { Hourglass, X } from 'lucide-react';
+import { RetryInfo } from '../services/requestControl';
+
+export interface RetryNotice extends RetryInfo {
+  label: string; // what is being retried, e.g. 市场分析
+  retryAt: number;
+}
+
+interface RetryCountdownProps {
+  notice: RetryNotice;
+  onCancel: () => void;
+}
+
+export const RetryCountdown: React.FC<RetryCountdownProps> = ({ notice, onCancel }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [notice]);
+
+  const seconds = Math.max(0, Math.ceil((notice.retryAt - now) / 1000));
+
+  return (
+    <div className="fixed bottom-6 right-6 z-50 w-80 bg-white rounded-xl shadow-2xl border border-amber-200 p-4 flex gap-3 animate-fade-in">
+      <div className="w-9 h-9 rounded-full bg-amber-50 text-amber-600 flex items-center justify-center shrink-0">
+        <Hourglass size={18} />
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="font-bold text-slate-800 text-sm">
+          {notice.rateLimited ? '请求过于频繁 (429)' : '服务暂时不可用'}
+        </p>
+        <p className="text-xs text-slate-500 mt-0.5">
+          {notice.label}：{seconds > 0 ? `${seconds} 秒后自动重试` : '正在重试...'}（第 {notice.attempt}/{notice.maxRetries} 次）
+        </p>
+      </div>
+      <button onClick={onCancel} className="self-start text-slate-400 hover:text-red-500" title="取消请求">
+        <X size={16} />
+      </button>
+    </div>
+  );
+};
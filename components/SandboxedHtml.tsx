@@ -0,0 +1,346 @@
+import React, { useEffect, useImperativeHandle, useMemo, useRef, useState } from 'react';
+import { sanitizeGeneratedHtml } from '../services/htmlSanitizer';
+
+/**
+ * Renders generated page HTML inside a sandboxed iframe with an opaque origin, so nothing in it
+ * can reach the app, its storage or the API key. The frame loads its own Tailwind runtime and a
+ * small bootstrap that talks to this component over postMessage: content edits, image clicks
+ * and PNG capture (html-to-image runs inside the frame, where the rendered nodes live).
+ *
+ * When editable, clicking text selects its element for typing and style tweaks. Edits are
+ * reported as they happen (`edit`) and, after a pause or when the element loses focus, as one
+ * finished change (`onChange`), which is the granularity undo works at.
+ */
+
+export interface CaptureRequest {
+  selector?: string; // capture each matching element instead of the whole page
+  fullPage?: boolean; // size the capture to the page's scroll size
+  options?: Record<string, unknown>; // passed to html-to-image's toPng
+}
+
+/** The text element selected for editing, as the frame renders it. */
+export interface TextSelection {
+  tag: string;
+  fontSize: number; // px
+  color: string; // #rrggbb
+}
+
+export interface TextStyle {
+  fontSize?: number;
+  color?: string;
+}
+
+export interface SandboxedHtmlHandle {
+  /** The current content, including edits made in the frame. */
+  getHtml: () => string;
+  /** Whether text has been typed since the last `onChange`. */
+  hasPendingEdits: () => boolean;
+  /** Apply inline style to the selected text element. */
+  styleSelection: (style: TextStyle) => void;
+  /** PNG data URLs, one per captured element. */
+  capture: (request?: CaptureRequest) => Promise<string[]>;
+}
+
+interface SandboxedHtmlProps {
+  html: string;
+  editable?: boolean;
+  autoHeight?: boolean; // grow the frame to its content instead of filling the parent
+  className?: string;
+  /** Called when an image is clicked; return a URL to put in its place, or null to leave it. */
+  onImageClick?: () => string | null;
+  /** A finished edit in the frame: typed text, a style tweak or a replaced image. */
+  onChange?: (html: string) => void;
+  onSelectionChange?: (selection: TextSelection | null) => void;
+  /** Undo/redo shortcuts pressed inside the frame; the frame's own history is not used. */
+  onUndo?: () => void;
+  onRedo?: () => void;
+}
+
+// `revision` is the render the frame's content started from
+type FrameMessage =
+  | { type: 'ready' }
+  | { type: 'edit'; revision: number; html: string }
+  | { type: 'change'; revision: number; html: string }
+  | { type: 'select'; selection: TextSelection | null }
+  | { type: 'undo' | 'redo' }
+  | { type: 'imageClick'; index: number }
+  | { type: 'size'; height: number }
+  | { type: 'captured'; id: number; dataUrls: string[] }
+  | { type: 'captureFailed'; id: number; message: string };
+
+const MESSAGE_SOURCE = 'jzt-sandbox';
+// Typing pauses longer than this end one edit (one undo step)
+const COMMIT_DELAY_MS = 800;
+
+// Runs inside the frame; kept as plain ES2020 since it is not compiled
+const FRAME_BOOTSTRAP = `(() => {
+  const root = document.getElementById('root');
+  let revision = 0;
+  let editable = false;
+  let selected = null;
+  let dirty = false;
+  let commitTimer = 0;
+  let htmlToImage = null;
+  const post = message => parent.postMessage({ source: '${MESSAGE_SOURCE}', revision, ...message }, '*');
+  const images = () => Array.from(root.querySelectorAll('img'));
+  const reportSize = () => post({ type: 'size', height: document.body.scrollHeight });
+
+  // The content without the editing state added here
+  const snapshot = () => {
+    const copy = root.cloneNode(true);
+    copy.querySelectorAll('[contenteditable]').forEach(element => element.removeAttribute('contenteditable'));
+    return copy.innerHTML;
+  };
+  const commit = () => {
+    clearTimeout(commitTimer);
+    if (!dirty) return;
+    dirty = false;
+    post({ type: 'change', html: snapshot() });
+  };
+  const changed = () => {
+    dirty = true;
+    post({ type: 'edit', html: snapshot() });
+    clearTimeout(commitTimer);
+    commitTimer = setTimeout(commit, ${COMMIT_DELAY_MS});
+  };
+  const toHex = color => {
+    const channels = (color.match(/[\\d.]+/g) || []).slice(0, 3);
+    return '#' + channels.map(value => Math.round(Number(value)).toString(16).padStart(2, '0')).join('').padEnd(6, '0');
+  };
+  // The innermost element holding text of its own
+  const textTarget = node => {
+    for (let element = node; element && element !== root; element = element.parentElement) {
+      if (Array.from(element.childNodes).some(child => child.nodeType === 3 && child.data.trim())) return element;
+    }
+    return null;
+  };
+  const reportSelection = () => {
+    const style = getComputedStyle(selected);
+    post({ type: 'select', selection: { tag: selected.tagName.toLowerCase(), fontSize: Math.round(parseFloat(style.fontSize)), color: toHex(style.color) } });
+  };
+  const select = element => {
+    if (element === selected) return;
+    if (selected) {
+      commit();
+      selected.removeAttribute('contenteditable');
+    }
+    selected = element;
+    if (!element) {
+      post({ type: 'select', selection: null });
+      return;
+    }
+    element.contentEditable = 'true';
+    element.focus();
+    reportSelection();
+  };
+
+  new ResizeObserver(reportSize).observe(root);
+  root.addEventListener('input', changed);
+  root.addEventListener('focusout', commit);
+  root.addEventListener('click', event => {
+    const index = images().indexOf(event.target);
+    if (index >= 0) {
+      post({ type: 'imageClick', index });
+      return;
+    }
+    if (!editable) return;
+    event.preventDefault(); // links stay put while editing
+    if (selected && selected.contains(event.target)) return;
+    select(textTarget(event.target));
+  });
+  document.addEventListener('keydown', event => {
+    if (!editable) return;
+    if (event.key === 'Escape') {
+      select(null);
+      return;
+    }
+    const key = event.key.toLowerCase();
+    if (!(event.ctrlKey || event.metaKey) || (key !== 'z' && key !== 'y')) return;
+    event.preventDefault();
+    commit();
+    post({ type: key === 'y' || event.shiftKey ? 'redo' : 'undo' });
+  });
+
+  window.addEventListener('message', async event => {
+    if (event.source !== parent) return;
+    const message = event.data;
+    if (message.type === 'render') {
+      clearTimeout(commitTimer);
+      dirty = false;
+      if (selected) post({ type: 'select', selection: null });
+      selected = null;
+      revision = message.revision;
+      editable = message.editable;
+      root.innerHTML = message.html;
+      document.body.classList.toggle('editing', editable);
+      reportSize();
+    } else if (message.type === 'replaceImage') {
+      const image = images()[message.index];
+      if (!image) return;
+      image.src = message.src;
+      image.removeAttribute('data-image-empty');
+      dirty = true;
+      commit();
+    } else if (message.type === 'styleSelection') {
+      if (!selected) return;
+      if (message.style.fontSize) selected.style.fontSize = message.style.fontSize + 'px';
+      if (message.style.color) selected.style.color = message.style.color;
+      reportSelection();
+      changed();
+    } else if (message.type === 'capture') {
+      select(null);
+      try {
+        htmlToImage = htmlToImage || await import('https://esm.sh/html-to-image@1.11.11');
+        const nodes = message.selector ? Array.from(root.querySelectorAll(message.selector)) : [root];
+        const dataUrls = [];
+        for (const node of nodes) {
+          const size = message.fullPage ? { width: node.scrollWidth, height: node.scrollHeight } : {};
+          try {
+            dataUrls.push(await htmlToImage.toPng(node, { ...message.options, ...size }));
+          } catch (error) {
+            if (!message.selector) throw error;
+          }
+        }
+        post({ type: 'captured', id: message.id, dataUrls });
+      } catch (error) {
+        post({ type: 'captureFailed', id: message.id, message: String(error && error.message || error) });
+      }
+    }
+  });
+  post({ type: 'ready' });
+})();`;
+
+const buildFrameDocument = (nonce: string) => `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; script-src 'nonce-${nonce}' https://cdn.tailwindcss.com https://esm.sh; style-src 'unsafe-inline' https://fonts.googleapis.com; font-src https://fonts.gstatic.com; img-src https: data: blob:; connect-src https: data: blob:">
+<script src="https://cdn.tailwindcss.com"></script>
+<link href="https://fonts.googleapis.com/css2?family=Inter:wght@300;400;500;600;700&display=swap" rel="stylesheet">
+<style>
+  html, body { margin: 0; background: #ffffff; }
+  body { font-family: 'Inter', sans-serif; }
+  body::-webkit-scrollbar { display: none; }
+  #root { outline: none; }
+  body.editing #root { cursor: text; }
+  #root [contenteditable="true"] { outline: 2px dashed #6366f1; outline-offset: 2px; }
+</style>
+</head>
+<body>
+<div id="root"></div>
+<script nonce="${nonce}">${FRAME_BOOTSTRAP}</script>
+</body>
+</html>`;
+
+export const SandboxedHtml = React.forwardRef<SandboxedHtmlHandle, SandboxedHtmlProps>(
+  ({ html, editable = false, autoHeight = false, className = '', onImageClick, onChange, onSelectionChange, onUndo, onRedo }, ref) => {
+    const frameRef = useRef<HTMLIFrameElement>(null);
+    const srcDoc = useMemo(() => buildFrameDocument(crypto.randomUUID().replace(/-/g, '')), []);
+    const [height, setHeight] = useState<number | null>(null);
+    const ready = useRef(false);
+    const current = useRef(''); // sanitized content as the frame has it
+    const revision = useRef(0); // last render sent to the frame
+    const pendingEdits = useRef(false);
+    const nextCaptureId = useRef(0);
+    const captures = useRef(new Map<number, { resolve: (dataUrls: string[]) => void; reject: (error: Error) => void }>());
+    const callbacks = useRef({ onImageClick, onChange, onSelectionChange, onUndo, onRedo });
+    callbacks.current = { onImageClick, onChange, onSelectionChange, onUndo, onRedo };
+
+    const send = (message: Record<string, unknown>) => frameRef.current?.contentWindow?.postMessage(message, '*');
+
+    const render = (content: string) => {
+      current.current = sanitizeGeneratedHtml(content);
+      pendingEdits.current = false;
+      send({ type: 'render', revision: ++revision.current, html: current.current, editable });
+    };
+
+    useEffect(() => {
+      const onMessage = (event: MessageEvent) => {
+        if (event.source !== frameRef.current?.contentWindow || event.data?.source !== MESSAGE_SOURCE) return;
+        const message = event.data as FrameMessage;
+        switch (message.type) {
+          case 'ready':
+            ready.current = true;
+            callbacks.current.onSelectionChange?.(null);
+            render(html);
+            break;
+          // Edits made before the frame received the latest render are stale
+          case 'edit':
+            if (message.revision !== revision.current) break;
+            current.current = sanitizeGeneratedHtml(message.html);
+            pendingEdits.current = true;
+            break;
+          case 'change':
+            if (message.revision !== revision.current) break;
+            current.current = sanitizeGeneratedHtml(message.html);
+            pendingEdits.current = false;
+            callbacks.current.onChange?.(current.current);
+            break;
+          case 'select':
+            callbacks.current.onSelectionChange?.(message.selection);
+            break;
+          case 'undo':
+            callbacks.current.onUndo?.();
+            break;
+          case 'redo':
+            callbacks.current.onRedo?.();
+            break;
+          case 'imageClick': {
+            const src = callbacks.current.onImageClick?.();
+            if (src) send({ type: 'replaceImage', index: message.index, src });
+            break;
+          }
+          case 'size':
+            setHeight(message.height);
+            break;
+          case 'captured':
+          case 'captureFailed': {
+            const pending = captures.current.get(message.id);
+            captures.current.delete(message.id);
+            if (message.type === 'captured') pending?.resolve(message.dataUrls);
+            else pending?.reject(new Error(message.message));
+            break;
+          }
+        }
+      };
+      window.addEventListener('message', onMessage);
+      return () => window.removeEventListener('message', onMessage);
+    });
+
+    // Content the frame already shows (its own edits echoed back through the parent) is not re-sent
+    useEffect(() => {
+      if (ready.current && sanitizeGeneratedHtml(html) !== current.current) render(html);
+    }, [html]);
+
+    useEffect(() => {
+      if (ready.current) render(current.current);
+    }, [editable]);
+
+    useEffect(() => () => {
+      captures.current.forEach(pending => pending.reject(new Error('Preview closed before capture finished')));
+      captures.current.clear();
+    }, []);
+
+    useImperativeHandle(ref, () => ({
+      getHtml: () => current.current || sanitizeGeneratedHtml(html),
+      hasPendingEdits: () => pendingEdits.current,
+      styleSelection: style => send({ type: 'styleSelection', style }),
+      capture: (request = {}) => new Promise<string[]>((resolve, reject) => {
+        const id = nextCaptureId.current++;
+        captures.current.set(id, { resolve, reject });
+        send({ type: 'capture', id, ...request });
+      }),
+    }), [html]);
+
+    return (
+      <iframe
+        ref={frameRef}
+        title="generated-page"
+        sandbox="allow-scripts"
+        srcDoc={srcDoc}
+        className={`block w-full border-0 bg-white ${className}`}
+        style={autoHeight && height !== null ? { height } : undefined}
+      />
+    );
+  }
+);
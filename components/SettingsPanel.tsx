@@ -0,0 +1,92 @@
+import React from 'react';
+import { Cpu, Server, FlaskConical, RotateCcw } from 'lucide-react';
+import { AI_CAPABILITIES, AiCapability, AiProviderId } from '../services/aiProvider';
+import { AiSettings, DEFAULT_AI_SETTINGS, MODEL_OPTIONS } from '../services/aiSettings';
+
+const PROVIDER_OPTIONS: { id: AiProviderId; name: string; description: string; icon: React.ReactNode }[] = [
+  { id: 'gemini', name: 'Gemini', description: '通过本地 API 服务器调用 Gemini，密钥仅保存在服务器端。', icon: <Server size={20} /> },
+  { id: 'mock', name: '离线模拟', description: '返回固定示例报告、图片、页面与视频，无需联网，适合开发与演示。', icon: <FlaskConical size={20} /> },
+];
+
+const CAPABILITY_LABELS: Record<AiCapability, { name: string; usage: string }> = {
+  grounded: { name: '联网分析', usage: '市场分析报告 (Google Search Grounding)' },
+  text: { name: '文案 / HTML 生成', usage: '首图、SKU 详情页、翻译、视频提示词优化' },
+  image: { name: '图片编辑', usage: '魔法编辑与批量配图' },
+  video: { name: '视频生成', usage: 'Veo 产品视频' },
+  chat: { name: '对话', usage: 'AI 专家顾问' },
+};
+
+interface SettingsPanelProps {
+  settings: AiSettings;
+  onChange: (settings: AiSettings) => void;
+}
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange }) => {
+  const { provider } = settings;
+
+  const setModel = (capability: AiCapability, model: string) => {
+    onChange({
+      ...settings,
+      models: { ...settings.models, [provider]: { ...settings.models[provider], [capability]: model } },
+    });
+  };
+
+  const resetModels = () => {
+    onChange({ ...settings, models: { ...settings.models, [provider]: DEFAULT_AI_SETTINGS.models[provider] } });
+  };
+
+  return (
+    <div className="space-y-8">
+      <section className="bg-white p-8 rounded-2xl shadow-sm border border-slate-100">
+        <h2 className="text-xl font-bold text-slate-800 mb-1">AI 服务提供方</h2>
+        <p className="text-sm text-slate-500 mb-6">所有生成功能（分析、图片、视频、页面、对话）都使用此处选择的提供方。</p>
+        <div className="grid grid-cols-2 gap-4">
+          {PROVIDER_OPTIONS.map(option => (
+            <button
+              key={option.id}
+              onClick={() => onChange({ ...settings, provider: option.id })}
+              className={`text-left p-5 rounded-xl border-2 transition-all ${provider === option.id ? 'border-indigo-500 bg-indigo-50' : 'border-slate-200 hover:border-indigo-200'}`}
+            >
+              <div className={`flex items-center gap-2 font-bold mb-1 ${provider === option.id ? 'text-indigo-700' : 'text-slate-700'}`}>
+                {option.icon} {option.name}
+              </div>
+              <p className="text-sm text-slate-500">{option.description}</p>
+            </button>
+          ))}
+        </div>
+      </section>
+
+      <section className="bg-white p-8 rounded-2xl shadow-sm border border-slate-100">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2"><Cpu size={20} className="text-indigo-600" /> 模型选择</h2>
+            <p className="text-sm text-slate-500 mt-1">为每项能力指定 {PROVIDER_OPTIONS.find(o => o.id === provider)?.name} 的模型，可从列表选择或直接输入模型 ID。</p>
+          </div>
+          <button onClick={resetModels} className="flex items-center gap-1.5 text-sm text-slate-500 hover:text-indigo-600">
+            <RotateCcw size={14} /> 恢复默认
+          </button>
+        </div>
+        <div className="divide-y divide-slate-100">
+          {AI_CAPABILITIES.map(capability => (
+            <div key={capability} className="py-4 flex items-center gap-6">
+              <div className="w-1/3">
+                <p className="font-medium text-slate-700">{CAPABILITY_LABELS[capability].name}</p>
+                <p className="text-xs text-slate-400">{CAPABILITY_LABELS[capability].usage}</p>
+              </div>
+              <input
+                list={`models-${provider}-${capability}`}
+                value={settings.models[provider][capability]}
+                onChange={e => setModel(capability, e.target.value)}
+                onBlur={e => !e.target.value.trim() && setModel(capability, MODEL_OPTIONS[provider][capability][0])}
+                className="flex-1 px-3 py-2 border border-slate-200 rounded-lg text-sm font-mono focus:ring-2 focus:ring-indigo-500 outline-none"
+              />
+              <datalist id={`models-${provider}-${capability}`}>
+                {MODEL_OPTIONS[provider][capability].map(model => <option key={model} value={model} />)}
+              </datalist>
+            </div>
+          ))}
+        </div>
+      </section>
+    </div>
+  );
+};
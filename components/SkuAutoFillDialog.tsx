@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { X, Sparkles, ArrowRight, ImageOff } from 'lucide-react';
+import { SkuFillCandidate, SkuFillProposal, SkuImageSlotInfo } from '../services/skuImageSlots';
+
+interface SkuAutoFillDialogProps {
+  slots: SkuImageSlotInfo[];
+  candidates: SkuFillCandidate[];
+  proposals: SkuFillProposal[];
+  onApply: (fills: Array<{ slot: number; url: string }>) => void;
+  onClose: () => void;
+}
+
+/**
+ * The proposed picture for each empty image slot of the SKU page, for the user to check and
+ * adjust before all of them are put in at once.
+ */
+export const SkuAutoFillDialog: React.FC<SkuAutoFillDialogProps> = ({ slots, candidates, proposals, onApply, onClose }) => {
+  // Slot index -> chosen picture URL; '' leaves the slot as it is
+  const [choices, setChoices] = useState<Record<number, string>>(
+    () => Object.fromEntries(proposals.map(proposal => [proposal.slot, proposal.url]))
+  );
+  const emptySlots = slots.filter(slot => slot.empty);
+  const fills = emptySlots
+    .filter(slot => choices[slot.index])
+    .map(slot => ({ slot: slot.index, url: choices[slot.index] }));
+  const candidateName = (url: string) => {
+    const index = candidates.findIndex(candidate => candidate.url === url);
+    return candidates[index]?.label || `素材 ${index + 1}`;
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white w-[640px] max-h-[85vh] rounded-2xl shadow-2xl overflow-hidden relative flex flex-col">
+        <button onClick={onClose} className="absolute top-4 right-4 text-slate-400 hover:text-slate-600 transition-colors">
+          <X size={20} />
+        </button>
+        <div className="px-6 pt-6 pb-4 border-b border-slate-100">
+          <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2"><Sparkles size={20} className="text-indigo-600" /> 智能填充配图</h2>
+          <p className="text-sm text-slate-500 mt-1">按图片标签与所在区块匹配素材，确认后一次性填入详情页</p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-3">
+          {emptySlots.length === 0 && <p className="text-sm text-slate-400 py-10 text-center">页面中没有待填充的图片位</p>}
+          {emptySlots.length > 0 && candidates.length === 0 && (
+            <p className="text-sm text-slate-400 py-10 text-center">素材库中没有可用图片，请先生成全套 SKU 配图或上传素材</p>
+          )}
+          {candidates.length > 0 && emptySlots.map(slot => {
+            const chosen = choices[slot.index] || '';
+            const proposal = proposals.find(p => p.slot === slot.index);
+            return (
+              <div key={slot.index} className="flex items-center gap-3 p-3 rounded-xl border border-slate-200">
+                <div className="w-14 h-14 flex-shrink-0 rounded-lg bg-slate-50 border border-slate-100 overflow-hidden">
+                  {slot.src && <img src={slot.src} className="w-full h-full object-cover" />}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-slate-700 truncate" title={slot.hint}>{slot.hint || '未标注'}</p>
+                  <p className="text-xs text-slate-400 truncate" title={slot.section}>{slot.section || '无标题区块'}</p>
+                </div>
+                <ArrowRight size={16} className="text-slate-300 flex-shrink-0" />
+                <div className="w-14 h-14 flex-shrink-0 rounded-lg bg-slate-50 border border-slate-100 overflow-hidden flex items-center justify-center">
+                  {chosen ? <img src={chosen} className="w-full h-full object-cover" /> : <ImageOff size={18} className="text-slate-300" />}
+                </div>
+                <div className="w-44 flex-shrink-0 space-y-1">
+                  <select
+                    value={chosen}
+                    onChange={e => setChoices(prev => ({ ...prev, [slot.index]: e.target.value }))}
+                    className="w-full px-2 py-1.5 border border-slate-200 rounded-lg text-sm text-slate-700 outline-none"
+                  >
+                    <option value="">不填充</option>
+                    {candidates.map(candidate => <option key={candidate.url} value={candidate.url}>{candidateName(candidate.url)}</option>)}
+                  </select>
+                  {proposal && proposal.url === chosen && (
+                    <p className="text-[11px] text-slate-400 truncate">{proposal.reason ? `匹配：${proposal.reason}` : '按顺序补位'}</p>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-100 flex items-center justify-between">
+          <span className="text-sm text-slate-500">将填充 {fills.length} / {emptySlots.length} 个图片位</span>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-lg">取消</button>
+            <button
+              onClick={() => onApply(fills)}
+              disabled={fills.length === 0}
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg disabled:opacity-50"
+            >
+              确认填充
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
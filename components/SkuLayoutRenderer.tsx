@@ -0,0 +1,247 @@
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { SkuImageSlot, SkuLayoutDocument, SkuLayoutSection, SkuTone } from '../types';
+import { SkuStyle } from '../services/promptTemplates';
+
+/**
+ * Draws a SKU layout document in one of the SKU styles. The output is static HTML for the
+ * sandboxed preview, annotated as described in services/skuLayout.ts so it can be read back.
+ */
+
+interface SkuTheme {
+  page: string;
+  tones: Record<SkuTone, string>; // section surface and text colour
+  heading: string;
+  eyebrow: string;
+  muted: string;
+  accent: string;
+  card: string;
+  badge: string;
+  button: string;
+  image: string;
+  price: string;
+}
+
+const SKU_THEMES: Record<SkuStyle, SkuTheme> = {
+  'Classic Conversion': {
+    page: 'font-sans text-slate-900',
+    tones: { base: 'bg-white', alt: 'bg-slate-50', emphasis: 'bg-gradient-to-br from-orange-500 to-red-600 text-white' },
+    heading: 'text-3xl font-black tracking-tight mb-6',
+    eyebrow: 'inline-block bg-red-600 text-white text-xs font-bold px-3 py-1 rounded-sm mb-4 uppercase',
+    muted: 'opacity-70',
+    accent: 'text-red-600',
+    card: 'bg-white rounded-xl border border-slate-200 shadow-sm p-4 text-slate-900',
+    badge: 'border-2 border-dashed border-orange-400 text-orange-600 bg-orange-50 text-xs font-bold px-3 py-1 rounded',
+    button: 'bg-red-600 text-white font-black text-lg rounded-full py-4 shadow-lg',
+    image: 'rounded-xl',
+    price: 'text-5xl font-black text-red-600',
+  },
+  'Muji Minimalist': {
+    page: 'font-serif text-stone-800',
+    tones: { base: 'bg-[#FDFBF7]', alt: 'bg-[#F1EEE6]', emphasis: 'bg-[#7C8B6F] text-[#FDFBF7]' },
+    heading: 'text-3xl font-normal tracking-wide mb-8',
+    eyebrow: 'block text-xs tracking-[0.3em] uppercase text-[#7C8B6F] mb-4 font-sans',
+    muted: 'opacity-60 font-sans',
+    accent: 'text-[#7C8B6F]',
+    card: 'bg-white/70 rounded-[32px] p-5 text-stone-800',
+    badge: 'border border-stone-300 text-stone-600 text-xs px-3 py-1 rounded-full font-sans',
+    button: 'bg-stone-800 text-[#FDFBF7] tracking-widest rounded-full py-4 font-sans',
+    image: 'rounded-[40px]',
+    price: 'text-4xl font-light',
+  },
+  'Cyberpunk Tech': {
+    page: 'font-sans text-slate-100',
+    tones: { base: 'bg-[#0f172a]', alt: 'bg-[#020617]', emphasis: 'bg-gradient-to-br from-[#0f172a] via-[#312e81] to-[#0f172a]' },
+    heading: 'text-3xl font-black uppercase tracking-tight mb-6 text-cyan-300 drop-shadow-[0_0_12px_rgba(34,211,238,0.6)]',
+    eyebrow: 'inline-block font-mono text-xs text-fuchsia-400 border border-fuchsia-500/60 px-2 py-1 mb-4',
+    muted: 'text-slate-400 font-mono text-sm',
+    accent: 'text-cyan-300',
+    card: 'bg-white/5 backdrop-blur border border-cyan-500/30 rounded-lg p-4 text-slate-100',
+    badge: 'font-mono text-xs text-cyan-300 border border-cyan-400/50 px-2 py-1 rounded',
+    button: 'bg-cyan-400 text-slate-950 font-black uppercase tracking-widest rounded py-4 shadow-[0_0_24px_rgba(34,211,238,0.6)]',
+    image: 'rounded-lg border border-cyan-500/30',
+    price: 'text-5xl font-black font-mono text-cyan-300',
+  },
+  'K-Pop / Y2K': {
+    page: 'font-sans text-black',
+    tones: { base: 'bg-white', alt: 'bg-[#CCFF00]', emphasis: 'bg-[#FF00CC] text-white' },
+    heading: 'text-4xl font-black uppercase italic -rotate-1 mb-6',
+    eyebrow: 'inline-block bg-black text-[#CCFF00] text-xs font-black px-3 py-1 rotate-2 mb-4',
+    muted: 'font-medium opacity-80',
+    accent: 'text-[#FF00CC]',
+    card: 'bg-white border-4 border-black rounded-2xl p-4 shadow-[6px_6px_0_#000] text-black',
+    badge: 'bg-[#2E5BFF] text-white text-xs font-black px-3 py-1 rounded-full border-2 border-black',
+    button: 'bg-black text-[#CCFF00] font-black uppercase text-xl rounded-2xl py-4 border-4 border-black shadow-[6px_6px_0_#FF00CC]',
+    image: 'rounded-2xl border-4 border-black',
+    price: 'text-6xl font-black italic',
+  },
+};
+
+const themeFor = (style: string) => SKU_THEMES[style as SkuStyle] ?? SKU_THEMES['Classic Conversion'];
+
+// Stand-in for an empty image slot, labelled with what belongs there
+const placeholderImage = (hint: string) => {
+  const label = hint.replace(/[<>&"]/g, '');
+  const svg = `<svg width="400" height="400" xmlns="http://www.w3.org/2000/svg">
+  <rect width="100%" height="100%" fill="#f1f5f9"/>
+  <path d="M0 400 L400 0 M0 0 L400 400" stroke="#cbd5e1" stroke-width="1"/>
+  <rect width="60%" height="18%" x="20%" y="41%" rx="8" fill="white" fill-opacity="0.85"/>
+  <text x="50%" y="48%" font-family="sans-serif" font-size="14" font-weight="600" fill="#64748b" dominant-baseline="middle" text-anchor="middle">CLICK TO REPLACE</text>
+  <text x="50%" y="54%" font-family="sans-serif" font-size="12" fill="#94a3b8" dominant-baseline="middle" text-anchor="middle">${label}</text>
+</svg>`;
+  return `data:image/svg+xml;base64,${btoa(unescape(encodeURIComponent(svg)))}`;
+};
+
+const SlotImage: React.FC<{ slot: SkuImageSlot; className?: string }> = ({ slot, className = '' }) => (
+  <img
+    data-image-hint={slot.hint}
+    {...(slot.src ? {} : { 'data-image-empty': '' })}
+    src={slot.src || placeholderImage(slot.hint)}
+    alt={slot.hint}
+    className={`editable-image cursor-pointer object-cover w-full ${className}`}
+  />
+);
+
+type SectionProps<K extends SkuLayoutSection['kind']> = { section: Extract<SkuLayoutSection, { kind: K }>; theme: SkuTheme };
+
+const HeroSection: React.FC<SectionProps<'hero'>> = ({ section, theme }) => (
+  <>
+    <SlotImage slot={section.image} className={`aspect-square mb-8 ${theme.image}`} />
+    {section.eyebrow && <span className={theme.eyebrow}>{section.eyebrow}</span>}
+    <h1 className={`${theme.heading} text-4xl`}>{section.title}</h1>
+    {section.subtitle && <p className={`text-lg mb-6 ${theme.muted}`}>{section.subtitle}</p>}
+    <div className="flex flex-wrap gap-2">
+      {section.badges.map((badge, i) => <span key={i} className={theme.badge}>{badge}</span>)}
+    </div>
+  </>
+);
+
+const PainPointsSection: React.FC<SectionProps<'painPoints'>> = ({ section, theme }) => (
+  <>
+    <h2 className={theme.heading}>{section.title}</h2>
+    <div className="space-y-4">
+      {section.items.map((item, i) => (
+        <div key={i} className={theme.card}>
+          <p className={`line-through mb-2 ${theme.muted}`}>✕ <span>{item.problem}</span></p>
+          <p className="font-bold">✓ <span>{item.solution}</span></p>
+        </div>
+      ))}
+    </div>
+  </>
+);
+
+const FeaturesSection: React.FC<SectionProps<'features'>> = ({ section, theme }) => (
+  <>
+    <h2 className={theme.heading}>{section.title}</h2>
+    <div className="grid grid-cols-2 gap-4">
+      {section.items.map((item, i) => (
+        <div key={i} className={theme.card}>
+          <SlotImage slot={item.image} className={`aspect-square mb-3 ${theme.image}`} />
+          <h3 className={`font-bold text-lg mb-1 ${theme.accent}`}>{item.title}</h3>
+          <p className={`text-sm ${theme.muted}`}>{item.body}</p>
+        </div>
+      ))}
+    </div>
+  </>
+);
+
+const ComparisonSection: React.FC<SectionProps<'comparison'>> = ({ section, theme }) => (
+  <>
+    <h2 className={theme.heading}>{section.title}</h2>
+    <table className={`w-full text-left ${theme.card}`}>
+      <thead>
+        <tr className="border-b border-slate-500/30">
+          <th className="py-3 pr-2"></th>
+          <th className={`py-3 px-2 font-black ${theme.accent}`}>{section.oursLabel}</th>
+          <th className={`py-3 pl-2 font-medium ${theme.muted}`}>{section.othersLabel}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {section.rows.map((row, i) => (
+          <tr key={i} className="border-b border-slate-500/15 last:border-0">
+            <td className="py-3 pr-2 font-bold">{row.aspect}</td>
+            <td className={`py-3 px-2 font-bold ${theme.accent}`}>{row.ours}</td>
+            <td className={`py-3 pl-2 ${theme.muted}`}>{row.others}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </>
+);
+
+const ReviewsSection: React.FC<SectionProps<'reviews'>> = ({ section, theme }) => (
+  <>
+    <h2 className={theme.heading}>{section.title}</h2>
+    <div className="space-y-4">
+      {section.items.map((item, i) => (
+        <div key={i} className={theme.card}>
+          <p data-value={item.rating} className="text-amber-400 mb-2">{'★'.repeat(item.rating)}{'☆'.repeat(5 - item.rating)}</p>
+          <p className="mb-3">{item.body}</p>
+          <p className={`text-sm font-bold ${theme.muted}`}>{item.author}</p>
+        </div>
+      ))}
+    </div>
+  </>
+);
+
+const CertificatesSection: React.FC<SectionProps<'certificates'>> = ({ section, theme }) => (
+  <>
+    <h2 className={theme.heading}>{section.title}</h2>
+    <div className="grid grid-cols-3 gap-3">
+      {section.items.map((item, i) => (
+        <div key={i} className={`${theme.card} text-center`}>
+          <SlotImage slot={item.image} className={`aspect-[3/4] mb-2 ${theme.image}`} />
+          <p className="font-bold text-sm">{item.name}</p>
+          <p className={`text-xs ${theme.muted}`}>{item.detail}</p>
+        </div>
+      ))}
+    </div>
+  </>
+);
+
+const OfferSection: React.FC<SectionProps<'offer'>> = ({ section, theme }) => (
+  <div className="text-center">
+    <h2 className={theme.heading}>{section.title}</h2>
+    <p className="mb-6">
+      <span className={theme.price}>{section.price}</span>
+      {section.originalPrice && <span className={`ml-3 line-through ${theme.muted}`}>{section.originalPrice}</span>}
+    </p>
+    <ul className="space-y-2 mb-8">
+      {section.perks.map((perk, i) => <li key={i} className="font-medium">✓ <span>{perk}</span></li>)}
+    </ul>
+    <div className={`w-full ${theme.button}`}>{section.cta}</div>
+  </div>
+);
+
+const SectionBody: React.FC<{ section: SkuLayoutSection; theme: SkuTheme }> = ({ section, theme }) => {
+  switch (section.kind) {
+    case 'hero': return <HeroSection section={section} theme={theme} />;
+    case 'painPoints': return <PainPointsSection section={section} theme={theme} />;
+    case 'features': return <FeaturesSection section={section} theme={theme} />;
+    case 'comparison': return <ComparisonSection section={section} theme={theme} />;
+    case 'reviews': return <ReviewsSection section={section} theme={theme} />;
+    case 'certificates': return <CertificatesSection section={section} theme={theme} />;
+    case 'offer': return <OfferSection section={section} theme={theme} />;
+    default: return null;
+  }
+};
+
+export const SkuLayoutView: React.FC<{ layout: SkuLayoutDocument }> = ({ layout }) => {
+  const theme = themeFor(layout.style);
+  return (
+    <div data-sku-layout="" className={theme.page}>
+      {layout.sections.map(section => (
+        <div
+          key={section.id}
+          data-section-kind={section.kind}
+          className={`sku-section relative overflow-hidden px-8 py-14 ${theme.tones[section.tone]}`}
+        >
+          <SectionBody section={section} theme={theme} />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export const renderSkuLayoutHtml = (layout: SkuLayoutDocument): string =>
+  renderToStaticMarkup(<SkuLayoutView layout={layout} />);
@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { GripVertical, Copy, Trash2, Wand2, Loader2, ListOrdered, Image as ImageIcon } from 'lucide-react';
+import { SkuSectionSummary } from '../services/skuSections';
+
+interface SkuSectionOutlineProps {
+  sections: SkuSectionSummary[];
+  regeneratingIndex: number | null;
+  disabled?: boolean;
+  onMove: (from: number, to: number) => void;
+  onDuplicate: (index: number) => void;
+  onDelete: (index: number) => void;
+  onRegenerate: (index: number, instruction: string) => void;
+}
+
+/**
+ * Outline of the SKU page's sections: drag to reorder, duplicate, delete, or rewrite one
+ * section with an instruction while the rest of the page stays as it is.
+ */
+export const SkuSectionOutline: React.FC<SkuSectionOutlineProps> = ({ sections, regeneratingIndex, disabled, onMove, onDuplicate, onDelete, onRegenerate }) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [promptIndex, setPromptIndex] = useState<number | null>(null);
+  const [instruction, setInstruction] = useState('');
+  const busy = disabled || regeneratingIndex !== null;
+
+  const endDrag = () => {
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  const submitInstruction = (index: number) => {
+    if (!instruction.trim()) return;
+    onRegenerate(index, instruction.trim());
+    setPromptIndex(null);
+    setInstruction('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-slate-700 font-bold"><ListOrdered size={20} /> 区块大纲</div>
+      <p className="text-xs text-slate-400">拖动调整顺序，或单独重写某个区块</p>
+      {sections.length === 0 && <p className="text-sm text-slate-400 py-6 text-center">页面中没有 .sku-section 区块</p>}
+      {sections.map(section => {
+        const isRegenerating = regeneratingIndex === section.index;
+        return (
+          <div
+            key={section.index}
+            draggable={!busy}
+            onDragStart={e => {
+              e.dataTransfer.effectAllowed = 'move';
+              setDragIndex(section.index);
+            }}
+            onDragOver={e => {
+              if (dragIndex === null) return;
+              e.preventDefault();
+              setDropIndex(section.index);
+            }}
+            onDrop={e => {
+              e.preventDefault();
+              if (dragIndex !== null && dragIndex !== section.index) onMove(dragIndex, section.index);
+              endDrag();
+            }}
+            onDragEnd={endDrag}
+            className={`group rounded-lg border bg-white transition-colors ${dropIndex === section.index && dragIndex !== section.index ? 'border-indigo-400 ring-2 ring-indigo-100' : 'border-slate-200'} ${dragIndex === section.index ? 'opacity-40' : ''}`}
+          >
+            <div className="flex items-center gap-1.5 px-2 py-2">
+              <GripVertical size={14} className={`flex-shrink-0 ${busy ? 'text-slate-200' : 'text-slate-300 cursor-grab'}`} />
+              <span className="text-xs font-mono text-slate-400 w-4">{section.index + 1}</span>
+              <p className="flex-1 min-w-0 text-sm text-slate-700 truncate" title={section.label}>{section.label}</p>
+              {section.imageCount > 0 && <span className="flex items-center gap-0.5 text-[10px] text-slate-400"><ImageIcon size={10} />{section.imageCount}</span>}
+              {isRegenerating ? (
+                <Loader2 size={14} className="animate-spin text-indigo-500" />
+              ) : (
+                <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100">
+                  <button onClick={() => setPromptIndex(promptIndex === section.index ? null : section.index)} disabled={busy} className="text-slate-400 hover:text-indigo-500 disabled:opacity-40" title="按指令重写此区块">
+                    <Wand2 size={13} />
+                  </button>
+                  <button onClick={() => onDuplicate(section.index)} disabled={busy} className="text-slate-400 hover:text-indigo-500 disabled:opacity-40" title="复制区块">
+                    <Copy size={13} />
+                  </button>
+                  <button
+                    onClick={() => { if (confirm(`确定删除区块「${section.label}」？`)) onDelete(section.index); }}
+                    disabled={busy}
+                    className="text-slate-400 hover:text-red-500 disabled:opacity-40"
+                    title="删除区块"
+                  >
+                    <Trash2 size={13} />
+                  </button>
+                </div>
+              )}
+            </div>
+            {promptIndex === section.index && !isRegenerating && (
+              <div className="px-2 pb-2 space-y-1.5">
+                <textarea
+                  autoFocus
+                  value={instruction}
+                  onChange={e => setInstruction(e.target.value)}
+                  onKeyDown={e => {
+                    if (e.key === 'Enter' && !e.shiftKey) {
+                      e.preventDefault();
+                      submitInstruction(section.index);
+                    }
+                    if (e.key === 'Escape') setPromptIndex(null);
+                  }}
+                  rows={2}
+                  placeholder="例如：改成限时促销风格，加入倒计时"
+                  className="w-full text-sm px-2 py-1.5 border border-indigo-200 rounded-md outline-none resize-none"
+                />
+                <button
+                  onClick={() => submitInstruction(section.index)}
+                  disabled={busy || !instruction.trim()}
+                  className="w-full flex items-center justify-center gap-1.5 py-1.5 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-md disabled:opacity-50"
+                >
+                  <Wand2 size={13} /> 重写此区块
+                </button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
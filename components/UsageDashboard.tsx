@@ -0,0 +1,400 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Coins, Wallet, Receipt, RotateCcw, Trash2, Loader2, AlertTriangle } from 'lucide-react';
+import { AppMode, ProductWorkspace, User } from '../types';
+import { UsageRecord, UsageTask, clearUsage, estimateCost, isUsageOf, loadUsage, startOfDay, subscribeUsage } from '../services/usageStore';
+import { DEFAULT_MODEL_PRICES, ModelPrice, UsageSettings, getBudgetKey, getUsageSettings, saveUsageSettings } from '../services/usageSettings';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RANGES = [7, 30, 90];
+const RECENT_CALLS = 50;
+
+const MODE_LABELS: Record<AppMode, string> = {
+  [AppMode.ANALYSIS]: '市场分析',
+  [AppMode.LIVE_AGENT]: 'AI 顾问',
+  [AppMode.HERO_DESIGN]: '首图设计',
+  [AppMode.IMAGE_EDIT]: '创意工作室',
+  [AppMode.VEO_VIDEO]: '视频',
+  [AppMode.CALCULATOR]: '物流定价',
+  [AppMode.USAGE]: '用量与成本',
+  [AppMode.SETTINGS]: '设置',
+};
+
+const MODE_COLORS: Partial<Record<AppMode, string>> = {
+  [AppMode.ANALYSIS]: '#6366f1',
+  [AppMode.LIVE_AGENT]: '#0ea5e9',
+  [AppMode.IMAGE_EDIT]: '#ec4899',
+  [AppMode.HERO_DESIGN]: '#f97316',
+  [AppMode.VEO_VIDEO]: '#10b981',
+};
+
+const TASK_LABELS: Record<UsageTask, string> = {
+  analysis: '市场分析',
+  hero: '首图',
+  sku: '详情页',
+  'sku-section': '详情页区块',
+  translate: '翻译',
+  'enhance-prompt': '提示词优化',
+  image: '图片',
+  video: '视频',
+  chat: '顾问对话',
+};
+
+const PRICE_FIELDS: { key: keyof ModelPrice; label: string }[] = [
+  { key: 'inputPerMillion', label: '输入 / 1M tokens' },
+  { key: 'outputPerMillion', label: '输出 / 1M tokens' },
+  { key: 'perImage', label: '每张图片' },
+  { key: 'perVideoSecond', label: '每秒视频' },
+];
+
+export const formatUsd = (value: number) => `$${value.toFixed(value > 0 && value < 0.01 ? 4 : 2)}`;
+
+const formatCount = (value: number) =>
+  value >= 1_000_000 ? `${(value / 1_000_000).toFixed(1)}M` : value >= 1000 ? `${(value / 1000).toFixed(1)}k` : String(value);
+
+const dayLabel = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.getMonth() + 1}/${date.getDate()}`;
+};
+
+interface BreakdownRow {
+  key: string;
+  label: string;
+  calls: number;
+  tokens: number;
+  cost: number;
+  unpriced: number; // calls whose model has no price
+}
+
+interface UsageDashboardProps {
+  currentUser: User | null;
+  products: ProductWorkspace[];
+}
+
+/**
+ * Spend over time, breakdowns by product / model / mode, recent calls, the daily budget
+ * and the price table the estimates are based on.
+ */
+export const UsageDashboard: React.FC<UsageDashboardProps> = ({ currentUser, products }) => {
+  const [days, setDays] = useState(7);
+  const [scope, setScope] = useState<'mine' | 'all'>('mine');
+  const [records, setRecords] = useState<UsageRecord[] | null>(null);
+  const [settings, setSettings] = useState<UsageSettings>(getUsageSettings);
+
+  const since = startOfDay(Date.now() - (days - 1) * DAY_MS);
+
+  useEffect(() => {
+    let cancelled = false;
+    setRecords(null);
+    loadUsage(since)
+      .then(loaded => { if (!cancelled) setRecords(loaded); })
+      .catch(error => {
+        console.error("Failed to read usage:", error);
+        if (!cancelled) setRecords([]);
+      });
+    // New calls show up live, e.g. a background job finishing while the dashboard is open
+    const unsubscribe = subscribeUsage(record => setRecords(prev => prev ? [...prev, record] : prev));
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [since]);
+
+  const update = (next: UsageSettings) => {
+    saveUsageSettings(next);
+    setSettings(next);
+  };
+
+  const userId = currentUser?.id;
+  const visible = useMemo(
+    () => (records || []).filter(record => scope === 'all' || isUsageOf(record, userId)),
+    [records, scope, userId]
+  );
+  const costOf = (record: UsageRecord) => estimateCost(record, settings.prices);
+
+  const totals = visible.reduce((sum, record) => ({
+    cost: sum.cost + (costOf(record) || 0),
+    inputTokens: sum.inputTokens + record.inputTokens,
+    outputTokens: sum.outputTokens + record.outputTokens,
+    images: sum.images + (record.images || 0),
+    videoSeconds: sum.videoSeconds + (record.videoSeconds || 0),
+  }), { cost: 0, inputTokens: 0, outputTokens: 0, images: 0, videoSeconds: 0 });
+
+  const modesUsed = Array.from(new Set(visible.map(record => record.mode))).filter((mode): mode is AppMode => !!mode);
+  // Midday offsets keep each step on the right calendar day across DST changes
+  const chartData = Array.from({ length: days }, (_, i) => {
+    const start = startOfDay(since + i * DAY_MS + DAY_MS / 2);
+    const dayRecords = visible.filter(record => startOfDay(record.timestamp) === start);
+    const row: Record<string, string | number> = { day: dayLabel(start) };
+    modesUsed.forEach(mode => {
+      row[MODE_LABELS[mode]] = dayRecords.filter(record => record.mode === mode).reduce((sum, record) => sum + (costOf(record) || 0), 0);
+    });
+    return row;
+  });
+
+  const breakdown = (keyOf: (record: UsageRecord) => string, labelOf: (key: string) => string): BreakdownRow[] => {
+    const rows = new Map<string, BreakdownRow>();
+    visible.forEach(record => {
+      const key = keyOf(record);
+      const row = rows.get(key) || { key, label: labelOf(key), calls: 0, tokens: 0, cost: 0, unpriced: 0 };
+      const cost = costOf(record);
+      rows.set(key, {
+        ...row,
+        calls: row.calls + 1,
+        tokens: row.tokens + record.inputTokens + record.outputTokens,
+        cost: row.cost + (cost || 0),
+        unpriced: row.unpriced + (cost === null ? 1 : 0),
+      });
+    });
+    return Array.from(rows.values()).sort((a, b) => b.cost - a.cost || b.calls - a.calls);
+  };
+
+  const productLabel = (id: string) => !id ? '未关联产品' : products.find(p => p.id === id)?.name || '已删除的产品';
+  const userLabel = (id: string) => !id ? '访客' : id === userId ? `${currentUser!.name}（当前）` : id;
+
+  const budgetKey = getBudgetKey(userId);
+  const budget = settings.dailyBudgets[budgetKey];
+  const todaySpend = (records || [])
+    .filter(record => record.timestamp >= startOfDay() && isUsageOf(record, userId))
+    .reduce((sum, record) => sum + (costOf(record) || 0), 0);
+  const overBudget = budget !== undefined && todaySpend >= budget;
+
+  const setBudget = (value: string) => {
+    const dailyBudgets = { ...settings.dailyBudgets };
+    const amount = Number(value);
+    if (value.trim() === '' || !Number.isFinite(amount) || amount < 0) delete dailyBudgets[budgetKey];
+    else dailyBudgets[budgetKey] = amount;
+    update({ ...settings, dailyBudgets });
+  };
+
+  const setPrice = (model: string, field: keyof ModelPrice, value: string) => {
+    const base = settings.prices[model] || { inputPerMillion: 0, outputPerMillion: 0, perImage: 0, perVideoSecond: 0 };
+    update({ ...settings, prices: { ...settings.prices, [model]: { ...base, [field]: Math.max(0, Number(value) || 0) } } });
+  };
+
+  const clearAll = async () => {
+    if (!confirm("确定清空本机全部用量记录吗？")) return;
+    try {
+      await clearUsage();
+      setRecords([]);
+    } catch (error) {
+      console.error("Failed to clear usage:", error);
+    }
+  };
+
+  const pricedModels = Array.from(new Set([...Object.keys(settings.prices), ...(records || []).map(record => record.model)]));
+
+  const renderBreakdown = (title: string, rows: BreakdownRow[]) => (
+    <div className="border border-slate-100 rounded-xl overflow-hidden">
+      <p className="px-4 py-2.5 bg-slate-50 text-sm font-bold text-slate-700">{title}</p>
+      {rows.length === 0 && <p className="px-4 py-4 text-xs text-slate-400">暂无数据</p>}
+      {rows.map(row => (
+        <div key={row.key} className="flex items-center gap-3 px-4 py-2 text-sm border-t border-slate-100">
+          <span className="flex-1 min-w-0 truncate text-slate-700">{row.label}</span>
+          <span className="text-xs text-slate-400">{row.calls} 次 · {formatCount(row.tokens)} tokens</span>
+          <span className="w-20 text-right font-mono text-slate-800" title={row.unpriced ? `${row.unpriced} 次调用的模型未定价` : undefined}>
+            {formatUsd(row.cost)}{row.unpriced > 0 && <span className="text-amber-500">*</span>}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="space-y-8">
+      <section className="bg-white p-8 rounded-2xl shadow-sm border border-slate-100">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2"><Coins size={20} className="text-indigo-600" /> 用量与成本</h2>
+            <p className="text-sm text-slate-500 mt-1">每次模型调用的 tokens、图片与视频时长，按价格表估算费用（不含搜索接地等附加费用）。命中缓存的请求不计费。</p>
+          </div>
+          <div className="flex items-center gap-3">
+            <div className="bg-slate-100 p-1 rounded-lg flex text-xs font-medium">
+              {(['mine', 'all'] as const).map(option => (
+                <button key={option} onClick={() => setScope(option)} className={`px-3 py-1.5 rounded-md ${scope === option ? 'bg-white text-indigo-700 shadow-sm' : 'text-slate-500'}`}>
+                  {option === 'mine' ? (currentUser ? '当前账户' : '访客') : '本机全部'}
+                </button>
+              ))}
+            </div>
+            <div className="bg-slate-100 p-1 rounded-lg flex text-xs font-medium">
+              {RANGES.map(range => (
+                <button key={range} onClick={() => setDays(range)} className={`px-3 py-1.5 rounded-md ${days === range ? 'bg-white text-indigo-700 shadow-sm' : 'text-slate-500'}`}>
+                  {range} 天
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-4 gap-4 mb-8">
+          {[
+            { label: '预估花费', value: formatUsd(totals.cost) },
+            { label: '调用次数', value: String(visible.length) },
+            { label: '输入 / 输出 tokens', value: `${formatCount(totals.inputTokens)} / ${formatCount(totals.outputTokens)}` },
+            { label: '图片 / 视频', value: `${totals.images} 张 / ${totals.videoSeconds} 秒` },
+          ].map(card => (
+            <div key={card.label} className="p-4 rounded-xl bg-slate-50 border border-slate-100">
+              <p className="text-xs text-slate-500">{card.label}</p>
+              <p className="text-2xl font-bold text-slate-800 mt-1">{card.value}</p>
+            </div>
+          ))}
+        </div>
+
+        {!records ? (
+          <div className="h-72 flex items-center justify-center text-slate-400"><Loader2 className="animate-spin" size={20} /></div>
+        ) : (
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+                <XAxis dataKey="day" tick={{ fontSize: 12, fill: '#64748b' }} />
+                <YAxis tick={{ fontSize: 12, fill: '#64748b' }} tickFormatter={value => `$${value}`} />
+                <Tooltip formatter={(value: number) => formatUsd(value)} />
+                <Legend />
+                {modesUsed.map(mode => (
+                  <Bar key={mode} dataKey={MODE_LABELS[mode]} stackId="cost" fill={MODE_COLORS[mode] || '#94a3b8'} />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </section>
+
+      <section className="bg-white p-8 rounded-2xl shadow-sm border border-slate-100">
+        <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2 mb-1"><Wallet size={20} className="text-indigo-600" /> 每日预算</h2>
+        <p className="text-sm text-slate-500 mb-6">
+          {currentUser ? `账户「${currentUser.name}」` : '访客'}当天预估花费达到预算后，新的后台任务（视频、批量配图、首图、详情页、多市场对比）将被拦截，进行中的任务不受影响。留空表示不限。
+        </p>
+        <div className="flex items-center gap-6">
+          <label className="flex items-center gap-2 text-sm text-slate-600">
+            预算 (USD)
+            <input
+              type="number"
+              min={0}
+              step={0.5}
+              value={budget ?? ''}
+              placeholder="不限"
+              onChange={e => setBudget(e.target.value)}
+              className="w-28 px-3 py-1.5 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+            />
+          </label>
+          <div className="flex-1">
+            <div className="flex justify-between text-xs text-slate-500 mb-1">
+              <span>今日已用 {formatUsd(todaySpend)}</span>
+              {budget !== undefined && <span>{formatUsd(budget)}</span>}
+            </div>
+            <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+              <div
+                className={`h-full rounded-full ${overBudget ? 'bg-red-500' : 'bg-indigo-500'}`}
+                style={{ width: budget ? `${Math.min(100, (todaySpend / budget) * 100)}%` : budget === 0 ? '100%' : '0%' }}
+              />
+            </div>
+          </div>
+        </div>
+        {overBudget && (
+          <p className="mt-4 flex items-center gap-2 text-sm text-red-600"><AlertTriangle size={16} /> 今日预算已用完，新的后台任务将被拦截。</p>
+        )}
+      </section>
+
+      <section className="bg-white p-8 rounded-2xl shadow-sm border border-slate-100">
+        <h2 className="text-xl font-bold text-slate-800 mb-6">费用构成</h2>
+        <div className="grid grid-cols-2 gap-4">
+          {renderBreakdown('按产品', breakdown(record => record.productId || '', productLabel))}
+          {renderBreakdown('按模型', breakdown(record => record.model, key => key))}
+          {renderBreakdown('按功能', breakdown(record => record.mode || '', key => MODE_LABELS[key as AppMode] || '未知'))}
+          {scope === 'all' && renderBreakdown('按账户', breakdown(record => record.userId || '', userLabel))}
+        </div>
+        <p className="mt-3 text-xs text-slate-400"><span className="text-amber-500">*</span> 含未定价模型的调用，按 $0 计；可在下方价格表中补充。</p>
+      </section>
+
+      <section className="bg-white p-8 rounded-2xl shadow-sm border border-slate-100">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2"><Receipt size={20} className="text-indigo-600" /> 最近调用</h2>
+          <button onClick={clearAll} disabled={!records?.length} className="flex items-center gap-1 text-sm text-red-500 hover:text-red-600 disabled:opacity-40">
+            <Trash2 size={14} /> 清空记录
+          </button>
+        </div>
+        {visible.length === 0 ? (
+          <p className="text-sm text-slate-400 py-4">所选范围内没有调用记录。</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto border border-slate-100 rounded-lg">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 text-xs text-slate-500 sticky top-0">
+                <tr>
+                  <th className="text-left px-4 py-2 font-medium">时间</th>
+                  <th className="text-left px-4 py-2 font-medium">功能</th>
+                  <th className="text-left px-4 py-2 font-medium">产品</th>
+                  <th className="text-left px-4 py-2 font-medium">模型</th>
+                  <th className="text-right px-4 py-2 font-medium">输入 / 输出</th>
+                  <th className="text-right px-4 py-2 font-medium">费用</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {visible.slice(-RECENT_CALLS).reverse().map(record => {
+                  const cost = costOf(record);
+                  return (
+                    <tr key={record.id}>
+                      <td className="px-4 py-2 text-slate-500 whitespace-nowrap">{new Date(record.timestamp).toLocaleString()}</td>
+                      <td className="px-4 py-2 text-slate-700">{TASK_LABELS[record.task]}</td>
+                      <td className="px-4 py-2 text-slate-500 truncate max-w-[160px]">{productLabel(record.productId || '')}</td>
+                      <td className="px-4 py-2 text-slate-500 font-mono text-xs">{record.model}</td>
+                      <td className="px-4 py-2 text-right text-slate-500 whitespace-nowrap">
+                        {formatCount(record.inputTokens)} / {formatCount(record.outputTokens)}
+                        {record.images ? ` · ${record.images} 图` : ''}
+                        {record.videoSeconds ? ` · ${record.videoSeconds} 秒` : ''}
+                      </td>
+                      <td className="px-4 py-2 text-right font-mono text-slate-800">{cost === null ? <span className="text-amber-500">未定价</span> : formatUsd(cost)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      <section className="bg-white p-8 rounded-2xl shadow-sm border border-slate-100">
+        <h2 className="text-xl font-bold text-slate-800 mb-1">价格表 (USD)</h2>
+        <p className="text-sm text-slate-500 mb-6">默认值为公开标准价，仅作估算；修改后历史费用会按新价格重新计算。</p>
+        <div className="border border-slate-100 rounded-lg overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 text-xs text-slate-500">
+              <tr>
+                <th className="text-left px-4 py-2 font-medium">模型</th>
+                {PRICE_FIELDS.map(field => <th key={field.key} className="text-left px-4 py-2 font-medium">{field.label}</th>)}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {pricedModels.map(model => (
+                <tr key={model}>
+                  <td className="px-4 py-2 font-mono text-xs text-slate-700">
+                    {model}
+                    {!settings.prices[model] && <span className="ml-2 text-amber-500 font-sans">未定价</span>}
+                  </td>
+                  {PRICE_FIELDS.map(field => (
+                    <td key={field.key} className="px-4 py-2">
+                      <input
+                        type="number"
+                        min={0}
+                        step="any"
+                        value={settings.prices[model]?.[field.key] ?? ''}
+                        onChange={e => setPrice(model, field.key, e.target.value)}
+                        className="w-28 px-2 py-1 border border-slate-200 rounded-md text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <button
+          onClick={() => update({ ...settings, prices: DEFAULT_MODEL_PRICES })}
+          className="mt-3 flex items-center gap-1.5 text-sm text-slate-500 hover:text-indigo-600"
+        >
+          <RotateCcw size={14} /> 恢复默认价格
+        </button>
+      </section>
+    </div>
+  );
+};
@@ -0,0 +1,173 @@
+import { Content, GenerateContentResponseUsageMetadata, GenerateVideosOperation, GoogleGenAI, MediaModality, Part, Schema } from "@google/genai";
+
+/**
+ * Server-side Gemini access. This is the only place the API key is read; the browser
+ * sends prompts and images and gets results back, never the key.
+ */
+
+const DEFAULT_BASE_URL = 'https://generativelanguage.googleapis.com';
+
+export const DEFAULT_MODELS = {
+  text: 'gemini-3-flash-preview',
+  image: 'gemini-2.5-flash-image',
+  video: 'veo-3.1-fast-generate-preview',
+};
+
+export const getGeminiBaseUrl = () => (process.env.GEMINI_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, '');
+
+const getApiKey = () => {
+  const key = process.env.GEMINI_API_KEY || process.env.API_KEY;
+  if (!key) throw new Error('GEMINI_API_KEY is not set on the server');
+  return key;
+};
+
+// GEMINI_BASE_URL points the SDK at a stub server for local testing
+const getClient = () => new GoogleGenAI({
+  apiKey: getApiKey(),
+  httpOptions: process.env.GEMINI_BASE_URL ? { baseUrl: getGeminiBaseUrl() } : undefined,
+});
+
+export interface InlineImage {
+  data: string; // base64 without data: prefix
+  mimeType: string;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  images?: number;
+}
+
+/**
+ * Billable token counts from a response. Search-grounding tool prompts bill as input and
+ * thinking as output; generated images are counted separately and priced per image.
+ */
+const toUsage = (metadata: GenerateContentResponseUsageMetadata | undefined): TokenUsage => {
+  const imageTokens = metadata?.candidatesTokensDetails?.find(detail => detail.modality === MediaModality.IMAGE)?.tokenCount || 0;
+  return {
+    inputTokens: (metadata?.promptTokenCount || 0) + (metadata?.toolUsePromptTokenCount || 0),
+    outputTokens: (metadata?.candidatesTokenCount || 0) - imageTokens + (metadata?.thoughtsTokenCount || 0),
+  };
+};
+
+/**
+ * Structured, search-grounded analysis. Returns the raw JSON text and grounding metadata;
+ * validation and citation mapping happen in the browser, where the schema lives.
+ */
+export const generateGroundedJson = async (model: string | undefined, parts: Part[], responseSchema: Schema, abortSignal?: AbortSignal) => {
+  const response = await getClient().models.generateContent({
+    model: model || DEFAULT_MODELS.text,
+    contents: { parts },
+    config: {
+      tools: [{ googleSearch: {} }],
+      responseMimeType: "application/json",
+      responseSchema,
+      abortSignal,
+    },
+  });
+  return {
+    text: response.text || '',
+    groundingMetadata: response.candidates?.[0]?.groundingMetadata || null,
+    usage: toUsage(response.usageMetadata),
+  };
+};
+
+export const generateText = async (model: string | undefined, contents: Part[] | string, abortSignal?: AbortSignal) => {
+  const response = await getClient().models.generateContent({
+    model: model || DEFAULT_MODELS.text,
+    contents: typeof contents === 'string' ? contents : { parts: contents },
+    config: { abortSignal },
+  });
+  return { text: response.text || '', usage: toUsage(response.usageMetadata) };
+};
+
+export const editImage = async (model: string | undefined, image: InlineImage, prompt: string, abortSignal?: AbortSignal) => {
+  const response = await getClient().models.generateContent({
+    model: model || DEFAULT_MODELS.image,
+    contents: {
+      parts: [
+        { inlineData: image },
+        { text: prompt },
+      ],
+    },
+    config: { abortSignal },
+  });
+  const imagePart = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
+  if (!imagePart?.inlineData) throw new Error("No image generated.");
+  return {
+    dataUrl: `data:${imagePart.inlineData.mimeType};base64,${imagePart.inlineData.data}`,
+    usage: { ...toUsage(response.usageMetadata), images: 1 },
+  };
+};
+
+export const startVideo = async (
+  model: string | undefined,
+  prompt: string,
+  image: InlineImage,
+  aspectRatio: '16:9' | '9:16'
+) => {
+  const operation = await getClient().models.generateVideos({
+    model: model || DEFAULT_MODELS.video,
+    prompt,
+    image: { imageBytes: image.data, mimeType: image.mimeType },
+    config: {
+      numberOfVideos: 1,
+      resolution: '720p',
+      aspectRatio,
+    },
+  });
+  if (!operation.name) throw new Error("Video operation has no name.");
+  return { operationName: operation.name };
+};
+
+export const pollVideo = async (operationName: string, abortSignal?: AbortSignal) => {
+  const operation = new GenerateVideosOperation();
+  operation.name = operationName;
+  const current = await getClient().operations.getVideosOperation({ operation, config: { abortSignal } });
+  if (current.error) {
+    return { done: true, error: String(current.error.message || 'Video generation failed') };
+  }
+  if (!current.done) return { done: false };
+  const videoUri = current.response?.generatedVideos?.[0]?.video?.uri;
+  if (!videoUri) return { done: true, error: 'No video URI returned.' };
+  return { done: true, videoUri };
+};
+
+/**
+ * Only URIs on the configured Gemini host may be fetched with the key attached,
+ * so the download endpoint cannot be used to send the key anywhere else.
+ */
+export const isGeminiFileUri = (uri: string) => uri.startsWith(`${getGeminiBaseUrl()}/`);
+
+export const fetchVideo = async (uri: string, signal?: AbortSignal) => {
+  const url = new URL(uri);
+  url.searchParams.set('key', getApiKey());
+  const response = await fetch(url, { signal });
+  if (!response.ok || !response.body) throw new Error(`Video download failed with status ${response.status}`);
+  return response;
+};
+
+/**
+ * Yields text chunks, then a final `{ usage }` once the stream ends. Every chunk carries the
+ * running usage totals, so the last one seen is the total for the reply.
+ */
+export async function* streamChat(
+  model: string | undefined,
+  systemInstruction: string,
+  history: Content[],
+  message: Part[],
+  abortSignal?: AbortSignal
+) {
+  const chat = getClient().chats.create({
+    model: model || DEFAULT_MODELS.text,
+    config: { systemInstruction },
+    history,
+  });
+  const stream = await chat.sendMessageStream({ message, config: { abortSignal } });
+  let usage: TokenUsage | undefined;
+  for await (const chunk of stream) {
+    if (chunk.usageMetadata) usage = toUsage(chunk.usageMetadata);
+    if (chunk.text) yield { text: chunk.text };
+  }
+  if (usage) yield { usage };
+}
@@ -0,0 +1,147 @@
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { existsSync } from "node:fs";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import type { ReadableStream as NodeReadableStream } from "node:stream/web";
+import { editImage, fetchVideo, generateGroundedJson, generateText, isGeminiFileUri, pollVideo, startVideo, streamChat } from "./gemini";
+
+/**
+ * Thin proxy between the browser and Gemini. Prompts are built client-side; this server
+ * only adds the API key, so the key never ships in the frontend bundle.
+ *
+ *   npm run server                 # reads GEMINI_API_KEY from .env.local
+ *   npm run server:dev-stub        # against the stub from `npm run server:stub`
+ */
+
+if (existsSync('.env.local')) process.loadEnvFile('.env.local');
+
+const PORT = Number(process.env.SERVER_PORT) || 8787;
+// The server spends the key for whoever can reach it, so only this machine can by default
+const HOST = process.env.SERVER_HOST || '127.0.0.1';
+const MAX_BODY_BYTES = 50 * 1024 * 1024; // several product photos as base64
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+const readJson = async (req: IncomingMessage): Promise<any> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request body too large');
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON');
+  }
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const requireString = (value: unknown, field: string): string => {
+  if (typeof value !== 'string' || !value) throw new HttpError(400, `${field} is required`);
+  return value;
+};
+
+const requireImage = (value: any, field: string) => ({
+  data: requireString(value?.data, `${field}.data`),
+  mimeType: requireString(value?.mimeType, `${field}.mimeType`),
+});
+
+// `signal` aborts when the browser disconnects (cancel / timeout), so the upstream call stops too
+type JsonHandler = (body: any, signal: AbortSignal) => Promise<unknown>;
+
+const jsonRoutes: Record<string, JsonHandler> = {
+  '/api/analyze': (body, signal) => {
+    if (!Array.isArray(body.parts) || !body.responseSchema) throw new HttpError(400, 'parts and responseSchema are required');
+    return generateGroundedJson(body.model, body.parts, body.responseSchema, signal);
+  },
+  '/api/edit-image': (body, signal) =>
+    editImage(body.model, requireImage(body.image, 'image'), requireString(body.prompt, 'prompt'), signal),
+  '/api/video/start': body =>
+    startVideo(body.model, requireString(body.prompt, 'prompt'), requireImage(body.image, 'image'), body.aspectRatio === '9:16' ? '9:16' : '16:9'),
+};
+
+// Hero, SKU, section rewrite, translate and prompt enhancement are all "prompt (+ images) in, text out"
+const TEXT_ROUTES = ['/api/hero', '/api/sku', '/api/sku-section', '/api/translate', '/api/enhance-prompt'];
+TEXT_ROUTES.forEach(route => {
+  jsonRoutes[route] = (body, signal) => {
+    const contents = Array.isArray(body.parts) ? body.parts : requireString(body.prompt, 'prompt');
+    return generateText(body.model, contents, signal);
+  };
+});
+
+const handleChat = async (req: IncomingMessage, res: ServerResponse, signal: AbortSignal) => {
+  const body = await readJson(req);
+  if (!Array.isArray(body.message)) throw new HttpError(400, 'message must be an array of parts');
+  const chunks = streamChat(body.model, String(body.systemInstruction || ''), Array.isArray(body.history) ? body.history : [], body.message, signal);
+  // Pull the first chunk before committing to a 200 so upstream errors still map to a status
+  const first = await chunks.next();
+  res.writeHead(200, { 'Content-Type': 'application/x-ndjson; charset=utf-8', 'Cache-Control': 'no-cache' });
+  if (!first.done) res.write(JSON.stringify(first.value) + '\n');
+  try {
+    for await (const chunk of chunks) res.write(JSON.stringify(chunk) + '\n');
+    res.end(JSON.stringify({ done: true }) + '\n');
+  } catch (error) {
+    res.end(JSON.stringify({ error: (error as Error).message }) + '\n');
+  }
+};
+
+const handleVideoDownload = async (url: URL, res: ServerResponse, signal: AbortSignal) => {
+  const uri = requireString(url.searchParams.get('uri'), 'uri');
+  if (!isGeminiFileUri(uri)) throw new HttpError(400, 'Video URI is not on the Gemini host');
+  const upstream = await fetchVideo(uri, signal);
+  res.writeHead(200, {
+    'Content-Type': upstream.headers.get('content-type') || 'video/mp4',
+    ...(upstream.headers.get('content-length') ? { 'Content-Length': upstream.headers.get('content-length')! } : {}),
+  });
+  // Ends the upstream body when the browser goes away, and fails the response if the upstream does.
+  // fetch's body is typed as the DOM stream, which Node implements with its own
+  await pipeline(Readable.fromWeb(upstream.body as NodeReadableStream<Uint8Array>), res, { signal });
+};
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+  const disconnect = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) disconnect.abort();
+  });
+  try {
+    if (req.method === 'GET' && url.pathname === '/api/health') return sendJson(res, 200, { ok: true });
+    if (req.method === 'GET' && url.pathname === '/api/video/poll') {
+      return sendJson(res, 200, await pollVideo(requireString(url.searchParams.get('name'), 'name'), disconnect.signal));
+    }
+    if (req.method === 'GET' && url.pathname === '/api/video/download') return await handleVideoDownload(url, res, disconnect.signal);
+    if (req.method === 'POST' && url.pathname === '/api/chat') return await handleChat(req, res, disconnect.signal);
+
+    const handler = jsonRoutes[url.pathname];
+    if (!handler) throw new HttpError(404, `No route for ${req.method} ${url.pathname}`);
+    if (req.method !== 'POST') throw new HttpError(405, 'Method not allowed');
+    sendJson(res, 200, await handler(await readJson(req), disconnect.signal));
+  } catch (error) {
+    if (disconnect.signal.aborted) return; // client went away; nobody to answer
+    const status = error instanceof HttpError ? error.status : Number((error as any)?.status) || 502;
+    console.error(`[${req.method} ${url.pathname}]`, error);
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    // Gemini 429s carry a RetryInfo detail ("retryDelay": "30s"); pass it on so the browser waits that long
+    const retryDelay = status === 429 ? String((error as Error).message).match(/"retryDelay":\s*"(\d+)s"/)?.[1] : undefined;
+    sendJson(res, status, { error: (error as Error).message || 'Upstream request failed' }, retryDelay ? { 'Retry-After': retryDelay } : {});
+  }
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`境智通 API server listening on http://${HOST}:${PORT}`);
+  if (process.env.GEMINI_BASE_URL) console.log(`Using Gemini endpoint ${process.env.GEMINI_BASE_URL}`);
+});
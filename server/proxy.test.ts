@@ -0,0 +1,132 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ChildProcess, spawn } from 'node:child_process';
+
+/**
+ * Runs the proxy (`server/index.ts`) against the Gemini stub (`server/stubGemini.ts`) and
+ * calls each route the way the browser does.
+ */
+
+const STUB_PORT = 18788;
+const PROXY_PORT = 18787;
+const PROXY = `http://127.0.0.1:${PROXY_PORT}`;
+const STARTUP_MS = 15_000;
+
+const children: ChildProcess[] = [];
+
+const start = (script: string, env: Record<string, string>) => {
+  const child = spawn(process.execPath, ['--import', 'tsx', script], { env: { ...process.env, ...env }, stdio: 'ignore' });
+  children.push(child);
+};
+
+// Any HTTP answer means the server is listening
+const waitFor = async (url: string) => {
+  const deadline = Date.now() + STARTUP_MS;
+  while (Date.now() < deadline) {
+    try {
+      await fetch(url);
+      return;
+    } catch {
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+  }
+  throw new Error(`${url} did not come up within ${STARTUP_MS / 1000}s`);
+};
+
+const post = async (path: string, body: unknown) => {
+  const response = await fetch(`${PROXY}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  return { status: response.status, body: await response.json() as any };
+};
+
+const IMAGE = { data: 'iVBORw0KGgo=', mimeType: 'image/png' };
+
+before(async () => {
+  start('server/stubGemini.ts', { STUB_GEMINI_PORT: String(STUB_PORT) });
+  start('server/index.ts', {
+    SERVER_PORT: String(PROXY_PORT),
+    GEMINI_BASE_URL: `http://localhost:${STUB_PORT}`,
+    GEMINI_API_KEY: 'stub-key',
+  });
+  await Promise.all([waitFor(`http://localhost:${STUB_PORT}/`), waitFor(`${PROXY}/api/health`)]);
+});
+
+after(() => {
+  children.forEach(child => child.kill());
+});
+
+test('health check answers', async () => {
+  const response = await fetch(`${PROXY}/api/health`);
+  assert.deepEqual(await response.json(), { ok: true });
+});
+
+test('analysis returns JSON shaped by the response schema, with usage', async () => {
+  const { status, body } = await post('/api/analyze', {
+    parts: [{ text: 'Analyze this product' }],
+    responseSchema: { type: 'OBJECT', properties: { summary: { type: 'STRING' }, score: { type: 'NUMBER', minimum: 1 } } },
+  });
+  assert.equal(status, 200);
+  assert.deepEqual(JSON.parse(body.text), { summary: 'Stub summary', score: 1 });
+  assert.ok(body.usage.inputTokens > 0);
+});
+
+test('text routes return the model text', async () => {
+  const { status, body } = await post('/api/translate', { prompt: 'Translate this' });
+  assert.equal(status, 200);
+  assert.match(body.text, /^Stub response from /);
+});
+
+test('image edits return a data URL billed as one image', async () => {
+  const { status, body } = await post('/api/edit-image', { image: IMAGE, prompt: 'Brighter' });
+  assert.equal(status, 200);
+  assert.match(body.dataUrl, /^data:image\/png;base64,/);
+  assert.equal(body.usage.images, 1);
+});
+
+test('chat streams NDJSON chunks and ends with usage', async () => {
+  const response = await fetch(`${PROXY}/api/chat`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ message: [{ text: 'Hello' }], history: [] }),
+  });
+  assert.equal(response.status, 200);
+  const lines = (await response.text()).trim().split('\n').map(line => JSON.parse(line));
+  assert.match(lines.filter(line => line.text).map(line => line.text).join(''), /^Stub reply from /);
+  assert.ok(lines.some(line => line.usage));
+  assert.deepEqual(lines[lines.length - 1], { done: true });
+});
+
+test('video runs from start through polling to download', async () => {
+  const started = await post('/api/video/start', { image: IMAGE, prompt: 'Spin it' });
+  assert.equal(started.status, 200);
+  const poll = async () => (await fetch(`${PROXY}/api/video/poll?name=${encodeURIComponent(started.body.operationName)}`)).json() as Promise<any>;
+  assert.deepEqual(await poll(), { done: false });
+  const finished = await poll();
+  assert.equal(finished.done, true);
+
+  const download = await fetch(`${PROXY}/api/video/download?uri=${encodeURIComponent(finished.videoUri)}`);
+  assert.equal(download.status, 200);
+  assert.equal(await download.text(), 'stub video bytes');
+});
+
+test('a client leaving mid-download does not take the proxy down', async () => {
+  const started = await post('/api/video/start', { image: IMAGE, prompt: 'Spin it' });
+  const name = encodeURIComponent(started.body.operationName);
+  await fetch(`${PROXY}/api/video/poll?name=${name}`);
+  const { videoUri } = await (await fetch(`${PROXY}/api/video/poll?name=${name}`)).json() as any;
+  const leaving = new AbortController();
+  const download = await fetch(`${PROXY}/api/video/download?uri=${encodeURIComponent(videoUri)}`, { signal: leaving.signal });
+  assert.equal(download.status, 200);
+  leaving.abort();
+  assert.equal((await fetch(`${PROXY}/api/health`)).status, 200);
+});
+
+test('bad requests are rejected before reaching Gemini', async () => {
+  assert.equal((await post('/api/edit-image', { prompt: 'Brighter' })).status, 400);
+  assert.equal((await post('/api/nope', {})).status, 404);
+  const download = await fetch(`${PROXY}/api/video/download?uri=${encodeURIComponent('https://example.com/video.mp4')}`);
+  assert.equal(download.status, 400);
+});
@@ -0,0 +1,132 @@
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+
+/**
+ * Minimal stand-in for the Gemini REST API, for running the proxy locally without a key
+ * or quota. Implements just the calls `server/gemini.ts` makes:
+ *
+ *   POST /v1beta/models/{model}:generateContent
+ *   POST /v1beta/models/{model}:streamGenerateContent?alt=sse
+ *   POST /v1beta/models/{model}:predictLongRunning
+ *   GET  /v1beta/{operationName}
+ *   GET  /v1beta/files/{id}:download
+ *
+ * Structured-output requests get a sample built from their `responseSchema`, so the
+ * analysis parser accepts it. Video operations complete on the second poll. Usage metadata
+ * is a rough character count, enough to exercise usage accounting.
+ */
+
+const PORT = Number(process.env.STUB_GEMINI_PORT) || 8788;
+
+// 1x1 transparent PNG
+const STUB_PNG = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
+const operations = new Map<string, number>();
+
+const readJson = async (req: IncomingMessage): Promise<any> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk);
+  return JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+// Schema types arrive upper-case (OBJECT, ARRAY, ...) from the SDK
+const sampleFromSchema = (schema: any, name = 'value'): unknown => {
+  if (Array.isArray(schema?.enum) && schema.enum.length > 0) return schema.enum[0];
+  switch (String(schema?.type).toUpperCase()) {
+    case 'OBJECT':
+      return Object.fromEntries(Object.entries(schema.properties || {}).map(([key, prop]) => [key, sampleFromSchema(prop, key)]));
+    case 'ARRAY':
+      return [1, 2, 3].map(i => sampleFromSchema(schema.items, `${name} ${i}`));
+    case 'INTEGER':
+    case 'NUMBER':
+      return typeof schema.minimum === 'number' ? schema.minimum : 100;
+    case 'BOOLEAN':
+      return true;
+    default:
+      return `Stub ${name}`;
+  }
+};
+
+const getPromptText = (body: any): string =>
+  (body.contents || []).flatMap((c: any) => c.parts || []).map((p: any) => p.text || '').join('\n');
+
+const buildUsage = (body: any, candidate: { parts: any[] }) => {
+  const images = candidate.parts.filter(part => part.inlineData).length;
+  const textTokens = Math.ceil(candidate.parts.map(part => part.text || '').join('').length / 4);
+  return {
+    promptTokenCount: Math.ceil(getPromptText(body).length / 4),
+    candidatesTokenCount: textTokens + images * 1290,
+    ...(images ? { candidatesTokensDetails: [{ modality: 'IMAGE', tokenCount: images * 1290 }] } : {}),
+  };
+};
+
+const buildCandidate = (model: string, body: any) => {
+  const schema = body.generationConfig?.responseSchema;
+  if (schema) return { parts: [{ text: JSON.stringify(sampleFromSchema(schema)) }] };
+  if (model.includes('image')) {
+    return { parts: [{ inlineData: { mimeType: 'image/png', data: STUB_PNG } }] };
+  }
+  const text = /HTML/.test(getPromptText(body))
+    ? `<div class="sku-section relative overflow-hidden w-[800px] h-[800px] bg-white p-12"><h1 class="text-5xl font-bold">Stub (${model})</h1><img src="__PRODUCT_IMG_SRC__" class="w-1/2" /></div>`
+    : `Stub response from ${model}`;
+  return { parts: [{ text }] };
+};
+
+const handle = async (req: IncomingMessage, res: ServerResponse) => {
+  const url = new URL(req.url || '/', `http://localhost:${PORT}`);
+  const base = `http://localhost:${PORT}`;
+  const modelCall = url.pathname.match(/^\/v1beta\/models\/([^:]+):(\w+)$/);
+
+  if (req.method === 'POST' && modelCall) {
+    const [, model, method] = modelCall;
+    const body = await readJson(req);
+    if (method === 'generateContent') {
+      const candidate = buildCandidate(model, body);
+      return sendJson(res, 200, {
+        candidates: [{ content: { role: 'model', ...candidate }, finishReason: 'STOP', groundingMetadata: { groundingChunks: [], groundingSupports: [] } }],
+        usageMetadata: buildUsage(body, candidate),
+      });
+    }
+    if (method === 'streamGenerateContent') {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      const reply = `Stub reply from ${model}.`;
+      for (const word of reply.split(' ')) {
+        res.write(`data: ${JSON.stringify({ candidates: [{ content: { role: 'model', parts: [{ text: `${word} ` }] } }], usageMetadata: buildUsage(body, { parts: [{ text: reply }] }) })}\r\n\r\n`);
+      }
+      return res.end();
+    }
+    if (method === 'predictLongRunning') {
+      const name = `models/${model}/operations/stub-${Date.now()}`;
+      operations.set(name, 0);
+      return sendJson(res, 200, { name });
+    }
+  }
+
+  const operationName = url.pathname.replace(/^\/v1beta\//, '');
+  if (req.method === 'GET' && operations.has(operationName)) {
+    const polls = operations.get(operationName)! + 1;
+    operations.set(operationName, polls);
+    if (polls < 2) return sendJson(res, 200, { name: operationName, done: false });
+    return sendJson(res, 200, {
+      name: operationName,
+      done: true,
+      response: { generateVideoResponse: { generatedSamples: [{ video: { uri: `${base}/v1beta/files/stub-video:download?alt=media` } }] } },
+    });
+  }
+
+  if (req.method === 'GET' && /^\/v1beta\/files\/[\w-]+:download$/.test(url.pathname)) {
+    if (!url.searchParams.get('key')) return sendJson(res, 403, { error: { code: 403, message: 'API key missing' } });
+    res.writeHead(200, { 'Content-Type': 'video/mp4' });
+    return res.end(Buffer.from('stub video bytes'));
+  }
+
+  sendJson(res, 404, { error: { code: 404, message: `Stub has no route for ${req.method} ${url.pathname}` } });
+};
+
+createServer((req, res) => {
+  handle(req, res).catch(error => sendJson(res, 500, { error: { code: 500, message: String(error) } }));
+}).listen(PORT, () => console.log(`Stub Gemini listening on http://localhost:${PORT}`));
@@ -0,0 +1,125 @@
+import type { Content, GroundingMetadata, Part, Schema } from "@google/genai";
+import { geminiProvider } from "./geminiProvider";
+import { mockProvider } from "./mockProvider";
+import { getAiSettings } from "./aiSettings";
+
+/**
+ * Everything the app generates goes through an `AiProvider`. Prompts are built in
+ * services/gemini.ts; providers only run them against a model.
+ */
+
+export type AiProviderId = 'gemini' | 'mock';
+
+export type AiCapability = 'grounded' | 'text' | 'image' | 'video' | 'chat';
+
+export const AI_CAPABILITIES: AiCapability[] = ['grounded', 'text', 'image', 'video', 'chat'];
+
+// hero / sku / sku-section / translate produce HTML; enhance-prompt rewrites a video prompt
+export type TextTask = 'hero' | 'sku' | 'sku-section' | 'translate' | 'enhance-prompt';
+
+export interface InlineImage {
+  data: string; // base64 without data: prefix
+  mimeType: string;
+}
+
+/**
+ * What one call consumed. Gemini reports it from the response's usage metadata; the mock
+ * estimates it so usage accounting can be tried offline.
+ */
+export interface ProviderUsage {
+  inputTokens: number;
+  outputTokens: number;
+  images?: number; // generated images
+  videoSeconds?: number; // generated video
+}
+
+// Every call can be aborted; services/requestControl.ts supplies timeout + cancellation signals
+interface ProviderCall {
+  model: string;
+  signal?: AbortSignal;
+  onUsage?: (usage: ProviderUsage) => void;
+}
+
+export interface GroundedJsonRequest extends ProviderCall {
+  parts: Part[];
+  responseSchema: Schema;
+}
+
+export interface GroundedJsonResult {
+  text: string;
+  groundingMetadata: GroundingMetadata | null;
+}
+
+export interface TextRequest extends ProviderCall {
+  task: TextTask;
+  parts: Part[];
+  sourceHtml?: string; // the document being translated (`translate`) or the section being rewritten (`sku-section`)
+}
+
+export interface ImageEditRequest extends ProviderCall {
+  image: InlineImage;
+  prompt: string;
+}
+
+export interface VideoRequest extends ProviderCall {
+  image: InlineImage;
+  prompt: string;
+  aspectRatio: '16:9' | '9:16';
+}
+
+export interface VideoPollRequest {
+  operation: string;
+  signal?: AbortSignal;
+  onUsage?: (usage: ProviderUsage) => void; // reported once, when the video is done
+}
+
+export interface VideoStatus {
+  done: boolean;
+  url?: string; // set once done: a URL the <video> element can play
+  error?: string; // set once done when the operation itself failed; polling it again will not help
+}
+
+/**
+ * A started video generation. Persisted by the job center so polling can resume after a reload.
+ */
+export interface VideoOperation {
+  providerId: AiProviderId;
+  model: string;
+  name: string;
+}
+
+export interface ChatRequest extends ProviderCall {
+  systemInstruction: string;
+  history: Content[];
+  message: Part[];
+}
+
+export interface AiProvider {
+  readonly id: AiProviderId;
+  generateGroundedJson(request: GroundedJsonRequest): Promise<GroundedJsonResult>;
+  generateText(request: TextRequest): Promise<string>;
+  /** Resolves to a data URL. */
+  editImage(request: ImageEditRequest): Promise<string>;
+  /** Starts a long-running generation and resolves to its operation name. */
+  startVideo(request: VideoRequest): Promise<string>;
+  pollVideo(request: VideoPollRequest): Promise<VideoStatus>;
+  streamChat(request: ChatRequest): AsyncGenerator<string>;
+}
+
+const PROVIDERS: Record<AiProviderId, AiProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+export const getProvider = (id: AiProviderId) => PROVIDERS[id];
+
+/**
+ * The provider and model currently selected in settings for a capability.
+ */
+export const resolveAi = (capability: AiCapability) => {
+  const settings = getAiSettings();
+  return {
+    provider: PROVIDERS[settings.provider],
+    model: settings.models[settings.provider][capability],
+  };
+};
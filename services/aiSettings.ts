@@ -0,0 +1,70 @@
+import type { AiCapability, AiProviderId } from "./aiProvider";
+
+export interface AiSettings {
+  provider: AiProviderId;
+  models: Record<AiProviderId, Record<AiCapability, string>>;
+}
+
+const AI_SETTINGS_STORAGE_KEY = 'jzt_ai_settings';
+
+/**
+ * Known model ids per provider and capability; the first is the default.
+ * Settings also accept ids not listed here.
+ */
+export const MODEL_OPTIONS: Record<AiProviderId, Record<AiCapability, string[]>> = {
+  gemini: {
+    grounded: ['gemini-3-flash-preview', 'gemini-3-pro-preview', 'gemini-2.5-flash', 'gemini-2.5-pro'],
+    text: ['gemini-3-flash-preview', 'gemini-3-pro-preview', 'gemini-2.5-flash', 'gemini-2.5-pro'],
+    image: ['gemini-2.5-flash-image', 'gemini-3-pro-image-preview'],
+    video: ['veo-3.1-fast-generate-preview', 'veo-3.1-generate-preview'],
+    chat: ['gemini-3-flash-preview', 'gemini-3-pro-preview', 'gemini-2.5-flash'],
+  },
+  mock: {
+    grounded: ['mock-fixture'],
+    text: ['mock-fixture'],
+    image: ['mock-fixture'],
+    video: ['mock-fixture'],
+    chat: ['mock-fixture'],
+  },
+};
+
+const defaultModels = (provider: AiProviderId) =>
+  Object.fromEntries(Object.entries(MODEL_OPTIONS[provider]).map(([capability, models]) => [capability, models[0]])) as Record<AiCapability, string>;
+
+export const DEFAULT_AI_SETTINGS: AiSettings = {
+  provider: 'gemini',
+  models: {
+    gemini: defaultModels('gemini'),
+    mock: defaultModels('mock'),
+  },
+};
+
+// Merge over defaults so settings saved before a capability existed stay valid
+const loadAiSettings = (): AiSettings => {
+  try {
+    const raw = localStorage.getItem(AI_SETTINGS_STORAGE_KEY);
+    if (!raw) return DEFAULT_AI_SETTINGS;
+    const saved = JSON.parse(raw) as Partial<AiSettings>;
+    return {
+      provider: saved.provider === 'mock' ? 'mock' : 'gemini',
+      models: {
+        gemini: { ...DEFAULT_AI_SETTINGS.models.gemini, ...saved.models?.gemini },
+        mock: { ...DEFAULT_AI_SETTINGS.models.mock, ...saved.models?.mock },
+      },
+    };
+  } catch {
+    return DEFAULT_AI_SETTINGS;
+  }
+};
+
+let current: AiSettings | null = null;
+
+export const getAiSettings = (): AiSettings => {
+  if (!current) current = loadAiSettings();
+  return current;
+};
+
+export const saveAiSettings = (settings: AiSettings) => {
+  current = settings;
+  localStorage.setItem(AI_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
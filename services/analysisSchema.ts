@@ -0,0 +1,229 @@
+import type { Schema, Type as SchemaType } from "@google/genai";
+import { MarketKeyword, PlatformPriceRange, RecommendationRating, ReportSection } from "../types";
+
+/**
+ * Raised when the model's structured output does not match the analysis schema.
+ * `issues` lists every violation found, with a JSON-path-like location.
+ */
+export class AnalysisSchemaError extends Error {
+  readonly issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(issues.length > 0 ? `${message}: ${issues.join('; ')}` : message);
+    this.name = 'AnalysisSchemaError';
+    this.issues = issues;
+  }
+}
+
+// Values of the SDK's `Type` enum, spelled out so the SDK itself stays out of the browser bundle
+const Type = {
+  OBJECT: 'OBJECT',
+  ARRAY: 'ARRAY',
+  STRING: 'STRING',
+  NUMBER: 'NUMBER',
+  INTEGER: 'INTEGER',
+} as Record<'OBJECT' | 'ARRAY' | 'STRING' | 'NUMBER' | 'INTEGER', SchemaType>;
+
+export interface AnalysisPayload {
+  sections: ReportSection[];
+  prices: PlatformPriceRange[];
+  keywords: MarketKeyword[];
+  culturalRisks: string[];
+  rating: RecommendationRating;
+}
+
+/**
+ * Response schema passed to Gemini (`responseSchema`). Currency and keyword
+ * languages are pinned per market so the model cannot drift to USD / English.
+ */
+export const buildAnalysisResponseSchema = (currency: string, keywordLanguages: string[]): Schema => ({
+  type: Type.OBJECT,
+  properties: {
+    sections: {
+      type: Type.ARRAY,
+      description: "Report sections in order. `body` is Markdown without the heading.",
+      minItems: "1",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          heading: { type: Type.STRING },
+          body: { type: Type.STRING },
+        },
+        required: ["heading", "body"],
+        propertyOrdering: ["heading", "body"],
+      },
+    },
+    prices: {
+      type: Type.ARRAY,
+      description: "Real on-sale price range of similar products, one entry per platform.",
+      minItems: "1",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          platform: { type: Type.STRING },
+          minPrice: { type: Type.NUMBER },
+          maxPrice: { type: Type.NUMBER },
+          currency: { type: Type.STRING, enum: [currency] },
+        },
+        required: ["platform", "minPrice", "maxPrice", "currency"],
+        propertyOrdering: ["platform", "minPrice", "maxPrice", "currency"],
+      },
+    },
+    keywords: {
+      type: Type.ARRAY,
+      description: "High-traffic local SEO keywords, including long-tail terms.",
+      minItems: "1",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          term: { type: Type.STRING },
+          language: { type: Type.STRING, enum: keywordLanguages },
+        },
+        required: ["term", "language"],
+        propertyOrdering: ["term", "language"],
+      },
+    },
+    culturalRisks: {
+      type: Type.ARRAY,
+      description: "Religious, cultural or regulatory risks for this product in the market. Empty if none.",
+      items: { type: Type.STRING },
+    },
+    rating: {
+      type: Type.OBJECT,
+      properties: {
+        stars: { type: Type.INTEGER, minimum: 1, maximum: 5 },
+        reason: { type: Type.STRING },
+      },
+      required: ["stars", "reason"],
+      propertyOrdering: ["stars", "reason"],
+    },
+  },
+  required: ["sections", "prices", "keywords", "culturalRisks", "rating"],
+  propertyOrdering: ["sections", "prices", "keywords", "culturalRisks", "rating"],
+});
+
+// --- Runtime validation ---
+
+const isRecord = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const isNonEmptyString = (v: unknown): v is string =>
+  typeof v === 'string' && v.trim().length > 0;
+
+const isFiniteNumber = (v: unknown): v is number =>
+  typeof v === 'number' && Number.isFinite(v);
+
+/**
+ * Parse and validate the raw JSON text returned by the model.
+ * Throws AnalysisSchemaError listing every violation instead of silently dropping fields.
+ */
+export const parseAnalysisPayload = (
+  rawText: string | undefined,
+  currency: string,
+  keywordLanguages: string[]
+): AnalysisPayload => {
+  if (!rawText || !rawText.trim()) {
+    throw new AnalysisSchemaError("Model returned an empty response");
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(rawText.replace(/^```json\s*/i, '').replace(/```\s*$/, '').trim());
+  } catch (e) {
+    throw new AnalysisSchemaError("Model response is not valid JSON", [(e as Error).message]);
+  }
+
+  const issues: string[] = [];
+  if (!isRecord(raw)) {
+    throw new AnalysisSchemaError("Model response is not a JSON object");
+  }
+
+  const sections: ReportSection[] = [];
+  if (!Array.isArray(raw.sections) || raw.sections.length === 0) {
+    issues.push("sections: expected a non-empty array");
+  } else {
+    raw.sections.forEach((s, i) => {
+      if (!isRecord(s) || !isNonEmptyString(s.heading) || typeof s.body !== 'string') {
+        issues.push(`sections[${i}]: expected { heading: string, body: string }`);
+        return;
+      }
+      sections.push({ heading: s.heading.trim(), body: s.body.trim() });
+    });
+  }
+
+  const prices: PlatformPriceRange[] = [];
+  if (!Array.isArray(raw.prices) || raw.prices.length === 0) {
+    issues.push("prices: expected a non-empty array");
+  } else {
+    raw.prices.forEach((p, i) => {
+      if (!isRecord(p)) {
+        issues.push(`prices[${i}]: expected an object`);
+        return;
+      }
+      if (!isNonEmptyString(p.platform)) issues.push(`prices[${i}].platform: expected a string`);
+      if (!isFiniteNumber(p.minPrice) || p.minPrice < 0) issues.push(`prices[${i}].minPrice: expected a non-negative number`);
+      if (!isFiniteNumber(p.maxPrice) || p.maxPrice < 0) issues.push(`prices[${i}].maxPrice: expected a non-negative number`);
+      if (isFiniteNumber(p.minPrice) && isFiniteNumber(p.maxPrice) && p.minPrice > p.maxPrice) {
+        issues.push(`prices[${i}]: minPrice ${p.minPrice} is greater than maxPrice ${p.maxPrice}`);
+      }
+      if (p.currency !== currency) issues.push(`prices[${i}].currency: expected "${currency}", got ${JSON.stringify(p.currency)}`);
+      if (isNonEmptyString(p.platform) && isFiniteNumber(p.minPrice) && isFiniteNumber(p.maxPrice)) {
+        prices.push({ platform: p.platform.trim(), minPrice: p.minPrice, maxPrice: p.maxPrice, currency, sourceIndices: [] });
+      }
+    });
+  }
+
+  const keywords: MarketKeyword[] = [];
+  if (!Array.isArray(raw.keywords) || raw.keywords.length === 0) {
+    issues.push("keywords: expected a non-empty array");
+  } else {
+    raw.keywords.forEach((k, i) => {
+      if (!isRecord(k) || !isNonEmptyString(k.term)) {
+        issues.push(`keywords[${i}]: expected { term: string, language: string }`);
+        return;
+      }
+      if (typeof k.language !== 'string' || !keywordLanguages.includes(k.language)) {
+        issues.push(`keywords[${i}].language: expected one of ${keywordLanguages.join('/')}, got ${JSON.stringify(k.language)}`);
+        return;
+      }
+      keywords.push({ term: k.term.trim(), language: k.language });
+    });
+  }
+
+  const culturalRisks: string[] = [];
+  if (!Array.isArray(raw.culturalRisks)) {
+    issues.push("culturalRisks: expected an array of strings");
+  } else {
+    raw.culturalRisks.forEach((r, i) => {
+      if (typeof r !== 'string') {
+        issues.push(`culturalRisks[${i}]: expected a string`);
+        return;
+      }
+      if (r.trim()) culturalRisks.push(r.trim());
+    });
+  }
+
+  let rating: RecommendationRating = { stars: 0, reason: '' };
+  if (!isRecord(raw.rating)) {
+    issues.push("rating: expected { stars: integer, reason: string }");
+  } else {
+    const { stars, reason } = raw.rating;
+    if (!Number.isInteger(stars) || (stars as number) < 1 || (stars as number) > 5) {
+      issues.push(`rating.stars: expected an integer between 1 and 5, got ${JSON.stringify(stars)}`);
+    }
+    if (typeof reason !== 'string') issues.push("rating.reason: expected a string");
+    rating = { stars: stars as number, reason: typeof reason === 'string' ? reason.trim() : '' };
+  }
+
+  if (issues.length > 0) {
+    throw new AnalysisSchemaError("Model output does not match the analysis schema", issues);
+  }
+
+  return { sections, prices, keywords, culturalRisks, rating };
+};
+
+/**
+ * Render validated sections back into the Markdown report shown on screen.
+ */
+export const sectionsToMarkdown = (sections: ReportSection[]): string =>
+  sections.map(s => `## ${s.heading}\n${s.body}`).join('\n\n');
@@ -0,0 +1,97 @@
+/**
+ * Client for the local API server (`server/index.ts`), which holds the Gemini key.
+ * In development Vite proxies `/api` to it.
+ */
+
+export class ApiError extends Error {
+  readonly status: number;
+  readonly retryAfterMs?: number; // from a Retry-After header, when the server sends one
+
+  constructor(message: string, status: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/** The request never got a response: the server is down, or the connection dropped. */
+export class NetworkError extends Error {
+  constructor(cause: unknown) {
+    super('Network request failed', { cause });
+    this.name = 'NetworkError';
+  }
+}
+
+// fetch and body reads reject with a TypeError only when the network fails; aborts and
+// anything else pass through unchanged
+const overNetwork = async <T>(request: () => Promise<T>): Promise<T> => {
+  try {
+    return await request();
+  } catch (error) {
+    throw error instanceof TypeError ? new NetworkError(error) : error;
+  }
+};
+
+const parseRetryAfter = (header: string | null) => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const toApiError = async (response: Response) => {
+  let message = `Request failed with status ${response.status}`;
+  try {
+    const body = await response.json();
+    if (body?.error) message = body.error;
+  } catch {
+    // Non-JSON error body (e.g. proxy failure); keep the status message
+  }
+  return new ApiError(message, response.status, parseRetryAfter(response.headers.get('Retry-After')));
+};
+
+export const postJson = async <T>(path: string, body: unknown, signal?: AbortSignal): Promise<T> => {
+  const response = await overNetwork(() => fetch(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal,
+  }));
+  if (!response.ok) throw await toApiError(response);
+  return response.json() as Promise<T>;
+};
+
+export const getJson = async <T>(path: string, signal?: AbortSignal): Promise<T> => {
+  const response = await overNetwork(() => fetch(path, { signal }));
+  if (!response.ok) throw await toApiError(response);
+  return response.json() as Promise<T>;
+};
+
+/**
+ * POST and read an NDJSON stream, yielding each parsed line.
+ */
+export async function* postNdjson<T>(path: string, body: unknown, signal?: AbortSignal): AsyncGenerator<T> {
+  const response = await overNetwork(() => fetch(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal,
+  }));
+  if (!response.ok || !response.body) throw await toApiError(response);
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = '';
+  while (true) {
+    const { value, done } = await overNetwork(() => reader.read());
+    if (done) break;
+    buffered += value;
+    const lines = buffered.split('\n');
+    buffered = lines.pop() || '';
+    for (const line of lines) {
+      if (line.trim()) yield JSON.parse(line) as T;
+    }
+  }
+  if (buffered.trim()) yield JSON.parse(buffered) as T;
+}
@@ -0,0 +1,45 @@
+import type { CacheKind } from "./responseCache";
+
+export interface CacheSettings {
+  enabled: boolean;
+  ttlHours: Record<CacheKind, number>;
+}
+
+const CACHE_SETTINGS_STORAGE_KEY = 'jzt_cache_settings';
+
+// Opt-in. Market analyses go stale fastest (prices, trends); translations barely at all.
+export const DEFAULT_CACHE_SETTINGS: CacheSettings = {
+  enabled: false,
+  ttlHours: {
+    analysis: 24,
+    hero: 7 * 24,
+    sku: 7 * 24,
+    translate: 30 * 24,
+  },
+};
+
+const loadCacheSettings = (): CacheSettings => {
+  try {
+    const raw = localStorage.getItem(CACHE_SETTINGS_STORAGE_KEY);
+    if (!raw) return DEFAULT_CACHE_SETTINGS;
+    const saved = JSON.parse(raw) as Partial<CacheSettings>;
+    return {
+      enabled: saved.enabled === true,
+      ttlHours: { ...DEFAULT_CACHE_SETTINGS.ttlHours, ...saved.ttlHours },
+    };
+  } catch {
+    return DEFAULT_CACHE_SETTINGS;
+  }
+};
+
+let current: CacheSettings | null = null;
+
+export const getCacheSettings = (): CacheSettings => {
+  if (!current) current = loadCacheSettings();
+  return current;
+};
+
+export const saveCacheSettings = (settings: CacheSettings) => {
+  current = settings;
+  localStorage.setItem(CACHE_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,23 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { GroundingSupport } from '@google/genai';
+import { PlatformPriceRange } from '../types';
+import { tracePriceSources } from './citations';
+
+const price: PlatformPriceRange = { platform: 'Shopee TH', minPrice: 150000, maxPrice: 250000, currency: 'VND', sourceIndices: [] };
+
+const support = (text: string, groundingChunkIndices: number[]): GroundingSupport => ({ segment: { text }, groundingChunkIndices });
+
+test('a price is sourced from supports that name the platform and quote the price', () => {
+  const [traced] = tracePriceSources([price], [
+    support('Trên Shopee giá từ 150.000 đến 250.000 đồng', [2, 0]),
+    support('Lazada sells it for 150000', [1]),
+    support('Shopee has many sellers', [3]),
+  ]);
+  assert.deepEqual(traced.sourceIndices, [0, 2]);
+});
+
+test('a price without a quoting support stays unverified', () => {
+  const [traced] = tracePriceSources([price], [support('Shopee has many sellers', [0])]);
+  assert.deepEqual(traced.sourceIndices, []);
+});
@@ -0,0 +1,105 @@
+import type { GroundingSupport } from "@google/genai";
+import { PlatformPriceRange, ReportSection } from "../types";
+
+/**
+ * Citation markers are stored inline in section Markdown as `[^1]` / `[^1,3]`,
+ * where numbers are 1-based positions in `AnalysisData.groundingChunks`.
+ */
+export const CITATION_MARKER_REGEX = /\[\^(\d+(?:,\d+)*)\]/g;
+
+export const parseCitationMarker = (marker: string): number[] =>
+  marker.replace(/^\[\^/, '').replace(/\]$/, '').split(',').map(n => Number(n) - 1);
+
+const formatMarker = (chunkIndices: number[]) =>
+  `[^${Array.from(new Set(chunkIndices)).sort((a, b) => a - b).map(i => i + 1).join(',')}]`;
+
+/**
+ * Segments index into the raw JSON response, so string content arrives with JSON escapes (\n, \").
+ */
+const decodeSegmentText = (text: string) => {
+  try {
+    return JSON.parse(`"${text}"`) as string;
+  } catch {
+    return text.replace(/\\n/g, '\n').replace(/\\"/g, '"');
+  }
+};
+
+// A segment may straddle JSON structure (`", "body": "`); fall back to its longest plain-text piece
+const getMatchCandidates = (segment: string) => {
+  const pieces = segment.split(/"\s*[,:}\]]\s*"?|\n/).map(p => p.trim()).filter(p => p.length >= 8);
+  return [segment.trim(), ...pieces.sort((a, b) => b.length - a.length)];
+};
+
+/**
+ * Insert citation markers after every report claim that a grounding support backs.
+ */
+export const annotateSectionsWithCitations = (
+  sections: ReportSection[],
+  supports: GroundingSupport[]
+): ReportSection[] => {
+  // sectionIndex -> insert position -> chunk indices
+  const inserts = sections.map(() => new Map<number, number[]>());
+
+  supports.forEach(support => {
+    const chunkIndices = support.groundingChunkIndices || [];
+    if (!support.segment?.text || chunkIndices.length === 0) return;
+
+    const candidates = getMatchCandidates(decodeSegmentText(support.segment.text));
+    for (const candidate of candidates) {
+      const sectionIndex = sections.findIndex(s => s.body.includes(candidate));
+      if (sectionIndex === -1) continue;
+      const position = sections[sectionIndex].body.indexOf(candidate) + candidate.length;
+      const existing = inserts[sectionIndex].get(position) || [];
+      inserts[sectionIndex].set(position, [...existing, ...chunkIndices]);
+      break;
+    }
+  });
+
+  return sections.map((section, i) => {
+    const positions = Array.from(inserts[i].keys()).sort((a, b) => b - a);
+    let body = section.body;
+    positions.forEach(pos => {
+      body = body.slice(0, pos) + formatMarker(inserts[i].get(pos)!) + body.slice(pos);
+    });
+    return { ...section, body };
+  });
+};
+
+const getNumberVariants = (value: number) => {
+  const variants = new Set<string>([
+    String(value),
+    value.toLocaleString('en-US'),
+    value.toLocaleString('de-DE'), // 150.000 style used in VN / ID
+  ]);
+  return Array.from(variants);
+};
+
+const containsNumber = (text: string, value: number) =>
+  getNumberVariants(value).some(v => new RegExp(`(^|[^\\d.,])${v.replace(/[.,]/g, '\\$&')}($|[^\\d])`).test(text));
+
+// "Shopee TH" -> "shopee", "TikTok Shop Thailand" -> "tiktok"
+const getPlatformToken = (platform: string) => platform.split(/\s+/)[0].toLowerCase();
+
+/**
+ * Trace each price back to the grounding chunks that support it.
+ * A price is backed by a support whose segment names the platform and quotes the price.
+ * A retrieved page that merely mentions the platform is not evidence for the number, so
+ * prices with no such support keep an empty `sourceIndices` and are shown as unverified.
+ */
+export const tracePriceSources = (
+  prices: PlatformPriceRange[],
+  supports: GroundingSupport[]
+): PlatformPriceRange[] =>
+  prices.map(price => {
+    const token = getPlatformToken(price.platform);
+    const sources = supports.flatMap(support => {
+      const text = support.segment?.text ? decodeSegmentText(support.segment.text).toLowerCase() : '';
+      const quotesPrice = containsNumber(text, price.minPrice) || containsNumber(text, price.maxPrice);
+      return text.includes(token) && quotesPrice ? (support.groundingChunkIndices || []) : [];
+    });
+
+    return {
+      ...price,
+      sourceIndices: Array.from(new Set(sources)).sort((a, b) => a - b)
+    };
+  });
@@ -0,0 +1,34 @@
+import { ContentLanguage, TargetMarket } from "../types";
+import { getMarketProfile } from "./marketProfiles";
+
+/**
+ * Languages generated pages can be translated into, with the names shown in the editor and
+ * written into the translation prompt. Which ones a market offers is set in its profile.
+ */
+
+export const CONTENT_LANGUAGES: Record<ContentLanguage, { label: string; prompt: string }> = {
+  'zh': { label: '中文', prompt: 'Simplified Chinese' },
+  'zh-TW': { label: '繁体中文', prompt: 'Traditional Chinese (Taiwan usage and vocabulary)' },
+  'th': { label: '泰文', prompt: 'Thai' },
+  'vi': { label: '越南文', prompt: 'Vietnamese' },
+  'id': { label: '印尼文', prompt: 'Bahasa Indonesia' },
+  'ms': { label: '马来文', prompt: 'Bahasa Melayu (Malay)' },
+  'en': { label: '英文', prompt: 'English (e-commerce register)' },
+  'tl': { label: 'Taglish', prompt: 'Taglish (the Tagalog-English mix used in Philippine e-commerce)' },
+  'km': { label: '高棉文', prompt: 'Khmer' },
+};
+
+export const CONTENT_LANGUAGE_CODES = Object.keys(CONTENT_LANGUAGES) as ContentLanguage[];
+
+export const isContentLanguage = (value: unknown): value is ContentLanguage =>
+  typeof value === 'string' && value in CONTENT_LANGUAGES;
+
+/**
+ * Map a stored language to a current code. Before per-language codes, every translation that
+ * was not Thai was stored as 'ph' ("the market's language"), so it resolves through the market
+ * the page was made for, or to English when that is unknown.
+ */
+export const migrateContentLanguage = (language: unknown, market?: TargetMarket): ContentLanguage => {
+  if (isContentLanguage(language)) return language;
+  return market ? getMarketProfile(market).translationLanguages[0] : 'en';
+};
@@ -0,0 +1,69 @@
+/**
+ * Shared IndexedDB connection for everything the app persists locally.
+ */
+
+const DB_NAME = 'jingzhitong';
+const DB_VERSION = 5;
+
+export const HISTORY_ITEMS_STORE = 'historyItems';
+export const HISTORY_BLOBS_STORE = 'historyBlobs';
+export const PRODUCTS_STORE = 'products';
+export const JOBS_STORE = 'jobs';
+export const RESPONSE_CACHE_STORE = 'responseCache';
+export const USAGE_STORE = 'usage';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        // v1: history items + out-of-line blobs
+        if (event.oldVersion < 1) {
+          const items = db.createObjectStore(HISTORY_ITEMS_STORE, { keyPath: 'id' });
+          items.createIndex('userId', 'userId');
+          const blobs = db.createObjectStore(HISTORY_BLOBS_STORE, { keyPath: 'id' });
+          blobs.createIndex('historyId', 'historyId');
+        }
+        // v2: product workspaces
+        if (event.oldVersion < 2) {
+          const products = db.createObjectStore(PRODUCTS_STORE, { keyPath: 'id' });
+          products.createIndex('userId', 'userId');
+        }
+        // v3: background jobs
+        if (event.oldVersion < 3) {
+          const jobs = db.createObjectStore(JOBS_STORE, { keyPath: 'id' });
+          jobs.createIndex('userId', 'userId');
+        }
+        // v4: model response cache (shared by all users of this browser)
+        if (event.oldVersion < 4) {
+          db.createObjectStore(RESPONSE_CACHE_STORE, { keyPath: 'key' });
+        }
+        // v5: per-call usage log
+        if (event.oldVersion < 5) {
+          const usage = db.createObjectStore(USAGE_STORE, { keyPath: 'id' });
+          usage.createIndex('timestamp', 'timestamp');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+export const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error || new DOMException('Transaction aborted', 'AbortError'));
+});
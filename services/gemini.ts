@@ -1,161 +1,127 @@
-import { GoogleGenAI, GenerateContentResponse, Type } from "@google/genai";
-import { AnalysisData, TargetMarket } from "../types";
+import type { Content, Part } from "@google/genai";
+import { AnalysisData, ContentLanguage, ProductImage, ProductImageRole, SkuLayoutDocument, TargetMarket } from "../types";
+import { buildAnalysisResponseSchema, parseAnalysisPayload, sectionsToMarkdown } from "./analysisSchema";
+import { annotateSectionsWithCitations, tracePriceSources } from "./citations";
+import { AiCapability, AiProviderId, ProviderUsage, VideoOperation, getProvider, resolveAi } from "./aiProvider";
+import { RequestOptions, isCancelledError, isRetryableError, runWithRetry, sleep, streamWithRetry } from "./requestControl";
+import { CachedRequestOptions, withResponseCache } from "./responseCache";
+import { BudgetExceededError, UsageTask, assertWithinDailyBudget, recordUsage } from "./usageStore";
+import { heroStyleTemplateId, skuStyleTemplateId } from "./promptTemplates";
+import { renderPrompt } from "./promptRegistry";
+import { getMarketProfile } from "./marketProfiles";
+import { CONTENT_LANGUAGES } from "./contentLanguages";
+import { sanitizeGeneratedHtml } from "./htmlSanitizer";
+import { PRODUCT_IMAGE_TOKEN, SkuLayoutError, applySkuLayoutText, collectSkuLayoutText, isSkuLayoutHtml, mapSkuLayoutImages, parseSkuLayout } from "./skuLayout";
+import { tagSkuImageSlots } from "./skuImageSlots";
+
+const VIDEO_POLL_INTERVAL_MS = 5000;
+const MAX_POLL_FAILURES = 5; // consecutive transient poll errors tolerated before giving up
+
+const IMAGE_ROLE_LABELS: Record<ProductImageRole, string> = {
+  main: "Main product photo",
+  detail: "Detail / alternate angle or scale shot",
+  packaging: "Packaging",
+  label: "Label close-up (ingredients, certifications, BPOM/Halal marks)",
+};
 
 /**
- * Analyze product image for Specific Market (TH, PH, VN, MY, SG, ID) using Search Grounding
+ * Usage callback for one provider call, recording against the caller's attribution.
  */
-export const analyzeProduct = async (
-  base64Image: string,
-  mimeType: string,
-  additionalPrompt: string,
-  market: TargetMarket
-): Promise<AnalysisData> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
-  // Dynamic Configuration based on Market - Upgraded for Deep Analysis
-  const getMarketContext = (m: TargetMarket) => {
-    switch (m) {
-      case 'TH': return {
-        role: "针对泰国市场 (Thailand) 的高级跨境电商战略专家",
-        currency: "泰铢 (THB)",
-        platforms: "Shopee TH, Lazada TH, TikTok Shop Thailand, Line Shopping, Konvy (美妆)",
-        culture: "注重视觉营销 (直播/短视频)、KOL 影响力大、偏好鲜艳色彩、佛教节日营销、Line 社交电商普及。",
-        keywordsLang: "泰语 (Thai)",
-        priceJsonExample: `{ "prices": [{ "name": "Shopee TH", "price": 450 }, { "name": "Lazada TH", "price": 490 }, { "name": "TikTok Shop", "price": 420 }], "keywords": ["รองเท้า", "แฟชั่น", "ราคาถูก", "ส่งฟรี"] }`
-      };
-      case 'VN': return {
-        role: "针对越南市场 (Vietnam) 的高级跨境电商战略专家",
-        currency: "越南盾 (VND)",
-        platforms: "Shopee VN, Lazada VN, TikTok Shop Vietnam, Tiki (注重正品), Sendo, Facebook Marketplace (极度活跃)",
-        culture: "价格高度敏感、年轻化人口红利、Zalo/Facebook 社交电商极其发达、摩托车出行文化（防晒/雨具）、货到付款 (COD) 仍占主流。",
-        keywordsLang: "越南语 (Vietnamese)",
-        priceJsonExample: `{ "prices": [{ "name": "Shopee VN", "price": 150000 }, { "name": "Tiki", "price": 180000 }, { "name": "Facebook", "price": 140000 }], "keywords": ["giày dép", "thời trang", "giá rẻ", "freeship"] }`
-      };
-      case 'MY': return {
-        role: "针对马来西亚市场 (Malaysia) 的高级跨境电商战略专家",
-        currency: "马来西亚林吉特 (MYR)",
-        platforms: "Shopee MY, Lazada MY, TikTok Shop Malaysia, PG Mall, Zalora (时尚)",
-        culture: "三大种族 (马来/华/印) 融合、伊斯兰教 Halal 认证 (食品/美妆)、对华流/韩流接受度高、西马东马物流时效差异大。",
-        keywordsLang: "英语 (English) 或马来语 (Malay)",
-        priceJsonExample: `{ "prices": [{ "name": "Shopee MY", "price": 45.50 }, { "name": "Lazada MY", "price": 49.00 }, { "name": "Zalora", "price": 79.00 }], "keywords": ["Baju", "Fashion", "Murah", "Ready Stock"] }`
-      };
-      case 'SG': return {
-        role: "针对新加坡市场 (Singapore) 的高级跨境电商战略专家",
-        currency: "新加坡元 (SGD)",
-        platforms: "Shopee SG, Lazada SG, Amazon SG, Qoo10, Carousell (二手/C2C), Zalora",
-        culture: "极高消费力、英语为主、追求配送时效 (Next Day Delivery)、品牌意识强、空间有限 (收纳/小家电受欢迎)、西化生活方式。",
-        keywordsLang: "英语 (English)",
-        priceJsonExample: `{ "prices": [{ "name": "Shopee SG", "price": 25.90 }, { "name": "Amazon SG", "price": 29.90 }, { "name": "Lazada SG", "price": 26.50 }], "keywords": ["Dress", "Office Wear", "Premium", "Fast Delivery"] }`
-      };
-      case 'ID': return {
-        role: "针对印尼市场 (Indonesia) 的高级跨境电商战略专家",
-        currency: "印尼卢比 (IDR)",
-        platforms: "Shopee ID, Tokopedia (本土巨头), Lazada ID, TikTok Shop, Bukalapak, Blibli",
-        culture: "世界最大的穆斯林国家 (注意宗教禁忌)、千岛之国 (物流成本高/慢)、移动端渗透率极高、喜爱促销折扣 (Tanggal Kembar)、本土品牌保护主义。",
-        keywordsLang: "印尼语 (Bahasa Indonesia)",
-        priceJsonExample: `{ "prices": [{ "name": "Shopee ID", "price": 85000 }, { "name": "Tokopedia", "price": 90000 }, { "name": "TikTok Shop", "price": 82000 }], "keywords": ["Sepatu", "Wanita", "Promo", "COD"] }`
-      };
-      case 'PH': default: return {
-        role: "针对菲律宾市场 (Philippines) 的高级跨境电商战略专家",
-        currency: "菲律宾比索 (PHP)",
-        platforms: "Shopee PH, Lazada PH, TikTok Shop Philippines, Zalora, Facebook Marketplace",
-        culture: "深受美式文化影响、英语普及率高、天主教节日多 (圣诞节极长)、极其依赖 COD (货到付款)、对价格敏感但喜欢赠品 (Freebie)、喜欢色彩鲜艳风格。",
-        keywordsLang: "英语 (English) 或他加禄语 (Tagalog)",
-        priceJsonExample: `{ "prices": [{ "name": "Shopee PH", "price": 450 }, { "name": "Lazada PH", "price": 480 }, { "name": "TikTok Shop", "price": 430 }], "keywords": ["Rubber Shoes", "Murang Sapatos", "Sale", "Free Shipping"] }`
-      };
-    }
-  };
+const meter = (task: UsageTask, providerId: AiProviderId, model: string, options: RequestOptions) => (usage: ProviderUsage) => {
+  recordUsage({ ...usage, ...options.attribution, task, providerId, model })
+    .catch(error => console.error("Failed to record usage:", error));
+};
 
-  const context = getMarketContext(market);
+/**
+ * Every call that costs money goes through here and is refused once the caller's daily budget
+ * is spent. Cache hits never get this far, and polling a video that already started is free.
+ */
+const runPaid = async <T>(capability: AiCapability, call: (signal: AbortSignal) => Promise<T>, options: RequestOptions): Promise<T> => {
+  await assertWithinDailyBudget(options.attribution?.userId);
+  return runWithRetry(capability, call, options);
+};
 
-  try {
-    const prompt = `
-      你是一位${context.role}。你的任务是深入剖析这张产品图片，挖掘其在 ${market} 市场的爆款潜力。
-      
-      请结合 Google Search Grounding 能力，实时调研当前${context.platforms}等平台的数据，生成一份详尽的《跨境电商选品与营销报告》。
-      
-      报告结构如下（请使用 Markdown 格式）：
-
-      ## 1. 产品核心识别 (Product DNA)
-      - **品类定义**: 准确的类目归属。
-      - **核心卖点**: 3个最打动${market}用户的卖点。
-      - **目标人群**: 具体的画像（例如：雅加达职场女性 / 胡志明市大学生）。
-
-      ## 2. ${market} 市场深度适配性
-      - **文化契合度**: 分析该产品是否符合当地(${context.culture})。是否存在宗教/习俗禁忌？
-      - **季节/气候**: 是否适应当地常年热带或雨季气候？
-      - **竞争格局**: 当前市场是红海（价格战）还是蓝海（稀缺）？
-
-      ## 3. 多平台定价与竞品分析
-      - 请列出至少 3 个主要平台 (${context.platforms}) 上类似产品的**真实在售价格区间**。
-      - 它们的主图风格是怎样的？（如：简约风 vs 促销牛皮癣风）。
-
-      ## 4. 本土化营销策略 (Killer Angles)
-      - **痛点营销**: 针对当地痛点（如：防潮、美白、省空间）的话术建议。
-      - **场景建议**: 适合拍摄什么样的 TikTok 短视频？（例如：摩托车通勤场景、斋月家庭聚会）。
-      - **促销建议**: 适合参加什么大促？（如：Shopee 9.9, 双11, 斋月, 泼水节, 发薪日大促）。
-
-      ## 5. 关键结论
-      - **选品建议**: 推荐指数 (1-5星) 及理由。
-
-      用户额外备注: ${additionalPrompt}
-      
-      ---
-      【数据提取 - 务必准确】
-      请基于你的分析，输出 JSON 格式的关键数据，包含：
-      1. \`prices\`: 针对${context.platforms}中至少3个平台的预估售价。
-      2. \`keywords\`: 5-8 个高流量的本土 SEO 搜索关键词 (${context.keywordsLang})，请包含长尾词。
-
-      请严格按照以下 JSON 格式输出数据块：
-      \`\`\`json
-      ${context.priceJsonExample}
-      \`\`\`
-      
-      请使用清晰的 Markdown 格式输出报告主体（不包含 JSON 数据块）。
-    `;
-
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: {
-        parts: [
-          { inlineData: { mimeType, data: base64Image } },
-          { text: prompt }
-        ]
-      },
-      config: {
-        tools: [{ googleSearch: {} }],
-      },
-    });
+async function* streamPaid<T>(capability: AiCapability, open: (signal: AbortSignal) => AsyncGenerator<T>, options: RequestOptions): AsyncGenerator<T> {
+  await assertWithinDailyBudget(options.attribution?.userId);
+  yield* streamWithRetry(capability, open, options);
+}
 
-    const responseText = response.text || "无法生成分析报告。";
-    const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
+/**
+ * The image used as the product hero: the one tagged `main`, else the first in the set.
+ */
+export const getMainImage = (images: ProductImage[]): ProductImage | undefined =>
+  images.find(img => img.role === 'main') || images[0];
 
-    // Parse JSON data
-    let priceData: Array<{ name: string; price: number }> = [];
-    let keywords: string[] = [];
-    let cleanText = responseText;
+/**
+ * Turn the ordered image set into inline parts, each preceded by a caption naming its role
+ * so the model can tell the packaging or label shot apart from the product itself.
+ */
+const buildImageParts = (images: ProductImage[]): Part[] =>
+  images.flatMap((img, i) => [
+    { text: `[Image ${i + 1}: ${IMAGE_ROLE_LABELS[img.role]}]` },
+    { inlineData: { mimeType: img.mimeType, data: img.dataUrl.split(',')[1] } },
+  ]);
 
-    try {
-      const jsonRegex = /```json\s*(\{[\s\S]*?\})\s*```/;
-      const match = responseText.match(jsonRegex);
-      
-      if (match && match[1]) {
-        const parsed = JSON.parse(match[1]);
-        if (parsed.prices) priceData = parsed.prices;
-        if (parsed.keywords) keywords = parsed.keywords;
-        
-        cleanText = responseText.replace(match[0], '').trim();
-      }
-    } catch (e) {
-      console.warn("Failed to parse JSON data", e);
-    }
+/**
+ * Analyze product images for one target market using Search Grounding
+ */
+export const analyzeProduct = async (
+  images: ProductImage[],
+  additionalPrompt: string,
+  market: TargetMarket,
+  options: CachedRequestOptions = {}
+): Promise<AnalysisData> => {
+  const profile = getMarketProfile(market);
+  const currencyCode = profile.currency.code;
+  const keywordLanguages = profile.languages.keywords;
 
-    return {
-      text: cleanText,
-      groundingChunks: groundingChunks as any,
-      priceData: priceData.length > 0 ? priceData : undefined,
-      keywords: keywords.length > 0 ? keywords : undefined
-    };
+  try {
+    const prompt = renderPrompt('analysis', {
+      role: `针对${profile.name}市场 (${profile.englishName}) 的高级跨境电商战略专家`,
+      market,
+      platforms: profile.platforms.join(', '),
+      culture: profile.culture,
+      keywordsLang: profile.languages.keywordsLabel,
+      currencyCode,
+      keywordLanguages: keywordLanguages.join(' / '),
+      promoCalendar: profile.promoCalendar.map(event => `${event.name} (${event.when})`).join('、'),
+      additionalPrompt,
+    }, options.promptOverrides);
+
+    const { provider, model } = resolveAi('grounded');
+    const parts: Part[] = [
+      ...buildImageParts(images),
+      { text: prompt }
+    ];
+    const responseSchema = buildAnalysisResponseSchema(currencyCode, keywordLanguages);
+
+    // Cached after parsing, so a response that fails validation is never stored
+    const cacheRequest = { kind: 'analysis' as const, label: `${market} 市场分析`, providerId: provider.id, model, material: { parts, responseSchema } };
+    return await withResponseCache(cacheRequest, options, async (): Promise<AnalysisData> => {
+      const response = await runPaid('grounded', signal => provider.generateGroundedJson({
+        model,
+        parts,
+        responseSchema,
+        signal,
+        onUsage: meter('analysis', provider.id, model, options),
+      }), options);
+
+      const groundingMetadata = response.groundingMetadata;
+      const groundingChunks = groundingMetadata?.groundingChunks || [];
+      const groundingSupports = groundingMetadata?.groundingSupports || [];
+      const payload = parseAnalysisPayload(response.text, currencyCode, keywordLanguages);
+      const sections = annotateSectionsWithCitations(payload.sections, groundingSupports);
+
+      return {
+        text: sectionsToMarkdown(sections),
+        sections,
+        priceData: tracePriceSources(payload.prices, groundingSupports),
+        keywords: payload.keywords,
+        culturalRisks: payload.culturalRisks,
+        rating: payload.rating,
+        groundingChunks: groundingChunks as any
+      };
+    });
   } catch (error) {
     console.error("Analysis failed:", error);
     throw error;
@@ -163,42 +129,70 @@ export const analyzeProduct = async (
 };
 
 /**
- * Generate a video using Veo (Market agnostic, visual is visual)
+ * Start a Veo generation. The returned operation is what `waitForProductVideo` polls,
+ * possibly after a page reload.
  */
-export const generateProductVideo = async (
+export const startProductVideo = async (
   base64Image: string,
   mimeType: string,
   prompt: string,
-  aspectRatio: '16:9' | '9:16' = '16:9'
-): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
+  aspectRatio: '16:9' | '9:16' = '16:9',
+  options: RequestOptions = {}
+): Promise<VideoOperation> => {
   try {
-    let operation = await ai.models.generateVideos({
-      model: 'veo-3.1-fast-generate-preview',
-      prompt: prompt,
-      image: {
-        imageBytes: base64Image,
-        mimeType: mimeType,
-      },
-      config: {
-        numberOfVideos: 1,
-        resolution: '720p',
-        aspectRatio: aspectRatio,
-      }
-    });
-
-    while (!operation.done) {
-      await new Promise(resolve => setTimeout(resolve, 5000));
-      operation = await ai.operations.getVideosOperation({ operation: operation });
-    }
+    const { provider, model } = resolveAi('video');
+    const name = await runPaid('video', signal => provider.startVideo({
+      model,
+      prompt,
+      image: { data: base64Image, mimeType },
+      aspectRatio,
+      signal,
+    }), options);
+    return { providerId: provider.id, model, name };
+  } catch (error) {
+    console.error("Veo generation failed:", error);
+    throw error;
+  }
+};
 
-    const videoUri = operation.response?.generatedVideos?.[0]?.video?.uri;
-    if (!videoUri) throw new Error("No video URI returned.");
+/** The video operation itself failed; only a new generation can produce the video. */
+export class VideoOperationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VideoOperationError';
+  }
+}
 
-    return `${videoUri}&key=${process.env.API_KEY}`;
+/**
+ * Poll a started generation until the video is ready. Resolves to a playable URL; rejects
+ * with `VideoOperationError` when the operation failed.
+ */
+export const waitForProductVideo = async (operation: VideoOperation, options: RequestOptions = {}): Promise<string> => {
+  // Polled with the provider that started it, even if settings changed since
+  const provider = getProvider(operation.providerId);
+  // A failed poll does not lose the operation, so keep polling rather than fail the job
+  const poll = async (signal: AbortSignal) => {
+    let failures = 0;
+    while (true) {
+      await sleep(VIDEO_POLL_INTERVAL_MS, signal);
+      try {
+        const status = await provider.pollVideo({
+          operation: operation.name,
+          signal,
+          onUsage: meter('video', operation.providerId, operation.model, options),
+        });
+        if (status.error) throw new VideoOperationError(status.error);
+        if (status.done) return status.url!;
+        failures = 0;
+      } catch (error) {
+        if (signal.aborted || !isRetryableError(error) || ++failures > MAX_POLL_FAILURES) throw error;
+      }
+    }
+  };
+  try {
+    return await runWithRetry('video', poll, { ...options, maxRetries: 0 });
   } catch (error) {
-    console.error("Veo generation failed:", error);
+    console.error("Veo polling failed:", error);
     throw error;
   }
 };
@@ -206,18 +200,16 @@ export const generateProductVideo = async (
 /**
  * Enhance prompt for Veo using Gemini
  */
-export const enhanceVideoPrompt = async (originalPrompt: string): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: `
-      Rewrite the following short video prompt into a detailed, cinematic prompt for an AI video generator (Veo).
-      Focus on lighting, camera movement, and texture. Keep it under 60 words.
-      Input: "${originalPrompt || "Show this product"}"
-      Output (just the prompt text):
-    `
-  });
-  return response.text?.trim() || originalPrompt;
+export const enhanceVideoPrompt = async (originalPrompt: string, options: RequestOptions = {}): Promise<string> => {
+  const { provider, model } = resolveAi('text');
+  const text = await runPaid('text', signal => provider.generateText({
+    model,
+    signal,
+    onUsage: meter('enhance-prompt', provider.id, model, options),
+    task: 'enhance-prompt',
+    parts: [{ text: renderPrompt('enhanceVideo', { input: originalPrompt || "Show this product" }, options.promptOverrides) }]
+  }), options);
+  return text.trim() || originalPrompt;
 };
 
 /**
@@ -226,40 +218,18 @@ export const enhanceVideoPrompt = async (originalPrompt: string): Promise<string
 export const editProductImage = async (
   base64Image: string,
   mimeType: string,
-  editPrompt: string
+  editPrompt: string,
+  options: RequestOptions = {}
 ): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              data: base64Image,
-              mimeType: mimeType,
-            },
-          },
-          {
-            text: editPrompt,
-          },
-        ],
-      },
-    });
-
-    let imageUrl = '';
-    if (response.candidates?.[0]?.content?.parts) {
-      for (const part of response.candidates[0].content.parts) {
-        if (part.inlineData) {
-          imageUrl = `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-          break;
-        }
-      }
-    }
-
-    if (!imageUrl) throw new Error("No image generated.");
-    return imageUrl;
-
+    const { provider, model } = resolveAi('image');
+    return await runPaid('image', signal => provider.editImage({
+      model,
+      image: { data: base64Image, mimeType },
+      prompt: editPrompt,
+      signal,
+      onUsage: meter('image', provider.id, model, options),
+    }), options);
   } catch (error) {
     console.error("Image editing failed:", error);
     throw error;
@@ -272,14 +242,17 @@ export const editProductImage = async (
 export const generateBatchAssets = async (
   base64Image: string,
   mimeType: string,
-  prompts: Array<{ id: string; label: string; prompt: string }>
+  prompts: Array<{ id: string; label: string; prompt: string }>,
+  options: RequestOptions = {}
 ): Promise<Array<{ id: string; label: string; url: string; success: boolean }>> => {
   
   const promises = prompts.map(async (item) => {
     try {
-      const url = await editProductImage(base64Image, mimeType, item.prompt);
+      const url = await editProductImage(base64Image, mimeType, item.prompt, options);
       return { id: item.id, label: item.label, url, success: true };
     } catch (error) {
+      // Cancelling or running out of budget stops the whole batch rather than marking each image failed
+      if (isCancelledError(error) || error instanceof BudgetExceededError) throw error;
       console.error(`Failed to generate ${item.label}`, error);
       return { id: item.id, label: item.label, url: '', success: false };
     }
@@ -288,240 +261,117 @@ export const generateBatchAssets = async (
   return await Promise.all(promises);
 };
 
-// --- STYLE CONFIGURATIONS FOR HERO ---
-const getHeroStyleInstructions = (style: string) => {
-  switch (style) {
-    case 'Luxury':
-      return `
-        **Style: Luxury & Premium (Hi-End)**
-        - **Palette**: Black, Deep Gold (#D4AF37), Ivory, Dark Emerald.
-        - **Typography**: Elegant Serif for headlines (e.g., Playfair Display vibe), thin Sans-serif for details.
-        - **Visuals**: High contrast, dramatic lighting, subtle grain texture, glassmorphism overlays (backdrop-blur).
-        - **Layout**: Center-focused, symmetrical, or golden ratio. Minimal text, high negative space.
-        - **Decor**: Thin gold borders, diamond/star icons.
-      `;
-    case 'Minimalist':
-      return `
-        **Style: Modern Minimalist (Apple/Muji/IKEA)**
-        - **Palette**: White, Off-White (#F9F9F9), Soft Gray, accented with black text.
-        - **Typography**: Bold, clean Sans-serif (Helvetica/Inter vibe). Massive headings.
-        - **Visuals**: Soft diffuse lighting, natural shadows, no harsh borders.
-        - **Layout**: Asymmetrical balance, large hero product image.
-        - **Decor**: None, or very subtle rounded shapes.
-      `;
-    case 'Flash Sale':
-      return `
-        **Style: Mega Campaign / Flash Sale (Shopee/Lazada 9.9)**
-        - **Palette**: Electric Orange (#FF5722), Bright Red, Vibrant Yellow.
-        - **Typography**: Heavy, Italic, All-Caps Sans-serif. Stroke/Outline text effects.
-        - **Visuals**: High saturation, exciting gradients, pop-art vibe.
-        - **Layout**: Cluttered but organized chaos. Diagonal section dividers.
-        - **Decor**: Lightning bolts, "Sale" tags, confetti, countdown timers, price starbursts.
-      `;
-    case 'Promotion':
-    default:
-      return `
-        **Style: Trustworthy E-commerce Standard (Official Store)**
-        - **Palette**: Brand Blue (Trust) or Mall Red (Official). White background.
-        - **Typography**: Clear hierarchy, readable Sans-serif.
-        - **Visuals**: Clean cutouts, professional drop shadows.
-        - **Layout**: Grid-based, structured, informative.
-        - **Decor**: Checkmarks, "Official Store" badges, "Warranty" icons.
-      `;
-  }
-};
-
 /**
  * Generate HTML/Tailwind layout for Product Hero Image (Square)
  */
 export const generateHeroHtml = async (
-  base64Image: string,
-  mimeType: string,
+  images: ProductImage[],
   analysisText: string,
   style: string,
   market: TargetMarket,
-  additionalPrompt?: string
+  additionalPrompt?: string,
+  options: CachedRequestOptions = {}
 ): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
-  const styleInstructions = getHeroStyleInstructions(style);
+  const styleInstructions = renderPrompt(heroStyleTemplateId(style), {}, options.promptOverrides);
   
-  let marketContext = "Southeast Asia Market";
-  if (market === 'TH') marketContext = "Thailand (Shopee TH). Vibrant, colorful.";
-  if (market === 'VN') marketContext = "Vietnam (Shopee VN). Price focus, clear info.";
-  if (market === 'PH') marketContext = "Philippines (Shopee PH). English/Taglish.";
-  if (market === 'MY') marketContext = "Malaysia. Multicultural, Halal-friendly if food.";
-  if (market === 'SG') marketContext = "Singapore. Premium, Clean, English.";
-  if (market === 'ID') marketContext = "Indonesia. Bahasa Indonesia, Mobile-first.";
-
-  const prompt = `
-    You are an award-winning UI/Visual Designer for E-commerce.
-    Create a **World-Class Product Hero Image (Main Image)** using HTML and Tailwind CSS.
-    
-    **Dimensions**: Exactly **800x800 pixels** (Square).
-    **Target Audience**: ${marketContext}.
-    **Input Analysis**: "${analysisText.substring(0, 300)}..."
-    
-    ${styleInstructions}
-
-    **USER CUSTOM INSTRUCTIONS**: "${additionalPrompt || "None"}"
-    (CRITICAL: If the user provides instructions above, prioritize them over the default style. For example, if they ask for 'Pink Theme', use pink regardless of the selected style).
-
-    **Content Requirements**:
-    1. **Main Copy**: A catchy, short headline.
-    2. **Sub Copy**: Key benefit or spec.
-    3. **Tags**: 1-2 visually distinct tags (e.g., "Ready Stock", "Free Shipping", "COD").
-    4. **Image**: The product must be the Star. Use \`__PRODUCT_IMG_SRC__\`.
-    
-    **Technical Constraints**:
-    - **NO Old-School Design**: Do not use simple colored rectangles behind text. Use gradients, blurs, shadows, or modern overlays.
-    - **Tailwind Config**: You can use arbitrary values like \`bg-[#123456]\`, \`text-[40px]\`.
-    - **Container**: Root \`div\` must be \`w-[800px] h-[800px] relative overflow-hidden bg-white\`.
-    - **Output**: ONLY raw HTML string. No markdown.
-  `;
+  const prompt = renderPrompt('hero', {
+    market,
+    marketContext: getMarketProfile(market).listingContext,
+    analysis: analysisText.substring(0, 300),
+    styleInstructions,
+    additionalPrompt: additionalPrompt || "None",
+  }, options.promptOverrides);
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: {
-        parts: [
-          { inlineData: { mimeType, data: base64Image } },
-          { text: prompt }
-        ]
-      }
-    });
+    const { provider, model } = resolveAi('text');
+    const parts: Part[] = [
+      ...buildImageParts(images),
+      { text: prompt }
+    ];
+    // The raw model output is cached; image injection below runs on every call
+    const cacheRequest = { kind: 'hero' as const, label: `首图 · ${style} · ${market}`, providerId: provider.id, model, material: parts };
+    let html = await withResponseCache(cacheRequest, options, () => runPaid('text', signal => provider.generateText({
+      model,
+      task: 'hero',
+      parts,
+      signal,
+      onUsage: meter('hero', provider.id, model, options)
+    }), options));
 
-    let html = response.text || "";
     html = html.replace(/```html/g, '').replace(/```/g, '').trim();
     
     // Inject the real image
-    const imageUrl = `data:${mimeType};base64,${base64Image}`;
+    const imageUrl = getMainImage(images)?.dataUrl || '';
     html = html.replace(/__PRODUCT_IMG_SRC__/g, imageUrl);
 
-    return html;
+    return sanitizeGeneratedHtml(html);
   } catch (error) {
     console.error("Hero HTML Generation failed:", error);
     throw error;
   }
 };
 
-// --- STYLE CONFIGURATIONS FOR SKU ---
-const getSkuStyleInstructions = (style: string) => {
-  switch (style) {
-    case 'K-Pop / Y2K':
-      return `
-        **Style: "Gen Z / K-Pop / Y2K" (Trendy & Viral)**
-        - **Target**: Young consumers in Vietnam, Thailand, Philippines.
-        - **Vibe**: High energy, chaotic but aesthetic, sticker-bomb style.
-        - **Palette**: Hot Pink (#FF00CC), Acid Green, Electric Blue on Black or Stark White.
-        - **Typography**: Mixed fonts (Chunky Sans + Handwritten). Large outlined text.
-        - **Visuals**: Uneven borders, star shapes, marquee scrolling text (simulated), brutality.
-        - **Layout**: Asymmetric grids, overlapping elements (stickers over images).
-      `;
-    case 'Cyberpunk Tech':
-      return `
-        **Style: "Cyberpunk / High-Tech" (Electronics/Gadgets)**
-        - **Target**: Tech enthusiasts in Singapore, Malaysia.
-        - **Vibe**: Futuristic, precision, dark mode.
-        - **Background**: Deep Dark Blue/Black (#0f172a) with Neon Glows (Cyan/Magenta).
-        - **Typography**: Monospace fonts for specs (data visualization style).
-        - **Visuals**: Grid lines, crosshairs, glassmorphism cards (backdrop-blur).
-        - **Layout**: "Bento Box" grids, technical readouts, progress bars.
-      `;
-    case 'Muji Minimalist':
-      return `
-        **Style: "Muji / Scandinavian" (Home & Living)**
-        - **Target**: Premium buyers in Singapore, Thailand.
-        - **Vibe**: Zen, clean, expensive, organic.
-        - **Palette**: Warm White, Cream (#FDFBF7), Sage Green, Earthy Browns.
-        - **Visuals**: Massive soft rounded corners (rounded-[40px]), organic blob shapes behind images.
-        - **Typography**: Elegant Serif headers, lots of whitespace.
-        - **Layout**: Editorial magazine style. Floating images. No harsh borders.
-      `;
-    case 'Classic Conversion':
-    default:
-      return `
-        **Style: "Shopee/Lazada Gold Standard" (High Conversion)**
-        - **Target**: Mass market, price-sensitive.
-        - **Vibe**: Urgent, clear, professional.
-        - **Palette**: Trust Blue or Sale Red/Orange.
-        - **Visuals**: Coupon-style borders (dashed), clear "Free Shipping" badges.
-        - **Layout**: Very structured, linear flow. Hero -> Pain Point -> Soluton -> Social Proof.
-      `;
-  }
-};
+// Older prompt versions ask for a raw HTML page instead of a layout document
+export type SkuGeneration = { layout: SkuLayoutDocument } | { html: string };
 
 /**
- * Generate HTML/Tailwind layout for SKU detail page
+ * Generate the SKU detail page as a layout document
  */
 export const generateSkuUiLayout = async (
-  base64Image: string,
-  mimeType: string,
+  images: ProductImage[],
   analysisText: string,
   style: string,
   market: TargetMarket,
-  additionalPrompt?: string
-): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
-  const styleInstructions = getSkuStyleInstructions(style);
+  additionalPrompt?: string,
+  options: CachedRequestOptions = {}
+): Promise<SkuGeneration> => {
+  const styleInstructions = renderPrompt(skuStyleTemplateId(style), {}, options.promptOverrides);
   
-  const marketNames: Record<string, string> = {
-    'TH': 'Thailand', 'PH': 'Philippines', 'VN': 'Vietnam', 
-    'MY': 'Malaysia', 'SG': 'Singapore', 'ID': 'Indonesia'
-  };
-  const marketContext = marketNames[market] || "Southeast Asia";
+  const prompt = renderPrompt('sku', {
+    market,
+    marketName: getMarketProfile(market).englishName,
+    analysis: analysisText.substring(0, 300),
+    styleInstructions,
+    additionalPrompt: additionalPrompt || "None",
+  }, options.promptOverrides);
 
-  const prompt = `
-    You are a World-Class UI/Visual Designer.
-    Create a **High-Converting Product Detail Page** (HTML/Tailwind CSS) that looks like a **Top-Tier Brand Landing Page**.
-    
-    **Context**: Selling to ${marketContext}. Text in **Simplified Chinese** (user will translate later).
-    **Input Analysis**: "${analysisText.substring(0, 300)}..."
-    
-    ${styleInstructions}
+  try {
+    const { provider, model } = resolveAi('text');
+    const parts: Part[] = [
+      ...buildImageParts(images),
+      { text: prompt }
+    ];
+    // The raw model output is cached; image injection below runs on every call
+    const cacheRequest = { kind: 'sku' as const, label: `详情页 · ${style} · ${market}`, providerId: provider.id, model, material: parts };
+    const output = await withResponseCache(cacheRequest, options, async () => {
+      const text = await runPaid('text', signal => provider.generateText({
+        model,
+        task: 'sku',
+        parts,
+        signal,
+        onUsage: meter('sku', provider.id, model, options)
+      }), options);
+      if (!isLegacySkuOutput(text)) parseSkuLayout(text, style); // an unusable layout is not cached
+      return text;
+    });
 
-    **USER CUSTOM INSTRUCTIONS**: "${additionalPrompt || "None"}"
-    (CRITICAL: The user has full control. If they ask for 'Black and Gold luxury' or 'Remove the certificates section', YOU MUST OBEY. Incorporate specific color requests, mood, or structural changes).
+    const imageUrl = getMainImage(images)?.dataUrl || null;
+    if (isLegacySkuOutput(output)) return { html: buildLegacySkuHtml(output, imageUrl || '') };
 
-    **CRITICAL DESIGN RULES (BREAK THE GRID)**:
-    1. **NO BORING LISTS**: Do not just stack white boxes. Use **Magazine Layouts**.
-    2. **Overlapping**: Allow text to overlap images slightly (using negative margins or absolute position).
-    3. **Asymmetry**: Use grid-cols-12. Make some sections 7cols vs 5cols.
-    4. **Backgrounds**: Use full-width background images with overlay gradients for the Hero and Lifestyle sections.
-    5. **Typography**: Use massive contrast. Huge headlines (text-5xl) vs tiny technical specs (text-xs).
-    
-    **Structure (Optimize flow for ${marketContext})**:
-    Create **6 to 10 sections** that best sell THIS specific product. Common sections:
-    - **Hero**: Immersive, full screen feel.
-    - **Hook**: The "Why".
-    - **Features**: Visual grid.
-    - **Social Proof**: Reviews/Trust.
-    - **Offer**: Sticky-feel CTA.
-
-    **Technical Requirements**:
-    - Wrap EACH section in \`<div class="sku-section relative overflow-hidden ...">\`.
-    - **Images**: Use \`<img>\` tags with \`src="https://via.placeholder.com/400x400..."\` and class \`editable-image cursor-pointer object-cover w-full\`.
-    - **Icons**: Use generic SVG shapes or Lucide-like SVG paths if needed, or simple emoji.
-    - **Tailwind**: Use arbitrary values (e.g. \`bg-[#123]\`, \`rounded-[3rem]\`) for unique flair.
-    - Return ONLY raw HTML string.
-  `;
+    const layout = parseSkuLayout(output, style);
+    return { layout: mapSkuLayoutImages(layout, slot => slot.src === PRODUCT_IMAGE_TOKEN ? { ...slot, src: imageUrl } : slot) };
+  } catch (error) {
+    console.error("SKU UI Generation failed:", error);
+    throw error;
+  }
+};
 
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: {
-        parts: [
-          { inlineData: { mimeType, data: base64Image } },
-          { text: prompt }
-        ]
-      }
-    });
+const isLegacySkuOutput = (output: string) => output.replace(/```html/g, '').trim().startsWith('<');
 
-    let html = response.text || "";
-    html = html.replace(/```html/g, '').replace(/```/g, '').trim();
-    
-    const imageUrl = `data:${mimeType};base64,${base64Image}`;
+// Clean up a raw HTML page: real product photo, SVG stand-ins for placeholder images, sanitized,
+// every image tagged with what it should show
+const buildLegacySkuHtml = (output: string, imageUrl: string): string => {
+    let html = output.replace(/```html/g, '').replace(/```/g, '').trim();
     html = html.replace(/__PRODUCT_IMG_SRC__/g, imageUrl);
 
     // Modern SVG Placeholders
@@ -553,81 +403,195 @@ export const generateSkuUiLayout = async (
         }
     });
 
-    return html;
-  } catch (error) {
-    console.error("SKU UI Generation failed:", error);
-    throw error;
-  }
+    return tagSkuImageSlots(sanitizeGeneratedHtml(html));
 };
 
 /**
- * Translate HTML Content (Bidirectional)
+ * Swap inline (base64) image sources for short placeholders, to keep them out of the prompt,
+ * and put them back in the model's output.
  */
-export const translateSkuHtml = async (
-  htmlContent: string, 
-  targetLanguage: 'ph' | 'th' | 'zh',
-  market: TargetMarket
-): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
-  // 1. Extract and replace Base64 images to reduce token usage
+const stashInlineImages = (html: string) => {
   const imgMap = new Map<string, string>();
   let imgIndex = 0;
-  
-  const cleanedHtml = htmlContent.replace(/src\s*=\s*["'](data:image\/[^"']+)["']/gi, (match, p1) => {
+  const stashed = html.replace(/src\s*=\s*["'](data:image\/[^"']+)["']/gi, (match, p1) => {
     const placeholder = `__IMG_PLACEHOLDER_${imgIndex++}__`;
     imgMap.set(placeholder, p1);
     return `src="${placeholder}"`;
   });
+  const restore = (output: string) => {
+    imgMap.forEach((value, key) => {
+      output = output.split(key).join(value);
+    });
+    return output;
+  };
+  return { html: stashed, restore };
+};
 
-  let sourceLang = "Simplified Chinese";
-  let targetLang = "Simplified Chinese";
-  
-  // Basic mapping for target language if not ZH
-  if (targetLanguage === 'zh') {
-     targetLang = "Simplified Chinese";
-     sourceLang = "Local Language (Thai/English/Vietnamese/etc)";
-  } else {
-     sourceLang = "Simplified Chinese";
-     if (market === 'TH') targetLang = "Thai";
-     else if (market === 'VN') targetLang = "Vietnamese";
-     else if (market === 'ID') targetLang = "Bahasa Indonesia";
-     else if (market === 'MY') targetLang = "English/Malay Mix";
-     else targetLang = "English (E-commerce context)";
+/**
+ * Rewrite one section of a SKU page following `instruction`. The model sees the section, an
+ * outline of the rest of the page and the analysis excerpt; the caller splices the result back.
+ */
+export const regenerateSkuSection = async (
+  sectionHtml: string,
+  outline: string,
+  instruction: string,
+  analysisText: string,
+  language: ContentLanguage,
+  market: TargetMarket,
+  options: CachedRequestOptions = {}
+): Promise<string> => {
+  const section = stashInlineImages(sectionHtml);
+  const prompt = renderPrompt('skuSection', {
+    market,
+    marketName: getMarketProfile(market).englishName,
+    analysis: analysisText.substring(0, 300),
+    language: CONTENT_LANGUAGES[language].prompt,
+    outline,
+    instruction,
+    section: section.html,
+  }, options.promptOverrides);
+
+  try {
+    const { provider, model } = resolveAi('text');
+    const cacheRequest = { kind: 'sku' as const, label: `详情页区块 · ${market}`, providerId: provider.id, model, material: prompt };
+    let html = await withResponseCache(cacheRequest, options, () => runPaid('text', signal => provider.generateText({
+      model,
+      task: 'sku-section',
+      parts: [{ text: prompt }],
+      sourceHtml: section.html,
+      signal,
+      onUsage: meter('sku-section', provider.id, model, options)
+    }), options));
+
+    html = html.replace(/```html/g, '').replace(/```/g, '').trim();
+    return tagSkuImageSlots(sanitizeGeneratedHtml(section.restore(html)));
+  } catch (error) {
+    console.error("SKU section rewrite failed:", error);
+    throw error;
   }
+};
 
-  const prompt = `
-    You are a professional translator for Cross-border E-commerce.
-    Translate the visible text content of the following HTML code from **${sourceLang}** to **${targetLang}**.
-    
-    **Rules**:
-    1. Keep all HTML tags, structure, classes, and styles EXACTLY the same.
-    2. Only translate human-readable text (headings, paragraphs, button labels).
-    3. Do NOT translate technical attribute values.
-    4. Ensure the translation is natural and uses local e-commerce terminology for ${market}.
-    5. Return ONLY the translated HTML string. No markdown blocks.
+// The model's translation of `count` texts, or an error if it is not a list of that length
+const parseTranslatedTexts = (output: string, count: number): string[] => {
+  let texts: unknown;
+  try {
+    texts = JSON.parse(output.replace(/```json/g, '').replace(/```/g, '').trim());
+  } catch {
+    throw new SkuLayoutError('Translation is not valid JSON');
+  }
+  if (!Array.isArray(texts) || texts.some(text => typeof text !== 'string')) throw new SkuLayoutError('Translation is not a list of texts');
+  if (texts.length !== count) throw new SkuLayoutError(`Translation returned ${texts.length} texts for ${count}`);
+  return texts;
+};
 
-    Input HTML:
-    ${cleanedHtml}
-  `;
+/**
+ * Translate a layout page text by text. Only text nodes change, so the structure, slots and
+ * images stay exactly as they were.
+ */
+const translateLayoutHtml = async (
+  htmlContent: string,
+  sourceLang: string,
+  targetLang: string,
+  market: TargetMarket,
+  options: CachedRequestOptions
+): Promise<string> => {
+  const texts = collectSkuLayoutText(htmlContent);
+  const material = JSON.stringify(texts, null, 1);
+  const prompt = renderPrompt('translateTexts', { sourceLang, targetLang, market, count: String(texts.length), texts: material }, options.promptOverrides);
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: prompt
+    const { provider, model } = resolveAi('text');
+    const cacheRequest = { kind: 'translate' as const, label: `翻译 → ${targetLang} · ${market}`, providerId: provider.id, model, material: prompt };
+    const output = await withResponseCache(cacheRequest, options, async () => {
+      const text = await runPaid('text', signal => provider.generateText({
+        model,
+        task: 'translate',
+        parts: [{ text: prompt }],
+        sourceHtml: material,
+        signal,
+        onUsage: meter('translate', provider.id, model, options)
+      }), options);
+      parseTranslatedTexts(text, texts.length); // an unusable translation is not cached
+      return text;
     });
+    return sanitizeGeneratedHtml(applySkuLayoutText(htmlContent, parseTranslatedTexts(output, texts.length)));
+  } catch (error) {
+    console.error("Translation failed:", error);
+    throw error;
+  }
+};
+
+/**
+ * Translate a generated page between two content languages, keeping its markup.
+ */
+export const translateSkuHtml = async (
+  htmlContent: string, 
+  sourceLanguage: ContentLanguage,
+  targetLanguage: ContentLanguage,
+  market: TargetMarket,
+  options: CachedRequestOptions = {}
+): Promise<string> => {
+  if (isSkuLayoutHtml(htmlContent)) {
+    return translateLayoutHtml(htmlContent, CONTENT_LANGUAGES[sourceLanguage].prompt, CONTENT_LANGUAGES[targetLanguage].prompt, market, options);
+  }
+
+  // 1. Extract and replace Base64 images to reduce token usage
+  const images = stashInlineImages(htmlContent);
+  const cleanedHtml = images.html;
+
+  const sourceLang = CONTENT_LANGUAGES[sourceLanguage].prompt;
+  const targetLang = CONTENT_LANGUAGES[targetLanguage].prompt;
+
+  const prompt = renderPrompt('translate', { sourceLang, targetLang, market, html: cleanedHtml }, options.promptOverrides);
+
+  try {
+    const { provider, model } = resolveAi('text');
+    // Keyed on the image-free HTML, so re-translating with different photos still hits
+    const cacheRequest = { kind: 'translate' as const, label: `翻译 → ${targetLang} · ${market}`, providerId: provider.id, model, material: prompt };
+    let translatedHtml = await withResponseCache(cacheRequest, options, () => runPaid('text', signal => provider.generateText({
+      model,
+      task: 'translate',
+      parts: [{ text: prompt }],
+      sourceHtml: cleanedHtml,
+      signal,
+      onUsage: meter('translate', provider.id, model, options)
+    }), options));
 
-    let translatedHtml = response.text || "";
     translatedHtml = translatedHtml.replace(/```html/g, '').replace(/```/g, '').trim();
 
     // 2. Restore Base64 images
-    imgMap.forEach((value, key) => {
-      translatedHtml = translatedHtml.split(key).join(value);
-    });
-
-    return translatedHtml;
+    return sanitizeGeneratedHtml(images.restore(translatedHtml));
   } catch (error) {
     console.error("Translation failed:", error);
     throw error;
   }
-};
\ No newline at end of file
+};
+
+/**
+ * The Live Agent's system instruction for a market, before any product context is appended.
+ */
+export const getAgentSystemInstruction = (market: TargetMarket, options: RequestOptions = {}) =>
+  {
+  const profile = getMarketProfile(market);
+  return renderPrompt('agentSystem', { market, marketName: profile.name, marketNotes: `- ${profile.name}: ${profile.agentNotes}` }, options.promptOverrides);
+};
+
+/**
+ * Stream a Live Agent reply. Providers are stateless, so the caller passes prior turns.
+ */
+export const streamAgentChat = (
+  systemInstruction: string,
+  history: Content[],
+  message: Part[],
+  options: RequestOptions = {}
+): AsyncGenerator<string> => {
+  const { provider, model } = resolveAi('chat');
+  return streamPaid('chat', signal => provider.streamChat({
+    model,
+    systemInstruction,
+    history,
+    message,
+    signal,
+    onUsage: meter('chat', provider.id, model, options),
+  }), options);
+};
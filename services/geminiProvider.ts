@@ -0,0 +1,70 @@
+import type { AiProvider, GroundedJsonResult, ProviderUsage } from "./aiProvider";
+import { getJson, postJson, postNdjson } from "./api";
+
+/**
+ * Gemini via the local API server (server/index.ts), which holds the key.
+ */
+
+// Veo clips run 8 seconds unless the request sets durationSeconds, which the server does not
+const VEO_VIDEO_SECONDS = 8;
+
+type Metered<T> = T & { usage: ProviderUsage };
+
+export const geminiProvider: AiProvider = {
+  id: 'gemini',
+
+  // The server adds Google Search grounding and JSON output mode
+  generateGroundedJson: async ({ model, parts, responseSchema, signal, onUsage }) => {
+    const { usage, ...result } = await postJson<Metered<GroundedJsonResult>>('/api/analyze', { model, parts, responseSchema }, signal);
+    onUsage?.(usage);
+    return result;
+  },
+
+  generateText: async ({ model, task, parts, signal, onUsage }) => {
+    const { text, usage } = await postJson<Metered<{ text: string }>>(`/api/${task}`, { model, parts }, signal);
+    onUsage?.(usage);
+    return text;
+  },
+
+  editImage: async ({ model, image, prompt, signal, onUsage }) => {
+    const { dataUrl, usage } = await postJson<Metered<{ dataUrl: string }>>('/api/edit-image', { model, image, prompt }, signal);
+    onUsage?.(usage);
+    return dataUrl;
+  },
+
+  startVideo: async ({ model, image, prompt, aspectRatio, signal }) => {
+    const { operationName } = await postJson<{ operationName: string }>('/api/video/start', {
+      model,
+      prompt,
+      image,
+      aspectRatio,
+    }, signal);
+    return operationName;
+  },
+
+  // The URL is a same-origin download route; the server appends the API key when fetching the file
+  pollVideo: async ({ operation, signal, onUsage }) => {
+    const status = await getJson<{ done: boolean; videoUri?: string; error?: string }>(
+      `/api/video/poll?name=${encodeURIComponent(operation)}`,
+      signal
+    );
+    if (!status.done) return { done: false };
+    if (!status.videoUri) return { done: true, error: status.error || "No video URI returned." };
+    onUsage?.({ inputTokens: 0, outputTokens: 0, videoSeconds: VEO_VIDEO_SECONDS });
+    return { done: true, url: `/api/video/download?uri=${encodeURIComponent(status.videoUri)}` };
+  },
+
+  async *streamChat({ model, systemInstruction, history, message, signal, onUsage }) {
+    const lines = postNdjson<{ text?: string; usage?: ProviderUsage; error?: string; done?: boolean }>('/api/chat', {
+      model,
+      systemInstruction,
+      history,
+      message,
+    }, signal);
+    for await (const line of lines) {
+      if (line.error) throw new Error(line.error);
+      if (line.usage) onUsage?.(line.usage);
+      if (line.text) yield line.text;
+    }
+  },
+};
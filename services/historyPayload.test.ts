@@ -0,0 +1,70 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AppMode, HistoryPayload } from '../types';
+import { HISTORY_SCHEMA_VERSION, HistoryMigrationError, migrateHistoryPayload } from './historyPayload';
+
+test('v1 analyses without structured fields migrate to price ranges and empty sections', () => {
+  const payload = migrateHistoryPayload(1, AppMode.ANALYSIS, '市场分析', {
+    text: '# 报告',
+    priceData: [{ platform: 'Shopee', price: 199, currency: 'THB' }],
+    keywords: [{ term: 'แก้วเก็บความเย็น' }]
+  });
+  assert.deepEqual(payload, {
+    kind: 'analysis',
+    analysis: {
+      text: '# 报告',
+      sections: [],
+      priceData: [{ platform: 'Shopee', minPrice: 199, maxPrice: 199, currency: 'THB', sourceIndices: [] }],
+      keywords: [{ term: 'แก้วเก็บความเย็น' }],
+      culturalRisks: [],
+      rating: { stars: 0, reason: '' },
+      groundingChunks: undefined
+    }
+  });
+});
+
+test('v1 videos take their aspect ratio from the title', () => {
+  assert.deepEqual(migrateHistoryPayload(1, AppMode.VEO_VIDEO, 'Veo 视频 (9:16)', 'https://example.com/v.mp4'),
+    { kind: 'video', videoUrl: 'https://example.com/v.mp4', aspectRatio: '9:16' });
+  assert.deepEqual(migrateHistoryPayload(1, AppMode.VEO_VIDEO, 'Veo 视频', 'https://example.com/v.mp4'),
+    { kind: 'video', videoUrl: 'https://example.com/v.mp4', aspectRatio: '16:9' });
+});
+
+test('v1 image-edit strings become SKU pages when they hold HTML and edited images otherwise', () => {
+  assert.deepEqual(migrateHistoryPayload(1, AppMode.IMAGE_EDIT, 'SKU 详情页 (Minimal)', '  <div>SKU</div>'),
+    { kind: 'skuPage', html: '  <div>SKU</div>', language: 'zh', style: 'Minimal' });
+  assert.deepEqual(migrateHistoryPayload(1, AppMode.IMAGE_EDIT, '图片编辑', 'data:image/png;base64,AAAA'),
+    { kind: 'editedImage', imageUrl: 'data:image/png;base64,AAAA', prompt: '' });
+});
+
+test('v1 hero pages keep their style and fall back to the default one', () => {
+  assert.deepEqual(migrateHistoryPayload(1, AppMode.HERO_DESIGN, '产品首图 (Luxury)', '<div>hero</div>'),
+    { kind: 'hero', html: '<div>hero</div>', language: 'zh', style: 'Luxury' });
+  assert.deepEqual(migrateHistoryPayload(1, AppMode.HERO_DESIGN, '产品首图', '<div>hero</div>'),
+    { kind: 'hero', html: '<div>hero</div>', language: 'zh', style: 'Promotion' });
+});
+
+test('v1 items whose data does not fit their mode are refused rather than guessed', () => {
+  assert.throws(() => migrateHistoryPayload(1, AppMode.VEO_VIDEO, 'Veo 视频', { uri: 'x' }), HistoryMigrationError);
+  assert.throws(() => migrateHistoryPayload(1, AppMode.LIVE_AGENT, '对话', 'text'), HistoryMigrationError);
+});
+
+test("v2 'ph' page languages resolve through the market, or to English without one", () => {
+  const page: HistoryPayload = { kind: 'skuPage', html: '<div/>', language: 'ph' as never, style: 'Minimal' };
+  assert.equal((migrateHistoryPayload(2, AppMode.IMAGE_EDIT, 'SKU', page, 'VN') as typeof page).language, 'vi');
+  assert.equal((migrateHistoryPayload(2, AppMode.IMAGE_EDIT, 'SKU', page) as typeof page).language, 'en');
+});
+
+test('v2 payloads that already fit the current shape pass through unchanged', () => {
+  const hero: HistoryPayload = { kind: 'hero', html: '<div/>', language: 'th', style: 'Promotion' };
+  const video: HistoryPayload = { kind: 'video', videoUrl: 'https://example.com/v.mp4', aspectRatio: '16:9' };
+  assert.deepEqual(migrateHistoryPayload(2, AppMode.HERO_DESIGN, '首图', hero, 'VN'), hero);
+  assert.equal(migrateHistoryPayload(2, AppMode.VEO_VIDEO, '视频', video), video);
+});
+
+test('current payloads are returned as stored and unknown versions are refused', () => {
+  const page: HistoryPayload = { kind: 'hero', html: '<div/>', language: 'ph' as never, style: 'Promotion' };
+  assert.equal(migrateHistoryPayload(HISTORY_SCHEMA_VERSION, AppMode.HERO_DESIGN, '首图', page, 'VN'), page);
+  assert.throws(() => migrateHistoryPayload(HISTORY_SCHEMA_VERSION + 1, AppMode.HERO_DESIGN, '首图', page), HistoryMigrationError);
+  assert.throws(() => migrateHistoryPayload(0, AppMode.HERO_DESIGN, '首图', page), HistoryMigrationError);
+});
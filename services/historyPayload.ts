@@ -0,0 +1,156 @@
+import { AnalysisData, AppMode, HistoryPayload, PlatformPriceRange, TargetMarket } from "../types";
+import { migrateContentLanguage } from "./contentLanguages";
+
+/**
+ * Version of the `HistoryPayload` shape written by this build.
+ *
+ * v1: untyped `data` per AppMode (analysis object, video URL, image URL or SKU/hero HTML string).
+ * v2: discriminated `HistoryPayload` union.
+ * v3: page languages are per-language codes; v2 stored every non-Thai translation as 'ph'.
+ */
+export const HISTORY_SCHEMA_VERSION = 3;
+
+export class HistoryMigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HistoryMigrationError';
+  }
+}
+
+export const assertNever = (value: never): never => {
+  throw new Error(`Unhandled history payload: ${JSON.stringify(value)}`);
+};
+
+/**
+ * The sidebar mode a payload belongs to.
+ */
+export const getPayloadMode = (payload: HistoryPayload): AppMode => {
+  switch (payload.kind) {
+    case 'analysis': return AppMode.ANALYSIS;
+    case 'video': return AppMode.VEO_VIDEO;
+    case 'editedImage':
+    case 'batchSet':
+    case 'skuPage': return AppMode.IMAGE_EDIT;
+    case 'hero': return AppMode.HERO_DESIGN;
+    case 'calculatorScenario': return AppMode.CALCULATOR;
+    default: return assertNever(payload);
+  }
+};
+
+// Report text is capped so metadata records stay small
+const MAX_SEARCH_TEXT = 8000;
+
+/**
+ * Text indexed for history search, beyond the title.
+ */
+export const getPayloadSearchText = (payload: HistoryPayload): string => {
+  let text: string;
+  switch (payload.kind) {
+    case 'analysis':
+      text = [
+        ...payload.analysis.keywords.map(kw => kw.term),
+        ...payload.analysis.priceData.map(p => p.platform),
+        payload.analysis.text
+      ].join(' ');
+      break;
+    case 'video': text = payload.aspectRatio; break;
+    case 'editedImage': text = payload.prompt; break;
+    case 'batchSet': text = payload.images.map(img => img.label).join(' '); break;
+    case 'skuPage':
+    case 'hero': text = `${payload.style} ${payload.language}`; break;
+    case 'calculatorScenario': text = `${payload.scenario.channel} ${payload.scenario.zone}`; break;
+    default: return assertNever(payload);
+  }
+  return text.toLowerCase().slice(0, MAX_SEARCH_TEXT);
+};
+
+/**
+ * Fingerprint of a generated page, taken when it is recorded and kept through later edits. A
+ * response served from cache gives the same fingerprint, which finds the entry it was recorded as.
+ */
+export const getPayloadOrigin = (payload: HistoryPayload): string | undefined => {
+  if (payload.kind !== 'hero' && payload.kind !== 'skuPage') return undefined;
+  const text = `${payload.kind}:${payload.language}:${payload.style}:${payload.html}`;
+  // FNV-1a; the length makes a collision between different pages even less likely
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+  return `${text.length.toString(36)}-${(hash >>> 0).toString(36)}`;
+};
+
+// v1 analyses may predate structured output: single `price` per platform, no sections or rating
+const migrateV1Analysis = (data: any): AnalysisData => ({
+  text: typeof data?.text === 'string' ? data.text : '',
+  sections: Array.isArray(data?.sections) ? data.sections : [],
+  priceData: Array.isArray(data?.priceData)
+    ? data.priceData.map((p: any): PlatformPriceRange => ({
+        platform: String(p.platform),
+        minPrice: Number(p.minPrice ?? p.price ?? 0),
+        maxPrice: Number(p.maxPrice ?? p.price ?? 0),
+        currency: String(p.currency ?? ''),
+        sourceIndices: Array.isArray(p.sourceIndices) ? p.sourceIndices : []
+      }))
+    : [],
+  keywords: Array.isArray(data?.keywords) ? data.keywords : [],
+  culturalRisks: Array.isArray(data?.culturalRisks) ? data.culturalRisks : [],
+  rating: data?.rating ?? { stars: 0, reason: '' },
+  groundingChunks: data?.groundingChunks
+});
+
+// v1 titles were "SKU 详情页 (Style)" / "产品首图 (Style)" / "Veo 视频 (9:16)"
+const getTitleSuffix = (title: string) => title.match(/\(([^)]+)\)\s*$/)?.[1];
+
+/**
+ * v1 stored one of two string shapes under IMAGE_EDIT; this is the only place the
+ * HTML-vs-image distinction is inferred, and only for data written before v2.
+ */
+const migrateV1 = (mode: string, title: string, data: any): HistoryPayload => {
+  switch (mode) {
+    case AppMode.ANALYSIS:
+      return { kind: 'analysis', analysis: migrateV1Analysis(data) };
+    case AppMode.VEO_VIDEO:
+      if (typeof data !== 'string') break;
+      return { kind: 'video', videoUrl: data, aspectRatio: getTitleSuffix(title) === '9:16' ? '9:16' : '16:9' };
+    case AppMode.IMAGE_EDIT:
+      if (typeof data !== 'string') break;
+      if (data.trim().startsWith('<')) {
+        return { kind: 'skuPage', html: data, language: 'zh', style: getTitleSuffix(title) || 'Classic Conversion' };
+      }
+      return { kind: 'editedImage', imageUrl: data, prompt: '' };
+    case AppMode.HERO_DESIGN:
+      if (typeof data !== 'string') break;
+      return { kind: 'hero', html: data, language: 'zh', style: getTitleSuffix(title) || 'Promotion' };
+  }
+  throw new HistoryMigrationError(`Cannot migrate v1 history item "${title}" with mode ${mode}`);
+};
+
+const migrateV2 = (payload: HistoryPayload, market?: TargetMarket): HistoryPayload =>
+  payload.kind === 'skuPage' || payload.kind === 'hero'
+    ? { ...payload, language: migrateContentLanguage(payload.language, market) }
+    : payload;
+
+/**
+ * Bring a stored payload up to `HISTORY_SCHEMA_VERSION`. Throws `HistoryMigrationError`
+ * rather than guessing when a record cannot be mapped.
+ */
+export const migrateHistoryPayload = (
+  schemaVersion: number,
+  mode: string,
+  title: string,
+  data: unknown,
+  market?: TargetMarket // the item's market, which v2 page languages depend on
+): HistoryPayload => {
+  let version = schemaVersion;
+  let current = data;
+  if (version === 1) {
+    current = migrateV1(mode, title, current);
+    version = 2;
+  }
+  if (version === 2) {
+    current = migrateV2(current as HistoryPayload, market);
+    version = 3;
+  }
+  if (version !== HISTORY_SCHEMA_VERSION) {
+    throw new HistoryMigrationError(`Unsupported history schema version ${schemaVersion}`);
+  }
+  return current as HistoryPayload;
+};
@@ -0,0 +1,349 @@
+import { AppMode, HistoryItem, HistoryItemMeta, HistoryPayload, TargetMarket } from "../types";
+import { HISTORY_SCHEMA_VERSION, getPayloadSearchText, migrateHistoryPayload } from "./historyPayload";
+import { HISTORY_BLOBS_STORE, HISTORY_ITEMS_STORE, openDb, requestToPromise, transactionDone } from "./db";
+
+/**
+ * IndexedDB-backed history, partitioned by `User.id`.
+ *
+ * Metadata records stay small: long strings (thumbnails, HTML, data URLs) and videos are moved
+ * into a separate `blobs` store and replaced by `{ $blob: id }` references. The sidebar list only
+ * loads metadata + thumbnails; the full payload is hydrated (and migrated) when an item is restored.
+ */
+
+// Strings at or above this length are stored out-of-line
+const BLOB_THRESHOLD = 2048;
+// App-level cap per user; the effective budget is also bounded by the browser quota
+const MAX_USER_BYTES = 250 * 1024 * 1024;
+
+interface BlobRef {
+  $blob: string;
+}
+
+interface StoredBlob {
+  id: string;
+  historyId: string;
+  value: string | Blob;
+  size: number;
+}
+
+interface StoredHistoryItem {
+  id: string;
+  userId: string;
+  timestamp: number;
+  lastAccessed: number;
+  mode: AppMode;
+  title: string;
+  market?: TargetMarket;
+  productId?: string;
+  thumbnail?: BlobRef | string; // short thumbnails stay inline
+  schemaVersion?: number; // absent on records written before versioning (v1)
+  tags?: string[];
+  starred?: boolean;
+  searchText?: string;
+  origin?: string;
+  data: unknown; // payload with large strings replaced by BlobRefs
+  size: number; // total bytes of this record's blobs
+}
+
+export interface StorageUsage {
+  usedBytes: number;
+  budgetBytes: number;
+  itemCount: number;
+}
+
+const isBlobRef = (value: unknown): value is BlobRef =>
+  !!value && typeof value === 'object' && typeof (value as BlobRef).$blob === 'string';
+
+const blobSize = (value: string | Blob) => (typeof value === 'string' ? value.length * 2 : value.size);
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+/**
+ * Replace every large string in `value` with a blob reference, collecting the blobs to write.
+ */
+const externalize = (value: unknown, historyId: string, blobs: StoredBlob[]): unknown => {
+  if (typeof value === 'string' && value.length >= BLOB_THRESHOLD) {
+    const id = `${historyId}:${blobs.length}`;
+    blobs.push({ id, historyId, value, size: blobSize(value) });
+    return { $blob: id };
+  }
+  if (value instanceof Blob) {
+    const id = `${historyId}:${blobs.length}`;
+    blobs.push({ id, historyId, value, size: value.size });
+    return { $blob: id };
+  }
+  if (Array.isArray(value)) return value.map(v => externalize(v, historyId, blobs));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, externalize(v, historyId, blobs)]));
+  }
+  return value;
+};
+
+// Blob id -> object URL handed out for it; a blob restored again gets the same URL
+const objectUrls = new Map<string, string>();
+
+const objectUrlFor = (id: string, value: Blob) => {
+  let url = objectUrls.get(id);
+  if (!url) {
+    url = URL.createObjectURL(value);
+    objectUrls.set(id, url);
+  }
+  return url;
+};
+
+// Called whenever an item's blobs are rewritten or deleted, since its blob ids are reused
+const revokeObjectUrls = (historyId: string) => {
+  for (const [id, url] of objectUrls) {
+    if (!id.startsWith(`${historyId}:`)) continue;
+    URL.revokeObjectURL(url);
+    objectUrls.delete(id);
+  }
+};
+
+// Binary blobs (videos) come back as object URLs, which is what the players expect
+const internalize = async (value: unknown, store: IDBObjectStore): Promise<unknown> => {
+  if (isBlobRef(value)) {
+    const blob = await requestToPromise<StoredBlob | undefined>(store.get(value.$blob));
+    if (!blob) return undefined;
+    return typeof blob.value === 'string' ? blob.value : objectUrlFor(blob.id, blob.value);
+  }
+  if (Array.isArray(value)) return Promise.all(value.map(v => internalize(v, store)));
+  if (value && typeof value === 'object') {
+    const entries = await Promise.all(Object.entries(value).map(async ([k, v]) => [k, await internalize(v, store)] as const));
+    return Object.fromEntries(entries);
+  }
+  return value;
+};
+
+/**
+ * Veo returns a short-lived download URL; keep the bytes so the video still plays after a restart.
+ */
+const captureVideo = async (payload: HistoryPayload) => {
+  if (payload.kind !== 'video' || !/^(https?:|\/api\/)/.test(payload.videoUrl)) return payload;
+  try {
+    const response = await fetch(payload.videoUrl);
+    if (!response.ok) return payload;
+    return { ...payload, videoUrl: await response.blob() };
+  } catch (error) {
+    console.warn("Could not capture video for history, keeping URL only:", error);
+    return payload;
+  }
+};
+
+const toHistoryItem = (record: StoredHistoryItem, thumbnail?: string): HistoryItem => ({
+  id: record.id,
+  timestamp: record.timestamp,
+  lastAccessed: record.lastAccessed,
+  mode: record.mode,
+  title: record.title,
+  thumbnail,
+  schemaVersion: record.schemaVersion ?? 1,
+  tags: record.tags || [],
+  starred: !!record.starred,
+  searchText: record.searchText,
+  origin: record.origin,
+  market: record.market,
+  productId: record.productId,
+  sizeBytes: record.size
+});
+
+const getUserRecords = async (userId: string) => {
+  const db = await openDb();
+  const tx = db.transaction(HISTORY_ITEMS_STORE, 'readonly');
+  return requestToPromise<StoredHistoryItem[]>(tx.objectStore(HISTORY_ITEMS_STORE).index('userId').getAll(userId));
+};
+
+const getBudget = async () => {
+  try {
+    const estimate = await navigator.storage?.estimate?.();
+    if (estimate?.quota) return Math.min(MAX_USER_BYTES, Math.floor(estimate.quota * 0.8));
+  } catch {
+    // estimate() is unavailable in some private-browsing modes
+  }
+  return MAX_USER_BYTES;
+};
+
+/**
+ * List a user's history, newest first. `payload` is not loaded; use `loadHistoryPayload`.
+ */
+export const loadHistory = async (userId: string): Promise<HistoryItem[]> => {
+  const records = await getUserRecords(userId);
+  const db = await openDb();
+  const tx = db.transaction(HISTORY_BLOBS_STORE, 'readonly');
+  const blobs = tx.objectStore(HISTORY_BLOBS_STORE);
+  const items = await Promise.all(records.map(async record => {
+    const thumbnail = record.thumbnail ? await internalize(record.thumbnail, blobs) as string | undefined : undefined;
+    return toHistoryItem(record, thumbnail);
+  }));
+  return items.sort((a, b) => b.timestamp - a.timestamp);
+};
+
+/**
+ * Load the full payload of a history item, migrated to the current schema, and mark it as recently used.
+ * Throws `HistoryMigrationError` if the stored record cannot be migrated.
+ */
+export const loadHistoryPayload = async (userId: string, id: string): Promise<HistoryPayload | undefined> => {
+  const db = await openDb();
+  const tx = db.transaction([HISTORY_ITEMS_STORE, HISTORY_BLOBS_STORE], 'readwrite');
+  const items = tx.objectStore(HISTORY_ITEMS_STORE);
+  const record = await requestToPromise<StoredHistoryItem | undefined>(items.get(id));
+  if (!record || record.userId !== userId) return undefined;
+
+  const data = await internalize(record.data, tx.objectStore(HISTORY_BLOBS_STORE));
+  items.put({ ...record, lastAccessed: Date.now() });
+  await transactionDone(tx);
+  return migrateHistoryPayload(record.schemaVersion ?? 1, record.mode, record.title, data, record.market);
+};
+
+const deleteRecords = async (ids: string[]) => {
+  if (ids.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction([HISTORY_ITEMS_STORE, HISTORY_BLOBS_STORE], 'readwrite');
+  const items = tx.objectStore(HISTORY_ITEMS_STORE);
+  const blobs = tx.objectStore(HISTORY_BLOBS_STORE);
+  for (const id of ids) {
+    revokeObjectUrls(id);
+    items.delete(id);
+    const blobKeys = await requestToPromise(blobs.index('historyId').getAllKeys(id));
+    blobKeys.forEach(key => blobs.delete(key));
+  }
+  await transactionDone(tx);
+};
+
+/**
+ * Evict least-recently-used items until the user fits in `budget`. Returns the evicted ids.
+ */
+const evictToBudget = async (userId: string, budget: number, keepId?: string) => {
+  const records = await getUserRecords(userId);
+  let used = records.reduce((sum, r) => sum + r.size, 0);
+  const evicted: string[] = [];
+  // Starred items are only evicted once nothing else is left
+  const candidates = records
+    .filter(r => r.id !== keepId)
+    .sort((a, b) => Number(!!a.starred) - Number(!!b.starred) || a.lastAccessed - b.lastAccessed);
+  for (const record of candidates) {
+    if (used <= budget) break;
+    used -= record.size;
+    evicted.push(record.id);
+  }
+  await deleteRecords(evicted);
+  return evicted;
+};
+
+const writeRecord = async (record: StoredHistoryItem, blobs: StoredBlob[]) => {
+  revokeObjectUrls(record.id);
+  const db = await openDb();
+  const tx = db.transaction([HISTORY_ITEMS_STORE, HISTORY_BLOBS_STORE], 'readwrite');
+  blobs.forEach(blob => tx.objectStore(HISTORY_BLOBS_STORE).put(blob));
+  tx.objectStore(HISTORY_ITEMS_STORE).put(record);
+  await transactionDone(tx);
+};
+
+/**
+ * Persist a history item, evicting old items if the user's budget is exceeded.
+ * Resolves with the ids that were evicted so the caller can drop them from its list.
+ */
+export const saveHistoryItem = async (userId: string, item: HistoryItem): Promise<string[]> => {
+  if (!item.payload) throw new Error(`History item ${item.id} has no payload to save`);
+  const payload = await captureVideo(item.payload);
+  const blobs: StoredBlob[] = [];
+  const thumbnail = item.thumbnail ? externalize(item.thumbnail, item.id, blobs) as BlobRef | string : undefined;
+  const data = externalize(payload, item.id, blobs);
+  const record: StoredHistoryItem = {
+    id: item.id,
+    userId,
+    timestamp: item.timestamp,
+    lastAccessed: item.timestamp,
+    mode: item.mode,
+    title: item.title,
+    market: item.market,
+    productId: item.productId,
+    thumbnail,
+    schemaVersion: HISTORY_SCHEMA_VERSION,
+    tags: item.tags,
+    starred: item.starred,
+    searchText: item.searchText ?? getPayloadSearchText(item.payload),
+    origin: item.origin,
+    data,
+    size: blobs.reduce((sum, b) => sum + b.size, 0)
+  };
+
+  const budget = await getBudget();
+  // Make room before writing so a near-full origin doesn't reject the transaction
+  const evicted = await evictToBudget(userId, Math.max(0, budget - record.size));
+  try {
+    await writeRecord(record, blobs);
+  } catch (error) {
+    if (!isQuotaError(error)) throw error;
+    // The browser quota is shared with other data; free half the budget and retry once
+    evicted.push(...await evictToBudget(userId, Math.floor(budget / 2) - record.size));
+    await writeRecord(record, blobs);
+  }
+  return evicted;
+};
+
+export const deleteHistoryItems = async (ids: string[]) => deleteRecords(ids);
+
+/**
+ * Update user-editable metadata (tags, star) without touching the payload.
+ */
+export const updateHistoryMeta = async (userId: string, id: string, meta: HistoryItemMeta) => {
+  const db = await openDb();
+  const tx = db.transaction(HISTORY_ITEMS_STORE, 'readwrite');
+  const items = tx.objectStore(HISTORY_ITEMS_STORE);
+  const record = await requestToPromise<StoredHistoryItem | undefined>(items.get(id));
+  if (record && record.userId === userId) {
+    items.put({ ...record, ...meta });
+  }
+  await transactionDone(tx);
+};
+
+/**
+ * Replace the payload of an existing item (a page edited after it was recorded), keeping its
+ * metadata and thumbnail. Items that have been deleted or evicted are left alone.
+ */
+export const updateHistoryPayload = async (userId: string, id: string, payload: HistoryPayload) => {
+  const db = await openDb();
+  const tx = db.transaction([HISTORY_ITEMS_STORE, HISTORY_BLOBS_STORE], 'readwrite');
+  const items = tx.objectStore(HISTORY_ITEMS_STORE);
+  const blobStore = tx.objectStore(HISTORY_BLOBS_STORE);
+  const record = await requestToPromise<StoredHistoryItem | undefined>(items.get(id));
+  if (record && record.userId === userId) {
+    const thumbnailValue = isBlobRef(record.thumbnail)
+      ? (await requestToPromise<StoredBlob | undefined>(blobStore.get(record.thumbnail.$blob)))?.value
+      : record.thumbnail;
+    const blobKeys = await requestToPromise(blobStore.index('historyId').getAllKeys(id));
+    blobKeys.forEach(key => blobStore.delete(key));
+    revokeObjectUrls(id);
+    // Written out again from scratch so blob ids stay sequential
+    const blobs: StoredBlob[] = [];
+    const thumbnail = thumbnailValue ? externalize(thumbnailValue, id, blobs) as BlobRef | string : undefined;
+    const data = externalize(payload, id, blobs);
+    blobs.forEach(blob => blobStore.put(blob));
+    items.put({
+      ...record,
+      thumbnail,
+      schemaVersion: HISTORY_SCHEMA_VERSION,
+      searchText: getPayloadSearchText(payload),
+      data,
+      size: blobs.reduce((sum, b) => sum + b.size, 0)
+    });
+  }
+  await transactionDone(tx);
+};
+
+export const getStorageUsage = async (userId: string): Promise<StorageUsage> => {
+  const [records, budget] = await Promise.all([getUserRecords(userId), getBudget()]);
+  return {
+    usedBytes: records.reduce((sum, r) => sum + r.size, 0),
+    budgetBytes: budget,
+    itemCount: records.length
+  };
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
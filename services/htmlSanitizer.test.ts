@@ -0,0 +1,108 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { JSDOM } from 'jsdom';
+import { sanitizeGeneratedHtml } from './htmlSanitizer';
+
+const { window } = new JSDOM('');
+Object.assign(globalThis, { DOMParser: window.DOMParser, NodeFilter: window.NodeFilter });
+
+// Parsed back so assertions do not depend on attribute order or serialization details; the
+// explicit <body> keeps a leading <style> from being moved into the head
+const sanitize = (html: string) => {
+  const body = new window.DOMParser().parseFromString(`<body>${sanitizeGeneratedHtml(html)}`, 'text/html').body;
+  return { body, html: body.innerHTML };
+};
+
+test('scripts, frames and foreignObject are dropped with their content', () => {
+  const { body, html } = sanitize(`
+    <div class="p-4">Keep<script>alert(1)</script></div>
+    <iframe src="https://example.com"><p>inside</p></iframe>
+    <svg><foreignObject><div>html in svg</div></foreignObject><circle r="4"></circle></svg>
+    <object data="x.swf"></object><form><input value="x"></form>
+  `);
+  assert.equal(body.querySelectorAll('script, iframe, foreignObject, object, form, input').length, 0);
+  assert.doesNotMatch(html, /alert|inside|html in svg/);
+  assert.equal(body.querySelector('div.p-4')?.textContent, 'Keep');
+  assert.ok(body.querySelector('svg circle'));
+});
+
+test('unknown elements are unwrapped, keeping their content', () => {
+  const { body } = sanitize('<custom-card><p>Text</p></custom-card>');
+  assert.equal(body.querySelector('custom-card'), null);
+  assert.equal(body.querySelector('p')?.textContent, 'Text');
+});
+
+test('event handler attributes are stripped', () => {
+  const { body } = sanitize('<img src="https://cdn.example.com/a.png" onerror="alert(1)" onload="x()"><div onclick="y()" onmouseover="z()">x</div>');
+  const image = body.querySelector('img')!;
+  assert.equal(image.getAttribute('src'), 'https://cdn.example.com/a.png');
+  assert.deepEqual(Array.from(image.attributes, attribute => attribute.name), ['src']);
+  assert.equal(body.querySelector('div')!.attributes.length, 0);
+});
+
+test('javascript: and data:text/html URLs are removed from href and src', () => {
+  const { body } = sanitize(`
+    <a id="js" href="javascript:alert(1)">a</a>
+    <a id="spaced" href="  JavaScript:alert(1)">b</a>
+    <a id="data" href="data:text/html,<script>alert(1)</script>">c</a>
+    <a id="ok" href="https://shop.example.com">d</a>
+    <img id="js-img" src="javascript:alert(1)">
+    <img id="html-img" src="data:text/html;base64,PHNjcmlwdD4=">
+    <img id="png" src="data:image/png;base64,iVBORw0KGgo=">
+  `);
+  for (const id of ['js', 'spaced', 'data']) assert.equal(body.querySelector(`#${id}`)!.hasAttribute('href'), false, id);
+  for (const id of ['js-img', 'html-img']) assert.equal(body.querySelector(`#${id}`)!.hasAttribute('src'), false, id);
+  assert.equal(body.querySelector('#ok')!.getAttribute('href'), 'https://shop.example.com');
+  assert.equal(body.querySelector('#ok')!.getAttribute('rel'), 'noopener noreferrer');
+  assert.equal(body.querySelector('#png')!.getAttribute('src'), 'data:image/png;base64,iVBORw0KGgo=');
+});
+
+test('href is only kept on links', () => {
+  const { body } = sanitize('<div href="https://example.com">x</div>');
+  assert.equal(body.querySelector('div')!.hasAttribute('href'), false);
+});
+
+test('SVG keeps drawing attributes and loses script hooks and references', () => {
+  const { body } = sanitize(`
+    <svg viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg" onload="alert(1)">
+      <path d="M0 0L24 24" stroke="#000" stroke-width="2" fill="none" onclick="x()"></path>
+      <use href="#icon"></use>
+      <image href="https://evil.example.com/x.svg"></image>
+      <animate attributeName="href" to="javascript:alert(1)"></animate>
+      <linearGradient id="g" gradientUnits="userSpaceOnUse"><stop offset="0" stop-color="#fff"></stop></linearGradient>
+    </svg>
+  `);
+  const svg = body.querySelector('svg')!;
+  assert.equal(svg.getAttribute('viewBox'), '0 0 24 24');
+  assert.equal(svg.hasAttribute('onload'), false);
+  const path = svg.querySelector('path')!;
+  assert.deepEqual(
+    Array.from(path.attributes, attribute => attribute.name).sort(),
+    ['d', 'fill', 'stroke', 'stroke-width']
+  );
+  assert.equal(svg.querySelectorAll('use, image, animate').length, 0);
+  assert.equal(svg.querySelector('linearGradient')!.getAttribute('gradientUnits'), 'userSpaceOnUse');
+  assert.equal(svg.querySelector('stop')!.getAttribute('stop-color'), '#fff');
+});
+
+test('<style> blocks and inline styles are kept, minus remote loads', () => {
+  const { body } = sanitize(`
+    <html><head><style>.hero { color: red; } @import url("https://evil.example.com/x.css");</style></head>
+    <body><div style="color: blue; background: url('https://cdn.example.com/bg.png')">x</div>
+    <p style="background-image: url(javascript:alert(1))">y</p></body></html>
+  `);
+  const style = body.querySelector('style')!.textContent!;
+  assert.match(style, /\.hero \{ color: red; \}/);
+  assert.doesNotMatch(style, /@import|evil/);
+  assert.equal(body.querySelector('div')!.getAttribute('style'), "color: blue; background: url('https://cdn.example.com/bg.png')");
+  assert.doesNotMatch(body.querySelector('p')!.getAttribute('style')!, /javascript/);
+});
+
+test('layout annotations and classes survive, comments do not', () => {
+  const { body, html } = sanitize('<div data-sku-layout="" class="sku-section" aria-label="Hero"><!-- <script>x</script> -->Hi</div>');
+  const div = body.querySelector('div')!;
+  assert.equal(div.getAttribute('data-sku-layout'), '');
+  assert.equal(div.className, 'sku-section');
+  assert.equal(div.getAttribute('aria-label'), 'Hero');
+  assert.doesNotMatch(html, /<!--/);
+});
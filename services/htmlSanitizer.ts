@@ -0,0 +1,97 @@
+/**
+ * Allow-list sanitizer for model-generated page HTML (hero and SKU layouts). Anything not
+ * listed here is dropped: scripts, event handlers, frames, forms and links to resources other
+ * than images. Layouts rely on Tailwind classes and inline styles, both of which are kept.
+ */
+
+const HTML_TAGS = [
+  'div', 'span', 'p', 'br', 'hr', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'section', 'article', 'header', 'footer', 'main', 'aside', 'nav', 'figure', 'figcaption',
+  'ul', 'ol', 'li', 'dl', 'dt', 'dd', 'blockquote',
+  'strong', 'b', 'em', 'i', 'u', 's', 'del', 'small', 'sub', 'sup', 'mark', 'label',
+  'table', 'caption', 'thead', 'tbody', 'tfoot', 'tr', 'th', 'td',
+  'img', 'picture', 'button', 'a', 'style',
+];
+
+const SVG_TAGS = [
+  'svg', 'g', 'path', 'circle', 'ellipse', 'rect', 'line', 'polyline', 'polygon',
+  'text', 'tspan', 'defs', 'lineargradient', 'radialgradient', 'stop',
+];
+
+// Dropped together with their content; any other unknown element is unwrapped
+const DROPPED_TAGS = ['script', 'noscript', 'template', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet',
+  'link', 'meta', 'base', 'title', 'form', 'input', 'textarea', 'select', 'option', 'audio', 'video', 'source', 'track',
+  'canvas', 'foreignobject', 'use', 'image', 'animate', 'set', 'math'];
+
+const HTML_ATTRIBUTES = ['class', 'style', 'id', 'title', 'alt', 'src', 'width', 'height', 'colspan', 'rowspan', 'href', 'role', 'dir', 'lang'];
+
+const SVG_ATTRIBUTES = ['viewbox', 'xmlns', 'd', 'fill', 'fill-opacity', 'fill-rule', 'clip-rule', 'stroke', 'stroke-width',
+  'stroke-linecap', 'stroke-linejoin', 'stroke-opacity', 'stroke-dasharray', 'opacity', 'transform',
+  'cx', 'cy', 'r', 'rx', 'ry', 'x', 'y', 'x1', 'y1', 'x2', 'y2', 'points', 'offset', 'stop-color', 'stop-opacity',
+  'gradientunits', 'gradienttransform', 'font-family', 'font-size', 'font-weight', 'text-anchor', 'dominant-baseline',
+  'preserveaspectratio'];
+
+const ALLOWED_TAGS = new Set([...HTML_TAGS, ...SVG_TAGS]);
+const DROPPED = new Set(DROPPED_TAGS);
+const ALLOWED_ATTRIBUTES = new Set([...HTML_ATTRIBUTES, ...SVG_ATTRIBUTES]);
+
+// Images may come from the web, inline data (uploads, SVG placeholders) or object URLs
+const SAFE_IMAGE_URL = /^(https:|data:image\/(png|jpe?g|gif|webp|avif|svg\+xml)[;,]|blob:)/i;
+const SAFE_LINK_URL = /^(https?:|mailto:|#)/i;
+// `url(...)` references in inline styles and <style> blocks; in-page `#id` references are kept
+const CSS_URL = /url\(\s*(['"]?)(.*?)\1\s*\)/gi;
+
+const isSafeAttribute = (name: string) =>
+  ALLOWED_ATTRIBUTES.has(name) || name.startsWith('aria-') || name.startsWith('data-');
+
+const sanitizeCss = (css: string) =>
+  css
+    .replace(/@import[^;]*;?/gi, '')
+    .replace(/expression\s*\(/gi, '')
+    .replace(CSS_URL, (match, _quote, url: string) => SAFE_IMAGE_URL.test(url.trim()) || url.trim().startsWith('#') ? match : 'none');
+
+const sanitizeElement = (element: Element) => {
+  for (const child of Array.from(element.children)) {
+    const tag = child.tagName.toLowerCase();
+    if (DROPPED.has(tag)) {
+      child.remove();
+      continue;
+    }
+    sanitizeElement(child);
+    if (!ALLOWED_TAGS.has(tag)) {
+      child.replaceWith(...Array.from(child.childNodes));
+      continue;
+    }
+    if (tag === 'style') {
+      child.textContent = sanitizeCss(child.textContent || '');
+      continue;
+    }
+    for (const attribute of Array.from(child.attributes)) {
+      const name = attribute.name.toLowerCase();
+      const value = attribute.value.trim();
+      const unsafe = !isSafeAttribute(name)
+        || (name === 'src' && !SAFE_IMAGE_URL.test(value))
+        || (name === 'href' && (tag !== 'a' || !SAFE_LINK_URL.test(value)));
+      if (unsafe) child.removeAttribute(attribute.name);
+      else if (name === 'style') child.setAttribute('style', sanitizeCss(attribute.value));
+    }
+    if (tag === 'a') child.setAttribute('rel', 'noopener noreferrer');
+  }
+};
+
+/**
+ * Strip `html` down to the allow-list. A full document is reduced to its body, keeping any
+ * <style> blocks from its head.
+ */
+export const sanitizeGeneratedHtml = (html: string): string => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const styles = Array.from(doc.head.querySelectorAll('style'));
+  doc.body.prepend(...styles);
+  sanitizeElement(doc.body);
+  // Comments can hide conditional markup; nothing generated needs them
+  const comments = doc.createTreeWalker(doc.body, NodeFilter.SHOW_COMMENT);
+  const found: Node[] = [];
+  while (comments.nextNode()) found.push(comments.currentNode);
+  found.forEach(node => node.parentNode?.removeChild(node));
+  return doc.body.innerHTML;
+};
@@ -0,0 +1,232 @@
+import { AppMode, BackgroundJob, BackgroundJobKind, BackgroundJobSpec, ProductImage, TargetMarket, AnalysisData } from "../types";
+import { VideoOperationError, analyzeProduct, generateBatchAssets, generateHeroHtml, generateSkuUiLayout, startProductVideo, waitForProductVideo } from "./gemini";
+import { AnalysisSchemaError } from "./analysisSchema";
+import { RequestCancelledError, RequestOptions, RequestTimeoutError, describeRequestError, isCancelledError } from "./requestControl";
+import { saveJob } from "./jobStore";
+import { assertWithinDailyBudget } from "./usageStore";
+
+/**
+ * Long-running generations run here rather than inside a component, so they keep going when
+ * the user switches mode or logs out. Every state change is persisted (for signed-in users)
+ * and broadcast to subscribers; after a reload the app hands running jobs back to `resumeJob`.
+ * Writing results into products and history is up to the subscriber. New jobs (and retries)
+ * are refused once the user's daily budget is spent; jobs already running carry on.
+ */
+
+type JobListener = (job: BackgroundJob) => void;
+
+const listeners = new Set<JobListener>();
+const controllers = new Map<string, AbortController>();
+
+export const JOB_LABELS: Record<BackgroundJobKind, string> = {
+  video: '视频生成',
+  batchImages: '批量配图',
+  hero: '首图生成',
+  sku: '详情页生成',
+  compare: '多市场对比',
+};
+
+// The mode each kind is launched from, for usage attribution
+const JOB_MODES: Record<BackgroundJobKind, AppMode> = {
+  video: AppMode.VEO_VIDEO,
+  batchImages: AppMode.IMAGE_EDIT,
+  hero: AppMode.IMAGE_EDIT,
+  sku: AppMode.IMAGE_EDIT,
+  compare: AppMode.ANALYSIS,
+};
+
+const FAILURE_MESSAGES: Record<BackgroundJobKind, string> = {
+  video: '视频生成失败',
+  batchImages: '批量生成失败',
+  hero: '首图生成失败',
+  sku: '详情页生成失败',
+  compare: '所有市场分析均失败',
+};
+
+export const subscribeJobs = (listener: JobListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const publish = (job: BackgroundJob) => {
+  listeners.forEach(listener => listener(job));
+  saveJob(job).catch(error => console.error("Failed to persist job:", error));
+};
+
+const toBase64 = (image: ProductImage) => image.dataUrl.split(',')[1];
+
+const describeMarketError = (error: unknown) =>
+  error instanceof AnalysisSchemaError ? '结果格式不符合要求'
+    : error instanceof RequestTimeoutError ? '请求超时'
+    : describeRequestError(error, '分析失败');
+
+/**
+ * Run one job to completion, reporting intermediate state through `update`. Resolves to
+ * the final fields to merge into the job.
+ */
+const execute = async (
+  job: BackgroundJob,
+  options: RequestOptions,
+  update: (patch: Partial<BackgroundJob>) => void
+): Promise<Partial<BackgroundJob>> => {
+  switch (job.kind) {
+    case 'video': {
+      const { image, prompt, aspectRatio } = job.input;
+      let operation = job.operation;
+      if (!operation) {
+        operation = await startProductVideo(toBase64(image), image.mimeType, prompt, aspectRatio, options);
+        update({ operation });
+      }
+      try {
+        return { result: { videoUrl: await waitForProductVideo(operation, options) } };
+      } catch (error) {
+        // Only a failed operation is dropped; after a timeout or network error it is still running
+        if (error instanceof VideoOperationError) update({ operation: undefined });
+        throw error;
+      }
+    }
+    case 'batchImages': {
+      const { image, prompts } = job.input;
+      const results = await generateBatchAssets(toBase64(image), image.mimeType, prompts, options);
+      const images = results.filter(r => r.success).map(r => ({ id: r.id, label: r.label, url: r.url }));
+      if (images.length === 0) throw new Error('Every image in the batch failed');
+      return { result: { images } };
+    }
+    case 'hero': {
+      const { images, analysisContext, style, prompt, forceRefresh } = job.input;
+      const cache: { cachedAt?: number } = {};
+      const html = await generateHeroHtml(images, analysisContext, style, job.market, prompt, {
+        ...options,
+        forceRefresh,
+        onCacheHit: hit => { cache.cachedAt = hit.cachedAt; },
+      });
+      return { result: { html, cachedAt: cache.cachedAt } };
+    }
+    case 'sku': {
+      const { images, analysisContext, style, prompt, forceRefresh } = job.input;
+      const cache: { cachedAt?: number } = {};
+      const page = await generateSkuUiLayout(images, analysisContext, style, job.market, prompt, {
+        ...options,
+        forceRefresh,
+        onCacheHit: hit => { cache.cachedAt = hit.cachedAt; },
+      });
+      return { result: { ...page, cachedAt: cache.cachedAt } };
+    }
+    case 'compare': {
+      const { images, prompt, markets } = job.input;
+      const analyses: Partial<Record<TargetMarket, AnalysisData>> = { ...job.result?.analyses };
+      const errors: Partial<Record<TargetMarket, string>> = {};
+      update({ result: { analyses, errors } });
+      await Promise.all(markets.filter(market => !analyses[market]).map(async market => {
+        try {
+          analyses[market] = await analyzeProduct(images, prompt, market, options);
+        } catch (error) {
+          if (isCancelledError(error)) return;
+          console.error(`Comparison analysis failed for ${market}:`, error);
+          errors[market] = describeMarketError(error);
+        }
+        update({ result: { analyses: { ...analyses }, errors: { ...errors } } });
+      }));
+      if (options.signal?.aborted) throw new RequestCancelledError();
+      if (Object.keys(analyses).length === 0) throw new Error('Every market analysis failed');
+      return { result: { analyses, errors } };
+    }
+  }
+};
+
+const notifyFinished = (job: BackgroundJob) => {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+  const heading = job.status === 'done' ? `${JOB_LABELS[job.kind]}已完成` : `${JOB_LABELS[job.kind]}失败`;
+  new Notification(heading, { body: job.error ? `${job.title}\n${job.error}` : job.title, tag: job.id });
+};
+
+const run = async (initial: BackgroundJob) => {
+  const controller = new AbortController();
+  controllers.set(initial.id, controller);
+  let job = initial;
+  const update = (patch: Partial<BackgroundJob>) => {
+    job = { ...job, ...patch, updatedAt: Date.now() } as BackgroundJob;
+    publish(job);
+  };
+  update({});
+
+  const options: RequestOptions = {
+    signal: controller.signal,
+    onRetry: info => update({ retry: { ...info, retryAt: Date.now() + info.delayMs } }),
+    attribution: { userId: job.userId, productId: job.productId, mode: JOB_MODES[job.kind] },
+  };
+  try {
+    const patch = await execute(job, options, update);
+    update({ ...patch, status: 'done', retry: undefined });
+    notifyFinished(job);
+  } catch (error) {
+    if (isCancelledError(error) || controller.signal.aborted) {
+      update({ status: 'cancelled', retry: undefined });
+    } else {
+      console.error(`Job ${job.id} (${job.kind}) failed:`, error);
+      update({ status: 'failed', error: describeRequestError(error, FAILURE_MESSAGES[job.kind]), retry: undefined });
+      notifyFinished(job);
+    }
+  } finally {
+    controllers.delete(job.id);
+  }
+};
+
+/**
+ * Ask for notification permission. Call from a click handler; browsers ignore the prompt otherwise.
+ */
+export const requestJobNotifications = () => {
+  if (typeof Notification !== 'undefined' && Notification.permission === 'default') {
+    Notification.requestPermission().catch(() => undefined);
+  }
+};
+
+/**
+ * Start a job. Rejects with `BudgetExceededError` when the user's daily budget is spent.
+ */
+export const startJob = async (
+  spec: BackgroundJobSpec & Pick<BackgroundJob, 'userId' | 'productId' | 'market' | 'title'>
+): Promise<BackgroundJob> => {
+  requestJobNotifications();
+  await assertWithinDailyBudget(spec.userId);
+  const now = Date.now();
+  const job = {
+    ...spec,
+    id: `job_${now}_${Math.random().toString(36).substr(2, 5)}`,
+    status: 'running',
+    createdAt: now,
+    updatedAt: now,
+  } as BackgroundJob;
+  run(job);
+  return job;
+};
+
+/**
+ * Pick up a job that was running when the page unloaded. Video polls its stored operation;
+ * other kinds are re-submitted from their input (comparisons skip markets already done).
+ */
+export const resumeJob = (job: BackgroundJob) => {
+  if (job.status !== 'running' || controllers.has(job.id)) return;
+  run(job);
+};
+
+export const retryJob = async (job: BackgroundJob) => {
+  if (controllers.has(job.id)) return;
+  await assertWithinDailyBudget(job.userId);
+  // Video resumes polling its operation if it still has one, so a retry does not pay for a new generation
+  run({ ...job, status: 'running', error: undefined } as BackgroundJob);
+};
+
+export const cancelJob = (id: string) => controllers.get(id)?.abort();
+
+export const markJobAttached = (job: BackgroundJob) => {
+  publish({ ...job, attached: true });
+};
+
+/** Note that a comparison market's analysis has been recorded in history. */
+export const markMarketSaved = (job: Extract<BackgroundJob, { kind: 'compare' }>, market: TargetMarket) => {
+  if (job.savedMarkets?.includes(market)) return;
+  publish({ ...job, savedMarkets: [...(job.savedMarkets ?? []), market] });
+};
@@ -0,0 +1,42 @@
+import { BackgroundJob } from "../types";
+import { JOBS_STORE, openDb, requestToPromise, transactionDone } from "./db";
+
+/**
+ * Background jobs, persisted per `User.id` so running generations survive a reload.
+ * Finished jobs are kept as a short log; older ones are dropped when the list is loaded.
+ */
+
+const MAX_FINISHED_JOBS = 30;
+
+/**
+ * List a user's jobs, newest first, pruning finished jobs beyond the log size.
+ */
+export const loadJobs = async (userId: string): Promise<BackgroundJob[]> => {
+  const db = await openDb();
+  const tx = db.transaction(JOBS_STORE, 'readonly');
+  const jobs = await requestToPromise<BackgroundJob[]>(tx.objectStore(JOBS_STORE).index('userId').getAll(userId));
+  jobs.sort((a, b) => b.createdAt - a.createdAt);
+
+  const finished = jobs.filter(job => job.status !== 'running');
+  // Unattached results are kept until they have made it into history
+  const expired = finished.slice(MAX_FINISHED_JOBS).filter(job => job.status !== 'done' || job.attached);
+  if (expired.length > 0) await deleteJobs(expired.map(job => job.id));
+  return jobs.filter(job => !expired.includes(job));
+};
+
+export const saveJob = async (job: BackgroundJob) => {
+  if (!job.userId) return;
+  const { retry: _pending, ...record } = job;
+  const db = await openDb();
+  const tx = db.transaction(JOBS_STORE, 'readwrite');
+  tx.objectStore(JOBS_STORE).put(record);
+  await transactionDone(tx);
+};
+
+export const deleteJobs = async (ids: string[]) => {
+  if (ids.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(JOBS_STORE, 'readwrite');
+  ids.forEach(id => tx.objectStore(JOBS_STORE).delete(id));
+  await transactionDone(tx);
+};
@@ -0,0 +1,68 @@
+import { LogisticsChannel, ShippingZone, TargetMarket } from "../types";
+import { getMarketProfile } from "./marketProfiles";
+
+export type { LogisticsChannel, ShippingZone };
+
+export const getCurrencySymbol = (m: TargetMarket) => getMarketProfile(m).currency.symbol;
+
+/**
+ * Shopee-style standard channel fee in local currency for a parcel of `units` x 10g.
+ */
+export const getStandardShippingLocal = (market: TargetMarket, units: number, zone: ShippingZone): number =>
+  getMarketProfile(market).shipping.standardFee(units, zone);
+
+export interface ParcelSpec {
+  weightKg: number;
+  length: number;
+  width: number;
+  height: number;
+}
+
+export interface ShippingEstimate {
+  volumetricWeight: number;
+  chargeableWeightKg: number;
+  shippingCostLocal: number;
+  shippingCostCNY: number;
+}
+
+/**
+ * Estimate the shipping cost of one parcel. Shared by the calculator and the market comparison matrix.
+ */
+export const estimateShipping = (
+  market: TargetMarket,
+  parcel: ParcelSpec,
+  channel: LogisticsChannel,
+  zone: ShippingZone
+): ShippingEstimate => {
+  const exchangeRate = getMarketProfile(market).currency.perCny;
+
+  // 1. Weight Calculation
+  const volWeight = (parcel.length * parcel.width * parcel.height) / 6000;
+  const chargeWeightKg = Math.max(parcel.weightKg, volWeight);
+  const chargeWeightG = Math.ceil(chargeWeightKg * 1000 / 10) * 10;
+  const units = chargeWeightG / 10;
+
+  let shippingLocal = 0;
+  let shippingCNY = 0;
+
+  if (channel === 'standard') {
+    shippingLocal = getStandardShippingLocal(market, units, zone);
+    shippingCNY = shippingLocal / exchangeRate;
+  } else {
+    const pricePerKg = getMarketProfile(market).shipping.bulkPerKg[channel];
+    if (pricePerKg === undefined) throw new Error(`No ${channel} shipping to ${market}`);
+    const minWeight = channel === 'sea' ? 10 : 0.1;
+    const finalWeight = chargeWeightKg < minWeight ? minWeight : chargeWeightKg;
+    shippingCNY = finalWeight * pricePerKg;
+    shippingLocal = shippingCNY * exchangeRate;
+  }
+
+  return {
+    volumetricWeight: volWeight,
+    chargeableWeightKg: chargeWeightKg,
+    shippingCostLocal: shippingLocal,
+    shippingCostCNY: shippingCNY
+  };
+};
+
+export const toCNY = (market: TargetMarket, amountLocal: number) => amountLocal / getMarketProfile(market).currency.perCny;
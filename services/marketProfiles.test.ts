@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getMarketProfile, MarketProfile, validateMarketProfile, validateMarketProfiles } from './marketProfiles';
+
+test('every shipped market profile is complete', () => {
+  assert.deepEqual(validateMarketProfiles(), []);
+});
+
+test('a half-configured profile is reported field by field', () => {
+  const thailand = getMarketProfile('TH');
+  const broken: MarketProfile = {
+    ...thailand,
+    name: ' ',
+    accentColor: 'red',
+    currency: { ...thailand.currency, code: 'baht', perCny: 0 },
+    translationLanguages: ['zh', 'th', 'th'],
+    platforms: [],
+  };
+  assert.deepEqual(validateMarketProfile('TH', broken), [
+    'TH: name: is empty',
+    'TH: accentColor: expected a #rrggbb colour',
+    'TH: currency.code: expected an ISO 4217 code',
+    'TH: currency.perCny: must be positive',
+    "TH: translationLanguages: 'zh' is the source language, not a target",
+    'TH: translationLanguages: lists a language twice',
+    'TH: platforms: must list at least one platform',
+  ]);
+});
+
+test('a profile filed under the wrong market is reported', () => {
+  assert.deepEqual(validateMarketProfile('VN', getMarketProfile('TH')), ['VN: code: expected VN, got TH']);
+});
+
+test('shipping fees that fall with weight are reported', () => {
+  const thailand = getMarketProfile('TH');
+  const zone = thailand.shipping.zones[0].zones[0];
+  const broken: MarketProfile = {
+    ...thailand,
+    shipping: { ...thailand.shipping, standardFee: units => 100 - units / 2 },
+  };
+  assert.ok(validateMarketProfile('TH', broken).includes(`TH: shipping.standardFee: zone ${zone} is cheaper at 1kg than at 10g`));
+});
@@ -0,0 +1,363 @@
+import { ContentLanguage, LogisticsChannel, ShippingZone, TargetMarket } from "../types";
+
+/**
+ * Everything the app knows about a target market: prompt context, currency, languages,
+ * shipping zones and rate formulas, and the local promo calendar. Adding or adjusting a
+ * market only touches this file; `marketProfiles.test.ts` fails on an incomplete profile.
+ */
+
+export type BulkChannel = Exclude<LogisticsChannel, 'standard'>;
+
+export interface ShippingZoneColumn {
+  label: string;
+  zones: ShippingZone[]; // zones billed at the same fee; the first is the one selected
+}
+
+export interface PromoEvent {
+  when: string;
+  name: string;
+}
+
+export interface MarketProfile {
+  code: TargetMarket;
+  name: string; // Chinese, as shown in the UI
+  englishName: string; // as written into prompts
+  flag: string;
+  locale: string; // BCP 47
+  accentColor: string; // price chart bars
+  currency: {
+    code: string; // ISO 4217, pinned in the analysis schema
+    name: string;
+    symbol: string;
+    perCny: number; // approximate exchange rate
+    priceStep?: number; // suggested prices are rounded up to this step
+  };
+  languages: {
+    keywords: string[]; // ISO 639-1 codes allowed for search keywords
+    keywordsLabel: string;
+  };
+  translationLanguages: ContentLanguage[]; // offered in the page editors; the first is the default
+  platforms: string[];
+  culture: string; // consumer culture notes for the analysis prompt
+  agentNotes: string; // one-line expert notes for the Live Agent
+  listingContext: string; // audience and storefront notes for hero images
+  shipping: {
+    zones: ShippingZoneColumn[];
+    standardFee: (units: number, zone: ShippingZone) => number; // local currency for `units` x 10g
+    bulkPerKg: Partial<Record<BulkChannel, number>>; // CNY; channels not offered to this market are left out
+    tableMaxGrams: number; // rows shown in the Standard price table
+  };
+  promoCalendar: PromoEvent[];
+}
+
+// Fee for the first 10g unit plus `perUnit` for each further one
+const firstUnitPlus = (base: number, perUnit: number, units: number) => base + Math.max(units - 1, 0) * perUnit;
+
+const PROFILES: Record<TargetMarket, MarketProfile> = {
+  TH: {
+    code: 'TH',
+    name: '泰国',
+    englishName: 'Thailand',
+    flag: '🇹🇭',
+    locale: 'th-TH',
+    accentColor: '#0d9488',
+    currency: { code: 'THB', name: '泰铢', symbol: '฿', perCny: 5.0 },
+    languages: { keywords: ['th'], keywordsLabel: '泰语 (Thai)' },
+    translationLanguages: ['th', 'en'],
+    platforms: ['Shopee TH', 'Lazada TH', 'TikTok Shop Thailand', 'Line Shopping', 'Konvy (美妆)'],
+    culture: '注重视觉营销 (直播/短视频)、KOL 影响力大、偏好鲜艳色彩、佛教节日营销、Line 社交电商普及。',
+    agentNotes: '佛教文化、颜色喜好（鲜艳）、TikTok/Shopee。关键词: 泰语。',
+    listingContext: 'Thailand (Shopee TH). Vibrant, colorful.',
+    shipping: {
+      zones: [{ label: 'Zone A', zones: ['A'] }, { label: 'Zone B', zones: ['B'] }, { label: 'Zone C', zones: ['C'] }],
+      // Buyer fee by zone + 1 per 10g
+      standardFee: (units, zone) => (zone === 'A' ? 23 : zone === 'B' ? 36 : 79) + units * 1,
+      bulkPerKg: { land: 6, air: 25, sea: 3 },
+      tableMaxGrams: 1000,
+    },
+    promoCalendar: [
+      { when: '4 月中旬', name: '宋干节 (泼水节)' },
+      { when: '9 月 9 日', name: 'Shopee / Lazada 9.9' },
+      { when: '11 月', name: '11.11 大促 · 水灯节' },
+      { when: '12 月 12 日', name: '12.12 年终大促' },
+    ],
+  },
+  VN: {
+    code: 'VN',
+    name: '越南',
+    englishName: 'Vietnam',
+    flag: '🇻🇳',
+    locale: 'vi-VN',
+    accentColor: '#6366f1',
+    currency: { code: 'VND', name: '越南盾', symbol: '₫', perCny: 3500, priceStep: 100 },
+    languages: { keywords: ['vi'], keywordsLabel: '越南语 (Vietnamese)' },
+    translationLanguages: ['vi', 'en'],
+    platforms: ['Shopee VN', 'Lazada VN', 'TikTok Shop Vietnam', 'Tiki (注重正品)', 'Sendo', 'Facebook Marketplace (极度活跃)'],
+    culture: '价格高度敏感、年轻化人口红利、Zalo/Facebook 社交电商极其发达、摩托车出行文化（防晒/雨具）、货到付款 (COD) 仍占主流。',
+    agentNotes: '价格敏感、年轻人口、Zalo/Facebook 营销。关键词: 越南语。',
+    listingContext: 'Vietnam (Shopee VN). Price focus, clear info.',
+    shipping: {
+      // Economy: zone A from 15.9k, B/C from 17.9k, D from 30.9k, + 900 per further 10g
+      zones: [{ label: 'Zone A', zones: ['A'] }, { label: 'Zone B/C', zones: ['B', 'C'] }, { label: 'Zone D', zones: ['D'] }],
+      standardFee: (units, zone) => firstUnitPlus(zone === 'D' ? 30900 : zone === 'A' ? 15900 : 17900, 900, units),
+      bulkPerKg: { land: 4, air: 18, sea: 2 },
+      tableMaxGrams: 500,
+    },
+    promoCalendar: [
+      { when: '1-2 月', name: '春节 (Tết) 备货季' },
+      { when: '9 月 9 日', name: 'Shopee / Lazada 9.9' },
+      { when: '11 月 11 日', name: '11.11 大促' },
+      { when: '11 月下旬', name: '黑色星期五' },
+    ],
+  },
+  PH: {
+    code: 'PH',
+    name: '菲律宾',
+    englishName: 'Philippines',
+    flag: '🇵🇭',
+    locale: 'en-PH',
+    accentColor: '#6366f1',
+    currency: { code: 'PHP', name: '菲律宾比索', symbol: '₱', perCny: 8.0 },
+    languages: { keywords: ['en', 'tl'], keywordsLabel: '英语 (English) 或他加禄语 (Tagalog)' },
+    translationLanguages: ['en', 'tl'],
+    platforms: ['Shopee PH', 'Lazada PH', 'TikTok Shop Philippines', 'Zalora', 'Facebook Marketplace'],
+    culture: '深受美式文化影响、英语普及率高、天主教节日多 (圣诞节极长)、极其依赖 COD (货到付款)、对价格敏感但喜欢赠品 (Freebie)、喜欢色彩鲜艳风格。',
+    agentNotes: '天主教、英语/Tagalog、喜欢促销/赠品。关键词: 英语/Taglish。',
+    listingContext: 'Philippines (Shopee PH). English/Taglish.',
+    shipping: {
+      zones: [{ label: 'Manila', zones: ['A'] }, { label: 'Other', zones: ['B'] }],
+      // Buyer fee by zone + 4.5 per 10g
+      standardFee: (units, zone) => (zone === 'A' ? 40 : 60) + units * 4.5,
+      bulkPerKg: { land: 8, air: 35, sea: 5 },
+      tableMaxGrams: 1000,
+    },
+    promoCalendar: [
+      { when: '每月 15 / 30 日', name: '发薪日大促 (Payday Sale)' },
+      { when: '9 月起', name: '"Ber Months" 圣诞季开始' },
+      { when: '11 月 11 日', name: '11.11 大促' },
+      { when: '12 月 12 日', name: '12.12 圣诞大促' },
+    ],
+  },
+  MY: {
+    code: 'MY',
+    name: '马来西亚',
+    englishName: 'Malaysia',
+    flag: '🇲🇾',
+    locale: 'ms-MY',
+    accentColor: '#6366f1',
+    currency: { code: 'MYR', name: '马来西亚林吉特', symbol: 'RM', perCny: 0.65 },
+    languages: { keywords: ['en', 'ms'], keywordsLabel: '英语 (English) 或马来语 (Malay)' },
+    translationLanguages: ['ms', 'en'],
+    platforms: ['Shopee MY', 'Lazada MY', 'TikTok Shop Malaysia', 'PG Mall', 'Zalora (时尚)'],
+    culture: '三大种族 (马来/华/印) 融合、伊斯兰教 Halal 认证 (食品/美妆)、对华流/韩流接受度高、西马东马物流时效差异大。',
+    agentNotes: '多元种族、清真(Halal)意识、西马/东马物流差异。关键词: 英语/马来语。',
+    listingContext: 'Malaysia. Multicultural, Halal-friendly if food.',
+    shipping: {
+      // West from 4.65, East from 8.15, + 0.15 per further 10g
+      zones: [{ label: 'West (西马)', zones: ['A'] }, { label: 'East (东马)', zones: ['B'] }],
+      standardFee: (units, zone) => firstUnitPlus(zone === 'B' ? 8.15 : 4.65, 0.15, units),
+      bulkPerKg: { land: 7, air: 28, sea: 4 },
+      tableMaxGrams: 1000,
+    },
+    promoCalendar: [
+      { when: '斋月 (按伊斯兰历)', name: 'Ramadan / 开斋节 (Hari Raya)' },
+      { when: '9 月 9 日', name: 'Shopee / Lazada 9.9' },
+      { when: '11 月 11 日', name: '11.11 大促' },
+      { when: '12 月 12 日', name: '12.12 年终大促' },
+    ],
+  },
+  SG: {
+    code: 'SG',
+    name: '新加坡',
+    englishName: 'Singapore',
+    flag: '🇸🇬',
+    locale: 'en-SG',
+    accentColor: '#6366f1',
+    currency: { code: 'SGD', name: '新加坡元', symbol: 'S$', perCny: 0.19 },
+    languages: { keywords: ['en'], keywordsLabel: '英语 (English)' },
+    translationLanguages: ['en'],
+    platforms: ['Shopee SG', 'Lazada SG', 'Amazon SG', 'Qoo10', 'Carousell (二手/C2C)', 'Zalora'],
+    culture: '极高消费力、英语为主、追求配送时效 (Next Day Delivery)、品牌意识强、空间有限 (收纳/小家电受欢迎)、西化生活方式。',
+    agentNotes: '高消费力、追求品质效率、全英文环境。关键词: 英语。',
+    listingContext: 'Singapore. Premium, Clean, English.',
+    shipping: {
+      // From 1.50, + 0.15 per further 10g
+      zones: [{ label: 'All Regions', zones: ['A'] }],
+      standardFee: units => firstUnitPlus(1.5, 0.15, units),
+      bulkPerKg: { land: 8, air: 30, sea: 5 },
+      tableMaxGrams: 1000,
+    },
+    promoCalendar: [
+      { when: '1-2 月', name: '农历新年' },
+      { when: '9 月 9 日', name: 'Shopee / Lazada 9.9' },
+      { when: '11 月', name: '11.11 · 黑色星期五' },
+      { when: '12 月', name: '12.12 · 圣诞季' },
+    ],
+  },
+  ID: {
+    code: 'ID',
+    name: '印尼',
+    englishName: 'Indonesia',
+    flag: '🇮🇩',
+    locale: 'id-ID',
+    accentColor: '#6366f1',
+    currency: { code: 'IDR', name: '印尼卢比', symbol: 'Rp', perCny: 2200, priceStep: 100 },
+    languages: { keywords: ['id'], keywordsLabel: '印尼语 (Bahasa Indonesia)' },
+    translationLanguages: ['id', 'en'],
+    platforms: ['Shopee ID', 'Tokopedia (本土巨头)', 'Lazada ID', 'TikTok Shop', 'Bukalapak', 'Blibli'],
+    culture: '世界最大的穆斯林国家 (注意宗教禁忌)、千岛之国 (物流成本高/慢)、移动端渗透率极高、喜爱促销折扣 (Tanggal Kembar)、本土品牌保护主义。',
+    agentNotes: '穆斯林文化、千岛物流痛点、Tokopedia/Shopee。关键词: 印尼语。',
+    listingContext: 'Indonesia. Bahasa Indonesia, Mobile-first.',
+    shipping: {
+      // Jawa from 10000, Luar Jawa from 20000, + 1000 per further 10g
+      zones: [{ label: 'Jawa', zones: ['A'] }, { label: 'Luar Jawa', zones: ['B'] }],
+      standardFee: (units, zone) => firstUnitPlus(zone === 'A' ? 10000 : 20000, 1000, units),
+      bulkPerKg: { land: 10, air: 40, sea: 6 },
+      tableMaxGrams: 500,
+    },
+    promoCalendar: [
+      { when: '斋月 (按伊斯兰历)', name: 'Ramadan / 开斋节 (Lebaran)' },
+      { when: '每月日期=月份', name: 'Tanggal Kembar 双号大促 (如 9.9 / 10.10)' },
+      { when: '12 月 12 日', name: 'Harbolnas 全国网购日' },
+    ],
+  },
+  TW: {
+    code: 'TW',
+    name: '台湾',
+    englishName: 'Taiwan',
+    flag: '🇹🇼',
+    locale: 'zh-TW',
+    accentColor: '#6366f1',
+    currency: { code: 'TWD', name: '新台币', symbol: 'NT$', perCny: 4.4 },
+    languages: { keywords: ['zh'], keywordsLabel: '繁体中文 (Traditional Chinese)' },
+    translationLanguages: ['zh-TW'],
+    platforms: ['Shopee TW (蝦皮購物)', 'momo 購物網', 'PChome 24h', 'Yahoo! 奇摩購物中心', 'Pinkoi (设计品)'],
+    culture: '繁体中文与台湾用语 (如「質感」「CP 值」)、重视评价与开箱分享、7-11/全家超商取货极其普及、偏好日系与可爱风格、电器类需 BSMI/NCC 认证、食品需符合食药署标示规范。',
+    agentNotes: '繁体中文、重视 CP 值与评价、超商取货、日系/可爱风。关键词: 繁体中文。',
+    listingContext: 'Taiwan (Shopee TW). Traditional Chinese copy, detail-rich, Japanese-influenced cute or clean aesthetics.',
+    shipping: {
+      // Cross-border SLS (estimates): store pickup from 60, home delivery from 100, + 0.7 per further 10g
+      zones: [{ label: '超商取货', zones: ['A'] }, { label: '宅配到府', zones: ['B'] }],
+      standardFee: (units, zone) => firstUnitPlus(zone === 'B' ? 100 : 60, 0.7, units),
+      bulkPerKg: { air: 22, sea: 6 }, // no overland route
+      tableMaxGrams: 1000,
+    },
+    promoCalendar: [
+      { when: '1-2 月', name: '农历新年 (年货节)' },
+      { when: '5 月', name: '母亲节' },
+      { when: '10-11 月', name: '百货周年庆' },
+      { when: '11 月 11 日', name: '双 11 大促' },
+      { when: '12 月 12 日', name: '双 12 年终大促' },
+    ],
+  },
+  KH: {
+    code: 'KH',
+    name: '柬埔寨',
+    englishName: 'Cambodia',
+    flag: '🇰🇭',
+    locale: 'km-KH',
+    accentColor: '#6366f1',
+    // Online prices are quoted in US dollars; riel is mostly used for change
+    currency: { code: 'USD', name: '美元', symbol: 'US$', perCny: 0.14 },
+    languages: { keywords: ['km', 'en'], keywordsLabel: '高棉语 (Khmer) 或英语 (English)' },
+    translationLanguages: ['km', 'en'],
+    platforms: ['Facebook 主页与直播', 'Telegram 社群', 'TikTok', 'Khmer24 (分类信息)', 'Little Fashion (时尚)'],
+    culture: '佛教国家、美元与瑞尔并行 (线上多以美元标价)、Facebook/Telegram 社交电商为主、货到付款普遍、物流与消费集中在金边、对泰国/越南/中国商品接受度高、价格敏感。',
+    agentNotes: '佛教文化、美元标价、Facebook/Telegram 社交电商、货到付款。关键词: 高棉语/英语。',
+    listingContext: 'Cambodia. Khmer/English, social commerce on Facebook and Telegram, USD pricing.',
+    shipping: {
+      // Cross-border economy (estimates): Phnom Penh from 1.50, provinces from 2.50, + 0.08 per further 10g
+      zones: [{ label: '金边 (Phnom Penh)', zones: ['A'] }, { label: '外省 (Provinces)', zones: ['B'] }],
+      standardFee: (units, zone) => firstUnitPlus(zone === 'B' ? 2.5 : 1.5, 0.08, units),
+      bulkPerKg: { land: 9, air: 32, sea: 5 },
+      tableMaxGrams: 1000,
+    },
+    promoCalendar: [
+      { when: '4 月中旬', name: '高棉新年 (Choul Chnam Thmey)' },
+      { when: '9-10 月', name: '亡人节 (Pchum Ben)' },
+      { when: '11 月', name: '送水节 · 11.11' },
+      { when: '12 月 12 日', name: '12.12 年终促销' },
+    ],
+  },
+};
+
+// Display order across the app
+const MARKET_ORDER: TargetMarket[] = ['TH', 'VN', 'PH', 'MY', 'SG', 'ID', 'TW', 'KH'];
+
+export const MARKET_PROFILES: MarketProfile[] = MARKET_ORDER.map(code => PROFILES[code]);
+
+export const getMarketProfile = (code: TargetMarket): MarketProfile => PROFILES[code];
+
+/**
+ * Problems that would leave a market half-configured, as "CODE: field: issue" lines.
+ */
+export const validateMarketProfile = (key: TargetMarket, profile: MarketProfile): string[] => {
+  const issues: string[] = [];
+  const issue = (field: string, message: string) => issues.push(`${key}: ${field}: ${message}`);
+  const requireText = (field: string, value: string) => {
+    if (!value?.trim()) issue(field, 'is empty');
+  };
+
+  if (profile.code !== key) issue('code', `expected ${key}, got ${profile.code}`);
+  requireText('name', profile.name);
+  requireText('englishName', profile.englishName);
+  requireText('flag', profile.flag);
+  requireText('culture', profile.culture);
+  requireText('agentNotes', profile.agentNotes);
+  requireText('listingContext', profile.listingContext);
+  requireText('currency.name', profile.currency.name);
+  requireText('currency.symbol', profile.currency.symbol);
+  requireText('languages.keywordsLabel', profile.languages.keywordsLabel);
+
+  try {
+    new Intl.NumberFormat(profile.locale);
+  } catch {
+    issue('locale', `${JSON.stringify(profile.locale)} is not a valid locale`);
+  }
+  if (!/^#[0-9a-f]{6}$/i.test(profile.accentColor)) issue('accentColor', 'expected a #rrggbb colour');
+  if (!/^[A-Z]{3}$/.test(profile.currency.code)) issue('currency.code', 'expected an ISO 4217 code');
+  if (!(profile.currency.perCny > 0)) issue('currency.perCny', 'must be positive');
+  if (profile.currency.priceStep !== undefined && !(profile.currency.priceStep > 0)) issue('currency.priceStep', 'must be positive');
+  if (profile.languages.keywords.length === 0) issue('languages.keywords', 'is empty');
+  profile.languages.keywords.forEach(code => {
+    if (!/^[a-z]{2}$/.test(code)) issue('languages.keywords', `${JSON.stringify(code)} is not an ISO 639-1 code`);
+  });
+  if (profile.translationLanguages.length === 0) issue('translationLanguages', 'is empty');
+  if (profile.translationLanguages.includes('zh')) issue('translationLanguages', "'zh' is the source language, not a target");
+  if (new Set(profile.translationLanguages).size !== profile.translationLanguages.length) issue('translationLanguages', 'lists a language twice');
+  if (profile.platforms.length === 0 || profile.platforms.some(platform => !platform.trim())) issue('platforms', 'must list at least one platform');
+  if (profile.promoCalendar.length === 0) issue('promoCalendar', 'is empty');
+  profile.promoCalendar.forEach((event, i) => {
+    if (!event.when.trim() || !event.name.trim()) issue(`promoCalendar[${i}]`, 'needs both when and name');
+  });
+
+  const { zones, standardFee, bulkPerKg, tableMaxGrams } = profile.shipping;
+  const zoneCodes = zones.flatMap(column => column.zones);
+  if (zones.length === 0) issue('shipping.zones', 'is empty');
+  zones.forEach((column, i) => {
+    requireText(`shipping.zones[${i}].label`, column.label);
+    if (column.zones.length === 0) issue(`shipping.zones[${i}].zones`, 'is empty');
+  });
+  if (new Set(zoneCodes).size !== zoneCodes.length) issue('shipping.zones', 'a zone is listed in more than one column');
+  zoneCodes.forEach(zone => {
+    const light = standardFee(1, zone);
+    const heavy = standardFee(100, zone);
+    if (!Number.isFinite(light) || light <= 0) issue('shipping.standardFee', `zone ${zone} gives ${light} for 10g`);
+    else if (!(heavy >= light)) issue('shipping.standardFee', `zone ${zone} is cheaper at 1kg than at 10g`);
+  });
+  const bulkRates = Object.entries(bulkPerKg);
+  if (bulkRates.length === 0) issue('shipping.bulkPerKg', 'offers no bulk channel');
+  bulkRates.forEach(([channel, rate]) => {
+    if (!(rate! > 0)) issue(`shipping.bulkPerKg.${channel}`, 'must be positive');
+  });
+  if (!(tableMaxGrams >= 10)) issue('shipping.tableMaxGrams', 'must be at least 10');
+
+  return issues;
+};
+
+export const validateMarketProfiles = (): string[] =>
+  (Object.keys(PROFILES) as TargetMarket[]).flatMap(code => validateMarketProfile(code, PROFILES[code]));
+
+// Only a console warning: the tests are what keep an incomplete profile from shipping
+const profileIssues = validateMarketProfiles();
+if (profileIssues.length > 0) console.warn(`Incomplete market profiles:\n${profileIssues.join('\n')}`);
@@ -0,0 +1,290 @@
+import type { Part, Schema } from "@google/genai";
+import type { AiProvider, ProviderUsage, TextTask } from "./aiProvider";
+import { sleep, throwIfAborted } from "./requestControl";
+import { MARKET_PROFILES } from "./marketProfiles";
+
+/**
+ * Offline provider returning fixed fixtures, for development and demos without network
+ * access. The same input always produces the same output; nothing leaves the browser.
+ */
+
+const MOCK_LATENCY_MS = 400;
+const CHAT_CHUNK_DELAY_MS = 30;
+
+// Stable small hash, used to vary fixtures by input without randomness
+const hashString = (text: string) => {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) hash = (hash * 31 + text.charCodeAt(i)) | 0;
+  return Math.abs(hash);
+};
+
+const PALETTE = ['#6366f1', '#ec4899', '#f97316', '#10b981', '#0ea5e9', '#8b5cf6'];
+
+const getPromptText = (parts: Part[]) => parts.map(part => part.text || '').join('\n');
+
+// Rough Gemini counting: ~4 characters per token, 258 tokens per input image
+const IMAGE_INPUT_TOKENS = 258;
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const estimateUsage = (parts: Part[], output: string): ProviderUsage => ({
+  inputTokens: estimateTokens(getPromptText(parts)) + parts.filter(part => part.inlineData).length * IMAGE_INPUT_TOKENS,
+  outputTokens: estimateTokens(output),
+});
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&"']/g, ch => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' }[ch]!));
+
+const toBase64 = (text: string) => btoa(unescape(encodeURIComponent(text)));
+
+// --- Analysis fixture ---
+
+// Rough CNY per USD; with each market's CNY rate this makes fixture prices plausible in its currency
+const CNY_PER_USD = 7.2;
+
+// Reads the pinned enums from the analysis response schema (see analysisSchema.ts)
+const getSchemaEnum = (schema: Schema, path: string[]) => {
+  let node: any = schema;
+  for (const key of path) node = node?.[key];
+  return Array.isArray(node?.enum) ? node.enum as string[] : [];
+};
+
+const SOURCES = [
+  { uri: 'https://shopee.example/mock-listing', title: 'Shopee 示例商品页' },
+  { uri: 'https://lazada.example/mock-listing', title: 'Lazada 示例商品页' },
+  { uri: 'https://trends.example/mock-report', title: '示例市场趋势报告' },
+];
+
+const buildAnalysisFixture = (schema: Schema) => {
+  const currency = getSchemaEnum(schema, ['properties', 'prices', 'items', 'properties', 'currency'])[0] || 'USD';
+  const languages = getSchemaEnum(schema, ['properties', 'keywords', 'items', 'properties', 'language']);
+  const language = languages[0] || 'en';
+  const profile = MARKET_PROFILES.find(p => p.currency.code === currency);
+  const unit = profile ? profile.currency.perCny * CNY_PER_USD : 1;
+  const price = (usd: number) => Math.round(usd * unit);
+  const pricingClaim = 'Shopee 同类商品主流售价集中在中低价位';
+
+  return {
+    text: JSON.stringify({
+      sections: [
+        { heading: '1. 产品核心识别 (Product DNA)', body: '- **品类定义**: 示例品类（离线模拟数据）\n- **核心卖点**: 便携、耐用、高性价比\n- **目标人群**: 18-35 岁城市年轻消费者' },
+        { heading: '2. 市场深度适配性', body: '- **文化契合度**: 无明显宗教或习俗禁忌。\n- **季节/气候**: 适应热带气候。\n- **竞争格局**: 中度竞争，存在差异化空间。' },
+        { heading: '3. 多平台定价与竞品分析', body: `- ${pricingClaim}。\n- 头部卖家主图以白底 + 卖点贴片为主。` },
+        { heading: '4. 本土化营销策略 (Killer Angles)', body: '- **痛点营销**: 强调防潮与便携。\n- **场景建议**: 通勤与居家收纳短视频。\n- **促销建议**: 参加 9.9 / 11.11 大促。' },
+        { heading: '5. 关键结论', body: '- **选品建议**: 推荐尝试小批量测款（此为离线模拟报告，仅供界面调试）。' },
+      ],
+      prices: [
+        { platform: 'Shopee', minPrice: price(4), maxPrice: price(9), currency },
+        { platform: 'Lazada', minPrice: price(5), maxPrice: price(11), currency },
+        { platform: 'TikTok Shop', minPrice: price(3.5), maxPrice: price(8), currency },
+      ],
+      keywords: ['mock keyword', 'mock keyword best price', 'mock keyword free shipping', 'mock keyword original'].map(term => ({ term, language })),
+      culturalRisks: ['离线模拟数据：请接入真实模型获取风险评估。'],
+      rating: { stars: 4, reason: '离线模拟评分' },
+    }),
+    groundingMetadata: {
+      groundingChunks: SOURCES.map(web => ({ web })),
+      groundingSupports: [{ segment: { text: pricingClaim }, groundingChunkIndices: [0, 1] }],
+    },
+  };
+};
+
+// --- HTML fixtures ---
+
+const HERO_FIXTURE = `
+<div class="w-[800px] h-[800px] relative overflow-hidden bg-white">
+  <div class="absolute inset-0 bg-gradient-to-br from-indigo-100 via-white to-pink-100"></div>
+  <img src="__PRODUCT_IMG_SRC__" class="absolute left-1/2 top-[46%] -translate-x-1/2 -translate-y-1/2 w-[520px] h-[520px] object-contain drop-shadow-2xl" />
+  <div class="absolute top-12 left-12 right-12">
+    <h1 class="text-[56px] font-black text-slate-900 leading-tight">示例主标题</h1>
+    <p class="text-2xl text-slate-600 mt-2">离线模拟 · Mock Provider</p>
+  </div>
+  <div class="absolute bottom-12 left-12 flex gap-3">
+    <span class="px-5 py-2 rounded-full bg-orange-500 text-white text-xl font-bold">Free Shipping</span>
+    <span class="px-5 py-2 rounded-full bg-slate-900 text-white text-xl font-bold">COD</span>
+  </div>
+</div>`.trim();
+
+// A layout document covering every section kind, as the sku prompt asks for
+const SKU_LAYOUT_FIXTURE = {
+  sections: [
+    { kind: 'hero', tone: 'base', eyebrow: '离线模拟', title: '示例主标题', subtitle: 'Mock Provider 生成的详情页', badges: ['包邮', '货到付款', '7 天无理由'], image: { hint: 'Product Hero', src: '__PRODUCT_IMG_SRC__' } },
+    { kind: 'painPoints', tone: 'alt', title: '你是否也遇到这些问题？', items: [
+      { problem: '普通产品用几次就坏', solution: '精选材质，经久耐用' },
+      { problem: '出门携带太麻烦', solution: '轻巧便携，随手收纳' },
+    ] },
+    { kind: 'features', tone: 'base', title: '核心卖点', items: [
+      { title: '使用场景', body: '通勤、居家、旅行都适用', image: { hint: 'Lifestyle Scenario', src: null } },
+      { title: '细节品质', body: '精选材质，做工细致', image: { hint: 'Quality Details', src: null } },
+    ] },
+    { kind: 'comparison', tone: 'alt', title: '为什么选我们', oursLabel: '本店', othersLabel: '普通款', rows: [
+      { aspect: '材质', ours: '食品级', others: '普通塑料' },
+      { aspect: '售后', ours: '一年质保', others: '无' },
+    ] },
+    { kind: 'reviews', tone: 'base', title: '用户口碑', items: [
+      { author: '示例买家 A', body: '示例好评内容', rating: 5 },
+      { author: '示例买家 B', body: '发货很快，包装完好', rating: 4 },
+    ] },
+    { kind: 'certificates', tone: 'alt', title: '品质认证', items: [
+      { name: '质检报告', detail: '示例认证', image: { hint: 'Certificate', src: null } },
+    ] },
+    { kind: 'offer', tone: 'emphasis', title: '限时优惠', price: '99', originalPrice: '199', perks: ['正品保障', '极速发货', '货到付款'], cta: '立即购买' },
+  ],
+};
+
+const TEXT_FIXTURES: Record<TextTask, (sourceHtml?: string) => string> = {
+  hero: () => HERO_FIXTURE,
+  sku: () => JSON.stringify(SKU_LAYOUT_FIXTURE),
+  // The section comes back as it was, tagged so the splice is visible
+  'sku-section': sourceHtml => (sourceHtml || '').replace(/<\/div>\s*$/, '<p class="mt-6 text-xs text-slate-400">MOCK · 已按指令重写</p></div>'),
+  // Offline there is nothing to translate with; hand the document back unchanged
+  translate: sourceHtml => sourceHtml || '',
+  'enhance-prompt': () => 'Slow cinematic 360° orbit around the product on a clean studio set, soft key light with warm rim light, shallow depth of field, subtle floating dust particles, smooth dolly-in to a close-up of the texture.',
+};
+
+// --- Image fixture ---
+
+const buildEditedImage = (image: { data: string; mimeType: string }, prompt: string) => {
+  const color = PALETTE[hashString(prompt) % PALETTE.length];
+  const label = escapeXml(prompt.length > 48 ? `${prompt.slice(0, 48)}…` : prompt);
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="1024" height="1024" viewBox="0 0 1024 1024">
+  <rect width="1024" height="1024" fill="${color}" opacity="0.15"/>
+  <image href="data:${image.mimeType};base64,${image.data}" x="112" y="112" width="800" height="800" preserveAspectRatio="xMidYMid meet"/>
+  <rect x="0" y="944" width="1024" height="80" fill="${color}"/>
+  <text x="512" y="994" font-family="sans-serif" font-size="28" fill="white" text-anchor="middle">MOCK · ${label}</text>
+</svg>`;
+  return `data:image/svg+xml;base64,${toBase64(svg)}`;
+};
+
+// --- Video fixture ---
+
+const VIDEO_DURATION_MS = 3000;
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error('Mock video: could not load source image'));
+  img.src = src;
+});
+
+const blobToDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onloadend = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+/**
+ * A short slow zoom over the product image, recorded from a canvas. Returned as a data URL
+ * so it survives in history and bundles like any other asset.
+ */
+const recordZoomVideo = async (image: { data: string; mimeType: string }, aspectRatio: '16:9' | '9:16', signal?: AbortSignal) => {
+  if (typeof MediaRecorder === 'undefined') throw new Error('Mock video needs MediaRecorder support');
+  const [width, height] = aspectRatio === '16:9' ? [640, 360] : [360, 640];
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  const img = await loadImage(`data:${image.mimeType};base64,${image.data}`);
+
+  const recorder = new MediaRecorder(canvas.captureStream(30), { mimeType: 'video/webm' });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = e => chunks.push(e.data);
+  const stopped = new Promise(resolve => { recorder.onstop = resolve; });
+
+  const start = performance.now();
+  recorder.start();
+  await new Promise<void>((resolve, reject) => {
+    const drawFrame = () => {
+      if (signal?.aborted) {
+        recorder.stop();
+        reject(signal.reason);
+        return;
+      }
+      const progress = Math.min((performance.now() - start) / VIDEO_DURATION_MS, 1);
+      const scale = Math.min(width / img.width, height / img.height) * (1 + progress * 0.15);
+      ctx.fillStyle = '#0f172a';
+      ctx.fillRect(0, 0, width, height);
+      ctx.drawImage(img, (width - img.width * scale) / 2, (height - img.height * scale) / 2, img.width * scale, img.height * scale);
+      ctx.fillStyle = 'rgba(255,255,255,0.85)';
+      ctx.font = '16px sans-serif';
+      ctx.fillText('MOCK VIDEO', 16, height - 20);
+      if (progress < 1) requestAnimationFrame(drawFrame);
+      else resolve();
+    };
+    drawFrame();
+  });
+  recorder.stop();
+  await stopped;
+  throwIfAborted(signal);
+  return blobToDataUrl(new Blob(chunks, { type: 'video/webm' }));
+};
+
+// Recorded videos by operation name. Kept in memory only, so a mock operation does not survive a reload.
+const mockVideoOperations = new Map<string, string>();
+
+// --- Chat fixture ---
+
+const IMAGE_PROMPT_REPLY = `### 离线模拟：SKU 配图提示词
+
+**1. Hero Poster (首屏海报)**
+🎨 Prompt: Product centered on a clean gradient backdrop, bold promotional lighting, e-commerce hero poster style
+
+**2. Lifestyle Scenario (场景化)**
+🎨 Prompt: Product used by a young commuter on a sunny Southeast Asian street, natural light, candid lifestyle photo`;
+
+const buildChatReply = (message: Part[]) => {
+  const text = getPromptText(message);
+  if (/配图|提示词|prompt/i.test(text)) return IMAGE_PROMPT_REPLY;
+  const hasImage = message.some(part => part.inlineData);
+  return `### 离线模拟回复\n\n收到${hasImage ? '图片和' : ''}问题：「${text.slice(0, 60)}」\n\n- 当前使用 **Mock Provider**，回复为固定示例内容。\n- 在「设置」中切换到 Gemini 即可获得真实回答。`;
+};
+
+export const mockProvider: AiProvider = {
+  id: 'mock',
+
+  generateGroundedJson: async ({ parts, responseSchema, signal, onUsage }) => {
+    await sleep(MOCK_LATENCY_MS, signal);
+    const result = buildAnalysisFixture(responseSchema);
+    onUsage?.(estimateUsage(parts, result.text));
+    return result;
+  },
+
+  generateText: async ({ task, parts, sourceHtml, signal, onUsage }) => {
+    await sleep(MOCK_LATENCY_MS, signal);
+    const text = TEXT_FIXTURES[task](sourceHtml);
+    onUsage?.(estimateUsage(parts, text));
+    return text;
+  },
+
+  editImage: async ({ image, prompt, signal, onUsage }) => {
+    await sleep(MOCK_LATENCY_MS, signal);
+    onUsage?.({ inputTokens: estimateTokens(prompt) + IMAGE_INPUT_TOKENS, outputTokens: 0, images: 1 });
+    return buildEditedImage(image, prompt);
+  },
+
+  // Recording happens up front; the operation is already done on the first poll
+  startVideo: async ({ image, prompt, aspectRatio, signal }) => {
+    const url = await recordZoomVideo(image, aspectRatio, signal);
+    const operation = `mock-video-${hashString(prompt + image.data.slice(0, 256))}-${Date.now()}`;
+    mockVideoOperations.set(operation, url);
+    return operation;
+  },
+
+  pollVideo: async ({ operation, signal, onUsage }) => {
+    await sleep(MOCK_LATENCY_MS, signal);
+    const url = mockVideoOperations.get(operation);
+    if (!url) return { done: true, error: `Mock video operation ${operation} was lost when the page reloaded` };
+    onUsage?.({ inputTokens: 0, outputTokens: 0, videoSeconds: VIDEO_DURATION_MS / 1000 });
+    return { done: true, url };
+  },
+
+  async *streamChat({ systemInstruction, history, message, signal, onUsage }) {
+    const reply = buildChatReply(message);
+    for (const chunk of reply.split(/(?<=\n)/)) {
+      await sleep(CHAT_CHUNK_DELAY_MS, signal);
+      yield chunk;
+    }
+    const context = [{ text: systemInstruction }, ...history.flatMap(content => content.parts || []), ...message];
+    onUsage?.(estimateUsage(context, reply));
+  },
+};
@@ -0,0 +1,78 @@
+import { GeneratedPage, ProductWorkspace, TargetMarket } from "../types";
+import { migrateContentLanguage } from "./contentLanguages";
+import { PRODUCTS_STORE, openDb, requestToPromise, transactionDone } from "./db";
+
+/**
+ * Product workspaces, persisted per `User.id`. Workspaces are saved whole; they are not
+ * subject to history LRU eviction and only go away when the user deletes them.
+ */
+
+interface StoredProduct extends ProductWorkspace {
+  userId: string;
+}
+
+export const createProductWorkspace = (name: string): ProductWorkspace => {
+  const now = Date.now();
+  return {
+    id: `p_${now}_${Math.random().toString(36).substr(2, 5)}`,
+    name,
+    createdAt: now,
+    updatedAt: now,
+    images: [],
+    analyses: {},
+    assets: [],
+    editedImageUrl: null,
+    batchImages: [],
+    heroDesigns: [],
+    skuPages: [],
+    videos: [],
+    calculatorScenarios: {}
+  };
+};
+
+// Pages saved before language variants hold a single language, possibly the legacy 'ph'
+const migratePage = (page: GeneratedPage, market?: TargetMarket): GeneratedPage => {
+  const language = migrateContentLanguage(page.language, market);
+  return { ...page, language, variants: page.variants ?? { [language]: page.html } };
+};
+
+/**
+ * Bring a stored or imported workspace up to the current shape. Pages carry no market, so a
+ * legacy language is resolved through the product's market when it was analysed for just one.
+ */
+export const migrateProduct = (product: ProductWorkspace): ProductWorkspace => {
+  const markets = Object.keys(product.analyses) as TargetMarket[];
+  const market = markets.length === 1 ? markets[0] : undefined;
+  return {
+    ...product,
+    heroDesigns: product.heroDesigns.map(page => migratePage(page, market)),
+    skuPages: product.skuPages.map(page => migratePage(page, market)),
+  };
+};
+
+/**
+ * List a user's products, most recently updated first.
+ */
+export const loadProducts = async (userId: string): Promise<ProductWorkspace[]> => {
+  const db = await openDb();
+  const tx = db.transaction(PRODUCTS_STORE, 'readonly');
+  const records = await requestToPromise<StoredProduct[]>(tx.objectStore(PRODUCTS_STORE).index('userId').getAll(userId));
+  return records
+    .map(({ userId: _owner, ...product }) => migrateProduct(product))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const saveProducts = async (userId: string, products: ProductWorkspace[]) => {
+  if (products.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(PRODUCTS_STORE, 'readwrite');
+  products.forEach(product => tx.objectStore(PRODUCTS_STORE).put({ ...product, userId }));
+  await transactionDone(tx);
+};
+
+export const deleteProduct = async (id: string) => {
+  const db = await openDb();
+  const tx = db.transaction(PRODUCTS_STORE, 'readwrite');
+  tx.objectStore(PRODUCTS_STORE).delete(id);
+  await transactionDone(tx);
+};
@@ -0,0 +1,95 @@
+import { PromptOverrides, PromptTemplateId, fillTemplate, getTemplateDefinition } from "./promptTemplates";
+
+/**
+ * Edited prompt templates with their version history. Version 0 is always the built-in body
+ * from promptTemplates.ts and is never stored; saving an edit appends the next version and
+ * makes it active, and any earlier version (0 included) can be made active again.
+ * Shared by every account in this browser, like AI settings.
+ */
+
+export interface PromptVersion {
+  version: number;
+  body: string;
+  createdAt: number;
+  note?: string;
+}
+
+interface StoredTemplate {
+  versions: PromptVersion[]; // edits only, oldest first
+  activeVersion: number;
+}
+
+type PromptRegistry = Partial<Record<PromptTemplateId, StoredTemplate>>;
+
+const PROMPT_REGISTRY_STORAGE_KEY = 'jzt_prompt_templates';
+
+const loadRegistry = (): PromptRegistry => {
+  try {
+    const raw = localStorage.getItem(PROMPT_REGISTRY_STORAGE_KEY);
+    return raw ? JSON.parse(raw) as PromptRegistry : {};
+  } catch {
+    return {};
+  }
+};
+
+let current: PromptRegistry | null = null;
+
+const getRegistry = (): PromptRegistry => {
+  if (!current) current = loadRegistry();
+  return current;
+};
+
+const saveRegistry = (registry: PromptRegistry) => {
+  current = registry;
+  localStorage.setItem(PROMPT_REGISTRY_STORAGE_KEY, JSON.stringify(registry));
+};
+
+const builtInVersion = (id: PromptTemplateId): PromptVersion => ({
+  version: 0,
+  body: getTemplateDefinition(id).body,
+  createdAt: 0,
+  note: '内置默认',
+});
+
+/**
+ * Every version of a template, built-in first.
+ */
+export const getPromptVersions = (id: PromptTemplateId): PromptVersion[] =>
+  [builtInVersion(id), ...(getRegistry()[id]?.versions || [])];
+
+export const getActivePromptVersion = (id: PromptTemplateId): PromptVersion => {
+  const versions = getPromptVersions(id);
+  const active = getRegistry()[id]?.activeVersion ?? 0;
+  return versions.find(version => version.version === active) || versions[0];
+};
+
+/**
+ * Store `body` as the next version of the template and make it active.
+ */
+export const savePromptVersion = (id: PromptTemplateId, body: string, note?: string): PromptVersion => {
+  const registry = getRegistry();
+  const versions = registry[id]?.versions || [];
+  const version: PromptVersion = {
+    version: (versions[versions.length - 1]?.version ?? 0) + 1,
+    body,
+    createdAt: Date.now(),
+    note: note?.trim() || undefined,
+  };
+  saveRegistry({ ...registry, [id]: { versions: [...versions, version], activeVersion: version.version } });
+  return version;
+};
+
+/**
+ * Make an existing version active, e.g. to roll back. Version 0 restores the built-in.
+ */
+export const activatePromptVersion = (id: PromptTemplateId, version: number) => {
+  if (!getPromptVersions(id).some(v => v.version === version)) throw new Error(`Prompt ${id} has no version ${version}`);
+  const registry = getRegistry();
+  saveRegistry({ ...registry, [id]: { versions: registry[id]?.versions || [], activeVersion: version } });
+};
+
+/**
+ * The active version of a template (or its override) with variables filled in.
+ */
+export const renderPrompt = (id: PromptTemplateId, variables: Record<string, string>, overrides?: PromptOverrides) =>
+  fillTemplate(overrides?.[id] ?? getActivePromptVersion(id).body, variables);
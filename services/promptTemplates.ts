@@ -0,0 +1,417 @@
+/**
+ * Built-in prompt templates. Placeholders are written `{{name}}` and filled from the variables
+ * listed with each template. These bodies are version 0 in the prompt registry
+ * (services/promptRegistry.ts): edits are stored there as new versions, and rolling back to
+ * version 0 restores the text below.
+ */
+
+export const HERO_STYLES = ['Promotion', 'Minimalist', 'Luxury', 'Flash Sale'] as const;
+export const SKU_STYLES = ['Classic Conversion', 'Muji Minimalist', 'Cyberpunk Tech', 'K-Pop / Y2K'] as const;
+
+export type HeroStyle = typeof HERO_STYLES[number];
+export type SkuStyle = typeof SKU_STYLES[number];
+
+export type PromptTemplateId =
+  | 'analysis'
+  | 'hero'
+  | `heroStyle.${HeroStyle}`
+  | 'sku'
+  | `skuStyle.${SkuStyle}`
+  | 'skuSection'
+  | 'translate'
+  | 'translateTexts'
+  | 'enhanceVideo'
+  | 'agentSystem';
+
+// Template bodies to use instead of the active versions, e.g. to test-run a draft
+export type PromptOverrides = Partial<Record<PromptTemplateId, string>>;
+
+export interface PromptVariable {
+  name: string;
+  description: string;
+}
+
+export interface PromptTemplateDefinition {
+  id: PromptTemplateId;
+  name: string;
+  group: string;
+  variables: PromptVariable[];
+  body: string;
+}
+
+const MARKET: PromptVariable = { name: 'market', description: '市场代码，如 TH' };
+const ADDITIONAL_PROMPT: PromptVariable = { name: 'additionalPrompt', description: '用户在输入框中填写的补充要求' };
+const ANALYSIS_EXCERPT: PromptVariable = { name: 'analysis', description: '市场分析报告的前 300 字' };
+const STYLE_INSTRUCTIONS: PromptVariable = { name: 'styleInstructions', description: '所选风格模板的内容' };
+
+const HERO_STYLE_BODIES: Record<HeroStyle, string> = {
+  'Promotion': `**Style: Trustworthy E-commerce Standard (Official Store)**
+- **Palette**: Brand Blue (Trust) or Mall Red (Official). White background.
+- **Typography**: Clear hierarchy, readable Sans-serif.
+- **Visuals**: Clean cutouts, professional drop shadows.
+- **Layout**: Grid-based, structured, informative.
+- **Decor**: Checkmarks, "Official Store" badges, "Warranty" icons.
+`,
+  'Minimalist': `**Style: Modern Minimalist (Apple/Muji/IKEA)**
+- **Palette**: White, Off-White (#F9F9F9), Soft Gray, accented with black text.
+- **Typography**: Bold, clean Sans-serif (Helvetica/Inter vibe). Massive headings.
+- **Visuals**: Soft diffuse lighting, natural shadows, no harsh borders.
+- **Layout**: Asymmetrical balance, large hero product image.
+- **Decor**: None, or very subtle rounded shapes.
+`,
+  'Luxury': `**Style: Luxury & Premium (Hi-End)**
+- **Palette**: Black, Deep Gold (#D4AF37), Ivory, Dark Emerald.
+- **Typography**: Elegant Serif for headlines (e.g., Playfair Display vibe), thin Sans-serif for details.
+- **Visuals**: High contrast, dramatic lighting, subtle grain texture, glassmorphism overlays (backdrop-blur).
+- **Layout**: Center-focused, symmetrical, or golden ratio. Minimal text, high negative space.
+- **Decor**: Thin gold borders, diamond/star icons.
+`,
+  'Flash Sale': `**Style: Mega Campaign / Flash Sale (Shopee/Lazada 9.9)**
+- **Palette**: Electric Orange (#FF5722), Bright Red, Vibrant Yellow.
+- **Typography**: Heavy, Italic, All-Caps Sans-serif. Stroke/Outline text effects.
+- **Visuals**: High saturation, exciting gradients, pop-art vibe.
+- **Layout**: Cluttered but organized chaos. Diagonal section dividers.
+- **Decor**: Lightning bolts, "Sale" tags, confetti, countdown timers, price starbursts.
+`,
+};
+
+const SKU_STYLE_BODIES: Record<SkuStyle, string> = {
+  'Classic Conversion': `**Style: "Shopee/Lazada Gold Standard" (High Conversion)**
+- **Target**: Mass market, price-sensitive.
+- **Vibe**: Urgent, clear, professional.
+- **Palette**: Trust Blue or Sale Red/Orange.
+- **Visuals**: Coupon-style borders (dashed), clear "Free Shipping" badges.
+- **Layout**: Very structured, linear flow. Hero -> Pain Point -> Soluton -> Social Proof.
+`,
+  'Muji Minimalist': `**Style: "Muji / Scandinavian" (Home & Living)**
+- **Target**: Premium buyers in Singapore, Thailand.
+- **Vibe**: Zen, clean, expensive, organic.
+- **Palette**: Warm White, Cream (#FDFBF7), Sage Green, Earthy Browns.
+- **Visuals**: Massive soft rounded corners (rounded-[40px]), organic blob shapes behind images.
+- **Typography**: Elegant Serif headers, lots of whitespace.
+- **Layout**: Editorial magazine style. Floating images. No harsh borders.
+`,
+  'Cyberpunk Tech': `**Style: "Cyberpunk / High-Tech" (Electronics/Gadgets)**
+- **Target**: Tech enthusiasts in Singapore, Malaysia.
+- **Vibe**: Futuristic, precision, dark mode.
+- **Background**: Deep Dark Blue/Black (#0f172a) with Neon Glows (Cyan/Magenta).
+- **Typography**: Monospace fonts for specs (data visualization style).
+- **Visuals**: Grid lines, crosshairs, glassmorphism cards (backdrop-blur).
+- **Layout**: "Bento Box" grids, technical readouts, progress bars.
+`,
+  'K-Pop / Y2K': `**Style: "Gen Z / K-Pop / Y2K" (Trendy & Viral)**
+- **Target**: Young consumers in Vietnam, Thailand, Philippines.
+- **Vibe**: High energy, chaotic but aesthetic, sticker-bomb style.
+- **Palette**: Hot Pink (#FF00CC), Acid Green, Electric Blue on Black or Stark White.
+- **Typography**: Mixed fonts (Chunky Sans + Handwritten). Large outlined text.
+- **Visuals**: Uneven borders, star shapes, marquee scrolling text (simulated), brutality.
+- **Layout**: Asymmetric grids, overlapping elements (stickers over images).
+`,
+};
+
+export const PROMPT_TEMPLATES: PromptTemplateDefinition[] = [
+  {
+    id: 'analysis',
+    name: '市场分析报告',
+    group: '市场分析',
+    variables: [
+      MARKET,
+      { name: 'role', description: '分析师角色，随市场变化' },
+      { name: 'platforms', description: '当地主要电商平台' },
+      { name: 'culture', description: '当地消费文化要点' },
+      { name: 'keywordsLang', description: '关键词语言说明' },
+      { name: 'currencyCode', description: '当地货币代码，如 THB' },
+      { name: 'keywordLanguages', description: '关键词语言代码，如 en / tl' },
+      { name: 'promoCalendar', description: '当地大促日历' },
+      ADDITIONAL_PROMPT,
+    ],
+    body: `你是一位{{role}}。你的任务是深入剖析这组产品图片（主图、细节图、包装及标签特写），挖掘其在 {{market}} 市场的爆款潜力。
+如有包装或标签图片，请据此判断成分、认证 (如 Halal / BPOM / FDA) 与合规风险。
+
+请结合 Google Search Grounding 能力，实时调研当前{{platforms}}等平台的数据，生成一份详尽的《跨境电商选品与营销报告》。
+
+报告结构如下（每个章节作为 \`sections\` 数组中的一项，\`heading\` 为章节标题，\`body\` 为 Markdown 正文，不要重复标题）：
+
+### 1. 产品核心识别 (Product DNA)
+- **品类定义**: 准确的类目归属。
+- **核心卖点**: 3个最打动{{market}}用户的卖点。
+- **目标人群**: 具体的画像（例如：雅加达职场女性 / 胡志明市大学生）。
+
+### 2. {{market}} 市场深度适配性
+- **文化契合度**: 分析该产品是否符合当地({{culture}})。是否存在宗教/习俗禁忌？
+- **季节/气候**: 是否适应当地常年热带或雨季气候？
+- **竞争格局**: 当前市场是红海（价格战）还是蓝海（稀缺）？
+
+### 3. 多平台定价与竞品分析
+- 请列出至少 3 个主要平台 ({{platforms}}) 上类似产品的**真实在售价格区间**。
+- 它们的主图风格是怎样的？（如：简约风 vs 促销牛皮癣风）。
+
+### 4. 本土化营销策略 (Killer Angles)
+- **痛点营销**: 针对当地痛点（如：防潮、美白、省空间）的话术建议。
+- **场景建议**: 适合拍摄什么样的 TikTok 短视频？（例如：摩托车通勤场景、斋月家庭聚会）。
+- **促销建议**: 适合参加什么大促？参考当地大促日历：{{promoCalendar}}。
+
+### 5. 关键结论
+- **选品建议**: 推荐指数及理由。
+
+用户额外备注: {{additionalPrompt}}
+
+---
+【结构化数据 - 务必准确】
+1. \`prices\`: {{platforms}} 中至少 3 个平台上类似产品的在售价格区间 (\`minPrice\` / \`maxPrice\`)，货币统一为 {{currencyCode}}。
+2. \`keywords\`: 5-8 个高流量的本土 SEO 搜索关键词 ({{keywordsLang}})，请包含长尾词，并用 \`language\` 标注语言代码 ({{keywordLanguages}})。
+3. \`culturalRisks\`: 该产品在 {{market}} 市场的宗教/文化/法规风险点（每条一句话，没有则返回空数组）。
+4. \`rating\`: 推荐指数 \`stars\` (1-5 的整数) 及一句话理由 \`reason\`。
+
+请严格按照给定的 JSON Schema 输出，不要输出任何 Schema 以外的内容。
+`,
+  },
+  {
+    id: 'hero',
+    name: '产品首图',
+    group: '首图',
+    variables: [
+      MARKET,
+      { name: 'marketContext', description: '目标市场与受众描述' },
+      ANALYSIS_EXCERPT,
+      STYLE_INSTRUCTIONS,
+      ADDITIONAL_PROMPT,
+    ],
+    body: `You are an award-winning UI/Visual Designer for E-commerce.
+Create a **World-Class Product Hero Image (Main Image)** using HTML and Tailwind CSS.
+
+**Dimensions**: Exactly **800x800 pixels** (Square).
+**Target Audience**: {{marketContext}}.
+**Input Analysis**: "{{analysis}}..."
+
+{{styleInstructions}}
+
+**USER CUSTOM INSTRUCTIONS**: "{{additionalPrompt}}"
+(CRITICAL: If the user provides instructions above, prioritize them over the default style. For example, if they ask for 'Pink Theme', use pink regardless of the selected style).
+
+**Content Requirements**:
+1. **Main Copy**: A catchy, short headline.
+2. **Sub Copy**: Key benefit or spec.
+3. **Tags**: 1-2 visually distinct tags (e.g., "Ready Stock", "Free Shipping", "COD").
+4. **Image**: The product must be the Star. Use \`__PRODUCT_IMG_SRC__\` (the main product photo). The other attached images (details, packaging, label) are reference only.
+
+**Technical Constraints**:
+- **NO Old-School Design**: Do not use simple colored rectangles behind text. Use gradients, blurs, shadows, or modern overlays.
+- **Tailwind Config**: You can use arbitrary values like \`bg-[#123456]\`, \`text-[40px]\`.
+- **Container**: Root \`div\` must be \`w-[800px] h-[800px] relative overflow-hidden bg-white\`.
+- **Output**: ONLY raw HTML string. No markdown.
+`,
+  },
+  ...HERO_STYLES.map((style): PromptTemplateDefinition => ({
+    id: `heroStyle.${style}`,
+    name: `首图风格 · ${style}`,
+    group: '首图',
+    variables: [],
+    body: HERO_STYLE_BODIES[style],
+  })),
+  {
+    id: 'sku',
+    name: 'SKU 详情页',
+    group: '详情页',
+    variables: [
+      MARKET,
+      { name: 'marketName', description: '目标市场英文名，如 Thailand' },
+      ANALYSIS_EXCERPT,
+      STYLE_INSTRUCTIONS,
+      ADDITIONAL_PROMPT,
+    ],
+    body: `You are a World-Class E-commerce Copywriter and Conversion Designer.
+Plan a **High-Converting Product Detail Page** as a structured layout document. The page is drawn by our own renderer; you choose the sections, their order, their tone and all the copy.
+
+**Context**: Selling to {{marketName}}. Text in **Simplified Chinese** (user will translate later).
+**Input Analysis**: "{{analysis}}..."
+
+{{styleInstructions}}
+(Use the style above for the voice of the copy and for choosing tones; the renderer applies its visuals.)
+
+**USER CUSTOM INSTRUCTIONS**: "{{additionalPrompt}}"
+(CRITICAL: The user has full control. If they ask to 'Remove the certificates section' or 'Focus on the price', YOU MUST OBEY.)
+
+**Structure (Optimize flow for {{marketName}})**:
+Create **6 to 10 sections** that best sell THIS specific product, starting with a hero and ending with an offer.
+
+**Section kinds** (every section also has "tone": "base" | "alt" | "emphasis"; alternate tones, use "emphasis" for at most two sections):
+- {"kind": "hero", "eyebrow": "", "title": "", "subtitle": "", "badges": [""], "image": IMAGE}
+- {"kind": "painPoints", "title": "", "items": [{"problem": "", "solution": ""}]}
+- {"kind": "features", "title": "", "items": [{"title": "", "body": "", "image": IMAGE}]}
+- {"kind": "comparison", "title": "", "oursLabel": "", "othersLabel": "", "rows": [{"aspect": "", "ours": "", "others": ""}]}
+- {"kind": "reviews", "title": "", "items": [{"author": "", "body": "", "rating": 5}]}
+- {"kind": "certificates", "title": "", "items": [{"name": "", "detail": "", "image": IMAGE}]}
+- {"kind": "offer", "title": "", "price": "", "originalPrice": "", "perks": [""], "cta": ""}
+
+IMAGE is {"hint": "", "src": null}: "hint" says what the picture should show in a few English words (e.g. "Lifestyle Scenario", "Quality Details", "Packaging"). Set "src" to "__PRODUCT_IMG_SRC__" only where the main product photo belongs; leave it null otherwise. The attached images (details, packaging, label) are reference for specs, ingredients and certificates.
+
+**Output**: Return ONLY a JSON object {"sections": [...]} with no markdown blocks and no other text.
+`,
+  },
+  ...SKU_STYLES.map((style): PromptTemplateDefinition => ({
+    id: `skuStyle.${style}`,
+    name: `详情页风格 · ${style}`,
+    group: '详情页',
+    variables: [],
+    body: SKU_STYLE_BODIES[style],
+  })),
+  {
+    id: 'skuSection',
+    name: '详情页单区块重写',
+    group: '详情页',
+    variables: [
+      MARKET,
+      { name: 'marketName', description: '市场英文名，如 Thailand' },
+      ANALYSIS_EXCERPT,
+      { name: 'language', description: '页面当前语言' },
+      { name: 'outline', description: '整页区块大纲，标出需要重写的区块' },
+      { name: 'instruction', description: '用户填写的重写要求' },
+      { name: 'section', description: '需要重写的区块 HTML（图片已替换为占位符）' },
+    ],
+    body: `You are editing ONE section of an existing mobile SKU detail page for {{marketName}} ({{market}}) e-commerce.
+
+**Product Context**: {{analysis}}
+
+**Page Outline** (for context only; do not reproduce the other sections):
+{{outline}}
+
+**Rewrite Instruction**: {{instruction}}
+
+**Rules**:
+1. Return exactly ONE \`<div class="sku-section ...">\` element that replaces the section below.
+2. Keep the page's visual language: same Tailwind palette, spacing and typography as the original section.
+3. Keep every \`<img>\` src exactly as given (including \`__IMG_PLACEHOLDER_n__\` values) unless the instruction asks for a new image; new images use \`src="https://via.placeholder.com/400x400..."\` and class \`editable-image cursor-pointer object-cover w-full\`.
+4. Write all visible text in {{language}}.
+5. Return ONLY the raw HTML of the section. No markdown blocks.
+
+Section HTML:
+{{section}}
+`,
+  },
+  {
+    id: 'translate',
+    name: '页面翻译',
+    group: '翻译',
+    variables: [
+      MARKET,
+      { name: 'sourceLang', description: '源语言' },
+      { name: 'targetLang', description: '目标语言' },
+      { name: 'html', description: '待翻译的 HTML（图片已替换为占位符）' },
+    ],
+    body: `You are a professional translator for Cross-border E-commerce.
+Translate the visible text content of the following HTML code from **{{sourceLang}}** to **{{targetLang}}**.
+
+**Rules**:
+1. Keep all HTML tags, structure, classes, and styles EXACTLY the same.
+2. Only translate human-readable text (headings, paragraphs, button labels).
+3. Do NOT translate technical attribute values.
+4. Ensure the translation is natural and uses local e-commerce terminology for {{market}}.
+5. Return ONLY the translated HTML string. No markdown blocks.
+
+Input HTML:
+{{html}}
+`,
+  },
+  {
+    id: 'translateTexts',
+    name: '结构化页面翻译',
+    group: '翻译',
+    variables: [
+      MARKET,
+      { name: 'sourceLang', description: '源语言' },
+      { name: 'targetLang', description: '目标语言' },
+      { name: 'count', description: '文案条数' },
+      { name: 'texts', description: '页面上的全部文案（JSON 数组）' },
+    ],
+    body: `You are a professional translator for Cross-border E-commerce.
+Translate each string in the JSON array below from **{{sourceLang}}** to **{{targetLang}}**.
+
+**Rules**:
+1. Return a JSON array of exactly {{count}} strings, in the same order as the input.
+2. Keep numbers, prices, units, brand names and emoji as they are.
+3. Use natural, local e-commerce terminology for {{market}}; keep short labels short.
+4. Return ONLY the JSON array. No markdown blocks.
+
+Input:
+{{texts}}
+`,
+  },
+  {
+    id: 'enhanceVideo',
+    name: '视频提示词优化',
+    group: '视频',
+    variables: [{ name: 'input', description: '用户输入的视频提示词' }],
+    body: `Rewrite the following short video prompt into a detailed, cinematic prompt for an AI video generator (Veo).
+Focus on lighting, camera movement, and texture. Keep it under 60 words.
+Input: "{{input}}"
+Output (just the prompt text):
+`,
+  },
+  {
+    id: 'agentSystem',
+    name: 'AI 顾问系统指令',
+    group: 'AI 顾问',
+    variables: [
+      MARKET,
+      { name: 'marketName', description: '市场中文名，如 泰国' },
+      { name: 'marketNotes', description: '该市场的专家要点' },
+    ],
+    body: `你是一位针对{{marketName}}市场（{{market}}）的跨境电商高级顾问。
+你的任务是帮助用户解决选品、定价、营销和物流方面的具体问题。
+请使用中文与用户进行专业、热情且切中要害的对话。
+
+【市场专家角色设定】：
+{{marketNotes}}
+
+【特殊能力 - 当已知产品信息时】：
+1. SKU 规划：建议适合当地市场的 SKU 组合（如：颜色、尺寸、打包策略）。
+2. 视频脚本：生成本土化 TikTok 短视频脚本。
+3. 详情页优化：撰写符合当地语言习惯的卖点。
+
+【智能配图生成 (SKU 详情页专用)】：
+当用户询问“场景图建议”、“生成图片提示词”、“配图建议”或“SKU 配图”时，请基于当前分析的产品，**严格按照以下 8 个核心板块顺序**，生成极具**{{market}}本土电商风格**的英文 AI 绘画提示词。
+
+**请依次生成 8 个板块的 Prompt:**
+1. **Hero Poster (首屏海报)**
+2. **Product Overview (产品全貌)**
+3. **Pain Points (核心功能/痛点)**
+4. **Lifestyle Scenario (场景化)**
+5. **Competitor Comparison (竞品对比)**
+6. **Quality Details (细节品质)**
+7. **Social Proof (用户口碑)**
+8. **Certificates (资质认证)**
+
+**务必严格按照以下格式输出每一个 Prompt，以便系统识别为可点击按钮**：
+**[板块名称]**
+🎨 Prompt: [英文提示词内容]
+`,
+  },
+];
+
+export const getTemplateDefinition = (id: PromptTemplateId) => PROMPT_TEMPLATES.find(template => template.id === id)!;
+
+// Unknown styles fall back to the general-purpose one
+export const heroStyleTemplateId = (style: string): PromptTemplateId =>
+  `heroStyle.${(HERO_STYLES as readonly string[]).includes(style) ? style as HeroStyle : 'Promotion'}`;
+
+export const skuStyleTemplateId = (style: string): PromptTemplateId =>
+  `skuStyle.${(SKU_STYLES as readonly string[]).includes(style) ? style as SkuStyle : 'Classic Conversion'}`;
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Replace `{{name}}` placeholders. Names without a value are left as written.
+ */
+export const fillTemplate = (body: string, variables: Record<string, string>) =>
+  body.replace(PLACEHOLDER, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : placeholder);
+
+/**
+ * Placeholders in `body` that the template does not define, in order of first use.
+ */
+export const findUnknownVariables = (id: PromptTemplateId, body: string) => {
+  const known = new Set(getTemplateDefinition(id).variables.map(variable => variable.name));
+  const used = Array.from(body.matchAll(PLACEHOLDER), match => match[1]);
+  return Array.from(new Set(used.filter(name => !known.has(name))));
+};
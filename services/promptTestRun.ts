@@ -0,0 +1,130 @@
+import { ProductImage, SkuLayoutDocument, TargetMarket } from "../types";
+import {
+  analyzeProduct,
+  enhanceVideoPrompt,
+  generateHeroHtml,
+  generateSkuUiLayout,
+  getAgentSystemInstruction,
+  regenerateSkuSection,
+  streamAgentChat,
+  translateSkuHtml,
+} from "./gemini";
+import { getMarketProfile } from "./marketProfiles";
+import { HERO_STYLES, PromptTemplateId, SKU_STYLES } from "./promptTemplates";
+import { CachedRequestOptions } from "./responseCache";
+
+/**
+ * Runs one prompt template body through the call that uses it, against fixture inputs, so
+ * two versions can be compared before one is made active. Runs bypass the cache lookup.
+ */
+
+export type PromptTestOutput =
+  | { kind: 'text' | 'html'; content: string }
+  | { kind: 'layout'; content: string; layout: SkuLayoutDocument }; // content is the document as JSON
+
+export interface PromptTestInput {
+  images: ProductImage[];
+  market: TargetMarket;
+}
+
+// Stand-in for the analysis excerpt that hero and SKU prompts normally receive
+const FIXTURE_ANALYSIS = "目标人群为 20-35 岁城市女性，重视性价比与成分安全。主打卖点：便携、防漏、长效保温。竞品均价约 15 美元，建议定位中端并突出赠品。";
+
+const FIXTURE_HTML = `<div class="sku-section p-6 bg-white">
+  <h1 class="text-2xl font-bold">便携保温杯</h1>
+  <p class="text-slate-600">12 小时长效保温，一键开盖，防漏设计。</p>
+  <ul><li>食品级 316 不锈钢</li><li>500ml 大容量</li><li>限时买一送一</li></ul>
+  <button class="bg-red-500 text-white px-4 py-2 rounded">立即购买</button>
+</div>`;
+
+// Page text for a structured-page translation
+const FIXTURE_TEXTS = ["便携保温杯", "12 小时长效保温，一键开盖，防漏设计。", "食品级 316 不锈钢", "限时买一送一", "立即购买"];
+
+// Page outline and instruction for a single-section rewrite of FIXTURE_HTML
+const FIXTURE_OUTLINE = "1. 便携保温杯  ← 需要重写的区块\n2. 使用场景\n3. 用户口碑\n4. 下单保障";
+const FIXTURE_SECTION_INSTRUCTION = "改成限时促销风格，突出买一送一";
+
+const FIXTURE_VIDEO_PROMPT = "产品在桌面上旋转展示";
+const FIXTURE_AGENT_QUESTION = "这款产品适合在这个市场的哪个平台首发？定价多少合适？";
+
+/**
+ * A generated product shot (a labelled bottle on a plain background), used when no product
+ * image has been uploaded.
+ */
+export const createFixtureImage = (): ProductImage => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 512;
+  canvas.height = 512;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#f1f5f9';
+  ctx.fillRect(0, 0, 512, 512);
+  ctx.fillStyle = '#0f766e';
+  ctx.beginPath();
+  ctx.roundRect(186, 110, 140, 320, 36);
+  ctx.fill();
+  ctx.fillStyle = '#334155';
+  ctx.fillRect(206, 70, 100, 50);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(186, 230, 140, 80);
+  ctx.fillStyle = '#0f172a';
+  ctx.font = 'bold 22px sans-serif';
+  ctx.textAlign = 'center';
+  ctx.fillText('THERMO', 256, 265);
+  ctx.font = '16px sans-serif';
+  ctx.fillText('500 ml', 256, 292);
+  return { id: 'fixture', dataUrl: canvas.toDataURL('image/png'), mimeType: 'image/png', role: 'main' };
+};
+
+const styleOf = (id: PromptTemplateId, prefix: string) =>
+  id.startsWith(prefix) ? id.slice(prefix.length) : undefined;
+
+/**
+ * Run the call behind template `id` with `body` in place of its active version.
+ */
+export const runPromptTest = async (
+  id: PromptTemplateId,
+  body: string,
+  { images, market }: PromptTestInput,
+  options: CachedRequestOptions = {}
+): Promise<PromptTestOutput> => {
+  const runOptions: CachedRequestOptions = { ...options, forceRefresh: true, promptOverrides: { [id]: body } };
+
+  if (id === 'analysis') {
+    const analysis = await analyzeProduct(images, '', market, runOptions);
+    return { kind: 'text', content: analysis.text };
+  }
+  if (id === 'hero' || id.startsWith('heroStyle.')) {
+    const style = styleOf(id, 'heroStyle.') || HERO_STYLES[0];
+    return { kind: 'html', content: await generateHeroHtml(images, FIXTURE_ANALYSIS, style, market, '', runOptions) };
+  }
+  if (id === 'sku' || id.startsWith('skuStyle.')) {
+    const style = styleOf(id, 'skuStyle.') || SKU_STYLES[0];
+    const page = await generateSkuUiLayout(images, FIXTURE_ANALYSIS, style, market, '', runOptions);
+    return 'layout' in page
+      ? { kind: 'layout', content: JSON.stringify(page.layout, null, 2), layout: page.layout }
+      : { kind: 'html', content: page.html };
+  }
+  if (id === 'skuSection') {
+    return { kind: 'html', content: await regenerateSkuSection(FIXTURE_HTML, FIXTURE_OUTLINE, FIXTURE_SECTION_INSTRUCTION, FIXTURE_ANALYSIS, 'zh', market, runOptions) };
+  }
+  if (id === 'translate') {
+    return { kind: 'html', content: await translateSkuHtml(FIXTURE_HTML, 'zh', getMarketProfile(market).translationLanguages[0], market, runOptions) };
+  }
+  if (id === 'translateTexts') {
+    const html = `<div data-sku-layout="">${FIXTURE_TEXTS.map(text => `<p>${text}</p>`).join('')}</div>`;
+    return { kind: 'html', content: await translateSkuHtml(html, 'zh', getMarketProfile(market).translationLanguages[0], market, runOptions) };
+  }
+  if (id === 'enhanceVideo') {
+    return { kind: 'text', content: await enhanceVideoPrompt(FIXTURE_VIDEO_PROMPT, runOptions) };
+  }
+
+  const image = images[0];
+  let reply = '';
+  for await (const chunk of streamAgentChat(getAgentSystemInstruction(market, runOptions), [], [
+    { inlineData: { mimeType: image.mimeType, data: image.dataUrl.split(',')[1] } },
+    { text: FIXTURE_AGENT_QUESTION },
+  ], runOptions)) {
+    reply += chunk;
+  }
+  return { kind: 'text', content: reply };
+};
@@ -0,0 +1,267 @@
+import { jsPDF } from "jspdf";
+import { toCanvas } from "html-to-image";
+import {
+  AlignmentType,
+  Document,
+  ExternalHyperlink,
+  HeadingLevel,
+  ImageRun,
+  Packer,
+  Paragraph,
+  TextRun,
+} from "docx";
+import { AnalysisData, TargetMarket } from "../types";
+import { CITATION_MARKER_REGEX } from "./citations";
+
+export type ReportFormat = 'pdf' | 'docx' | 'md';
+
+export interface ReportExportInput {
+  analysis: AnalysisData;
+  market: { code: TargetMarket; name: string; flag: string };
+  productImage?: string | null; // data URI of the main product image
+  chartImage?: string | null;   // PNG data URI of the rendered price chart
+  generatedAt: Date;
+}
+
+const BRAND = "境智通";
+const REPORT_TITLE = "跨境电商选品与营销报告";
+
+export const getReportFileName = (input: ReportExportInput, format: ReportFormat) => {
+  const date = input.generatedAt.toISOString().slice(0, 10);
+  return `${BRAND}-${input.market.code}-${REPORT_TITLE}-${date}.${format}`;
+};
+
+const triggerDownload = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = fileName;
+  link.href = url;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// --- Markdown ---
+
+export const buildReportMarkdown = (input: ReportExportInput): string => {
+  const { analysis, market } = input;
+  const lines: string[] = [
+    `# ${market.flag} ${market.name} (${market.code}) ${REPORT_TITLE}`,
+    '',
+    `> ${BRAND} · 生成时间 ${input.generatedAt.toLocaleString()}`,
+    '',
+    `**推荐指数**: ${'★'.repeat(analysis.rating.stars)}${'☆'.repeat(5 - analysis.rating.stars)} (${analysis.rating.stars}/5) — ${analysis.rating.reason}`,
+    '',
+  ];
+
+  analysis.sections.forEach(section => {
+    lines.push(`## ${section.heading}`, '', section.body, '');
+  });
+
+  if (analysis.culturalRisks.length > 0) {
+    lines.push('## 文化与合规风险', '');
+    analysis.culturalRisks.forEach(risk => lines.push(`- ${risk}`));
+    lines.push('');
+  }
+
+  if (analysis.priceData.length > 0) {
+    lines.push('## 市场价格区间', '', '| 平台 | 最低价 | 最高价 | 货币 | 来源 |', '| --- | ---: | ---: | --- | --- |');
+    analysis.priceData.forEach(p => {
+      const source = p.sourceIndices.length > 0 ? `[^${p.sourceIndices.map(i => i + 1).join(',')}]` : '未验证';
+      lines.push(`| ${p.platform} | ${p.minPrice.toLocaleString()} | ${p.maxPrice.toLocaleString()} | ${p.currency} | ${source} |`);
+    });
+    lines.push('');
+  }
+
+  if (analysis.keywords.length > 0) {
+    lines.push('## 本土化 SEO 关键词', '');
+    analysis.keywords.forEach(kw => lines.push(`- ${kw.term} \`${kw.language}\``));
+    lines.push('');
+  }
+
+  const chunks = analysis.groundingChunks || [];
+  if (chunks.some(chunk => chunk.web?.uri)) {
+    lines.push('## 数据来源', '');
+    chunks.forEach((chunk, i) => {
+      if (chunk.web?.uri) lines.push(`[^${i + 1}]: [${chunk.web.title || chunk.web.uri}](${chunk.web.uri})`);
+    });
+    lines.push('');
+  }
+
+  // `[^1,3]` is our compact marker; Markdown footnotes need one reference per source
+  return lines.join('\n').replace(CITATION_MARKER_REGEX, (_, nums: string) => nums.split(',').map(n => `[^${n}]`).join(''));
+};
+
+export const exportReportMarkdown = (input: ReportExportInput) => {
+  const blob = new Blob([buildReportMarkdown(input)], { type: 'text/markdown;charset=utf-8' });
+  triggerDownload(blob, getReportFileName(input, 'md'));
+};
+
+// --- DOCX ---
+
+/**
+ * Re-encode any data URI as PNG (docx only embeds raster formats it knows) and scale it to `maxWidth`.
+ */
+const loadImageAsPng = (dataUri: string, maxWidth: number) =>
+  new Promise<{ data: Uint8Array; width: number; height: number }>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return reject(new Error("Canvas 2D context unavailable"));
+      ctx.drawImage(img, 0, 0);
+      const base64 = canvas.toDataURL('image/png').split(',')[1];
+      const binary = atob(base64);
+      const data = new Uint8Array(binary.length);
+      for (let i = 0; i < binary.length; i++) data[i] = binary.charCodeAt(i);
+      const scale = Math.min(1, maxWidth / img.naturalWidth);
+      resolve({ data, width: Math.round(img.naturalWidth * scale), height: Math.round(img.naturalHeight * scale) });
+    };
+    img.onerror = () => reject(new Error("Failed to load image for export"));
+    img.src = dataUri;
+  });
+
+const markdownInlineRuns = (content: string) =>
+  content.split(/(\*\*.*?\*\*)/g).filter(Boolean).flatMap(part => {
+    const bold = part.startsWith('**') && part.endsWith('**');
+    const text = bold ? part.slice(2, -2) : part;
+    // Citation markers become superscript source numbers
+    return text.split(/(\[\^\d+(?:,\d+)*\])/g).filter(Boolean).map(piece =>
+      /^\[\^\d+(?:,\d+)*\]$/.test(piece)
+        ? new TextRun({ text: `[${piece.slice(2, -1)}]`, superScript: true, color: '4F46E5' })
+        : new TextRun({ text: piece, bold })
+    );
+  });
+
+const markdownToParagraphs = (markdown: string): Paragraph[] =>
+  markdown.split('\n').map(line => line.trim()).filter(Boolean).map(trimmed => {
+    if (trimmed.startsWith('### ')) {
+      return new Paragraph({ heading: HeadingLevel.HEADING_3, children: markdownInlineRuns(trimmed.replace(/^###\s+/, '')) });
+    }
+    if (trimmed.startsWith('- ') || trimmed.startsWith('* ')) {
+      return new Paragraph({ bullet: { level: 0 }, children: markdownInlineRuns(trimmed.replace(/^[-*]\s+/, '')) });
+    }
+    return new Paragraph({ children: markdownInlineRuns(trimmed) });
+  });
+
+export const exportReportDocx = async (input: ReportExportInput) => {
+  const { analysis, market } = input;
+  const children: Paragraph[] = [
+    new Paragraph({
+      alignment: AlignmentType.LEFT,
+      children: [new TextRun({ text: BRAND, bold: true, color: '4F46E5', size: 28 })],
+    }),
+    new Paragraph({
+      heading: HeadingLevel.TITLE,
+      children: [new TextRun(`${market.flag} ${market.name} (${market.code}) ${REPORT_TITLE}`)],
+    }),
+    new Paragraph({
+      children: [new TextRun({ text: `生成时间 ${input.generatedAt.toLocaleString()}`, color: '64748B', size: 18 })],
+    }),
+  ];
+
+  if (input.productImage) {
+    const img = await loadImageAsPng(input.productImage, 240);
+    children.push(new Paragraph({ children: [new ImageRun({ type: 'png', data: img.data, transformation: { width: img.width, height: img.height } })] }));
+  }
+
+  children.push(new Paragraph({
+    children: [
+      new TextRun({ text: '推荐指数: ', bold: true }),
+      new TextRun({ text: `${'★'.repeat(analysis.rating.stars)}${'☆'.repeat(5 - analysis.rating.stars)} `, color: 'F59E0B' }),
+      new TextRun(analysis.rating.reason),
+    ],
+  }));
+
+  analysis.sections.forEach(section => {
+    children.push(new Paragraph({ heading: HeadingLevel.HEADING_2, children: [new TextRun(section.heading)] }));
+    children.push(...markdownToParagraphs(section.body));
+  });
+
+  if (analysis.culturalRisks.length > 0) {
+    children.push(new Paragraph({ heading: HeadingLevel.HEADING_2, children: [new TextRun('文化与合规风险')] }));
+    analysis.culturalRisks.forEach(risk => children.push(new Paragraph({ bullet: { level: 0 }, children: [new TextRun(risk)] })));
+  }
+
+  if (analysis.priceData.length > 0) {
+    children.push(new Paragraph({ heading: HeadingLevel.HEADING_2, children: [new TextRun('市场价格区间')] }));
+    if (input.chartImage) {
+      const chart = await loadImageAsPng(input.chartImage, 560);
+      children.push(new Paragraph({ children: [new ImageRun({ type: 'png', data: chart.data, transformation: { width: chart.width, height: chart.height } })] }));
+    }
+    analysis.priceData.forEach(p => children.push(new Paragraph({
+      bullet: { level: 0 },
+      children: [
+        new TextRun({ text: `${p.platform}: `, bold: true }),
+        new TextRun(`${p.minPrice.toLocaleString()} - ${p.maxPrice.toLocaleString()} ${p.currency} `),
+        p.sourceIndices.length > 0
+          ? new TextRun({ text: `[${p.sourceIndices.map(i => i + 1).join(',')}]`, superScript: true, color: '4F46E5' })
+          : new TextRun({ text: '(未验证)', color: 'D97706' }),
+      ],
+    })));
+  }
+
+  if (analysis.keywords.length > 0) {
+    children.push(new Paragraph({ heading: HeadingLevel.HEADING_2, children: [new TextRun('本土化 SEO 关键词')] }));
+    analysis.keywords.forEach(kw => children.push(new Paragraph({
+      bullet: { level: 0 },
+      children: [new TextRun(kw.term), new TextRun({ text: `  [${kw.language}]`, color: '94A3B8' })],
+    })));
+  }
+
+  const chunks = analysis.groundingChunks || [];
+  if (chunks.some(chunk => chunk.web?.uri)) {
+    children.push(new Paragraph({ heading: HeadingLevel.HEADING_2, children: [new TextRun('数据来源')] }));
+    chunks.forEach((chunk, i) => chunk.web?.uri && children.push(new Paragraph({
+      children: [
+        new TextRun(`[${i + 1}] `),
+        new ExternalHyperlink({ link: chunk.web.uri, children: [new TextRun({ text: chunk.web.title || chunk.web.uri, style: 'Hyperlink' })] }),
+      ],
+    })));
+  }
+
+  const doc = new Document({
+    creator: BRAND,
+    title: `${market.name} ${REPORT_TITLE}`,
+    sections: [{ children }],
+  });
+  triggerDownload(await Packer.toBlob(doc), getReportFileName(input, 'docx'));
+};
+
+// --- PDF ---
+
+/**
+ * Rasterise the rendered report layout and paginate it onto A4 pages.
+ * Rendering through the DOM keeps CJK / Thai text intact without embedding fonts into jsPDF.
+ */
+export const exportReportPdf = async (reportNode: HTMLElement, input: ReportExportInput) => {
+  const canvas = await toCanvas(reportNode, { backgroundColor: '#ffffff', pixelRatio: 2, cacheBust: true });
+  const pdf = new jsPDF({ orientation: 'portrait', unit: 'pt', format: 'a4' });
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const margin = 24;
+  const contentWidth = pageWidth - margin * 2;
+  const contentHeight = pageHeight - margin * 2;
+
+  // Height of one page expressed in source canvas pixels
+  const sliceHeightPx = Math.floor(canvas.width * (contentHeight / contentWidth));
+  const pageCanvas = document.createElement('canvas');
+  pageCanvas.width = canvas.width;
+  const ctx = pageCanvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+
+  for (let offset = 0, page = 0; offset < canvas.height; offset += sliceHeightPx, page++) {
+    const height = Math.min(sliceHeightPx, canvas.height - offset);
+    pageCanvas.height = height;
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, pageCanvas.width, height);
+    ctx.drawImage(canvas, 0, offset, canvas.width, height, 0, 0, canvas.width, height);
+    if (page > 0) pdf.addPage();
+    pdf.addImage(pageCanvas.toDataURL('image/jpeg', 0.92), 'JPEG', margin, margin, contentWidth, height * (contentWidth / canvas.width));
+  }
+
+  pdf.save(getReportFileName(input, 'pdf'));
+};
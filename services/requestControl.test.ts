@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ApiError, NetworkError, postJson } from './api';
+import { describeRequestError, isRetryableError, runWithRetry } from './requestControl';
+import { BudgetExceededError } from './usageStore';
+
+test('network failures and transient statuses are retried', () => {
+  assert.ok(isRetryableError(new NetworkError(new TypeError('Failed to fetch'))));
+  assert.ok(isRetryableError(new ApiError('busy', 503)));
+  assert.ok(isRetryableError(new ApiError('slow down', 429)));
+});
+
+test('bugs and client errors are not retried', () => {
+  assert.ok(!isRetryableError(new TypeError("Cannot read properties of undefined (reading 'text')")));
+  assert.ok(!isRetryableError(new ApiError('bad request', 400)));
+});
+
+test('a fetch that cannot reach the server fails with NetworkError', async t => {
+  t.mock.method(globalThis, 'fetch', async () => {
+    throw new TypeError('Failed to fetch');
+  });
+  await assert.rejects(postJson('/api/text', {}), NetworkError);
+});
+
+test('a TypeError thrown while handling a reply is not retried', async () => {
+  let calls = 0;
+  await assert.rejects(runWithRetry('text', async () => {
+    calls++;
+    throw new TypeError('not a function');
+  }, { maxRetries: 3 }), TypeError);
+  assert.equal(calls, 1);
+});
+
+test('a call refused by the daily budget says so', () => {
+  assert.equal(
+    describeRequestError(new BudgetExceededError(5.2, 5), '翻译失败'),
+    '翻译失败：今日预估花费 $5.20 已达到每日预算 $5.00，可在「用量与成本」中调整预算。'
+  );
+  assert.equal(describeRequestError(new ApiError('bad request', 400), '翻译失败'), '翻译失败');
+});
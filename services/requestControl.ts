@@ -0,0 +1,199 @@
+import type { AiCapability } from "./aiProvider";
+import { BudgetExceededError, UsageAttribution } from "./usageStore";
+import type { PromptOverrides } from "./promptTemplates";
+import { ApiError, NetworkError } from "./api";
+
+/**
+ * Cancellation, per-attempt timeouts and exponential backoff for service calls.
+ * Every function in services/gemini.ts takes `RequestOptions` as its last argument.
+ */
+
+export class RequestCancelledError extends Error {
+  constructor() {
+    super('Request was cancelled');
+    this.name = 'RequestCancelledError';
+  }
+}
+
+export class RequestTimeoutError extends Error {
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`Request timed out after ${Math.round(timeoutMs / 1000)}s`);
+    this.name = 'RequestTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+export interface RetryInfo {
+  attempt: number; // 1-based number of the retry about to happen
+  maxRetries: number;
+  delayMs: number;
+  rateLimited: boolean;
+  error: unknown;
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number; // per attempt; defaults to DEFAULT_TIMEOUTS_MS for the capability
+  maxRetries?: number;
+  onRetry?: (info: RetryInfo) => void;
+  attribution?: UsageAttribution; // who the usage of this call is recorded against
+  promptOverrides?: PromptOverrides; // template bodies to use instead of the active versions
+}
+
+// Video covers a whole polling cycle, which regularly takes minutes
+export const DEFAULT_TIMEOUTS_MS: Record<AiCapability, number> = {
+  grounded: 120_000,
+  text: 120_000,
+  image: 90_000,
+  video: 10 * 60_000,
+  chat: 90_000,
+};
+
+export const DEFAULT_MAX_RETRIES = 3;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30_000;
+
+export const isCancelledError = (error: unknown): error is RequestCancelledError =>
+  error instanceof RequestCancelledError;
+
+export const isRateLimitError = (error: unknown) =>
+  error instanceof ApiError && error.status === 429;
+
+/**
+ * 408 / 429 / 5xx and network failures are worth retrying; client errors, timeouts
+ * and cancellations are not.
+ */
+export const isRetryableError = (error: unknown) => {
+  if (error instanceof ApiError) return error.status === 408 || error.status === 429 || error.status >= 500;
+  return error instanceof NetworkError;
+};
+
+/**
+ * User-facing message for a failed request: `fallback`, qualified when it timed out, ran out
+ * of rate-limit retries or was refused by the daily budget.
+ */
+export const describeRequestError = (error: unknown, fallback: string) => {
+  if (error instanceof BudgetExceededError) {
+    return `${fallback}：今日预估花费 $${error.spent.toFixed(2)} 已达到每日预算 $${error.budget.toFixed(2)}，可在「用量与成本」中调整预算。`;
+  }
+  if (error instanceof RequestTimeoutError) return `${fallback}：请求超时，请稍后重试。`;
+  if (isRateLimitError(error)) return `${fallback}：请求过于频繁，已达到自动重试上限，请稍后再试。`;
+  return fallback;
+};
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw signal.reason ?? new RequestCancelledError();
+};
+
+/**
+ * Resolve after `ms`, or reject with the signal's reason as soon as it aborts.
+ */
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  throwIfAborted(signal);
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal!.reason ?? new RequestCancelledError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * A signal for one attempt: aborts with `RequestCancelledError` when the caller cancels
+ * and with `RequestTimeoutError` when the attempt runs too long.
+ */
+const createAttemptSignal = (timeoutMs: number, parent?: AbortSignal) => {
+  const controller = new AbortController();
+  const onParentAbort = () => controller.abort(new RequestCancelledError());
+  if (parent?.aborted) onParentAbort();
+  else parent?.addEventListener('abort', onParentAbort, { once: true });
+  const timer = setTimeout(() => controller.abort(new RequestTimeoutError(timeoutMs)), timeoutMs);
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', onParentAbort);
+    },
+  };
+};
+
+const getBackoffMs = (error: unknown, retry: number) => {
+  if (error instanceof ApiError && error.retryAfterMs !== undefined) return Math.min(error.retryAfterMs, MAX_BACKOFF_MS);
+  const exponential = BASE_BACKOFF_MS * 2 ** (retry - 1);
+  return Math.min(exponential + Math.random() * BASE_BACKOFF_MS * 0.25, MAX_BACKOFF_MS);
+};
+
+// An aborted fetch may reject with a DOMException instead of the signal's reason
+const normalizeAbort = (error: unknown, signal: AbortSignal) =>
+  signal.aborted && (signal.reason instanceof RequestCancelledError || signal.reason instanceof RequestTimeoutError)
+    ? signal.reason
+    : error;
+
+const waitBeforeRetry = async (error: unknown, retry: number, options: RequestOptions) => {
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  if (retry > maxRetries || !isRetryableError(error)) throw error;
+  const delayMs = getBackoffMs(error, retry);
+  options.onRetry?.({ attempt: retry, maxRetries, delayMs, rateLimited: isRateLimitError(error), error });
+  try {
+    await sleep(delayMs, options.signal);
+  } catch {
+    throw new RequestCancelledError();
+  }
+};
+
+/**
+ * Run `call` with the capability's timeout, retrying retryable failures with backoff.
+ */
+export const runWithRetry = async <T>(
+  capability: AiCapability,
+  call: (signal: AbortSignal) => Promise<T>,
+  options: RequestOptions = {}
+): Promise<T> => {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUTS_MS[capability];
+  for (let retry = 1; ; retry++) {
+    if (options.signal?.aborted) throw new RequestCancelledError();
+    const attempt = createAttemptSignal(timeoutMs, options.signal);
+    try {
+      return await call(attempt.signal);
+    } catch (error) {
+      await waitBeforeRetry(normalizeAbort(error, attempt.signal), retry, options);
+    } finally {
+      attempt.dispose();
+    }
+  }
+};
+
+/**
+ * Streaming variant: retries only while nothing has been yielded yet, since a partial
+ * reply cannot be replayed. The timeout covers the whole stream.
+ */
+export async function* streamWithRetry<T>(
+  capability: AiCapability,
+  open: (signal: AbortSignal) => AsyncGenerator<T>,
+  options: RequestOptions = {}
+): AsyncGenerator<T> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUTS_MS[capability];
+  for (let retry = 1; ; retry++) {
+    if (options.signal?.aborted) throw new RequestCancelledError();
+    const attempt = createAttemptSignal(timeoutMs, options.signal);
+    let yielded = false;
+    try {
+      for await (const chunk of open(attempt.signal)) {
+        yielded = true;
+        yield chunk;
+      }
+      return;
+    } catch (error) {
+      const normalized = normalizeAbort(error, attempt.signal);
+      if (yielded) throw normalized;
+      await waitBeforeRetry(normalized, retry, options);
+    } finally {
+      attempt.dispose();
+    }
+  }
+}
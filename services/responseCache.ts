@@ -0,0 +1,136 @@
+import type { AiProviderId } from "./aiProvider";
+import type { RequestOptions } from "./requestControl";
+import { getCacheSettings } from "./cacheSettings";
+import { RESPONSE_CACHE_STORE, openDb, requestToPromise, transactionDone } from "./db";
+
+/**
+ * Local cache of model responses, keyed by a SHA-256 of the exact request (provider, model,
+ * parts - which carry the image bytes and a prompt naming market and style). Entries expire
+ * after the TTL configured per kind in cache settings. A cache failure never fails a request;
+ * it just falls through to the model.
+ */
+
+export type CacheKind = 'analysis' | 'translate' | 'hero' | 'sku';
+
+export const CACHE_KINDS: CacheKind[] = ['analysis', 'hero', 'sku', 'translate'];
+
+export interface CacheHit {
+  cachedAt: number;
+  expiresAt: number;
+}
+
+export interface CachedRequestOptions extends RequestOptions {
+  forceRefresh?: boolean; // skip the lookup; the fresh response still replaces the entry
+  onCacheHit?: (hit: CacheHit) => void;
+}
+
+export interface CacheRequest {
+  kind: CacheKind;
+  label: string; // shown when inspecting the cache, e.g. "TH 市场分析"
+  providerId: AiProviderId;
+  model: string;
+  material: unknown; // everything else that determines the response
+}
+
+export interface CacheEntry extends CacheHit {
+  key: string;
+  kind: CacheKind;
+  label: string;
+  providerId: AiProviderId;
+  model: string;
+  hits: number;
+  size: number;
+  value: unknown;
+}
+
+export type CacheEntrySummary = Omit<CacheEntry, 'value'>;
+
+const hashRequest = async ({ kind, providerId, model, material }: CacheRequest) => {
+  const bytes = new TextEncoder().encode(JSON.stringify({ kind, providerId, model, material }));
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const readEntry = async (key: string) => {
+  const db = await openDb();
+  const tx = db.transaction(RESPONSE_CACHE_STORE, 'readonly');
+  return requestToPromise<CacheEntry | undefined>(tx.objectStore(RESPONSE_CACHE_STORE).get(key));
+};
+
+const writeEntry = async (entry: CacheEntry) => {
+  const db = await openDb();
+  const tx = db.transaction(RESPONSE_CACHE_STORE, 'readwrite');
+  tx.objectStore(RESPONSE_CACHE_STORE).put(entry);
+  await transactionDone(tx);
+};
+
+/**
+ * Return the cached response for `request` if caching is on and a fresh entry exists;
+ * otherwise run `compute` and store its result.
+ */
+export const withResponseCache = async <T>(
+  request: CacheRequest,
+  options: CachedRequestOptions,
+  compute: () => Promise<T>
+): Promise<T> => {
+  const settings = getCacheSettings();
+  if (!settings.enabled || typeof crypto === 'undefined' || !crypto.subtle) return compute();
+
+  let key: string | null = null;
+  try {
+    key = await hashRequest(request);
+    const entry = options.forceRefresh ? undefined : await readEntry(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      writeEntry({ ...entry, hits: entry.hits + 1 }).catch(() => undefined);
+      options.onCacheHit?.({ cachedAt: entry.cachedAt, expiresAt: entry.expiresAt });
+      return entry.value as T;
+    }
+  } catch (error) {
+    console.error("Response cache lookup failed:", error);
+  }
+
+  const value = await compute();
+  if (key) {
+    const now = Date.now();
+    writeEntry({
+      key,
+      kind: request.kind,
+      label: request.label,
+      providerId: request.providerId,
+      model: request.model,
+      cachedAt: now,
+      expiresAt: now + settings.ttlHours[request.kind] * 60 * 60 * 1000,
+      hits: 0,
+      size: JSON.stringify(value).length * 2,
+      value,
+    }).catch(error => console.error("Failed to store cached response:", error));
+  }
+  return value;
+};
+
+/**
+ * Every entry without its value, newest first.
+ */
+export const listCacheEntries = async (): Promise<CacheEntrySummary[]> => {
+  const db = await openDb();
+  const tx = db.transaction(RESPONSE_CACHE_STORE, 'readonly');
+  const entries = await requestToPromise<CacheEntry[]>(tx.objectStore(RESPONSE_CACHE_STORE).getAll());
+  return entries
+    .map(({ value: _value, ...summary }) => summary)
+    .sort((a, b) => b.cachedAt - a.cachedAt);
+};
+
+export const deleteCacheEntries = async (keys: string[]) => {
+  if (keys.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(RESPONSE_CACHE_STORE, 'readwrite');
+  keys.forEach(key => tx.objectStore(RESPONSE_CACHE_STORE).delete(key));
+  await transactionDone(tx);
+};
+
+export const clearResponseCache = async () => {
+  const db = await openDb();
+  const tx = db.transaction(RESPONSE_CACHE_STORE, 'readwrite');
+  tx.objectStore(RESPONSE_CACHE_STORE).clear();
+  await transactionDone(tx);
+};
@@ -0,0 +1,221 @@
+import { BatchImage, ProductImage, ProductImageRole, SkuSectionKind } from "../types";
+
+/**
+ * Image slots of a generated SKU page, and matching pictures to them. A slot is any <img> on
+ * the page, counted in document order as the preview counts them. What a slot should show is
+ * its `data-image-hint` (set on layout pages and on newly generated HTML pages), or for older
+ * pages its alt text or placeholder caption; the section it sits in adds to that.
+ */
+
+export interface SkuImageSlotInfo {
+  index: number;
+  hint: string;
+  section: string; // heading of the section the image is in
+  sectionKind: SkuSectionKind | null; // layout pages only
+  src: string;
+  empty: boolean; // a placeholder still waiting for a picture
+}
+
+export interface SkuFillCandidate {
+  url: string;
+  label: string; // what the picture shows; empty for library images nobody labeled
+}
+
+export interface SkuFillProposal {
+  slot: number;
+  url: string;
+  reason: string | null; // what the match was made on; null when filled in order without one
+}
+
+type Concept = 'product' | 'lifestyle' | 'detail' | 'painPoint' | 'comparison' | 'socialProof' | 'certificate' | 'packaging';
+
+const CONCEPT_LABELS: Record<Concept, string> = {
+  product: '产品主图',
+  lifestyle: '使用场景',
+  detail: '细节品质',
+  painPoint: '痛点功能',
+  comparison: '竞品对比',
+  socialProof: '用户口碑',
+  certificate: '资质认证',
+  packaging: '包装',
+};
+
+// English words match whole words; Chinese ones match anywhere in the text
+const CONCEPT_WORDS: Record<Concept, string[]> = {
+  product: ['product', 'hero', 'poster', 'overview', 'main', '产品', '主图', '全貌', '首屏', '海报'],
+  lifestyle: ['lifestyle', 'scenario', 'scene', 'usage', 'outdoor', 'home', 'model', '场景', '使用', '生活'],
+  detail: ['quality', 'detail', 'details', 'texture', 'material', 'close', 'closeup', 'angle', '细节', '品质', '材质', '做工'],
+  painPoint: ['pain', 'problem', 'solution', 'function', 'feature', 'features', '痛点', '功能', '问题'],
+  comparison: ['comparison', 'competitor', 'compare', 'versus', 'vs', '对比', '竞品'],
+  socialProof: ['social', 'proof', 'review', 'reviews', 'testimonial', 'customer', 'buyer', '口碑', '评价', '买家'],
+  certificate: ['certificate', 'certificates', 'certification', 'certified', 'license', 'award', 'lab', 'halal', 'bpom', '认证', '资质', '证书', '质检'],
+  packaging: ['packaging', 'package', 'box', 'unboxing', 'gift', '包装', '礼盒'],
+};
+
+const SECTION_CONCEPTS: Record<SkuSectionKind, Concept[]> = {
+  hero: ['product'],
+  painPoints: ['painPoint'],
+  features: ['lifestyle', 'detail', 'painPoint'],
+  comparison: ['comparison'],
+  reviews: ['socialProof'],
+  certificates: ['certificate'],
+  offer: ['product', 'packaging'],
+};
+
+// What the product photos show, by the role they were uploaded as
+const PRODUCT_IMAGE_LABELS: Record<ProductImageRole, string> = {
+  main: 'Main product photo',
+  detail: 'Detail angle',
+  packaging: 'Packaging',
+  label: 'Label certification',
+};
+
+// What a slot says it wants counts more than where it sits
+const HINT_WEIGHT = 3;
+const SECTION_WEIGHT = 1;
+const EXACT_LABEL_BONUS = 5;
+
+const PLACEHOLDER_CAPTION = 'CLICK TO REPLACE';
+
+const conceptsOf = (text: string): Set<Concept> => {
+  const lower = text.toLowerCase();
+  const words = new Set(lower.split(/[^a-z0-9]+/).filter(Boolean));
+  const found = new Set<Concept>();
+  (Object.keys(CONCEPT_WORDS) as Concept[]).forEach(concept => {
+    if (CONCEPT_WORDS[concept].some(word => /^[a-z0-9]+$/.test(word) ? words.has(word) : lower.includes(word))) found.add(concept);
+  });
+  return found;
+};
+
+// Labels like "Lifestyle Scenario (场景化)" and hints like "lifestyle scenario" are the same thing
+const normalizeLabel = (text: string) => text.toLowerCase().replace(/\(.*?\)|（.*?）/g, '').replace(/[^a-z0-9一-鿿]+/g, ' ').trim();
+
+// Caption of an SVG stand-in drawn for a `via.placeholder.com` image (see `buildLegacySkuHtml`)
+const placeholderCaption = (src: string): string | null => {
+  if (/^https:\/\/via\.placeholder\.com\//.test(src)) {
+    try {
+      return (new URL(src).searchParams.get('text') || '').replace(/\+/g, ' ');
+    } catch {
+      return '';
+    }
+  }
+  const base64 = src.match(/^data:image\/svg\+xml;base64,(.*)$/)?.[1];
+  if (!base64) return null;
+  try {
+    const svg = decodeURIComponent(escape(atob(base64)));
+    if (!svg.includes(PLACEHOLDER_CAPTION)) return null;
+    const texts = Array.from(svg.matchAll(/<text[^>]*>([^<]*)<\/text>/g), match => match[1].trim());
+    return texts.find(text => text && text !== PLACEHOLDER_CAPTION) || '';
+  } catch {
+    return null;
+  }
+};
+
+const parsePage = (html: string) => new DOMParser().parseFromString(html, 'text/html').body;
+
+const readSlot = (image: HTMLImageElement, index: number): SkuImageSlotInfo => {
+  const src = image.getAttribute('src') || '';
+  const caption = placeholderCaption(src);
+  const section = image.closest<HTMLElement>('.sku-section');
+  const heading = section?.querySelector('h1, h2, h3, h4')?.textContent?.replace(/\s+/g, ' ').trim() || '';
+  return {
+    index,
+    hint: image.dataset.imageHint || image.getAttribute('alt')?.trim() || caption || '',
+    section: heading,
+    sectionKind: (section?.dataset.sectionKind as SkuSectionKind | undefined) ?? null,
+    src,
+    empty: image.hasAttribute('data-image-empty') || caption !== null || !src,
+  };
+};
+
+export const listSkuImageSlots = (html: string): SkuImageSlotInfo[] =>
+  Array.from(parsePage(html).querySelectorAll('img')).map(readSlot);
+
+/**
+ * Give every image on the page a `data-image-hint`, and mark placeholders with
+ * `data-image-empty`, from what can be read off the page.
+ */
+export const tagSkuImageSlots = (html: string): string => {
+  const body = parsePage(html);
+  Array.from(body.querySelectorAll('img')).forEach((image, index) => {
+    const slot = readSlot(image, index);
+    if (!image.dataset.imageHint) image.dataset.imageHint = slot.hint || slot.section || '产品图';
+    if (slot.empty) image.setAttribute('data-image-empty', '');
+  });
+  return body.innerHTML;
+};
+
+/** Batch images, product photos and the asset library as fill candidates, each picture once. */
+export const collectFillCandidates = (batchImages: BatchImage[], productImages: ProductImage[], assets: string[]): SkuFillCandidate[] => {
+  const candidates = new Map<string, SkuFillCandidate>();
+  const add = (url: string, label: string) => {
+    if (url && !candidates.has(url)) candidates.set(url, { url, label });
+  };
+  batchImages.forEach(image => add(image.url, image.label));
+  productImages.forEach(image => add(image.dataUrl, PRODUCT_IMAGE_LABELS[image.role]));
+  assets.forEach(url => add(url, ''));
+  return Array.from(candidates.values());
+};
+
+const scoreMatch = (slot: SkuImageSlotInfo, candidate: SkuFillCandidate): { score: number; reason: string | null } => {
+  if (!candidate.label) return { score: 0, reason: null };
+  const hintConcepts = conceptsOf(slot.hint);
+  const sectionConcepts = new Set([...(slot.sectionKind ? SECTION_CONCEPTS[slot.sectionKind] : []), ...conceptsOf(slot.section)]);
+  const exact = slot.hint !== '' && normalizeLabel(slot.hint) === normalizeLabel(candidate.label);
+  let score = exact ? EXACT_LABEL_BONUS : 0;
+  let reason = exact ? slot.hint : null;
+  let reasonWeight = 0;
+  for (const concept of Array.from(conceptsOf(candidate.label))) {
+    const weight = (hintConcepts.has(concept) ? HINT_WEIGHT : 0) + (sectionConcepts.has(concept) ? SECTION_WEIGHT : 0);
+    score += weight;
+    if (weight > reasonWeight) {
+      reasonWeight = weight;
+      reason = CONCEPT_LABELS[concept];
+    }
+  }
+  return { score, reason };
+};
+
+/**
+ * Propose a picture for each empty slot. Labeled pictures go where their label best matches
+ * the slot's hint and section, each picture at most once; unlabeled library pictures then fill
+ * the remaining empty slots in page order. Pictures already on the page are not proposed again.
+ */
+export const proposeSkuImageFill = (slots: SkuImageSlotInfo[], candidates: SkuFillCandidate[]): SkuFillProposal[] => {
+  const onPage = new Set(slots.map(slot => slot.src));
+  const available = candidates.filter(candidate => !onPage.has(candidate.url));
+  const empty = slots.filter(slot => slot.empty);
+
+  const pairs = empty.flatMap(slot => available.map((candidate, order) => ({ slot, candidate, order, ...scoreMatch(slot, candidate) })))
+    .filter(pair => pair.score > 0)
+    .sort((a, b) => b.score - a.score || a.slot.index - b.slot.index || a.order - b.order);
+
+  const proposals = new Map<number, SkuFillProposal>();
+  const used = new Set<string>();
+  for (const pair of pairs) {
+    if (proposals.has(pair.slot.index) || used.has(pair.candidate.url)) continue;
+    proposals.set(pair.slot.index, { slot: pair.slot.index, url: pair.candidate.url, reason: pair.reason });
+    used.add(pair.candidate.url);
+  }
+
+  const unlabeled = available.filter(candidate => !candidate.label && !used.has(candidate.url));
+  empty.filter(slot => !proposals.has(slot.index)).forEach(slot => {
+    const next = unlabeled.shift();
+    if (next) proposals.set(slot.index, { slot: slot.index, url: next.url, reason: null });
+  });
+
+  return Array.from(proposals.values()).sort((a, b) => a.slot - b.slot);
+};
+
+/** Put the chosen pictures into their slots; the hints stay so the page can be filled again. */
+export const fillSkuImageSlots = (html: string, fills: Array<{ slot: number; url: string }>): string => {
+  const body = parsePage(html);
+  const images = Array.from(body.querySelectorAll('img'));
+  fills.forEach(({ slot, url }) => {
+    const image = images[slot];
+    if (!image) return;
+    image.setAttribute('src', url);
+    image.removeAttribute('data-image-empty');
+  });
+  return body.innerHTML;
+};
@@ -0,0 +1,145 @@
+import { SkuImageSlot, SkuLayoutDocument, SkuLayoutSection, SkuSectionKind, SkuTone } from "../types";
+
+/**
+ * Structured SKU pages. The model returns a layout document (JSON) of known section kinds; the
+ * renderer (components/SkuLayoutRenderer.tsx) draws it as the page's HTML, which is what gets
+ * edited and stored from then on. The markup keeps enough of the structure for page tools:
+ *
+ *   [data-sku-layout]  page root; its text can be translated piece by piece
+ *   .sku-section[data-section-kind]  one section
+ *   [data-value]  a number drawn as symbols (ratings), not text to translate
+ *   img[data-image-hint]  an image slot; `data-image-empty` while it has no image
+ */
+
+export class SkuLayoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SkuLayoutError';
+  }
+}
+
+export const SKU_SECTION_KIND_LABELS: Record<SkuSectionKind, string> = {
+  hero: '首屏',
+  painPoints: '痛点',
+  features: '卖点',
+  comparison: '对比',
+  reviews: '评价',
+  certificates: '资质',
+  offer: '优惠',
+};
+
+// Image src the model uses for the main product photo; swapped for the real photo after parsing
+export const PRODUCT_IMAGE_TOKEN = '__PRODUCT_IMG_SRC__';
+
+const TONES: SkuTone[] = ['base', 'alt', 'emphasis'];
+
+const newSectionId = () => `sec-${Math.random().toString(36).substr(2, 9)}`;
+
+const text = (value: unknown) => typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : '';
+
+const list = <T>(value: unknown, item: (raw: any) => T): T[] => Array.isArray(value) ? value.map(item) : [];
+
+const image = (value: any): SkuImageSlot => ({
+  hint: text(value?.hint) || '产品图',
+  src: typeof value?.src === 'string' && value.src ? value.src : null,
+});
+
+const rating = (value: unknown) => Math.min(5, Math.max(1, Math.round(Number(value)) || 5));
+
+// Fills in missing fields and drops unknown ones; null for a section of no known kind
+const normalizeSection = (raw: any): SkuLayoutSection | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const base = { id: text(raw.id) || newSectionId(), tone: TONES.includes(raw.tone) ? raw.tone as SkuTone : 'base' };
+  switch (raw.kind) {
+    case 'hero':
+      return { ...base, kind: 'hero', eyebrow: text(raw.eyebrow), title: text(raw.title), subtitle: text(raw.subtitle), badges: list(raw.badges, text).filter(Boolean), image: image(raw.image) };
+    case 'painPoints':
+      return { ...base, kind: 'painPoints', title: text(raw.title), items: list(raw.items, item => ({ problem: text(item?.problem), solution: text(item?.solution) })) };
+    case 'features':
+      return { ...base, kind: 'features', title: text(raw.title), items: list(raw.items, item => ({ title: text(item?.title), body: text(item?.body), image: image(item?.image) })) };
+    case 'comparison':
+      return {
+        ...base, kind: 'comparison', title: text(raw.title), oursLabel: text(raw.oursLabel), othersLabel: text(raw.othersLabel),
+        rows: list(raw.rows, row => ({ aspect: text(row?.aspect), ours: text(row?.ours), others: text(row?.others) })),
+      };
+    case 'reviews':
+      return { ...base, kind: 'reviews', title: text(raw.title), items: list(raw.items, item => ({ author: text(item?.author), body: text(item?.body), rating: rating(item?.rating) })) };
+    case 'certificates':
+      return { ...base, kind: 'certificates', title: text(raw.title), items: list(raw.items, item => ({ name: text(item?.name), detail: text(item?.detail), image: image(item?.image) })) };
+    case 'offer':
+      return { ...base, kind: 'offer', title: text(raw.title), price: text(raw.price), originalPrice: text(raw.originalPrice), perks: list(raw.perks, text).filter(Boolean), cta: text(raw.cta) };
+    default:
+      return null;
+  }
+};
+
+/** Apply `map` to every image slot in the document. */
+export const mapSkuLayoutImages = (
+  document: SkuLayoutDocument,
+  map: (slot: SkuImageSlot, section: SkuLayoutSection) => SkuImageSlot
+): SkuLayoutDocument => ({
+  ...document,
+  sections: document.sections.map(section => {
+    switch (section.kind) {
+      case 'hero':
+        return { ...section, image: map(section.image, section) };
+      case 'features':
+      case 'certificates':
+        return { ...section, items: section.items.map(item => ({ ...item, image: map(item.image, section) })) } as SkuLayoutSection;
+      default:
+        return section;
+    }
+  }),
+});
+
+/**
+ * Parse the model's layout JSON. Unknown section kinds are dropped and missing fields filled in;
+ * the only image src kept from the model is the product photo token.
+ */
+export const parseSkuLayout = (output: string, style: string): SkuLayoutDocument => {
+  let raw: any;
+  try {
+    raw = JSON.parse(output.replace(/```json/g, '').replace(/```/g, '').trim());
+  } catch {
+    throw new SkuLayoutError('SKU layout is not valid JSON');
+  }
+  const sections = list(Array.isArray(raw) ? raw : raw?.sections, normalizeSection)
+    .filter((section): section is SkuLayoutSection => section !== null);
+  if (sections.length === 0) throw new SkuLayoutError('SKU layout has no sections of a known kind');
+  return mapSkuLayoutImages({ style, sections }, slot => ({ ...slot, src: slot.src === PRODUCT_IMAGE_TOKEN ? slot.src : null }));
+};
+
+export const isSkuLayoutHtml = (html: string) => /\bdata-sku-layout\b/.test(html);
+
+// Visible text of a layout page, skipping styles, number slots whose text is drawn (stars) and
+// text without letters (prices, icons)
+const textNodes = (body: HTMLElement) => {
+  const walker = body.ownerDocument.createTreeWalker(body, NodeFilter.SHOW_TEXT);
+  const nodes: Text[] = [];
+  while (walker.nextNode()) {
+    const node = walker.currentNode as Text;
+    const parent = node.parentElement;
+    if (!/\p{L}/u.test(node.data) || !parent || parent.closest('style, [data-value]')) continue;
+    nodes.push(node);
+  }
+  return nodes;
+};
+
+/** Every piece of visible text on a layout page, in document order. */
+export const collectSkuLayoutText = (html: string): string[] =>
+  textNodes(new DOMParser().parseFromString(html, 'text/html').body).map(node => node.data.trim());
+
+/**
+ * Put `texts` (as returned by `collectSkuLayoutText`, e.g. translated) back in place. Markup is
+ * never touched, so a translation cannot change the page structure.
+ */
+export const applySkuLayoutText = (html: string, texts: string[]): string => {
+  const body = new DOMParser().parseFromString(html, 'text/html').body;
+  const nodes = textNodes(body);
+  if (nodes.length !== texts.length) throw new SkuLayoutError(`Expected ${nodes.length} texts, got ${texts.length}`);
+  nodes.forEach((node, i) => {
+    const [, lead, trail] = node.data.match(/^(\s*)[\s\S]*?(\s*)$/)!;
+    node.data = `${lead}${texts[i]}${trail}`;
+  });
+  return body.innerHTML;
+};
@@ -0,0 +1,104 @@
+import { SkuSectionKind } from "../types";
+import { SKU_SECTION_KIND_LABELS } from "./skuLayout";
+
+/**
+ * Section-level edits on a generated SKU page. The page is one HTML document whose top-level
+ * `.sku-section` elements are the sections; they are addressed by their position in the page.
+ * Every edit returns new page HTML and leaves the other sections' markup exactly as it was.
+ */
+
+export interface SkuSectionSummary {
+  index: number;
+  label: string;
+  imageCount: number;
+}
+
+const SECTION_SELECTOR = '.sku-section';
+const LABEL_LENGTH = 24;
+
+const parsePage = (html: string) => new DOMParser().parseFromString(html, 'text/html').body;
+
+// Sections nested inside another section belong to it, not to the page outline
+const findSections = (body: HTMLElement): HTMLElement[] =>
+  Array.from(body.querySelectorAll<HTMLElement>(SECTION_SELECTOR))
+    .filter(section => !section.parentElement?.closest(SECTION_SELECTOR));
+
+const requireSection = (sections: HTMLElement[], index: number) => {
+  const section = sections[index];
+  if (!section) throw new Error(`SKU page has no section ${index + 1}`);
+  return section;
+};
+
+const clip = (text: string) => text.length > LABEL_LENGTH ? `${text.slice(0, LABEL_LENGTH)}…` : text;
+
+// Layout pages name the section kind ahead of its heading
+const labelOf = (section: HTMLElement) => {
+  const heading = section.querySelector('h1, h2, h3, h4');
+  const text = (heading?.textContent || section.textContent || '').replace(/\s+/g, ' ').trim();
+  const kind = SKU_SECTION_KIND_LABELS[section.dataset.sectionKind as SkuSectionKind];
+  const label = text ? clip(text) : '图片区块';
+  return kind ? `${kind} · ${label}` : label;
+};
+
+export const listSkuSections = (html: string): SkuSectionSummary[] =>
+  findSections(parsePage(html)).map((section, index) => ({
+    index,
+    label: labelOf(section),
+    imageCount: section.querySelectorAll('img').length,
+  }));
+
+export const getSkuSection = (html: string, index: number): string =>
+  requireSection(findSections(parsePage(html)), index).outerHTML;
+
+/**
+ * The page as a numbered list of section headings, with `target` marked; the context a
+ * single-section rewrite gets instead of the whole page.
+ */
+export const outlineSkuSections = (html: string, target: number): string =>
+  listSkuSections(html)
+    .map(section => `${section.index + 1}. ${section.label}${section.index === target ? '  ← 需要重写的区块' : ''}`)
+    .join('\n');
+
+/** Move section `from` so that it ends up at position `to`. */
+export const moveSkuSection = (html: string, from: number, to: number): string => {
+  const body = parsePage(html);
+  const sections = findSections(body);
+  const moving = requireSection(sections, from);
+  const anchor = requireSection(sections, to);
+  if (from === to) return html;
+  anchor.parentNode!.insertBefore(moving, from < to ? anchor.nextSibling : anchor);
+  return body.innerHTML;
+};
+
+export const duplicateSkuSection = (html: string, index: number): string => {
+  const body = parsePage(html);
+  const section = requireSection(findSections(body), index);
+  section.after(section.cloneNode(true));
+  return body.innerHTML;
+};
+
+export const removeSkuSection = (html: string, index: number): string => {
+  const body = parsePage(html);
+  requireSection(findSections(body), index).remove();
+  return body.innerHTML;
+};
+
+/**
+ * Put `sectionHtml` in place of section `index`. A rewrite that lost the section wrapper (or
+ * came back as several elements) is wrapped in one, so the page keeps the same section count.
+ */
+export const replaceSkuSection = (html: string, index: number, sectionHtml: string): string => {
+  const body = parsePage(html);
+  const section = requireSection(findSections(body), index);
+  const replacement = parsePage(sectionHtml);
+  const elements = Array.from(replacement.children);
+  if (elements.length === 1 && elements[0].matches(SECTION_SELECTOR)) {
+    section.replaceWith(elements[0]);
+  } else {
+    const wrapper = body.ownerDocument.createElement('div');
+    wrapper.className = 'sku-section relative overflow-hidden';
+    wrapper.append(...Array.from(replacement.childNodes));
+    section.replaceWith(wrapper);
+  }
+  return body.innerHTML;
+};
@@ -0,0 +1,37 @@
+/**
+ * Linear undo/redo history over immutable snapshots. Recording a new step drops whatever had
+ * been undone, like an editor's history.
+ */
+
+export interface UndoStack<T> {
+  past: T[]; // oldest first
+  present: T;
+  future: T[]; // next redo first
+}
+
+// Page snapshots can carry inline images, so the history is kept short
+const UNDO_LIMIT = 30;
+
+export const createUndoStack = <T>(present: T): UndoStack<T> => ({ past: [], present, future: [] });
+
+export const pushUndo = <T>(stack: UndoStack<T>, next: T): UndoStack<T> => ({
+  past: [...stack.past, stack.present].slice(-UNDO_LIMIT),
+  present: next,
+  future: [],
+});
+
+/** One step back; the same stack when there is nothing to undo. */
+export const undoStep = <T>(stack: UndoStack<T>): UndoStack<T> =>
+  stack.past.length === 0 ? stack : {
+    past: stack.past.slice(0, -1),
+    present: stack.past[stack.past.length - 1],
+    future: [stack.present, ...stack.future],
+  };
+
+/** One step forward; the same stack when there is nothing to redo. */
+export const redoStep = <T>(stack: UndoStack<T>): UndoStack<T> =>
+  stack.future.length === 0 ? stack : {
+    past: [...stack.past, stack.present],
+    present: stack.future[0],
+    future: stack.future.slice(1),
+  };
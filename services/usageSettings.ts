@@ -0,0 +1,73 @@
+export interface ModelPrice {
+  inputPerMillion: number; // USD per 1M input tokens
+  outputPerMillion: number; // USD per 1M output tokens, thinking included
+  perImage: number; // USD per generated image
+  perVideoSecond: number; // USD per second of generated video
+}
+
+export interface UsageSettings {
+  prices: Record<string, ModelPrice>; // by model id
+  dailyBudgets: Record<string, number>; // USD per calendar day, by user id (GUEST_BUDGET_KEY when signed out)
+}
+
+const USAGE_SETTINGS_STORAGE_KEY = 'jzt_usage_settings';
+
+export const GUEST_BUDGET_KEY = 'guest';
+
+const price = (inputPerMillion: number, outputPerMillion: number, perImage = 0, perVideoSecond = 0): ModelPrice =>
+  ({ inputPerMillion, outputPerMillion, perImage, perVideoSecond });
+
+/**
+ * Published list prices (USD, standard tier) for the models in MODEL_OPTIONS. Estimates only:
+ * search grounding fees and free-tier quotas are not modelled, and prices change.
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gemini-3-flash-preview': price(0.5, 3),
+  'gemini-3-pro-preview': price(2, 12),
+  'gemini-2.5-flash': price(0.3, 2.5),
+  'gemini-2.5-pro': price(1.25, 10),
+  'gemini-2.5-flash-image': price(0.3, 2.5, 0.039),
+  'gemini-3-pro-image-preview': price(2, 12, 0.134),
+  'veo-3.1-fast-generate-preview': price(0, 0, 0, 0.15),
+  'veo-3.1-generate-preview': price(0, 0, 0, 0.4),
+  'mock-fixture': price(0, 0),
+};
+
+export const DEFAULT_USAGE_SETTINGS: UsageSettings = {
+  prices: DEFAULT_MODEL_PRICES,
+  dailyBudgets: {},
+};
+
+// Merge over defaults so models added to the defaults later still get a price
+const loadUsageSettings = (): UsageSettings => {
+  try {
+    const raw = localStorage.getItem(USAGE_SETTINGS_STORAGE_KEY);
+    if (!raw) return DEFAULT_USAGE_SETTINGS;
+    const saved = JSON.parse(raw) as Partial<UsageSettings>;
+    return {
+      prices: { ...DEFAULT_MODEL_PRICES, ...saved.prices },
+      dailyBudgets: { ...saved.dailyBudgets },
+    };
+  } catch {
+    return DEFAULT_USAGE_SETTINGS;
+  }
+};
+
+let current: UsageSettings | null = null;
+
+export const getUsageSettings = (): UsageSettings => {
+  if (!current) current = loadUsageSettings();
+  return current;
+};
+
+export const saveUsageSettings = (settings: UsageSettings) => {
+  current = settings;
+  localStorage.setItem(USAGE_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const getBudgetKey = (userId?: string) => userId || GUEST_BUDGET_KEY;
+
+/**
+ * Daily budget for a user in USD, or undefined when none is set.
+ */
+export const getDailyBudget = (userId?: string): number | undefined => getUsageSettings().dailyBudgets[getBudgetKey(userId)];
@@ -0,0 +1,117 @@
+import { AppMode } from "../types";
+import type { AiProviderId, ProviderUsage, TextTask } from "./aiProvider";
+import { USAGE_STORE, openDb, requestToPromise, transactionDone } from "./db";
+import { ModelPrice, getDailyBudget, getUsageSettings } from "./usageSettings";
+
+/**
+ * Log of every model call that reported usage, attributed to a user, product and mode.
+ * Records keep raw counts; cost is estimated from the current price table when read, so
+ * correcting a price also corrects past spend. Cache hits make no call and record nothing.
+ */
+
+export interface UsageAttribution {
+  userId?: string;
+  productId?: string;
+  mode: AppMode;
+}
+
+export type UsageTask = 'analysis' | TextTask | 'image' | 'video' | 'chat';
+
+export interface UsageRecord extends ProviderUsage, Partial<UsageAttribution> {
+  id: string;
+  timestamp: number;
+  task: UsageTask;
+  providerId: AiProviderId;
+  model: string;
+}
+
+export class BudgetExceededError extends Error {
+  readonly spent: number;
+  readonly budget: number;
+
+  constructor(spent: number, budget: number) {
+    super(`Daily budget of $${budget.toFixed(2)} reached ($${spent.toFixed(2)} spent today)`);
+    this.name = 'BudgetExceededError';
+    this.spent = spent;
+    this.budget = budget;
+  }
+}
+
+type UsageListener = (record: UsageRecord) => void;
+
+const listeners = new Set<UsageListener>();
+
+export const subscribeUsage = (listener: UsageListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const recordUsage = async (entry: Omit<UsageRecord, 'id' | 'timestamp'>) => {
+  const timestamp = Date.now();
+  const record: UsageRecord = { ...entry, id: `usage_${timestamp}_${Math.random().toString(36).substr(2, 5)}`, timestamp };
+  const db = await openDb();
+  const tx = db.transaction(USAGE_STORE, 'readwrite');
+  tx.objectStore(USAGE_STORE).put(record);
+  await transactionDone(tx);
+  listeners.forEach(listener => listener(record));
+};
+
+/**
+ * Every record since `since` (ms timestamp), oldest first.
+ */
+export const loadUsage = async (since: number): Promise<UsageRecord[]> => {
+  const db = await openDb();
+  const tx = db.transaction(USAGE_STORE, 'readonly');
+  return requestToPromise<UsageRecord[]>(tx.objectStore(USAGE_STORE).index('timestamp').getAll(IDBKeyRange.lowerBound(since)));
+};
+
+export const clearUsage = async () => {
+  const db = await openDb();
+  const tx = db.transaction(USAGE_STORE, 'readwrite');
+  tx.objectStore(USAGE_STORE).clear();
+  await transactionDone(tx);
+};
+
+/**
+ * Estimated USD cost of one record, or null when its model has no price.
+ */
+export const estimateCost = (record: UsageRecord, prices: Record<string, ModelPrice> = getUsageSettings().prices): number | null => {
+  const price = prices[record.model];
+  if (!price) return null;
+  return (record.inputTokens * price.inputPerMillion + record.outputTokens * price.outputPerMillion) / 1_000_000
+    + (record.images || 0) * price.perImage
+    + (record.videoSeconds || 0) * price.perVideoSecond;
+};
+
+export const startOfDay = (timestamp = Date.now()) => {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+// Guest records have no userId
+export const isUsageOf = (record: UsageRecord, userId?: string) => (record.userId || undefined) === userId;
+
+export const getTodaySpend = async (userId?: string) => {
+  const records = await loadUsage(startOfDay());
+  return records.filter(record => isUsageOf(record, userId)).reduce((sum, record) => sum + (estimateCost(record) || 0), 0);
+};
+
+/**
+ * Throw `BudgetExceededError` when the user has a daily budget and today's spend has reached it.
+ * If the usage log cannot be read the check passes; a storage failure should not stop work.
+ */
+export const assertWithinDailyBudget = async (userId?: string) => {
+  const budget = getDailyBudget(userId);
+  if (budget === undefined) return;
+  let spent: number;
+  try {
+    spent = await getTodaySpend(userId);
+  } catch (error) {
+    console.error("Failed to read usage for the budget check:", error);
+    return;
+  }
+  if (spent >= budget) throw new BudgetExceededError(spent, budget);
+};
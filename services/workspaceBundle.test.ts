@@ -0,0 +1,109 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import JSZip from 'jszip';
+import { AppMode, HistoryItem, ProductWorkspace } from '../types';
+import { HISTORY_SCHEMA_VERSION } from './historyPayload';
+import { BUNDLE_FORMAT_VERSION, BundleError, buildWorkspaceBundle, readWorkspaceBundle } from './workspaceBundle';
+
+const PNG = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==';
+const JPEG = 'data:image/jpeg;base64,/9j/4AAQSkZJRgABAQAAAQABAAD/2wBDAAgGBgcGBQgHBwcJCQgKDBQNDAsLDBkSEw8UHRofHh0aHBwg';
+
+const html = `<div><img src="${PNG}"><img src="${JPEG}"></div>`;
+
+const product: ProductWorkspace = {
+  id: 'p_1',
+  name: '保温杯',
+  createdAt: 1,
+  updatedAt: 2,
+  images: [{ id: 'img_1', dataUrl: PNG, mimeType: 'image/png', role: 'main' }],
+  analyses: {},
+  assets: [PNG],
+  editedImageUrl: null,
+  batchImages: [],
+  heroDesigns: [{ id: 'page_1', html, language: 'th', variants: { th: html }, style: 'Promotion', createdAt: 3 }],
+  skuPages: [],
+  videos: [],
+  calculatorScenarios: {}
+};
+
+const item: HistoryItem = {
+  id: 'h_1',
+  timestamp: 4,
+  mode: AppMode.HERO_DESIGN,
+  title: '产品首图 (Promotion)',
+  thumbnail: PNG,
+  schemaVersion: HISTORY_SCHEMA_VERSION,
+  productId: 'p_1',
+  payload: { kind: 'hero', html, language: 'th', style: 'Promotion' },
+  lastAccessed: 5,
+  sizeBytes: 6
+};
+
+const readManifest = async (bundle: Blob) =>
+  JSON.parse(await (await JSZip.loadAsync(bundle)).file('manifest.json')!.async('string'));
+
+const bundleWith = async (overrides: Record<string, unknown>) => {
+  const zip = new JSZip();
+  zip.file('manifest.json', JSON.stringify({
+    format: 'jingzhitong-bundle',
+    formatVersion: BUNDLE_FORMAT_VERSION,
+    historySchemaVersion: HISTORY_SCHEMA_VERSION,
+    exportedAt: new Date(0).toISOString(),
+    products: [],
+    history: [],
+    assets: [],
+    ...overrides
+  }));
+  return zip.generateAsync({ type: 'blob' });
+};
+
+const noneExisting = { productIds: [], historyIds: [] };
+
+test('embedded images are stored once as asset files and referenced from the manifest', async () => {
+  const manifest = await readManifest(await buildWorkspaceBundle({ products: [product], history: [item] }));
+  assert.deepEqual(manifest.assets, [
+    { path: 'assets/0.png', mimeType: 'image/png' },
+    { path: 'assets/1.jpg', mimeType: 'image/jpeg' }
+  ]);
+  assert.equal(manifest.products[0].images[0].dataUrl, 'jzt-asset:assets/0.png');
+  assert.equal(manifest.history[0].payload.html, '<div><img src="jzt-asset:assets/0.png"><img src="jzt-asset:assets/1.jpg"></div>');
+  assert.doesNotMatch(JSON.stringify(manifest), /data:image/);
+});
+
+test('a bundle reads back to the products and history it was built from', async () => {
+  const bundle = await buildWorkspaceBundle({ products: [product], history: [item] });
+  const result = await readWorkspaceBundle(bundle, noneExisting);
+  const { lastAccessed: _a, sizeBytes: _s, ...portable } = item;
+  assert.deepEqual(result, { products: [product], history: [portable], renamedIds: 0 });
+});
+
+test('colliding ids are renamed and history keeps pointing at its product', async () => {
+  const other: HistoryItem = { ...item, id: 'h_2', productId: 'p_elsewhere' };
+  const bundle = await buildWorkspaceBundle({ products: [product], history: [item, other] });
+  const result = await readWorkspaceBundle(bundle, { productIds: ['p_1'], historyIds: ['h_1'] });
+
+  const [imported] = result.products;
+  assert.notEqual(imported.id, 'p_1');
+  assert.equal(result.history[0].productId, imported.id);
+  assert.notEqual(result.history[0].id, 'h_1');
+  assert.equal(result.history[1].id, 'h_2');
+  assert.equal(result.history[1].productId, 'p_elsewhere');
+  assert.equal(result.renamedIds, 2);
+});
+
+test('bundles from a newer build are rejected', async () => {
+  await assert.rejects(
+    readWorkspaceBundle(await bundleWith({ formatVersion: BUNDLE_FORMAT_VERSION + 1 }), noneExisting),
+    (error: BundleError) => error instanceof BundleError && /formatVersion \d+ is newer/.test(error.issues.join())
+  );
+  await assert.rejects(
+    readWorkspaceBundle(await bundleWith({ historySchemaVersion: HISTORY_SCHEMA_VERSION + 1 }), noneExisting),
+    (error: BundleError) => error instanceof BundleError && /history schema \d+ is newer/.test(error.issues.join())
+  );
+});
+
+test('a manifest that is not an object is rejected rather than read', async () => {
+  const zip = new JSZip();
+  zip.file('manifest.json', 'null');
+  await assert.rejects(readWorkspaceBundle(await zip.generateAsync({ type: 'blob' }), noneExisting), BundleError);
+});
@@ -0,0 +1,239 @@
+import JSZip from "jszip";
+import { HistoryItem, HistoryPayload, ProductWorkspace } from "../types";
+import { HISTORY_SCHEMA_VERSION, migrateHistoryPayload } from "./historyPayload";
+import { migrateProduct } from "./productStore";
+
+/**
+ * Portable `.jzt` bundle: a zip with `manifest.json` plus every embedded image / video
+ * stored as a binary file under `assets/`. Inside the manifest, binaries are referenced
+ * as `jzt-asset:assets/<n>.<ext>`, including data URLs embedded in hero / SKU HTML.
+ */
+
+const BUNDLE_FORMAT = 'jingzhitong-bundle';
+export const BUNDLE_FORMAT_VERSION = 1;
+export const BUNDLE_FILE_EXTENSION = '.jzt';
+
+const ASSET_SCHEME = 'jzt-asset:';
+const DATA_URL_REGEX = /data:([\w.+-]+\/[\w.+-]+);base64,([A-Za-z0-9+/=]+)/g;
+const ASSET_REF_REGEX = /jzt-asset:(assets\/[\w.-]+)/g;
+
+export class BundleError extends Error {
+  readonly issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(issues.length > 0 ? `${message}: ${issues.join('; ')}` : message);
+    this.name = 'BundleError';
+    this.issues = issues;
+  }
+}
+
+interface BundleAsset {
+  path: string;
+  mimeType: string;
+}
+
+interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  formatVersion: number;
+  historySchemaVersion: number;
+  exportedAt: string;
+  products: ProductWorkspace[];
+  history: HistoryItem[]; // always carries `payload`
+  assets: BundleAsset[];
+}
+
+export interface WorkspaceBundle {
+  products: ProductWorkspace[];
+  history: HistoryItem[];
+}
+
+export interface BundleImportResult extends WorkspaceBundle {
+  renamedIds: number; // items that collided with existing ids and were given new ones
+}
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+  'image/svg+xml': 'svg',
+};
+
+const getExtension = (mimeType: string) => MIME_EXTENSIONS[mimeType] || 'bin';
+
+const newId = (prefix: string) => `${prefix}${Date.now()}_${Math.random().toString(36).substr(2, 5)}`;
+
+class AssetPacker {
+  readonly assets: BundleAsset[] = [];
+  private readonly byContent = new Map<string, string>();
+
+  constructor(private readonly zip: JSZip) {}
+
+  private add(key: string, mimeType: string, data: string | Blob, base64: boolean) {
+    const existing = this.byContent.get(key);
+    if (existing) return existing;
+    const path = `assets/${this.assets.length}.${getExtension(mimeType)}`;
+    this.zip.file(path, data, { base64 });
+    this.assets.push({ path, mimeType });
+    this.byContent.set(key, path);
+    return path;
+  }
+
+  // Object URLs only live for this page session, so their bytes have to be read now
+  private async packObjectUrl(url: string) {
+    const blob = await (await fetch(url)).blob();
+    return `${ASSET_SCHEME}${this.add(url, blob.type || 'application/octet-stream', blob, false)}`;
+  }
+
+  async pack(value: unknown): Promise<unknown> {
+    if (typeof value === 'string') {
+      if (value.startsWith('blob:')) return this.packObjectUrl(value);
+      return value.replace(DATA_URL_REGEX, (match, mimeType: string, base64: string) =>
+        `${ASSET_SCHEME}${this.add(match, mimeType, base64, true)}`);
+    }
+    if (Array.isArray(value)) return Promise.all(value.map(v => this.pack(v)));
+    if (value && typeof value === 'object') {
+      const entries = await Promise.all(Object.entries(value).map(async ([k, v]) => [k, await this.pack(v)] as const));
+      return Object.fromEntries(entries);
+    }
+    return value;
+  }
+}
+
+/**
+ * Build a bundle. History items must already carry their `payload`.
+ */
+export const buildWorkspaceBundle = async ({ products, history }: WorkspaceBundle): Promise<Blob> => {
+  const missing = history.filter(item => !item.payload).map(item => item.title);
+  if (missing.length > 0) throw new BundleError('History items without payload', missing);
+
+  const zip = new JSZip();
+  const packer = new AssetPacker(zip);
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    formatVersion: BUNDLE_FORMAT_VERSION,
+    historySchemaVersion: HISTORY_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    products: await packer.pack(products) as ProductWorkspace[],
+    // Local bookkeeping does not travel with the bundle
+    history: await packer.pack(history.map(({ lastAccessed: _a, sizeBytes: _s, ...item }) => item)) as HistoryItem[],
+    assets: packer.assets
+  };
+  zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+};
+
+export const downloadWorkspaceBundle = (blob: Blob, name: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = `${name.replace(/[\\/:*?"<>|]/g, '_')}${BUNDLE_FILE_EXTENSION}`;
+  link.href = url;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const validateManifest = (raw: unknown): BundleManifest => {
+  const manifest: Partial<Record<keyof BundleManifest, unknown>> = raw && typeof raw === 'object' ? raw : {};
+  const { formatVersion, historySchemaVersion } = manifest;
+  const issues: string[] = [];
+  if (manifest.format !== BUNDLE_FORMAT) issues.push('not a 境智通 bundle');
+  if (typeof formatVersion !== 'number') issues.push('formatVersion missing');
+  else if (formatVersion > BUNDLE_FORMAT_VERSION) issues.push(`formatVersion ${formatVersion} is newer than supported (${BUNDLE_FORMAT_VERSION})`);
+  if (typeof historySchemaVersion !== 'number') issues.push('historySchemaVersion missing');
+  else if (historySchemaVersion > HISTORY_SCHEMA_VERSION) issues.push(`history schema ${historySchemaVersion} is newer than supported (${HISTORY_SCHEMA_VERSION})`);
+  if (!Array.isArray(manifest.products)) issues.push('products must be an array');
+  if (!Array.isArray(manifest.history)) issues.push('history must be an array');
+  if (!Array.isArray(manifest.assets)) issues.push('assets must be an array');
+  if (issues.length > 0) throw new BundleError('Invalid bundle manifest', issues);
+  return manifest as BundleManifest;
+};
+
+const unpackAssets = async (zip: JSZip, assets: BundleAsset[]) => {
+  const dataUrls = new Map<string, string>();
+  const missing: string[] = [];
+  await Promise.all(assets.map(async asset => {
+    const file = zip.file(asset.path);
+    if (!file) {
+      missing.push(asset.path);
+      return;
+    }
+    dataUrls.set(asset.path, `data:${asset.mimeType};base64,${await file.async('base64')}`);
+  }));
+  if (missing.length > 0) throw new BundleError('Bundle is missing asset files', missing);
+  return dataUrls;
+};
+
+const unpackValue = (value: unknown, dataUrls: Map<string, string>): unknown => {
+  if (typeof value === 'string') {
+    return value.replace(ASSET_REF_REGEX, (match, path: string) => dataUrls.get(path) ?? match);
+  }
+  if (Array.isArray(value)) return value.map(v => unpackValue(v, dataUrls));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, unpackValue(v, dataUrls)]));
+  }
+  return value;
+};
+
+/**
+ * Read a bundle, migrating history payloads to the current schema and giving fresh ids to
+ * products / history items that already exist locally (history keeps pointing at its product).
+ */
+export const readWorkspaceBundle = async (
+  file: Blob,
+  existing: { productIds: string[]; historyIds: string[] }
+): Promise<BundleImportResult> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch {
+    throw new BundleError('File is not a valid zip archive');
+  }
+  const manifestFile = zip.file('manifest.json');
+  if (!manifestFile) throw new BundleError('manifest.json not found');
+
+  let rawManifest: unknown;
+  try {
+    rawManifest = JSON.parse(await manifestFile.async('string'));
+  } catch {
+    throw new BundleError('manifest.json is not valid JSON');
+  }
+  const manifest = validateManifest(rawManifest);
+  const dataUrls = await unpackAssets(zip, manifest.assets);
+
+  let renamedIds = 0;
+  const productIdMap = new Map<string, string>();
+  const products = manifest.products.map(raw => {
+    const product = migrateProduct(unpackValue(raw, dataUrls) as ProductWorkspace);
+    if (!existing.productIds.includes(product.id)) return product;
+    const id = newId('p_');
+    productIdMap.set(product.id, id);
+    renamedIds++;
+    return { ...product, id };
+  });
+
+  const issues: string[] = [];
+  const history = manifest.history.flatMap((raw): HistoryItem[] => {
+    const item = unpackValue(raw, dataUrls) as HistoryItem;
+    let payload: HistoryPayload;
+    try {
+      payload = migrateHistoryPayload(item.schemaVersion ?? 1, item.mode, item.title, item.payload, item.market);
+    } catch (error) {
+      issues.push(`${item.title}: ${(error as Error).message}`);
+      return [];
+    }
+    const collides = existing.historyIds.includes(item.id);
+    if (collides) renamedIds++;
+    return [{
+      ...item,
+      id: collides ? newId('') : item.id,
+      productId: item.productId ? productIdMap.get(item.productId) ?? item.productId : undefined,
+      schemaVersion: HISTORY_SCHEMA_VERSION,
+      payload
+    }];
+  });
+  if (issues.length > 0) throw new BundleError('Some history items could not be migrated', issues);
+
+  return { products, history, renamedIds };
+};
@@ -1,21 +1,61 @@
+import type { VideoOperation } from "./services/aiProvider";
+import type { RetryInfo } from "./services/requestControl";
+
 export enum AppMode {
   ANALYSIS = 'ANALYSIS',
   LIVE_AGENT = 'LIVE_AGENT',
   HERO_DESIGN = 'HERO_DESIGN',
   IMAGE_EDIT = 'IMAGE_EDIT',
   VEO_VIDEO = 'VEO_VIDEO',
-  CALCULATOR = 'CALCULATOR'
+  CALCULATOR = 'CALCULATOR',
+  USAGE = 'USAGE',
+  SETTINGS = 'SETTINGS'
+}
+
+export type TargetMarket = 'TH' | 'PH' | 'VN' | 'MY' | 'SG' | 'ID' | 'TW' | 'KH';
+
+export type ProductImageRole = 'main' | 'detail' | 'packaging' | 'label';
+
+export interface ProductImage {
+  id: string;
+  dataUrl: string; // Full data URI, e.g. data:image/png;base64,...
+  mimeType: string;
+  role: ProductImageRole;
+}
+
+export interface ReportSection {
+  heading: string;
+  body: string; // Markdown
+}
+
+export interface PlatformPriceRange {
+  platform: string;
+  minPrice: number;
+  maxPrice: number;
+  currency: string; // ISO 4217 code, e.g. THB
+  sourceIndices: number[]; // Indices into AnalysisData.groundingChunks backing this price; empty = unverified
 }
 
-export type TargetMarket = 'TH' | 'PH' | 'VN' | 'MY' | 'SG' | 'ID';
+export interface MarketKeyword {
+  term: string;
+  language: string; // BCP 47 tag, e.g. th, vi, en, tl
+}
+
+export interface RecommendationRating {
+  stars: number; // 1-5
+  reason: string;
+}
 
 export interface AnalysisData {
-  text: string;
+  text: string; // Markdown rendering of `sections`, kept for display and chat context
+  sections: ReportSection[];
+  priceData: PlatformPriceRange[];
+  keywords: MarketKeyword[];
+  culturalRisks: string[];
+  rating: RecommendationRating;
   groundingChunks?: Array<{
     web?: { uri: string; title: string };
   }>;
-  priceData?: Array<{ name: string; price: number }>;
-  keywords?: string[]; 
 }
 
 export interface VideoGenerationState {
@@ -36,23 +76,189 @@ export interface User {
   type: 'wechat' | 'phone';
 }
 
+// Language of generated page copy. Pages are generated in Simplified Chinese ('zh') and translated from it.
+export type ContentLanguage = 'zh' | 'zh-TW' | 'th' | 'vi' | 'id' | 'ms' | 'en' | 'tl' | 'km';
+
+export type PageVariants = Partial<Record<ContentLanguage, string>>;
+
+export type LogisticsChannel = 'standard' | 'land' | 'air' | 'sea';
+export type ShippingZone = 'A' | 'B' | 'C' | 'D';
+
+export interface BatchImage {
+  id: string;
+  label: string;
+  url: string;
+}
+
+export interface CalculatorScenario {
+  costCNY: number;
+  weightKg: number;
+  length: number;
+  width: number;
+  height: number;
+  targetMargin: number; // %
+  platformFeePercent: number; // %
+  channel: LogisticsChannel;
+  zone: ShippingZone;
+}
+
+// Surface token for a section; each SKU style maps it to its own palette
+export type SkuTone = 'base' | 'alt' | 'emphasis';
+
+export interface SkuImageSlot {
+  hint: string; // what the image should show, e.g. "Lifestyle Scenario"
+  src: string | null; // null while the slot is empty
+}
+
+/** One section of a structured SKU page: text slots, image slots and a tone. */
+export type SkuLayoutSection = { id: string; tone: SkuTone } & (
+  | { kind: 'hero'; eyebrow: string; title: string; subtitle: string; badges: string[]; image: SkuImageSlot }
+  | { kind: 'painPoints'; title: string; items: Array<{ problem: string; solution: string }> }
+  | { kind: 'features'; title: string; items: Array<{ title: string; body: string; image: SkuImageSlot }> }
+  | { kind: 'comparison'; title: string; oursLabel: string; othersLabel: string; rows: Array<{ aspect: string; ours: string; others: string }> }
+  | { kind: 'reviews'; title: string; items: Array<{ author: string; body: string; rating: number }> }
+  | { kind: 'certificates'; title: string; items: Array<{ name: string; detail: string; image: SkuImageSlot }> }
+  | { kind: 'offer'; title: string; price: string; originalPrice: string; perks: string[]; cta: string }
+);
+
+export type SkuSectionKind = SkuLayoutSection['kind'];
+
+/** A SKU page as typed sections, drawn by the renderer for `style`. */
+export interface SkuLayoutDocument {
+  style: string;
+  sections: SkuLayoutSection[];
+}
+
+export interface GeneratedPage {
+  id: string;
+  html: string; // the variant open in the editor
+  language: ContentLanguage; // language of `html`
+  variants: PageVariants; // one HTML per language, `language` included
+  style: string;
+  createdAt: number;
+}
+
+export interface ProductVideo {
+  id: string;
+  url: string;
+  aspectRatio: '16:9' | '9:16';
+  createdAt: number;
+}
+
+/**
+ * Everything produced for one product. Switching products swaps the whole workspace in and out of the editor.
+ */
+export interface ProductWorkspace {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  images: ProductImage[];
+  analyses: Partial<Record<TargetMarket, AnalysisData>>;
+  assets: string[]; // Asset library: uploads plus edited / batch-generated images
+  editedImageUrl: string | null;
+  batchImages: BatchImage[];
+  heroDesigns: GeneratedPage[]; // Newest last; the last entry is the one open in the editor
+  skuPages: GeneratedPage[];
+  videos: ProductVideo[];
+  calculatorScenarios: Partial<Record<TargetMarket, CalculatorScenario>>;
+}
+
+/**
+ * What a history item restores. `kind` decides the restore target; no payload shape is inferred.
+ */
+export type HistoryPayload =
+  | { kind: 'analysis'; analysis: AnalysisData }
+  | { kind: 'video'; videoUrl: string; aspectRatio: '16:9' | '9:16' }
+  | { kind: 'editedImage'; imageUrl: string; prompt: string }
+  | { kind: 'batchSet'; images: BatchImage[] }
+  | { kind: 'skuPage'; html: string; language: ContentLanguage; style: string }
+  | { kind: 'hero'; html: string; language: ContentLanguage; style: string }
+  | { kind: 'calculatorScenario'; scenario: CalculatorScenario };
+
+export type HistoryPayloadKind = HistoryPayload['kind'];
+
+export type HistoryItemMeta = Pick<HistoryItem, 'tags' | 'starred'>;
+
 export interface HistoryItem {
   id: string;
   timestamp: number;
   mode: AppMode;
   title: string;
   thumbnail?: string; // Base64 string for preview
-  data: any; // Store analysis result or video URL
+  schemaVersion: number;
+  payload?: HistoryPayload; // Loaded lazily for items read back from storage
   market?: TargetMarket; // Track which market this history item belongs to
+  productId?: string; // Workspace the item was produced in
+  tags?: string[];
+  starred?: boolean;
+  searchText?: string; // Lower-cased keywords / report text, so the list can be searched without loading payloads
+  origin?: string; // Fingerprint of a page as generated, so the same page served from cache finds this entry
+  lastAccessed?: number; // Used for LRU eviction of persisted history
+  sizeBytes?: number; // Persisted size of thumbnail + payload blobs
 }
 
-// Helper types for AI Studio
-declare global {
-  interface AIStudio {
-    hasSelectedApiKey: () => Promise<boolean>;
-    openSelectKey: () => Promise<void>;
-  }
+export type BackgroundJobStatus = 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface PageJobInput {
+  images: ProductImage[];
+  analysisContext: string;
+  style: string;
+  prompt: string;
+  forceRefresh?: boolean; // bypass the response cache
+}
+
+export interface PageJobResult {
+  html: string;
+  cachedAt?: number; // set when served from the response cache
+}
+
+// SKU jobs produce a layout document, which the editor renders; pages from prompt versions that still ask for HTML come back as `html`
+export type SkuJobResult = ({ layout: SkuLayoutDocument } | { html: string }) & { cachedAt?: number };
 
+/**
+ * What a background job runs and what it produced. Inputs are self-contained, so a job can be
+ * resumed or retried after a reload without the editor state it was started from.
+ */
+export type BackgroundJobSpec =
+  | {
+      kind: 'video';
+      input: { image: ProductImage; prompt: string; aspectRatio: '16:9' | '9:16' };
+      operation?: VideoOperation; // set once started; polling resumes from here
+      result?: { videoUrl: string };
+    }
+  | {
+      kind: 'batchImages';
+      input: { image: ProductImage; prompts: Array<{ id: string; label: string; prompt: string }> };
+      result?: { images: BatchImage[] };
+    }
+  | { kind: 'hero'; input: PageJobInput; result?: PageJobResult }
+  | { kind: 'sku'; input: PageJobInput; result?: SkuJobResult }
+  | {
+      kind: 'compare';
+      input: { images: ProductImage[]; prompt: string; markets: TargetMarket[] };
+      // Filled in market by market; a resumed job only re-runs markets without an analysis
+      result?: { analyses: Partial<Record<TargetMarket, AnalysisData>>; errors: Partial<Record<TargetMarket, string>> };
+      savedMarkets?: TargetMarket[]; // analyses recorded in history, with the job or by hand
+    };
+
+export type BackgroundJobKind = BackgroundJobSpec['kind'];
+
+export type BackgroundJob = BackgroundJobSpec & {
+  id: string;
+  userId?: string; // guest jobs are kept in memory only
+  productId?: string;
+  market: TargetMarket;
+  title: string;
+  status: BackgroundJobStatus;
+  createdAt: number;
+  updatedAt: number;
+  error?: string; // user-facing reason when failed
+  attached?: boolean; // result written into the product and history
+  retry?: RetryInfo & { retryAt: number }; // pending backoff; not persisted
+};
+
+declare global {
   interface Window {
     webkitAudioContext: typeof AudioContext;
   }